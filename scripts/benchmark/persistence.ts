@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { NormalizedListing } from '@/types/processor';
+
+export type PersistStrategy = 'row' | 'transaction' | 'batch';
+
+export const PERSIST_STRATEGIES: PersistStrategy[] = ['row', 'transaction', 'batch'];
+
+/** Every benchmark row is written under this provider so it can be cleaned up */
+export const BENCHMARK_PROVIDER_ID = 'benchmark';
+
+type ListingRow = Prisma.ListingUncheckedCreateInput & { id: string };
+
+/**
+ * Map a normalized listing to a `Listing` row
+ * @param {NormalizedListing} listing - Processor output
+ * @returns {ListingRow} Row ready for create/upsert
+ */
+export function toListingRow(listing: NormalizedListing): ListingRow {
+  const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+  return {
+    id: randomUUID(),
+    mlsProviderId: BENCHMARK_PROVIDER_ID,
+    mlsInstanceId: listing.mlsInstanceId,
+    mlsListingId: listing.mlsListingId,
+    rawDataId: listing.rawDataId,
+    rawDataHash: listing.rawDataHash,
+    parcelNumber: listing.parcelNumber,
+    zipCode: listing.zipCode,
+    unitNumber: listing.unitNumber,
+    status: listing.status,
+    price: listing.price,
+    propertyType: listing.propertyType,
+    propertySubType: listing.propertySubType,
+    bedrooms: listing.bedrooms,
+    bathrooms: listing.bathrooms,
+    squareFeet: listing.squareFeet,
+    yearBuilt: listing.yearBuilt,
+    lotSizeSquareFeet: listing.lotSizeSquareFeet,
+    lotSizeAcres: listing.lotSizeAcres,
+    stories: listing.stories,
+    address: listing.address,
+    streetAddress: listing.streetAddress,
+    city: listing.city,
+    state: listing.state,
+    latitude: listing.latitude,
+    longitude: listing.longitude,
+    monthlyHoa: listing.monthlyHoa,
+    hasPool: listing.hasPool,
+    listedAt: toDate(listing.listedAt),
+    lastStatusChange: toDate(listing.lastStatusChange),
+    lastMlsUpdate: toDate(listing.lastMlsUpdate),
+    photoUrls: listing.photoUrls,
+    agentName: listing.agentName,
+    agentEmail: listing.agentEmail,
+    agentPhone: listing.agentPhone,
+    agentOfficeName: listing.agentOfficeName,
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Keep the last row for each (zipCode, parcelNumber, unitNumber) key.
+ * A single INSERT ... ON CONFLICT statement fails if it touches the same key
+ * twice, so batches must be unique on the constraint before they are sent.
+ * @param {ListingRow[]} rows - Rows in feed order
+ * @returns {ListingRow[]} Rows unique on the Listing unique key
+ */
+export function dedupeByPropertyKey(rows: ListingRow[]): ListingRow[] {
+  const byKey = new Map<string, ListingRow>();
+  for (const row of rows) {
+    byKey.set(`${row.zipCode}|${row.parcelNumber}|${row.unitNumber ?? ''}`, row);
+  }
+  return Array.from(byKey.values());
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+const upsertArgs = ({ id, ...update }: ListingRow): Prisma.ListingUpsertArgs => ({
+  where: {
+    zipCode_parcelNumber_unitNumber: {
+      zipCode: update.zipCode,
+      parcelNumber: update.parcelNumber,
+      unitNumber: update.unitNumber ?? '',
+    },
+  },
+  create: { id, ...update },
+  update,
+});
+
+// Columns written by the raw batched upsert, with the casts Postgres needs for bound parameters
+const RAW_COLUMNS: Array<[keyof ListingRow, string?]> = [
+  ['id'], ['mlsProviderId'], ['mlsInstanceId'], ['mlsListingId'], ['rawDataId'], ['rawDataHash'],
+  ['parcelNumber'], ['zipCode'], ['unitNumber'], ['status', '"ListingStatus"'], ['price', 'decimal'],
+  ['propertyType', '"PropertyType"'], ['propertySubType'], ['bedrooms', 'int'], ['bathrooms', 'decimal'],
+  ['squareFeet', 'int'], ['yearBuilt', 'int'], ['lotSizeSquareFeet', 'int'], ['lotSizeAcres', 'decimal'],
+  ['stories', 'int'], ['address'], ['streetAddress'], ['city'], ['state'], ['latitude', 'decimal'],
+  ['longitude', 'decimal'], ['monthlyHoa', 'decimal'], ['hasPool', 'boolean'], ['listedAt', 'timestamp'],
+  ['lastStatusChange', 'timestamp'], ['lastMlsUpdate', 'timestamp'], ['photoUrls', 'text[]'], ['agentName'],
+  ['agentEmail'], ['agentPhone'], ['agentOfficeName'], ['updatedAt', 'timestamp'],
+];
+
+const rawColumnList = Prisma.raw(RAW_COLUMNS.map(([column]) => `"${column}"`).join(', '));
+const rawUpdateList = Prisma.raw(
+  RAW_COLUMNS
+    .filter(([column]) => column !== 'id')
+    .map(([column]) => `"${column}" = EXCLUDED."${column}"`)
+    .join(', ')
+);
+
+const rawValues = (row: ListingRow) =>
+  Prisma.sql`(${Prisma.join(
+    RAW_COLUMNS.map(([column, cast]) => {
+      const value = row[column] ?? null;
+      return cast ? Prisma.sql`${value}::${Prisma.raw(cast)}` : Prisma.sql`${value}`;
+    })
+  )})`;
+
+/**
+ * Write rows with one of the benchmarked strategies:
+ * - `row`: one `upsert` per listing, each its own round trip and implicit transaction
+ * - `transaction`: `upsert`s grouped into `$transaction` batches of `batchSize`
+ * - `batch`: a single `INSERT ... ON CONFLICT DO UPDATE` statement per `batchSize` rows
+ *
+ * @param {PrismaClient} prisma - Client pointed at the benchmark database
+ * @param {PersistStrategy} strategy - Write strategy
+ * @param {ListingRow[]} rows - Rows unique on the Listing unique key
+ * @param {number} batchSize - Rows per transaction or statement
+ * @returns {Promise<number>} Number of statements sent to the database
+ */
+export async function persistListings(
+  prisma: PrismaClient,
+  strategy: PersistStrategy,
+  rows: ListingRow[],
+  batchSize: number
+): Promise<number> {
+  if (strategy === 'row') {
+    for (const row of rows) {
+      await prisma.listing.upsert(upsertArgs(row));
+    }
+    return rows.length;
+  }
+
+  const batches = chunk(rows, batchSize);
+
+  if (strategy === 'transaction') {
+    for (const batch of batches) {
+      await prisma.$transaction(batch.map(row => prisma.listing.upsert(upsertArgs(row))));
+    }
+    return rows.length;
+  }
+
+  for (const batch of batches) {
+    await prisma.$executeRaw`
+      INSERT INTO "Listing" (${rawColumnList})
+      VALUES ${Prisma.join(batch.map(rawValues))}
+      ON CONFLICT ("zipCode", "parcelNumber", "unitNumber") DO UPDATE SET ${rawUpdateList}
+    `;
+  }
+  return batches.length;
+}
+
+/**
+ * Remove every listing written by the benchmark
+ * @param {PrismaClient} prisma - Client pointed at the benchmark database
+ * @returns {Promise<number>} Rows deleted
+ */
+export async function clearBenchmarkListings(prisma: PrismaClient): Promise<number> {
+  const { count } = await prisma.listing.deleteMany({ where: { mlsProviderId: BENCHMARK_PROVIDER_ID } });
+  return count;
+}
@@ -0,0 +1,160 @@
+/**
+ * Benchmark the RawListingData -> Listing pipeline on synthetic batches.
+ *
+ *   BENCHMARK_DATABASE_URL=postgresql://localhost:5432/roots_bench pnpm benchmark
+ *   pnpm benchmark --count 5000 --strategies batch,transaction --batch-size 500
+ *   pnpm benchmark --dry-run
+ *
+ * Stages are timed separately (parse, normalize, prepare, persist) so a slow
+ * run shows where the time goes. Each persistence strategy starts from an empty
+ * benchmark slice and runs twice: an insert pass and an update pass over the
+ * same keys. The database URL is read from BENCHMARK_DATABASE_URL only, never
+ * DATABASE_URL, so the harness cannot write to a shared database by accident.
+ */
+import { performance } from 'perf_hooks';
+import { parseArgs } from 'util';
+import { PrismaClient, RawListingData } from '@prisma/client';
+import { RawListingProcessor } from '@/processors/listing.processor';
+import { summarizeResults } from '@/processors/preview';
+import { generateRawListings } from './synthetic';
+import {
+  clearBenchmarkListings,
+  dedupeByPropertyKey,
+  persistListings,
+  PERSIST_STRATEGIES,
+  PersistStrategy,
+  toListingRow,
+} from './persistence';
+
+interface StageTiming {
+  stage: string;
+  records: number;
+  ms: number;
+  statements?: number;
+}
+
+const { values: args } = parseArgs({
+  options: {
+    count: { type: 'string', default: '1000' },
+    seed: { type: 'string', default: '42' },
+    'batch-size': { type: 'string', default: '250' },
+    'duplicate-rate': { type: 'string', default: '0.05' },
+    'broken-rate': { type: 'string', default: '0.08' },
+    strategies: { type: 'string', default: PERSIST_STRATEGIES.join(',') },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+const positiveInt = (name: string, raw: string | undefined): number => {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) throw new Error(`--${name} must be a positive integer`);
+  return value;
+};
+
+const rate = (name: string, raw: string | undefined): number => {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || value > 1) throw new Error(`--${name} must be between 0 and 1`);
+  return value;
+};
+
+async function time<T>(timings: StageTiming[], stage: string, records: number, fn: () => T | Promise<T>): Promise<T> {
+  const start = performance.now();
+  const result = await fn();
+  timings.push({ stage, records, ms: performance.now() - start });
+  return result;
+}
+
+function report(title: string, timings: StageTiming[], { showShare = true } = {}) {
+  const total = timings.reduce((sum, t) => sum + t.ms, 0);
+  console.log(`\n${title}`);
+  console.table(
+    timings.map(t => ({
+      stage: t.stage,
+      records: t.records,
+      statements: t.statements ?? '',
+      ms: Number(t.ms.toFixed(1)),
+      'records/s': t.ms > 0 ? Math.round((t.records / t.ms) * 1000) : '',
+      ...(showShare && { share: total > 0 ? `${((t.ms / total) * 100).toFixed(1)}%` : '' }),
+    }))
+  );
+}
+
+async function main() {
+  const count = positiveInt('count', args.count);
+  const seed = positiveInt('seed', args.seed);
+  const batchSize = positiveInt('batch-size', args['batch-size']);
+  const duplicateRate = rate('duplicate-rate', args['duplicate-rate']);
+  const brokenRate = rate('broken-rate', args['broken-rate']);
+  const strategies = (args.strategies ?? '').split(',').map(s => s.trim()).filter(Boolean) as PersistStrategy[];
+  const unknown = strategies.filter(s => !PERSIST_STRATEGIES.includes(s));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown strategies: ${unknown.join(', ')} (expected ${PERSIST_STRATEGIES.join(', ')})`);
+  }
+
+  const databaseUrl = process.env.BENCHMARK_DATABASE_URL;
+  const dryRun = args['dry-run'] || !databaseUrl;
+  if (!args['dry-run'] && !databaseUrl) {
+    console.warn('BENCHMARK_DATABASE_URL is not set; skipping persistence (same as --dry-run)');
+  }
+
+  // Records arrive from the puller as serialized payloads; generation is not part of the pipeline
+  const records = generateRawListings({ count, seed, duplicateRate, brokenRate });
+  const payloads = records.map(record => JSON.stringify(record.rawData));
+
+  const pipeline: StageTiming[] = [];
+
+  const parsed = await time(pipeline, 'parse', records.length, () => {
+    const seen = new Set<string>();
+    const unique: RawListingData[] = [];
+    records.forEach((record, i) => {
+      // Unchanged re-pulls are skipped by hash before any parsing work, as the puller does
+      if (seen.has(record.rawDataHash)) return;
+      seen.add(record.rawDataHash);
+      unique.push({ ...record, rawData: JSON.parse(payloads[i]) });
+    });
+    return unique;
+  });
+
+  const processor = new RawListingProcessor();
+  const results = await time(pipeline, 'normalize', parsed.length, () => processor.processBatch(parsed));
+
+  const normalized = results.flatMap(result => (result.record ? [result.record] : []));
+  const rows = await time(pipeline, 'prepare', normalized.length, () => dedupeByPropertyKey(normalized.map(toListingRow)));
+
+  const summary = summarizeResults(results);
+  console.log(`Generated ${records.length} raw records (seed ${seed})`);
+  console.log(`  ${records.length - parsed.length} skipped as duplicate rawDataHash`);
+  console.log(`  ${summary.succeeded} normalized, ${summary.failed} failed, ${summary.warningCount} warnings`);
+  console.log(`  ${normalized.length - rows.length} collapsed onto an existing (zipCode, parcelNumber, unitNumber) key`);
+  const topIssues = Object.entries(summary.issuesByField).sort(([, a], [, b]) => b - a).slice(0, 5);
+  if (topIssues.length > 0) {
+    console.log(`  Top issue fields: ${topIssues.map(([field, n]) => `${field} (${n})`).join(', ')}`);
+  }
+
+  report('Parse and normalize', pipeline);
+
+  if (dryRun || strategies.length === 0) return;
+
+  const prisma = new PrismaClient({ datasourceUrl: databaseUrl });
+  try {
+    const persistence: StageTiming[] = [];
+    for (const strategy of strategies) {
+      await clearBenchmarkListings(prisma);
+      for (const pass of ['insert', 'update']) {
+        const start = performance.now();
+        const statements = await persistListings(prisma, strategy, rows, batchSize);
+        persistence.push({ stage: `${strategy} (${pass})`, records: rows.length, statements, ms: performance.now() - start });
+      }
+    }
+    await clearBenchmarkListings(prisma);
+
+    report(`Persistence (batch size ${batchSize})`, persistence, { showShare: false });
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('Benchmark failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
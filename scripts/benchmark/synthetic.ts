@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+import { Prisma, RawListingData } from '@prisma/client';
+
+/**
+ * Small seeded PRNG (mulberry32) so benchmark runs are reproducible
+ * @param {number} seed - Any 32-bit integer
+ * @returns {() => number} Generator of floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const MARKETS = [
+  { city: 'Austin', state: 'TX', zipPrefix: '787', lat: 30.27, lng: -97.74 },
+  { city: 'Phoenix', state: 'AZ', zipPrefix: '850', lat: 33.45, lng: -112.07 },
+  { city: 'Denver', state: 'CO', zipPrefix: '802', lat: 39.74, lng: -104.99 },
+  { city: 'Tampa', state: 'FL', zipPrefix: '336', lat: 27.95, lng: -82.46 },
+  { city: 'Charlotte', state: 'NC', zipPrefix: '282', lat: 35.23, lng: -80.84 },
+];
+
+const STREETS = ['Oak', 'Maple', 'Cedar', 'Pine', 'Elm', 'Lakeview', 'Sunset', 'Highland', 'Ridge', 'Mill'];
+const SUFFIXES = ['St', 'Ave', 'Dr', 'Ln', 'Ct', 'Blvd'];
+
+// Status strings as they really arrive, including ones the processor has to infer
+const STATUSES = ['Active', 'Active', 'Active', 'ACTIVE', 'Pending', 'Active Under Contract', 'U/C', 'Coming Soon', 'Closed', 'Canceled', 'Temp Off Market', 'Back On Mkt'];
+
+const PROPERTY_TYPES: Array<[string, string]> = [
+  ['Residential', 'Single Family Residence'],
+  ['Residential', 'Single Family Residence'],
+  ['Residential', 'Condominium'],
+  ['Residential', 'Townhouse'],
+  ['Residential Income', 'Duplex'],
+  ['Land', 'Unimproved Land'],
+  ['Residential', 'Manufactured Home'],
+];
+
+export interface SyntheticOptions {
+  count: number;
+  seed: number;
+  /** Share of records that reuse an earlier rawDataHash */
+  duplicateRate: number;
+  /** Share of records with at least one broken field */
+  brokenRate: number;
+}
+
+/**
+ * Generate RawListingData rows with realistic, messy `rawData` payloads.
+ *
+ * Payloads mix RESO-style and camelCase keys, numbers encoded as formatted
+ * strings, embedded unit numbers and ZIP+4 codes. A configurable share of
+ * records repeat an earlier rawDataHash (re-pulled unchanged listings) or have
+ * broken fields (missing price, bad coordinates, malformed ZIP).
+ *
+ * @param {SyntheticOptions} options - Count, seed and defect rates
+ * @returns {RawListingData[]} In-memory rows, not persisted
+ */
+export function generateRawListings({ count, seed, duplicateRate, brokenRate }: SyntheticOptions): RawListingData[] {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const int = (min: number, max: number) => Math.floor(min + random() * (max - min + 1));
+
+  const records: RawListingData[] = [];
+  const now = new Date();
+
+  for (let i = 0; i < count; i++) {
+    // Re-pulled listings come back with an identical payload and hash
+    if (i > 0 && random() < duplicateRate) {
+      const original = records[int(0, records.length - 1)];
+      records.push({ ...original, id: `bench-raw-${i}` });
+      continue;
+    }
+
+    const market = pick(MARKETS);
+    const [propertyType, propertySubType] = pick(PROPERTY_TYPES);
+    const isCondo = propertySubType === 'Condominium';
+    const unit = isCondo ? String(int(1, 40)) + pick(['', 'A', 'B']) : '';
+    const zipCode = `${market.zipPrefix}${String(int(0, 99)).padStart(2, '0')}`;
+    const price = int(120, 1800) * 1000;
+    const useCamelCase = random() < 0.3;
+
+    const rawData: Prisma.JsonObject = useCamelCase
+      ? {
+          listPrice: random() < 0.5 ? String(price) : price,
+          status: pick(STATUSES),
+          propertyType,
+          propertySubType,
+          bedrooms: String(int(1, 6)),
+          bathrooms: String(int(1, 4) + (random() < 0.4 ? 0.5 : 0)),
+          address: `${int(100, 9999)} ${pick(STREETS)} ${pick(SUFFIXES)}${unit ? ` #${unit}` : ''}`,
+          city: market.city,
+          state: market.state,
+          zipCode,
+          lat: market.lat + (random() - 0.5) * 0.4,
+          lng: market.lng + (random() - 0.5) * 0.4,
+          parcelNumber: `${int(100, 999)}-${int(10, 99)}-${int(1000, 9999)}`,
+          mlsListingId: `MLS${100000 + i}`,
+        }
+      : {
+          ListPrice: random() < 0.2 ? `$${price.toLocaleString('en-US')}` : price,
+          StandardStatus: pick(STATUSES),
+          PropertyType: propertyType,
+          PropertySubType: propertySubType,
+          BedroomsTotal: int(1, 6),
+          BathroomsFull: int(1, 4),
+          BathroomsHalf: int(0, 1),
+          LivingArea: int(700, 5000),
+          YearBuilt: int(1950, 2024),
+          StreetNumber: String(int(100, 9999)),
+          StreetName: pick(STREETS),
+          StreetSuffix: pick(SUFFIXES),
+          UnitNumber: unit || null,
+          City: market.city,
+          StateOrProvince: market.state,
+          PostalCode: random() < 0.2 ? `${zipCode}-${int(1000, 9999)}` : zipCode,
+          Latitude: market.lat + (random() - 0.5) * 0.4,
+          Longitude: market.lng + (random() - 0.5) * 0.4,
+          ParcelNumber: `${int(100, 999)}-${int(10, 99)}-${int(1000, 9999)}`,
+          ListingId: `MLS${100000 + i}`,
+          AssociationFee: isCondo ? int(150, 600) : null,
+          AssociationFeeFrequency: isCondo ? pick(['Monthly', 'Quarterly', 'Annually']) : null,
+          ModificationTimestamp: new Date(now.getTime() - int(0, 30) * 86400000).toISOString(),
+          Media: Array.from({ length: int(0, 5) }, (_, order) => ({ MediaURL: `https://photos.example.com/${i}/${order}.jpg`, Order: order })),
+        };
+
+    if (random() < brokenRate) {
+      const defect = int(0, 3);
+      if (defect === 0) delete rawData[useCamelCase ? 'listPrice' : 'ListPrice'];
+      if (defect === 1) rawData[useCamelCase ? 'lat' : 'Latitude'] = 'N/A';
+      if (defect === 2) rawData[useCamelCase ? 'zipCode' : 'PostalCode'] = 'TBD';
+      if (defect === 3) rawData[useCamelCase ? 'listPrice' : 'ListPrice'] = 'Call for price';
+    }
+
+    const rawDataHash = createHash('sha256').update(JSON.stringify(rawData)).digest('hex');
+
+    records.push({
+      id: `bench-raw-${i}`,
+      mlsProviderId: 'benchmark',
+      rawData,
+      rawDataHash,
+      status: 'PENDING',
+      errorMessage: null,
+      createdAt: now,
+      updatedAt: now,
+      processedAt: null,
+      parcelNumber: null,
+      zipCode: null,
+      mlsStatus: null,
+      modificationTimestamp: null,
+      mlsInstanceId: 'benchmark',
+      propertyType: null,
+      statusChangeTimestamp: null,
+      unitNumber: '',
+      unparsedAddress: null,
+      loanDataError: null,
+      loanDataPullStatus: 'PENDING',
+      photosPullError: null,
+      photosPullStatus: 'PENDING',
+      rawLoanDataId: null,
+      rawPhotoDataId: null,
+      processingVersion: null,
+      lastPhotosPullAt: null,
+      photosCount: null,
+      photosPullAttempts: 0,
+      pullerVersion: null,
+    });
+  }
+
+  return records;
+}
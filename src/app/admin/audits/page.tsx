@@ -0,0 +1,11 @@
+import { Suspense } from 'react';
+import AuditExplorer from '@/components/audits/AuditExplorer';
+
+export default function AuditsPage() {
+  // AuditExplorer reads the initial listing filter from the URL, which requires a Suspense boundary
+  return (
+    <Suspense>
+      <AuditExplorer />
+    </Suspense>
+  );
+}
@@ -0,0 +1,5 @@
+import CorrectionConsole from '@/components/corrections/CorrectionConsole';
+
+export default function CorrectionsPage() {
+  return <CorrectionConsole />;
+}
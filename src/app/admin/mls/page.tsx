@@ -0,0 +1,11 @@
+import { Suspense } from 'react';
+import MlsAdmin from '@/components/mls/MlsAdmin';
+
+export default function MlsPage() {
+  // MlsAdmin reads the dashboard filters from the URL, which requires a Suspense boundary
+  return (
+    <Suspense>
+      <MlsAdmin />
+    </Suspense>
+  );
+}
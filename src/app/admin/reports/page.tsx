@@ -0,0 +1,5 @@
+import ReportModeration from '@/components/reports/ReportModeration';
+
+export default function ReportsPage() {
+  return <ReportModeration />;
+}
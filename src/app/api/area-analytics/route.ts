@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ListingStatus } from '@prisma/client';
+import { computeAreaAnalytics, parseSearchArea } from '@/lib/area-analytics';
+import { FilterValidationError, parseEnumList } from '@/lib/filters';
+
+/**
+ * Area Analytics API Route
+ *
+ * Computes listing metrics (counts, average/median price, price distribution,
+ * assumable loan mix, days-on-market buckets) for a drawn polygon or radius,
+ * using the PostGIS `ListingLocation.location` column.
+ *
+ * Body: `{ area: SearchArea, status?: ListingStatus[] }`
+ *
+ * @param {NextRequest} request - Request whose JSON body describes the area
+ * @returns {Promise<NextResponse>} JSON response containing area analytics
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: { area?: unknown; status?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      throw new FilterValidationError('body', 'Request body must be valid JSON');
+    }
+
+    const area = parseSearchArea(body?.area);
+
+    let statuses: ListingStatus[] | undefined;
+    if (body.status !== undefined) {
+      if (!Array.isArray(body.status) || body.status.some(s => typeof s !== 'string')) {
+        throw new FilterValidationError('status', 'status must be an array of listing statuses');
+      }
+      statuses = body.status.length ? parseEnumList('status', body.status.join(','), ListingStatus) : undefined;
+    }
+
+    const data = await computeAreaAnalytics(area, statuses);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid area request',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Area analytics error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to compute area analytics',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
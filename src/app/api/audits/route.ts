@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { listAuditFeed, parseAuditFeedQuery } from '@/lib/audits';
+
+/**
+ * Listing Audit Feed API Route
+ *
+ * GET returns one page of listing audits, newest first, with each entry's
+ * `changes` normalized into field-level before/after rows. Accepts `source`
+ * and `action` (comma lists), `listingId`, `sourceName`, `field`, `from`,
+ * `to`, `cursor` and `limit`.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the audit page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseAuditFeedQuery(request.nextUrl.searchParams);
+    const data = await listAuditFeed(query);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid audit filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing audit feed error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listing audits',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { computeAuditVolume, parseAuditVolumeWindow } from '@/lib/audits';
+
+/**
+ * Listing Audit Volume API Route
+ *
+ * GET returns audit counts per source between `from` and `to` (`YYYY-MM-DD`,
+ * default the last 30 days), bucketed by hour for windows of up to two days
+ * and by day otherwise, along with the latest audit per source and the most
+ * frequent actions.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the audit volume
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const window = parseAuditVolumeWindow(request.nextUrl.searchParams);
+    const data = await computeAuditVolume(window);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid audit volume window',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing audit volume error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listing audit volume',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
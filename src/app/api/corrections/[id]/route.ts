@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { parseStatusChange, setCorrectionStatus } from '@/lib/corrections';
+
+/**
+ * Data Correction Status API Route
+ *
+ * PATCH with `{status, updatedBy}` deactivates (INACTIVE) or reactivates
+ * (ACTIVE) a correction and writes an ADMIN entry to the listing's audit log.
+ * The audit author is whatever `updatedBy` says, so only expose this behind
+ * admin auth.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route params containing the correction id
+ * @returns {Promise<NextResponse>} JSON response containing the updated correction
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { status, updatedBy } = parseStatusChange(await request.json().catch(() => null));
+    const data = await setCorrectionStatus(params.id, status, updatedBy);
+    if (!data) {
+      return NextResponse.json(
+        {
+          error: 'Correction not found',
+          details: `No data correction with id ${params.id}`,
+          code: 'NOT_FOUND'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid status change',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Data correction status error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update data correction',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { getCorrectionColumns } from '@/lib/corrections';
+
+/**
+ * Correctable Columns API Route
+ *
+ * Lists the columns a correction may target for an `entityType`, with their
+ * type and whether they hold JSON or a list.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the columns
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ data: getCorrectionColumns(request.nextUrl.searchParams) });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid entity type',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Correctable columns error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch correctable columns',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
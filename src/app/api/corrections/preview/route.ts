@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { parseCorrectionInput, previewCorrection } from '@/lib/corrections';
+
+/**
+ * Data Correction Preview API Route
+ *
+ * Takes the same body as creating a correction and returns the current and
+ * corrected value at the field path, plus the whole column before and after
+ * for nested JSON and array paths. Nothing is written.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the preview
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseCorrectionInput(await request.json().catch(() => null));
+    const data = await previewCorrection(input);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid correction',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Data correction preview error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to preview data correction',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { createCorrection, listCorrections, parseCorrectionInput, parseCorrectionQuery } from '@/lib/corrections';
+
+/**
+ * Data Corrections API Route
+ *
+ * GET lists corrections, newest first. Accepts `entityType`, `entityId`,
+ * `createdBy` (substring match), `status` and `limit`.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the corrections
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseCorrectionQuery(request.nextUrl.searchParams);
+    const data = await listCorrections(query);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid correction filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Data corrections error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch data corrections',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST creates an ACTIVE correction from `{entityType, entityId, fieldPath,
+ * correctedValue, reason, createdBy}`, supersedes any active correction on
+ * the same field and writes an ADMIN entry to the listing's audit log.
+ * `createdBy` is not verified here; deploy this route behind admin auth.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the created correction
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseCorrectionInput(await request.json().catch(() => null));
+    const data = await createCorrection(input);
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid correction',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Create data correction error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create data correction',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { parseBucketSpecs } from '@/lib/bucket-specs';
+import { compareCorrectedWithRaw, compareWithPreviousSnapshot } from '@/lib/dashboard-snapshots';
+
+/**
+ * Dashboard Snapshot Comparison API Route
+ *
+ * Compares the current dashboard snapshot for the filters in the query string
+ * with the previous snapshot kept for the same filters. `data` is null until a
+ * second snapshot exists (after a refresh or TTL expiry). `corrected=true`
+ * compares the snapshots with override corrections applied.
+ *
+ * `against=raw` instead compares the corrected dashboard (`current`) with
+ * the raw one (`previous`), showing what the active corrections change.
+ *
+ * @param {NextRequest} request - Incoming request carrying filter query parameters
+ * @returns {Promise<NextResponse>} JSON response containing metric and chart deltas
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = parseDashboardFilters(params);
+    const buckets = parseBucketSpecs(params);
+    const data = params.get('against') === 'raw'
+      ? await compareCorrectedWithRaw(filters, buckets)
+      : await compareWithPreviousSnapshot(filters, buckets, params.get('corrected') === 'true');
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Dashboard comparison error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to compare dashboard snapshots',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
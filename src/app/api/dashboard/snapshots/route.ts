@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { listDashboardSnapshots, refreshDashboardSnapshots, SNAPSHOT_TTL_SECONDS } from '@/lib/dashboard-snapshots';
+
+/**
+ * Dashboard Snapshots API Route
+ *
+ * GET lists the cached filter sets with their latest generation time.
+ *
+ * @returns {Promise<NextResponse>} JSON response containing the snapshot cache listing
+ */
+export async function GET() {
+  return NextResponse.json({
+    data: { maxAgeSeconds: SNAPSHOT_TTL_SECONDS, snapshots: listDashboardSnapshots() },
+  });
+}
+
+/**
+ * POST recomputes every cached filter set plus the unfiltered dashboard.
+ * Meant for a scheduler (cron) so users rarely wait on a cold snapshot. Only
+ * the instance that receives the request is warmed, and filter sets computed
+ * in the last `SNAPSHOT_MIN_REFRESH_SECONDS` are left as they are, so calling
+ * it repeatedly does not add database load.
+ *
+ * @returns {Promise<NextResponse>} JSON response with the outcome per filter set
+ */
+export async function POST() {
+  try {
+    const results = await refreshDashboardSnapshots();
+    const failed = results.filter(result => result.error).length;
+    if (failed > 0) {
+      console.error(`Dashboard snapshot refresh: ${failed} of ${results.length} filter sets failed`);
+    }
+
+    return NextResponse.json({ data: { refreshed: results.length - failed, failed, results } });
+  } catch (error) {
+    console.error('Dashboard snapshot refresh error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh dashboard snapshots',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { computeIngestionHealth, parseIngestionFilters } from '@/lib/ingestion';
+
+/**
+ * Ingestion Health API Route
+ *
+ * Breaks down RawListingData by loan and photo DataPullStatus per day, groups
+ * the most common pipeline errors, lists photo pulls stuck in PENDING_RETRY
+ * and reports raw-to-processed latency.
+ *
+ * Query params: `from`, `to` (YYYY-MM-DD, default last 30 days),
+ * `mlsInstanceId`, `minAttempts` (default 3)
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing ingestion health
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseIngestionFilters(request.nextUrl.searchParams);
+    const data = await computeIngestionHealth(filters);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid ingestion filter',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Ingestion health error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch ingestion health',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { calculateAffordability } from '@/lib/affordability';
+import { getAffordabilitySeed, parseBuyerInputs } from '@/lib/listing-affordability';
+
+/**
+ * Listing Affordability API Route
+ *
+ * Runs the assumption affordability calculator for one listing, seeded from
+ * its assumable mortgage. Accepts `cash`, `annualIncome`, `monthlyDebts`,
+ * `secondLienRate`, `secondLienTermYears` and `marketRate`; returns the seed
+ * and the resolved inputs with the result so clients can recalculate locally.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route params containing the listing id
+ * @returns {Promise<NextResponse>} JSON response containing the calculation
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const inputs = parseBuyerInputs(request.nextUrl.searchParams);
+    const seed = await getAffordabilitySeed(params.id);
+    if (!seed) {
+      return NextResponse.json(
+        seed === undefined
+          ? { error: 'Listing not found', details: `No listing with id ${params.id}`, code: 'NOT_FOUND' }
+          : { error: 'No assumable mortgage', details: `Listing ${params.id} has no assumable mortgage`, code: 'NO_ASSUMABLE_MORTGAGE' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data: { seed, inputs, result: calculateAffordability(seed, inputs) } });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid calculator inputs',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing affordability error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate affordability',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
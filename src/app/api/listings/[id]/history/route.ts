@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getListingTimeline } from '@/lib/price-history';
+
+/**
+ * Listing Timeline API Route
+ *
+ * Returns one listing's ListingHistory rows in order, with the price change
+ * between consecutive entries.
+ *
+ * @param {NextRequest} _request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route params containing the listing id
+ * @returns {Promise<NextResponse>} JSON response containing the timeline
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const data = await getListingTimeline(params.id);
+    if (!data) {
+      return NextResponse.json(
+        {
+          error: 'Listing not found',
+          details: `No listing with id ${params.id}`,
+          code: 'NOT_FOUND'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Listing timeline error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listing timeline',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getListingDetail } from '@/lib/listing-detail';
+
+/**
+ * Listing Detail API Route
+ *
+ * Returns one listing with its photos, PropertyRadar record, loans and
+ * assumable mortgages, audit entries, active data corrections and reports.
+ * Sections that fail to load are returned empty and named in `unavailable`.
+ *
+ * @param {NextRequest} _request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route params containing the listing id
+ * @returns {Promise<NextResponse>} JSON response containing the listing detail
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const data = await getListingDetail(params.id);
+    if (!data) {
+      return NextResponse.json(
+        {
+          error: 'Listing not found',
+          details: `No listing with id ${params.id}`,
+          code: 'NOT_FOUND'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Listing detail error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listing detail',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { parseListingQuery, searchListings } from '@/lib/listings';
+
+/**
+ * Listings API Route
+ *
+ * Cursor-paginated listing search with the dashboard filters. Accepts
+ * `sort` (price, listedAt, assumableDesirabilityScore,
+ * denormalizedAssumableInterestRate), `order`, `limit`, `cursor` and the
+ * chart drill-down ranges `priceMin`/`priceMax` and
+ * `daysOnMarketMin`/`daysOnMarketMax`.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing one page of listings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = parseDashboardFilters(params);
+    const query = parseListingQuery(params);
+    const data = await searchListings(filters, query);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing search error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listings',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
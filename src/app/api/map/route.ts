@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildListingWhere, FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import {
+  aggregateListingTiles,
+  buildBoundsWhere,
+  findMapListings,
+  LISTING_MARKER_ZOOM,
+  MAX_MAP_LISTINGS,
+  tileZoomForMapZoom
+} from '@/lib/geo';
+import { loadHiddenMlsInstanceIds } from '@/lib/mls-visibility';
+import { MapBounds, MapData } from '@/types/map';
+
+/**
+ * Parse and validate the viewport from query parameters
+ * @param {URLSearchParams} params - Query parameters containing west/south/east/north/zoom
+ * @returns {{ bounds: MapBounds, zoom: number }} Validated viewport
+ * @throws {FilterValidationError} If a coordinate is missing or out of range
+ */
+const parseViewport = (params: URLSearchParams): { bounds: MapBounds; zoom: number } => {
+  const readNumber = (key: string, min: number, max: number): number => {
+    const raw = params.get(key);
+    const value = raw === null || raw.trim() === '' ? NaN : Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new FilterValidationError(key, `${key} must be a number between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  const bounds: MapBounds = {
+    west: readNumber('west', -180, 180),
+    south: readNumber('south', -90, 90),
+    east: readNumber('east', -180, 180),
+    north: readNumber('north', -90, 90)
+  };
+  const zoom = readNumber('zoom', 0, 24);
+
+  // Viewports crossing the antimeridian are not supported; none of our markets need it
+  if (bounds.west > bounds.east) {
+    throw new FilterValidationError('west', 'west must be less than or equal to east');
+  }
+  if (bounds.south > bounds.north) {
+    throw new FilterValidationError('south', 'south must be less than or equal to north');
+  }
+
+  return { bounds, zoom };
+};
+
+/**
+ * Map API Route
+ *
+ * Returns listings inside the requested viewport, scoped by the same filters as
+ * the dashboard. Below LISTING_MARKER_ZOOM listings are aggregated per tile into
+ * clusters; at or above it individual listings are returned (capped at MAX_MAP_LISTINGS).
+ *
+ * @param {NextRequest} request - Request with viewport (west, south, east, north, zoom) and filter params
+ * @returns {Promise<NextResponse>} JSON response containing map data
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const { bounds, zoom } = parseViewport(params);
+    const filters = parseDashboardFilters(params);
+    const hiddenMlsInstanceIds = filters.includeHidden ? [] : await loadHiddenMlsInstanceIds();
+    const where = { AND: [buildListingWhere(filters, { hiddenMlsInstanceIds }), buildBoundsWhere(bounds)] };
+
+    let data: MapData;
+
+    if (zoom >= LISTING_MARKER_ZOOM) {
+      // Fetch one extra row to detect whether the result was capped
+      const listings = await findMapListings(where, MAX_MAP_LISTINGS + 1);
+      data = {
+        mode: 'listings',
+        tileZoom: null,
+        clusters: [],
+        listings: listings.slice(0, MAX_MAP_LISTINGS),
+        truncated: listings.length > MAX_MAP_LISTINGS
+      };
+    } else {
+      const tileZoom = tileZoomForMapZoom(zoom);
+      data = {
+        mode: 'clusters',
+        tileZoom,
+        clusters: await aggregateListingTiles(where, tileZoom),
+        listings: [],
+        truncated: false
+      };
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid map parameters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Map data fetch error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch map data',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { listPhotoRepulls, parsePhotoRepullQuery } from '@/lib/media-analytics';
+
+/**
+ * Photo Re-pull API Route
+ *
+ * GET returns one page of listings matching the dashboard filters whose
+ * photos need pulling again (no photos, fewer than the MLS reports, not
+ * mirrored to S3 or not checked recently), longest since the last pull
+ * first. Accepts `reason`, `cursor` and `limit`.
+ *
+ * @param {NextRequest} request - Incoming request with dashboard filter params
+ * @returns {Promise<NextResponse>} JSON response containing the listing page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = parseDashboardFilters(params);
+    const query = parsePhotoRepullQuery(params);
+    const data = await listPhotoRepulls(filters, query);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Photo re-pull listing error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listings needing a photo re-pull',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { computeMediaAnalytics } from '@/lib/media-analytics';
+
+/**
+ * Media Analytics API Route
+ *
+ * Photo and media coverage of listings matching the dashboard filters:
+ * listings without photos, MLS-reported versus stored photo counts, photos
+ * not yet mirrored to S3 and the age of the last photo check.
+ *
+ * @param {NextRequest} request - Incoming request with dashboard filter params
+ * @returns {Promise<NextResponse>} JSON response containing the media analytics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseDashboardFilters(request.nextUrl.searchParams);
+    const data = await computeMediaAnalytics(filters);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Media analytics error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch media analytics',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { parseVisibilityChange, setMlsVisibility } from '@/lib/mls-instances';
+
+/**
+ * MLS Instance Visibility API Route
+ *
+ * PATCH with `{isHidden, reason}` hides an MLS instance from every dashboard
+ * query (a reason is required) or shows it again. Cached dashboard snapshots
+ * are expired so the change applies on the next load.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route params containing the MLS instance id
+ * @returns {Promise<NextResponse>} JSON response containing the new visibility
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const change = parseVisibilityChange(await request.json().catch(() => null));
+    const data = await setMlsVisibility(params.id, change);
+    if (!data) {
+      return NextResponse.json(
+        {
+          error: 'MLS instance not found',
+          details: `No listings or details for MLS instance ${params.id}`,
+          code: 'NOT_FOUND'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid visibility change',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('MLS visibility error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update MLS visibility',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { computeMlsScorecards } from '@/lib/mls-instances';
+
+/**
+ * MLS Instances API Route
+ *
+ * GET returns a scorecard per MLS instance (listing count, assumable share,
+ * average price, data freshness, photo coverage, report rate) with its
+ * visibility, over listings matching the dashboard filters. Hidden instances
+ * are always included so they can be reviewed.
+ *
+ * @param {NextRequest} request - Incoming request with dashboard filter params
+ * @returns {Promise<NextResponse>} JSON response containing the scorecards
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseDashboardFilters(request.nextUrl.searchParams);
+    const data = await computeMlsScorecards(filters);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('MLS scorecards error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch MLS scorecards',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { parseBucketSpecs } from '@/lib/bucket-specs';
+import { computeMortgageAnalytics, parseBenchmarkRate } from '@/lib/mortgage-analytics';
+
+/**
+ * Mortgage Analytics API Route
+ *
+ * Assumable mortgage deep-dive for listings matching the dashboard filters.
+ * Accepts `benchmarkRate` (market rate in percent the rate advantage is
+ * measured against) and the `interestRateBuckets` / `downPaymentBuckets`
+ * bucket specs.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the mortgage analytics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = parseDashboardFilters(params);
+    const benchmarkRate = parseBenchmarkRate(params);
+    const buckets = parseBucketSpecs(params);
+    const data = await computeMortgageAnalytics(filters, { benchmarkRate, buckets });
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Mortgage analytics error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch mortgage analytics',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
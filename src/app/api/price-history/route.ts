@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters } from '@/lib/filters';
+import { computePriceHistoryAnalytics } from '@/lib/price-history';
+
+/**
+ * Price History API Route
+ *
+ * Price-reduction frequency, median cut size, time to first reduction and
+ * list-to-final ratio from ListingHistory, overall and per assumable loan
+ * type. Accepts the same query-string filters as `/api/dashboard`.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing price history analytics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const filters = parseDashboardFilters(request.nextUrl.searchParams);
+    const data = await computePriceHistoryAnalytics(filters);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Price history error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch price history analytics',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
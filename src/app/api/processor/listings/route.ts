@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { FilterValidationError } from '@/lib/filters';
+import { RawListingProcessor } from '@/processors/listing.processor';
+import { parsePreviewParams, summarizeResults } from '@/processors/preview';
+
+const processor = new RawListingProcessor();
+
+/**
+ * Listing Processor Dry-Run API Route
+ *
+ * Normalizes RawListingData rows created within a date range into Listing-shaped
+ * JSON without writing anything to the database.
+ *
+ * Query params: `from`, `to` (YYYY-MM-DD, inclusive) and optional `limit`.
+ * Add `errorsOnly=true` to return only records that failed or produced warnings.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response with a summary and per-record results
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const { createdAt, limit } = parsePreviewParams(params);
+    const errorsOnly = params.get('errorsOnly') === 'true';
+
+    // Fetch one extra row to detect truncation
+    const rawListings = await prisma.rawListingData.findMany({
+      where: { createdAt },
+      orderBy: { createdAt: 'asc' },
+      take: limit + 1
+    });
+
+    const truncated = rawListings.length > limit;
+    const results = processor.processBatch(rawListings.slice(0, limit));
+
+    return NextResponse.json({
+      data: {
+        summary: summarizeResults(results),
+        results: errorsOnly ? results.filter(result => result.issues.length > 0) : results,
+        truncated
+      }
+    });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid processor parameters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing processor error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process raw listings',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { FilterValidationError, parseDate } from '@/lib/filters';
+import { RawLoanProcessor } from '@/processors/loan.processor';
+import { parsePreviewParams, summarizeResults } from '@/processors/preview';
+
+const processor = new RawLoanProcessor();
+
+/**
+ * Key matching the Listing @@unique([zipCode, parcelNumber, unitNumber]) constraint
+ */
+const propertyKey = (zipCode: string, parcelNumber: string, unitNumber: string) =>
+  `${zipCode}|${parcelNumber}|${unitNumber}`;
+
+/**
+ * Loan Processor Preview API Route
+ *
+ * Parses RawLoanData rows created within a date range into Loan objects and,
+ * for FHA/VA loans, derives AssumableMortgage fields against the matching
+ * listing's price. Nothing is written to the database.
+ *
+ * Query params: `from`, `to` (YYYY-MM-DD, inclusive), optional `limit`, and
+ * optional `asOf` (YYYY-MM-DD) to amortize balances to a fixed date.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response with a summary and per-record results
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const { createdAt, limit } = parsePreviewParams(params);
+    const asOfParam = params.get('asOf');
+    const asOf = asOfParam ? new Date(`${parseDate('asOf', asOfParam)}T00:00:00.000Z`) : new Date();
+
+    const rawLoans = await prisma.rawLoanData.findMany({
+      where: { createdAt },
+      orderBy: { createdAt: 'asc' },
+      take: limit + 1
+    });
+    const truncated = rawLoans.length > limit;
+    const batch = rawLoans.slice(0, limit);
+
+    // Look up listing prices for every property in the batch with a single query
+    const propertyFilters = batch
+      .filter(raw => raw.zipCode && raw.parcelNumber)
+      .map(raw => ({ zipCode: raw.zipCode!, parcelNumber: raw.parcelNumber!, unitNumber: raw.unitNumber }));
+
+    const listings = propertyFilters.length > 0
+      ? await prisma.listing.findMany({
+          where: { OR: propertyFilters },
+          select: { zipCode: true, parcelNumber: true, unitNumber: true, price: true, monthlyHoa: true }
+        })
+      : [];
+
+    const listingsByProperty = new Map(
+      listings.map(listing => [propertyKey(listing.zipCode, listing.parcelNumber, listing.unitNumber), listing])
+    );
+
+    const results = batch.map(raw => {
+      const listing = raw.zipCode && raw.parcelNumber
+        ? listingsByProperty.get(propertyKey(raw.zipCode, raw.parcelNumber, raw.unitNumber))
+        : undefined;
+
+      return processor.process(raw, {
+        listingPrice: listing ? Number(listing.price) : null,
+        monthlyHoa: listing?.monthlyHoa != null ? Number(listing.monthlyHoa) : null,
+        asOf
+      });
+    });
+
+    return NextResponse.json({
+      data: {
+        summary: summarizeResults(results),
+        results,
+        truncated
+      }
+    });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid processor parameters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Loan processor error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process raw loans',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
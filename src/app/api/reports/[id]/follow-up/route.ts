@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { applyReportFollowUp, parseReportFollowUp } from '@/lib/reports';
+
+/**
+ * Listing Report Follow-up API Route
+ *
+ * POST resolves a pending or confirmed report with a follow-up action:
+ * `{action: 'MARK_OFF_MARKET', updatedBy, note}` takes the listing off
+ * market, `{action: 'CREATE_CORRECTION', updatedBy, note, correction}`
+ * creates a data correction against the listing or one of its related rows.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {Object} context - Route context
+ * @param {Object} context.params - Route params containing the report id
+ * @returns {Promise<NextResponse>} JSON response containing the resolved report
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const followUp = parseReportFollowUp(await request.json().catch(() => null));
+    const data = await applyReportFollowUp(params.id, followUp);
+    if (!data) {
+      return NextResponse.json(
+        {
+          error: 'Report not found',
+          details: `No listing report with id ${params.id}`,
+          code: 'NOT_FOUND'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid follow-up',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing report follow-up error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to apply report follow-up',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { computeReportAnalytics, parseReportAnalyticsWindow } from '@/lib/reports';
+
+/**
+ * Listing Report Analytics API Route
+ *
+ * GET returns report volume by reason, by day and by MLS, and
+ * time-to-resolution, for reports filed between `from` and `to`
+ * (`YYYY-MM-DD`, default the last 90 days).
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the report analytics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const window = parseReportAnalyticsWindow(request.nextUrl.searchParams);
+    const data = await computeReportAnalytics(window);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid report analytics window',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing report analytics error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listing report analytics',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
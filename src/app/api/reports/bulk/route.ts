@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { parseReportStatusChange, setReportStatuses } from '@/lib/reports';
+
+/**
+ * Listing Report Bulk Status API Route
+ *
+ * POST with `{ids, status, note, updatedBy}` moves reports to a new status
+ * and writes an ADMIN entry to each listing's audit log. Reports that cannot
+ * make the move are returned as skipped instead of failing the batch.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing updated and skipped report ids
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const change = parseReportStatusChange(await request.json().catch(() => null));
+    const data = await setReportStatuses(change);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid status change',
+          details: error.message,
+          code: 'INVALID_INPUT'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing report status error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update listing reports',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
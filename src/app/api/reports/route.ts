@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError } from '@/lib/filters';
+import { listReports, parseReportQuery } from '@/lib/reports';
+
+/**
+ * Listing Reports API Route
+ *
+ * GET returns one page of the moderation queue, oldest reports first.
+ * Accepts `status`, `reason`, `reporterType`, `listingId`, `cursor` and
+ * `limit`; the first page also carries report counts per status.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the report page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseReportQuery(request.nextUrl.searchParams);
+    const data = await listReports(query);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid report filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Listing reports error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch listing reports',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
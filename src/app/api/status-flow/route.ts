@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FilterValidationError, parseDashboardFilters, parseDateWindow } from '@/lib/filters';
+import { computeStatusFlow, DEFAULT_FLOW_WINDOW_DAYS, MAX_FLOW_WINDOW_DAYS } from '@/lib/status-flow';
+
+/**
+ * Status Flow API Route
+ *
+ * Status-category transition matrix and Active -> Under Contract -> Closed
+ * funnel from ListingHistory. Accepts the dashboard filters plus a
+ * `from`/`to` window on history dates (default last 365 days).
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<NextResponse>} JSON response containing the status flow
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filters = parseDashboardFilters(params);
+    const window = parseDateWindow(params, { defaultDays: DEFAULT_FLOW_WINDOW_DAYS, maxDays: MAX_FLOW_WINDOW_DAYS });
+    const data = await computeStatusFlow(filters, window);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    if (error instanceof FilterValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid dashboard filters',
+          details: error.message,
+          code: 'INVALID_FILTER'
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Status flow error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof Error && 'code' in error ? error.code : 'UNKNOWN_ERROR';
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch status flow',
+        details: errorMessage,
+        code: errorCode
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,11 @@
+import { Suspense } from 'react';
 import DashboardClient from '@/components/dashboard/DashboardClient';
 
 export default function DashboardPage() {
-  return <DashboardClient />;
+  // DashboardClient reads filters from the URL, which requires a Suspense boundary
+  return (
+    <Suspense>
+      <DashboardClient />
+    </Suspense>
+  );
 }
@@ -0,0 +1,5 @@
+import ListingDetail from '@/components/listings/ListingDetail';
+
+export default function ListingDetailPage({ params }: { params: { id: string } }) {
+  return <ListingDetail listingId={params.id} />;
+}
@@ -0,0 +1,399 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Code,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip as ChartTooltip,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { AuditSource } from '@prisma/client';
+import { AuditService } from '@/services/audit.service';
+import { nestedFieldChanges } from '@/lib/audit-changes';
+import { AuditFeedEntry, AuditFeedQuery } from '@/types/audits';
+
+// The audit explorer is rendered outside the dashboard, which registers the rest
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, ChartTooltip, Legend);
+
+const auditService = new AuditService();
+
+const PAGE_SIZE = 50;
+
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+
+/** Sources that write around the clock, flagged when silent for SILENT_AFTER_HOURS */
+const CONTINUOUS_SOURCES: AuditSource[] = [AuditSource.MLS_SYNC];
+const SILENT_AFTER_HOURS = 24;
+
+const WINDOW_OPTIONS = [2, 7, 30, 90, 180];
+
+const AUDIT_SOURCES = Object.values(AuditSource);
+
+const SOURCE_COLORS: Record<AuditSource, string> = {
+  ADMIN: '#5CC8FF',
+  USER: '#B68CFF',
+  MLS_SYNC: '#4CAF50',
+  SYSTEM_CLEANUP: '#FF5C5C',
+  DATA_MIGRATION: '#FFD84C',
+  API_WEBHOOK: '#FF9F40',
+  UNKNOWN: '#9E9E9E',
+};
+
+const fieldStyle = { border: '3px solid #000', bg: '#fff' };
+
+type FeedFilters = Omit<AuditFeedQuery, 'cursor' | 'limit' | 'action'> & { action?: string };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const formatAge = (iso: string | undefined) => {
+  if (!iso) return 'never';
+  const hours = (Date.now() - Date.parse(iso)) / HOUR_MS;
+  if (hours < 1) return `${Math.max(0, Math.round(hours * 60))} min ago`;
+  return hours < 48 ? `${hours.toFixed(1)} hours ago` : `${(hours / 24).toFixed(1)} days ago`;
+};
+
+/**
+ * Field-level diff of one audit entry. Changed JSON objects are expanded to
+ * the nested keys that differ.
+ */
+function FieldDiff({ entry }: { entry: AuditFeedEntry }) {
+  const rows = entry.changes.flatMap(nestedFieldChanges);
+  if (rows.length === 0) {
+    return entry.rawChanges === null
+      ? <Text fontSize="sm">No changes recorded.</Text>
+      : <Code display="block" whiteSpace="pre-wrap" p={2} fontSize="xs">{JSON.stringify(entry.rawChanges, null, 2)}</Code>;
+  }
+
+  return (
+    <Table size="sm">
+      <Thead>
+        <Tr>
+          <Th>Field</Th>
+          <Th>Before</Th>
+          <Th>After</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {rows.map((row, i) => (
+          <Tr key={`${row.field}-${i}`}>
+            <Td fontFamily="mono" fontSize="xs">{row.field}</Td>
+            {row.kind === 'touched' ? (
+              <Td colSpan={2} fontSize="xs" color="gray.600">Values not recorded</Td>
+            ) : (
+              <>
+                <Td fontSize="xs" bg={row.kind === 'changed' ? '#FFE0E0' : undefined} wordBreak="break-all">
+                  {row.kind === 'changed' ? formatValue(row.before) : <Text as="span" color="gray.600">not recorded</Text>}
+                </Td>
+                <Td fontSize="xs" bg="#E6FFD1" wordBreak="break-all">{formatValue(row.after)}</Td>
+              </>
+            )}
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  );
+}
+
+/**
+ * Audit volume per source over a trailing window, with the time since each
+ * source last wrote so a stalled sync or a runaway cleanup stands out
+ */
+function AuditVolumePanel({ onSelectSource }: { onSelectSource: (source: AuditSource) => void }) {
+  const [days, setDays] = useState(30);
+  const from = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['auditVolume', days],
+    queryFn: () => auditService.fetchVolume({ from }),
+    placeholderData: keepPreviousData,
+  });
+  const volume = response?.data;
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <HStack justify="space-between" mb={4} wrap="wrap">
+        <HStack spacing={3}>
+          <Heading size="md" color="#000" fontWeight="extrabold">Volume by source</Heading>
+          {isFetching && <Spinner size="sm" />}
+        </HStack>
+        <Select w="200px" {...fieldStyle} value={days} onChange={e => setDays(Number(e.target.value))}>
+          {WINDOW_OPTIONS.map(option => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </Select>
+      </HStack>
+
+      {error && (
+        <Alert status="error" mb={4}>
+          <AlertIcon />
+          Error loading audit volume. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading || !volume ? (
+        !error && (
+          <Box display="flex" justifyContent="center" p={8}>
+            <Spinner size="xl" />
+          </Box>
+        )
+      ) : (
+        <Stack spacing={6}>
+          <SimpleGrid columns={{ base: 2, md: 4, xl: 7 }} spacing={3}>
+            {AUDIT_SOURCES.map(source => {
+              const lastSeen = volume.lastSeen[source];
+              const silent = CONTINUOUS_SOURCES.includes(source)
+                && (!lastSeen || Date.now() - Date.parse(lastSeen) > SILENT_AFTER_HOURS * HOUR_MS);
+              return (
+                <Box
+                  key={source}
+                  as="button"
+                  textAlign="left"
+                  p={3}
+                  border="3px solid #000"
+                  borderRadius="18px"
+                  bg={silent ? '#FF5C5C' : '#fff'}
+                  borderLeft={`12px solid ${SOURCE_COLORS[source]}`}
+                  onClick={() => onSelectSource(source)}
+                >
+                  <Text fontSize="xs" fontWeight="bold">{source}</Text>
+                  <Text fontSize="xl" fontWeight="extrabold">{(volume.totals[source] ?? 0).toLocaleString('en-US')}</Text>
+                  <Text fontSize="xs">Last: {formatAge(lastSeen)}</Text>
+                </Box>
+              );
+            })}
+          </SimpleGrid>
+          <Text fontSize="sm">
+            Counts per {volume.interval} (UTC). A continuous source turns red after {SILENT_AFTER_HOURS} hours
+            without audits; click a source to filter the feed.
+          </Text>
+
+          <Box height="280px">
+            <Line
+              data={{
+                labels: volume.labels,
+                datasets: AUDIT_SOURCES
+                  .filter(source => volume.series[source])
+                  .map(source => ({
+                    label: source,
+                    data: volume.series[source]!,
+                    borderColor: SOURCE_COLORS[source],
+                    backgroundColor: SOURCE_COLORS[source],
+                    borderWidth: 3,
+                    pointRadius: 0,
+                    tension: 0.2,
+                  })),
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                interaction: { mode: 'index', intersect: false },
+                scales: { y: { beginAtZero: true } },
+              }}
+            />
+          </Box>
+
+          {volume.actions.length > 0 && (
+            <Box>
+              <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">Top actions</Heading>
+              <HStack wrap="wrap" spacing={2}>
+                {volume.actions.map(row => (
+                  <Badge key={row.action} border="2px solid #000" bg="#fff" color="#000">
+                    {row.action} · {row.count.toLocaleString('en-US')}
+                  </Badge>
+                ))}
+              </HStack>
+            </Box>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Admin activity feed over ListingAudit: filter by source, action, listing,
+ * writer, changed field and date range, with each entry's changes rendered as
+ * a field-level diff, plus audit volume per source.
+ */
+export default function AuditExplorer() {
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<FeedFilters>(() => ({
+    listingId: searchParams.get('listingId') ?? undefined,
+  }));
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  const update = <K extends keyof FeedFilters>(key: K, value: FeedFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value || undefined }));
+
+  const toggleSource = (source: AuditSource) => {
+    const current = filters.source ?? [];
+    update('source', current.includes(source) ? current.filter(other => other !== source) : [...current, source]);
+  };
+
+  const query: Partial<AuditFeedQuery> = {
+    ...filters,
+    action: filters.action ? filters.action.split(',').map(value => value.trim()).filter(Boolean) : undefined,
+    limit: PAGE_SIZE,
+  };
+  const { data, isLoading, isFetching, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['auditFeed', query],
+    queryFn: ({ pageParam }) => auditService.fetchFeed({ ...query, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.data.nextCursor ?? undefined,
+  });
+
+  const entries = data?.pages.flatMap(page => page.data.entries) ?? [];
+  const hasFilters = Object.values(filters).some(value => (Array.isArray(value) ? value.length > 0 : Boolean(value)));
+
+  const toggleExpanded = (id: string) =>
+    setExpanded(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+
+  return (
+    <Box p={4}>
+      <HStack justify="space-between" mb={6} wrap="wrap">
+        <Heading color="#000" fontWeight="extrabold">Listing Audits</Heading>
+        <HStack>
+          <Button as={Link} href="/admin/corrections" border="3px solid #000" bg="#fff">Corrections</Button>
+          <Button as={Link} href="/admin/reports" border="3px solid #000" bg="#fff">Reports</Button>
+          <Button as={Link} href="/dashboard" border="3px solid #000" bg="#fff">Dashboard</Button>
+        </HStack>
+      </HStack>
+
+      <Stack spacing={6}>
+        <AuditVolumePanel onSelectSource={source => update('source', [source])} />
+
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+          <HStack mb={4} spacing={3}>
+            <Heading size="md" color="#000" fontWeight="extrabold">Activity feed</Heading>
+            {isFetching && <Spinner size="sm" />}
+          </HStack>
+
+          <HStack mb={4} wrap="wrap" spacing={2}>
+            {AUDIT_SOURCES.map(source => (
+              <Button
+                key={source}
+                size="sm"
+                border="3px solid #000"
+                bg={filters.source?.includes(source) ? '#D1FF4C' : '#fff'}
+                onClick={() => toggleSource(source)}
+              >
+                {source}
+              </Button>
+            ))}
+          </HStack>
+
+          <SimpleGrid columns={{ base: 1, md: 3, xl: 6 }} spacing={3} mb={4}>
+            <Input
+              {...fieldStyle}
+              placeholder="Actions (comma separated)"
+              value={filters.action ?? ''}
+              onChange={e => update('action', e.target.value)}
+            />
+            <Input {...fieldStyle} placeholder="Listing id" value={filters.listingId ?? ''} onChange={e => update('listingId', e.target.value.trim())} />
+            <Input {...fieldStyle} placeholder="Written by" value={filters.sourceName ?? ''} onChange={e => update('sourceName', e.target.value)} />
+            <Input {...fieldStyle} placeholder="Changed field" value={filters.field ?? ''} onChange={e => update('field', e.target.value.trim())} />
+            <Input {...fieldStyle} type="date" value={filters.from ?? ''} onChange={e => update('from', e.target.value)} />
+            <Input {...fieldStyle} type="date" value={filters.to ?? ''} onChange={e => update('to', e.target.value)} />
+          </SimpleGrid>
+          {hasFilters && (
+            <Button size="sm" mb={4} border="3px solid #000" bg="#fff" onClick={() => setFilters({})}>Clear filters</Button>
+          )}
+
+          {error && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              Error loading listing audits. Please try again later.
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box display="flex" justifyContent="center" p={8}>
+              <Spinner size="xl" />
+            </Box>
+          ) : (
+            <Stack spacing={3}>
+              {entries.map(entry => {
+                const isExpanded = expanded.includes(entry.id);
+                return (
+                  <Box key={entry.id} p={3} border="2px solid #000" borderRadius="12px">
+                    <HStack justify="space-between" wrap="wrap" spacing={3}>
+                      <HStack wrap="wrap" spacing={3}>
+                        <Text fontSize="sm">{new Date(entry.createdAt).toLocaleString('en-US')}</Text>
+                        <Badge border="2px solid #000" bg={SOURCE_COLORS[entry.source]} color="#000">{entry.source}</Badge>
+                        <Text fontWeight="bold">{entry.action}</Text>
+                        <Text fontSize="sm">by {entry.sourceName}</Text>
+                      </HStack>
+                      <HStack spacing={3}>
+                        <Link href={`/listings/${encodeURIComponent(entry.listingId)}`}>
+                          <Text fontSize="sm" textDecoration="underline">
+                            {[entry.listing.address, entry.listing.city, entry.listing.state].filter(Boolean).join(', ')}
+                          </Text>
+                        </Link>
+                        <Button size="xs" border="2px solid #000" bg={isExpanded ? '#D1FF4C' : '#fff'} onClick={() => toggleExpanded(entry.id)}>
+                          {isExpanded ? 'Hide' : `Changes (${entry.changes.length})`}
+                        </Button>
+                      </HStack>
+                    </HStack>
+                    {isExpanded && (
+                      <Stack spacing={3} mt={3}>
+                        <FieldDiff entry={entry} />
+                        {entry.metadata !== null && (
+                          <Box>
+                            <Text fontSize="xs" fontWeight="bold" textTransform="uppercase">Metadata</Text>
+                            <Code display="block" whiteSpace="pre-wrap" p={2} fontSize="xs">{JSON.stringify(entry.metadata, null, 2)}</Code>
+                          </Box>
+                        )}
+                      </Stack>
+                    )}
+                  </Box>
+                );
+              })}
+              {entries.length === 0 && <Text>No audit entries match these filters.</Text>}
+            </Stack>
+          )}
+
+          {hasNextPage && (
+            <Box display="flex" justifyContent="center" mt={4}>
+              <Button border="3px solid #000" bg="#D1FF4C" onClick={() => fetchNextPage()} isLoading={isFetchingNextPage}>
+                Load more
+              </Button>
+            </Box>
+          )}
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
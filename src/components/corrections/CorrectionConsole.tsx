@@ -0,0 +1,370 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Code,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Textarea,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { CorrectionStatus } from '@prisma/client';
+import { CorrectionService } from '@/services/correction.service';
+import { CORRECTABLE_ENTITY_TYPES, CORRECTION_ENTITY_MODELS, parseCorrectionValue, parseFieldPath } from '@/lib/correction-paths';
+import { CorrectableEntityType, CorrectionInput, DataCorrectionRecord } from '@/types/corrections';
+
+const correctionService = new CorrectionService();
+
+const fieldStyle = { border: '3px solid #000', bg: '#fff' };
+
+const formatJson = (value: unknown) => (value === undefined ? '-' : JSON.stringify(value, null, 2));
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <Box>
+      <Text fontSize="xs" fontWeight="bold" textTransform="uppercase" mb={1}>{label}</Text>
+      <Code display="block" whiteSpace="pre-wrap" p={3} borderRadius="12px" border="2px solid #000" bg="#fff" maxH="240px" overflowY="auto">
+        {formatJson(value)}
+      </Code>
+    </Box>
+  );
+}
+
+/**
+ * Admin console for DataCorrections: create a correction against a listing,
+ * loan, assumable mortgage or PropertyRadar field (including nested JSON paths and array
+ * elements) after previewing it, and list, deactivate or reactivate existing
+ * corrections. Every write is recorded in the listing's audit log.
+ */
+export default function CorrectionConsole() {
+  const queryClient = useQueryClient();
+  const [adminName, setAdminName] = useState('');
+
+  const [entityType, setEntityType] = useState<CorrectableEntityType>('LISTING_OVERRIDE');
+  const [entityId, setEntityId] = useState('');
+  const [fieldExpression, setFieldExpression] = useState('');
+  const [valueText, setValueText] = useState('');
+  const [reason, setReason] = useState('');
+
+  const [filterEntityType, setFilterEntityType] = useState<CorrectableEntityType | ''>('');
+  const [filterEntityId, setFilterEntityId] = useState('');
+  const [filterCreatedBy, setFilterCreatedBy] = useState('');
+  const [filterStatus, setFilterStatus] = useState<CorrectionStatus | ''>('ACTIVE');
+
+  const input: CorrectionInput = {
+    entityType,
+    entityId: entityId.trim(),
+    fieldPath: parseFieldPath(fieldExpression),
+    correctedValue: parseCorrectionValue(valueText),
+    reason: reason.trim() || null,
+    createdBy: adminName.trim(),
+  };
+  const inputKey = JSON.stringify(input);
+
+  const { data: columnsResponse } = useQuery({
+    queryKey: ['correctionColumns', entityType],
+    queryFn: () => correctionService.fetchColumns(entityType),
+    staleTime: Infinity,
+  });
+
+  const filters = {
+    entityType: filterEntityType || undefined,
+    entityId: filterEntityId.trim() || undefined,
+    createdBy: filterCreatedBy.trim() || undefined,
+    status: filterStatus || undefined,
+  };
+  const { data: listResponse, isLoading, isFetching, error: listError } = useQuery({
+    queryKey: ['corrections', filters],
+    queryFn: () => correctionService.fetchCorrections(filters),
+    placeholderData: keepPreviousData,
+  });
+
+  const preview = useMutation({
+    mutationFn: (body: CorrectionInput) => correctionService.previewCorrection(body),
+  });
+  const previewedKey = preview.variables ? JSON.stringify(preview.variables) : null;
+  const previewData = previewedKey === inputKey ? preview.data?.data : undefined;
+
+  const create = useMutation({
+    mutationFn: (body: CorrectionInput) => correctionService.createCorrection(body),
+    onSuccess: () => {
+      preview.reset();
+      setValueText('');
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['corrections'] });
+    },
+  });
+
+  const statusChange = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: CorrectionStatus }) =>
+      correctionService.setStatus(id, status, adminName.trim()),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['corrections'] }),
+  });
+
+  const canPreview = Boolean(input.entityId && input.fieldPath.length > 0 && valueText.trim() && input.createdBy);
+  const corrections: DataCorrectionRecord[] = listResponse?.data ?? [];
+  const writeError = create.error ?? statusChange.error;
+
+  return (
+    <Box p={4}>
+      <HStack justify="space-between" mb={6} wrap="wrap">
+        <Heading color="#000" fontWeight="extrabold">Data Corrections</Heading>
+        <HStack>
+          <Input
+            {...fieldStyle}
+            w="240px"
+            placeholder="Your name (recorded on writes)"
+            value={adminName}
+            onChange={e => setAdminName(e.target.value)}
+          />
+          <Button as={Link} href="/dashboard" border="3px solid #000" bg="#fff">Dashboard</Button>
+        </HStack>
+      </HStack>
+
+      <Stack spacing={6}>
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#D1FF4C">
+          <Heading size="md" color="#000" fontWeight="extrabold" mb={4}>New correction</Heading>
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <FormControl>
+              <FormLabel fontWeight="bold">Entity type</FormLabel>
+              <Select
+                {...fieldStyle}
+                value={entityType}
+                onChange={e => setEntityType(e.target.value as CorrectableEntityType)}
+              >
+                {CORRECTABLE_ENTITY_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl>
+              <FormLabel fontWeight="bold">{CORRECTION_ENTITY_MODELS[entityType]} id</FormLabel>
+              <Input {...fieldStyle} value={entityId} onChange={e => setEntityId(e.target.value)} />
+            </FormControl>
+            <FormControl>
+              <FormLabel fontWeight="bold">Field</FormLabel>
+              <Input
+                {...fieldStyle}
+                list="correction-columns"
+                placeholder="e.g. price, remarks.public, photoUrls[2]"
+                value={fieldExpression}
+                onChange={e => setFieldExpression(e.target.value)}
+              />
+              <datalist id="correction-columns">
+                {columnsResponse?.data.map(column => (
+                  <option key={column.name} value={column.name}>
+                    {column.type}{column.isList ? '[]' : ''}
+                  </option>
+                ))}
+              </datalist>
+              <FormHelperText color="#000">Use dots for JSON keys and [n] for array elements.</FormHelperText>
+            </FormControl>
+            <FormControl>
+              <FormLabel fontWeight="bold">Reason</FormLabel>
+              <Input {...fieldStyle} value={reason} onChange={e => setReason(e.target.value)} />
+            </FormControl>
+          </SimpleGrid>
+          <FormControl mt={4}>
+            <FormLabel fontWeight="bold">Corrected value</FormLabel>
+            <Textarea
+              {...fieldStyle}
+              fontFamily="mono"
+              rows={4}
+              value={valueText}
+              onChange={e => setValueText(e.target.value)}
+            />
+            <FormHelperText color="#000">JSON (numbers, true/false, null, objects, lists); anything else is saved as text.</FormHelperText>
+          </FormControl>
+
+          <HStack mt={4}>
+            <Button
+              border="3px solid #000"
+              bg="#fff"
+              onClick={() => preview.mutate(input)}
+              isLoading={preview.isPending}
+              isDisabled={!canPreview}
+            >
+              Preview
+            </Button>
+            <Button
+              border="3px solid #000"
+              bg="#000"
+              color="#fff"
+              _hover={{ bg: '#333' }}
+              onClick={() => create.mutate(input)}
+              isLoading={create.isPending}
+              isDisabled={!previewData}
+            >
+              Create correction
+            </Button>
+            {!adminName.trim() && <Text fontSize="sm" fontWeight="bold">Enter your name above to make changes.</Text>}
+          </HStack>
+
+          {preview.error && previewedKey === inputKey && (
+            <Alert status="error" mt={4}>
+              <AlertIcon />
+              {preview.error.message}
+            </Alert>
+          )}
+          {create.isSuccess && (
+            <Alert status="success" mt={4}>
+              <AlertIcon />
+              Correction created and recorded in the listing audit log.
+            </Alert>
+          )}
+
+          {previewData && (
+            <Stack spacing={4} mt={4}>
+              {!previewData.listingId && (
+                <Alert status="warning">
+                  <AlertIcon />
+                  This {CORRECTION_ENTITY_MODELS[previewData.entityType]} is not linked to a listing, so the correction cannot be audited or saved.
+                </Alert>
+              )}
+              {previewData.supersedes.length > 0 && (
+                <Alert status="info">
+                  <AlertIcon />
+                  Replaces {previewData.supersedes.length} active correction{previewData.supersedes.length === 1 ? '' : 's'} on {previewData.field}.
+                </Alert>
+              )}
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+                <JsonBlock label={`${previewData.field} before`} value={previewData.before} />
+                <JsonBlock label={`${previewData.field} after`} value={previewData.after} />
+                {previewData.fieldPath.length > 1 && (
+                  <>
+                    <JsonBlock label={`${previewData.column} before`} value={previewData.columnBefore} />
+                    <JsonBlock label={`${previewData.column} after`} value={previewData.columnAfter} />
+                  </>
+                )}
+              </SimpleGrid>
+            </Stack>
+          )}
+        </Box>
+
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+          <HStack mb={4} spacing={3}>
+            <Heading size="md" color="#000" fontWeight="extrabold">Corrections</Heading>
+            {isFetching && <Spinner size="sm" />}
+          </HStack>
+          <SimpleGrid columns={{ base: 1, md: 4 }} spacing={3} mb={4}>
+            <Select
+              {...fieldStyle}
+              value={filterEntityType}
+              onChange={e => setFilterEntityType(e.target.value as CorrectableEntityType | '')}
+            >
+              <option value="">All entity types</option>
+              {CORRECTABLE_ENTITY_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </Select>
+            <Input {...fieldStyle} placeholder="Entity id" value={filterEntityId} onChange={e => setFilterEntityId(e.target.value)} />
+            <Input {...fieldStyle} placeholder="Created by" value={filterCreatedBy} onChange={e => setFilterCreatedBy(e.target.value)} />
+            <Select {...fieldStyle} value={filterStatus} onChange={e => setFilterStatus(e.target.value as CorrectionStatus | '')}>
+              <option value="ACTIVE">Active</option>
+              <option value="INACTIVE">Inactive</option>
+              <option value="">Any status</option>
+            </Select>
+          </SimpleGrid>
+
+          {listError && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              Error loading corrections. Please try again later.
+            </Alert>
+          )}
+          {writeError && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              {writeError.message}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box display="flex" justifyContent="center" p={8}>
+              <Spinner size="xl" />
+            </Box>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Created</Th>
+                  <Th>Entity</Th>
+                  <Th>Field</Th>
+                  <Th>Original</Th>
+                  <Th>Corrected</Th>
+                  <Th>Reason</Th>
+                  <Th>By</Th>
+                  <Th>Status</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {corrections.map(correction => {
+                  const active = correction.status === 'ACTIVE';
+                  const isListing = correction.entityType === 'LISTING_OVERRIDE' || correction.entityType === 'LISTING_PERMANENT';
+                  return (
+                    <Tr key={correction.id}>
+                      <Td>{new Date(correction.createdAt).toLocaleString('en-US')}</Td>
+                      <Td>
+                        <Text fontSize="xs">{correction.entityType}</Text>
+                        {isListing ? (
+                          <Link href={`/listings/${encodeURIComponent(correction.entityId)}`}>
+                            <Text fontWeight="bold" textDecoration="underline">{correction.entityId}</Text>
+                          </Link>
+                        ) : (
+                          <Text fontWeight="bold">{correction.entityId}</Text>
+                        )}
+                      </Td>
+                      <Td fontWeight="bold">{correction.field}</Td>
+                      <Td><Code whiteSpace="pre-wrap">{formatJson(correction.originalValue)}</Code></Td>
+                      <Td><Code whiteSpace="pre-wrap">{formatJson(correction.correctedValue)}</Code></Td>
+                      <Td>{correction.reason ?? '-'}</Td>
+                      <Td>{correction.createdBy}</Td>
+                      <Td>
+                        <Badge border="2px solid #000" bg={active ? '#D1FF4C' : '#fff'} color="#000">{correction.status}</Badge>
+                      </Td>
+                      <Td>
+                        <Button
+                          size="sm"
+                          border="3px solid #000"
+                          bg="#fff"
+                          isDisabled={!adminName.trim()}
+                          isLoading={statusChange.isPending && statusChange.variables?.id === correction.id}
+                          onClick={() => statusChange.mutate({ id: correction.id, status: active ? 'INACTIVE' : 'ACTIVE' })}
+                        >
+                          {active ? 'Deactivate' : 'Reactivate'}
+                        </Button>
+                      </Td>
+                    </Tr>
+                  );
+                })}
+              </Tbody>
+            </Table>
+          )}
+          {!isLoading && corrections.length === 0 && <Text mt={4}>No corrections match.</Text>}
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  FormControl,
+  FormLabel,
+  Heading,
+  HStack,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useQuery } from '@tanstack/react-query';
+import { calculateAffordability } from '@/lib/affordability';
+import { ListingService } from '@/services/listing.service';
+import { BuyerInputs, MonthlyPaymentBreakdown } from '@/types/affordability';
+
+const listingService = new ListingService();
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+};
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+const PAYMENT_ROWS: Array<{ key: keyof MonthlyPaymentBreakdown; label: string }> = [
+  { key: 'principalAndInterest', label: 'Principal & Interest' },
+  { key: 'secondLien', label: 'Second Lien' },
+  { key: 'propertyTax', label: 'Property Tax' },
+  { key: 'insurance', label: 'Insurance' },
+  { key: 'hoa', label: 'HOA' },
+  { key: 'pmi', label: 'PMI / MIP' },
+];
+
+const INPUT_FIELDS: Array<{ key: keyof BuyerInputs; label: string; step: number }> = [
+  { key: 'cash', label: 'Buyer cash ($)', step: 5000 },
+  { key: 'annualIncome', label: 'Annual income ($)', step: 5000 },
+  { key: 'monthlyDebts', label: 'Other monthly debts ($)', step: 50 },
+  { key: 'secondLienRate', label: 'Second lien rate (%)', step: 0.125 },
+  { key: 'secondLienTermYears', label: 'Second lien term (years)', step: 5 },
+  { key: 'marketRate', label: 'Market rate (%)', step: 0.125 },
+];
+
+/**
+ * Assumption affordability calculator for one listing. The seed and default
+ * inputs come from the API once; every input change is recalculated locally
+ * with the same library the API uses.
+ */
+export default function AffordabilityCalculator({ listingId }: { listingId: string }) {
+  const [inputs, setInputs] = useState<Partial<Record<keyof BuyerInputs, string>>>({});
+
+  const { data: response, isLoading, error } = useQuery({
+    queryKey: ['listingAffordability', listingId],
+    queryFn: () => listingService.fetchAffordability(listingId),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" p={8}>
+        <Spinner size="xl" />
+      </Box>
+    );
+  }
+
+  if (error || !response?.data) {
+    return (
+      <Alert status="warning">
+        <AlertIcon />
+        {error instanceof Error ? error.message : 'Affordability is not available for this listing.'}
+      </Alert>
+    );
+  }
+
+  const { seed } = response.data;
+  const defaults = response.data.inputs;
+  const valueOf = (key: keyof BuyerInputs) => inputs[key] ?? (defaults[key] === null ? '' : String(defaults[key]));
+  const numberOf = (key: keyof BuyerInputs) => {
+    const value = Number(valueOf(key));
+    return valueOf(key) === '' || !Number.isFinite(value) ? null : value;
+  };
+
+  const result = calculateAffordability(seed, {
+    cash: numberOf('cash') ?? 0,
+    annualIncome: numberOf('annualIncome'),
+    monthlyDebts: numberOf('monthlyDebts') ?? 0,
+    secondLienRate: numberOf('secondLienRate') ?? defaults.secondLienRate,
+    secondLienTermYears: numberOf('secondLienTermYears') || defaults.secondLienTermYears,
+    marketRate: numberOf('marketRate') ?? defaults.marketRate,
+  });
+
+  return (
+    <Stack spacing={6}>
+      <Box>
+        <Heading size="md" color="#000" fontWeight="extrabold">Assumption Calculator</Heading>
+        <Text fontSize="sm">
+          {seed.loanType} loan · {formatCurrency(seed.currentBalance)} at {formatPercent(seed.interestRate)} ·{' '}
+          {seed.remainingTerm} payments left · list price {formatCurrency(seed.price)}
+        </Text>
+      </Box>
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        {INPUT_FIELDS.map(field => (
+          <FormControl key={field.key}>
+            <FormLabel fontWeight="bold" fontSize="sm">{field.label}</FormLabel>
+            <NumberInput
+              value={valueOf(field.key)}
+              min={0}
+              step={field.step}
+              onChange={value => setInputs(current => ({ ...current, [field.key]: value }))}
+            >
+              <NumberInputField border="3px solid #000" />
+            </NumberInput>
+          </FormControl>
+        ))}
+      </SimpleGrid>
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        {[
+          { label: 'Equity Gap', value: formatCurrency(result.equityGap) },
+          { label: 'Second Lien', value: formatCurrency(result.secondLienAmount) },
+          { label: 'Blended Rate', value: formatPercent(result.blendedRate) },
+          { label: 'Monthly All-In', value: formatCurrency(result.monthly.total) },
+        ].map((metric, i) => (
+          <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={4}>
+            <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+            <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+          </Box>
+        ))}
+      </SimpleGrid>
+
+      <HStack spacing={3} wrap="wrap">
+        <Text fontWeight="bold">DTI {formatPercent(result.dti)}</Text>
+        {result.qualifyingDti !== null && <Text>limit {formatPercent(result.qualifyingDti)}</Text>}
+        {result.meetsQualifyingDti !== null && (
+          <Badge border="2px solid #000" bg={result.meetsQualifyingDti ? '#D1FF4C' : '#FF7A7A'} color="#000">
+            {result.meetsQualifyingDti ? 'Qualifies' : 'Over limit'}
+          </Badge>
+        )}
+        {result.cashRemaining > 0 && <Text>{formatCurrency(result.cashRemaining)} cash left over</Text>}
+      </HStack>
+
+      <Box overflowX="auto">
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Monthly</Th>
+              <Th isNumeric>Assumption</Th>
+              <Th isNumeric>Conventional at {formatPercent(result.conventional.rate)}</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {PAYMENT_ROWS.map(row => (
+              <Tr key={row.key}>
+                <Td>{row.label}</Td>
+                <Td isNumeric>{formatCurrency(result.monthly[row.key])}</Td>
+                <Td isNumeric>{formatCurrency(result.conventional.monthly[row.key])}</Td>
+              </Tr>
+            ))}
+            <Tr>
+              <Td fontWeight="bold">Total</Td>
+              <Td isNumeric fontWeight="bold">{formatCurrency(result.monthly.total)}</Td>
+              <Td isNumeric fontWeight="bold">{formatCurrency(result.conventional.monthly.total)}</Td>
+            </Tr>
+            <Tr>
+              <Td>DTI</Td>
+              <Td isNumeric>{formatPercent(result.dti)}</Td>
+              <Td isNumeric>{formatPercent(result.conventional.dti)}</Td>
+            </Tr>
+          </Tbody>
+        </Table>
+      </Box>
+
+      <Text fontWeight="bold">
+        {result.conventional.monthlySavings >= 0
+          ? `Assuming saves ${formatCurrency(result.conventional.monthlySavings)} a month`
+          : `Assuming costs ${formatCurrency(-result.conventional.monthlySavings)} more a month`}{' '}
+        versus {formatCurrency(result.conventional.downPayment)} down on a new conventional loan.
+      </Text>
+    </Stack>
+  );
+}
@@ -0,0 +1,409 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  ButtonGroup,
+  Heading,
+  HStack,
+  Input,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useMutation } from '@tanstack/react-query';
+import MapGL, { Layer, MapLayerMouseEvent, NavigationControl, Source } from 'react-map-gl';
+import type { CircleLayer, FillLayer, LineLayer } from 'react-map-gl';
+import type { FeatureCollection } from 'geojson';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { Bar, Pie } from 'react-chartjs-2';
+import { AreaService } from '@/services/area.service';
+import { useSavedAreas } from '@/hooks/useSavedAreas';
+import { INITIAL_VIEW, MAP_STYLE, MAPBOX_TOKEN } from '@/lib/mapbox';
+import { AreaAnalytics, LngLat, SavedArea, SearchArea } from '@/types/area';
+
+type DrawMode = 'polygon' | 'radius';
+
+const areaService = new AreaService();
+
+const METERS_PER_MILE = 1609.34;
+
+const ASSUMABLE_PIE_COLORS = ['#D1FF4C', '#e6ffb3', '#A3E635', '#65C466', '#3CA86B', '#1B5E20'];
+
+const areaFillLayer: FillLayer = {
+  id: 'area-fill',
+  type: 'fill',
+  source: 'area',
+  filter: ['==', ['geometry-type'], 'Polygon'],
+  paint: { 'fill-color': '#D1FF4C', 'fill-opacity': 0.3 },
+};
+
+const areaLineLayer: LineLayer = {
+  id: 'area-outline',
+  type: 'line',
+  source: 'area',
+  paint: { 'line-color': '#000', 'line-width': 3 },
+};
+
+const vertexLayer: CircleLayer = {
+  id: 'area-vertices',
+  type: 'circle',
+  source: 'area',
+  filter: ['==', ['geometry-type'], 'Point'],
+  paint: { 'circle-radius': 5, 'circle-color': '#fff', 'circle-stroke-color': '#000', 'circle-stroke-width': 2 },
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+/**
+ * Approximate a circle as a polygon ring for display purposes.
+ * Uses an equirectangular approximation, which is accurate enough at neighborhood scale.
+ *
+ * @param {LngLat} center - Circle center
+ * @param {number} radiusMeters - Radius in meters
+ * @param {number} [steps=64] - Number of ring vertices
+ * @returns {LngLat[]} Closed ring of coordinates
+ */
+const circleRing = ([lng, lat]: LngLat, radiusMeters: number, steps = 64): LngLat[] => {
+  const latRadius = radiusMeters / 111320;
+  const lngRadius = radiusMeters / (111320 * Math.cos((lat * Math.PI) / 180));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (i / steps) * 2 * Math.PI;
+    return [lng + lngRadius * Math.cos(angle), lat + latRadius * Math.sin(angle)] as LngLat;
+  });
+};
+
+/**
+ * AreaSearch - draw a polygon or radius on the map and get listing metrics for that area.
+ *
+ * Polygon mode: click to add vertices, then Analyze (the ring is closed automatically).
+ * Radius mode: click to place the center and set the radius in miles.
+ * Areas can be saved in the browser and re-run later to track them over time.
+ */
+export default function AreaSearch() {
+  const [mode, setMode] = useState<DrawMode>('polygon');
+  const [vertices, setVertices] = useState<LngLat[]>([]);
+  const [center, setCenter] = useState<LngLat | null>(null);
+  const [radiusMiles, setRadiusMiles] = useState(1);
+  const [areaName, setAreaName] = useState('');
+  const [activeSavedId, setActiveSavedId] = useState<string | null>(null);
+  const { areas, saveArea, removeArea, recordRun } = useSavedAreas();
+
+  const { mutate, data, isPending, error, reset } = useMutation({
+    mutationFn: (area: SearchArea) => areaService.fetchAreaAnalytics({ area }),
+  });
+  const analytics: AreaAnalytics | undefined = data?.data;
+
+  // The area currently drawn on the map, or null if the drawing is incomplete
+  const currentArea = useMemo<SearchArea | null>(() => {
+    if (mode === 'radius') {
+      return center ? { type: 'radius', center, radiusMeters: radiusMiles * METERS_PER_MILE } : null;
+    }
+    return vertices.length >= 3 ? { type: 'polygon', coordinates: vertices } : null;
+  }, [mode, center, radiusMiles, vertices]);
+
+  const shapes = useMemo<FeatureCollection>(() => {
+    const features: FeatureCollection['features'] = [];
+
+    if (mode === 'radius' && center) {
+      features.push({
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Polygon', coordinates: [circleRing(center, radiusMiles * METERS_PER_MILE)] },
+      });
+      features.push({ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: center } });
+    }
+
+    if (mode === 'polygon' && vertices.length > 0) {
+      features.push(vertices.length >= 3
+        ? { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[...vertices, vertices[0]]] } }
+        : { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: vertices } });
+      vertices.forEach(vertex => {
+        features.push({ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: vertex } });
+      });
+    }
+
+    return { type: 'FeatureCollection', features };
+  }, [mode, center, radiusMiles, vertices]);
+
+  const clearDrawing = () => {
+    setVertices([]);
+    setCenter(null);
+    setActiveSavedId(null);
+    reset();
+  };
+
+  const handleMapClick = (event: MapLayerMouseEvent) => {
+    const point: LngLat = [event.lngLat.lng, event.lngLat.lat];
+    setActiveSavedId(null);
+    if (mode === 'radius') {
+      setCenter(point);
+    } else {
+      setVertices(prev => [...prev, point]);
+    }
+  };
+
+  const analyze = () => {
+    if (!currentArea) return;
+    mutate(currentArea);
+  };
+
+  const handleSave = () => {
+    if (!currentArea || !areaName.trim()) return;
+    const saved = saveArea(areaName.trim(), currentArea, analytics);
+    setActiveSavedId(saved.id);
+    setAreaName('');
+  };
+
+  // Load a saved area back onto the map and re-run it, recording the result in its history
+  const runSavedArea = (saved: SavedArea) => {
+    if (saved.area.type === 'radius') {
+      setMode('radius');
+      setCenter(saved.area.center);
+      setRadiusMiles(Number((saved.area.radiusMeters / METERS_PER_MILE).toFixed(2)));
+    } else {
+      setMode('polygon');
+      // Drop the closing vertex; it is re-added when drawing and on the server
+      setVertices(saved.area.coordinates.slice(0, -1));
+    }
+    setActiveSavedId(saved.id);
+    mutate(saved.area, { onSuccess: response => recordRun(saved.id, response.data) });
+  };
+
+  const activeSaved = areas.find(area => area.id === activeSavedId);
+
+  if (!MAPBOX_TOKEN) {
+    return (
+      <Alert status="warning">
+        <AlertIcon />
+        Set NEXT_PUBLIC_MAPBOX_TOKEN to enable area search.
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack spacing={6}>
+      <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+        <HStack spacing={3} mb={4} wrap="wrap">
+          <ButtonGroup isAttached>
+            {(['polygon', 'radius'] as DrawMode[]).map(option => (
+              <Button
+                key={option}
+                border="3px solid #000"
+                bg={mode === option ? '#D1FF4C' : '#fff'}
+                onClick={() => { setMode(option); clearDrawing(); }}
+              >
+                {option === 'polygon' ? 'Draw Polygon' : 'Radius'}
+              </Button>
+            ))}
+          </ButtonGroup>
+          {mode === 'radius' && (
+            <HStack>
+              <NumberInput
+                value={radiusMiles}
+                min={0.1}
+                max={30}
+                step={0.5}
+                width="100px"
+                onChange={(_, value) => setRadiusMiles(Number.isNaN(value) ? 0 : value)}
+              >
+                <NumberInputField border="3px solid #000" />
+              </NumberInput>
+              <Text fontWeight="bold">miles</Text>
+            </HStack>
+          )}
+          <Button bg="#D1FF4C" border="3px solid #000" onClick={analyze} isDisabled={!currentArea} isLoading={isPending}>
+            Analyze
+          </Button>
+          <Button bg="#fff" border="3px solid #000" onClick={clearDrawing}>Clear</Button>
+        </HStack>
+        <Text fontSize="sm" mb={3}>
+          {mode === 'polygon'
+            ? 'Click the map to add polygon vertices (at least 3).'
+            : 'Click the map to place the center of the search radius.'}
+        </Text>
+        <Box height={{ base: '380px', lg: '520px' }} borderRadius="12px" overflow="hidden" border="3px solid #000">
+          <MapGL
+            mapboxAccessToken={MAPBOX_TOKEN}
+            initialViewState={INITIAL_VIEW}
+            mapStyle={MAP_STYLE}
+            onClick={handleMapClick}
+            doubleClickZoom={false}
+            cursor="crosshair"
+          >
+            <NavigationControl position="top-right" />
+            <Source id="area" type="geojson" data={shapes}>
+              <Layer {...areaFillLayer} />
+              <Layer {...areaLineLayer} />
+              <Layer {...vertexLayer} />
+            </Source>
+          </MapGL>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error analyzing this area. Please try again later.
+        </Alert>
+      )}
+
+      {analytics && (
+        <>
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4}>
+            {[
+              { label: 'Listings in Area', value: formatNumber(analytics.totalListings) },
+              { label: 'Average Price', value: formatCurrency(analytics.averagePrice) },
+              { label: 'Median Price', value: formatCurrency(analytics.medianPrice) },
+              { label: 'Assumable Share', value: `${(analytics.assumableShare * 100).toFixed(1)}%` },
+            ].map((metric, i) => (
+              <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={6}>
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 3 }} spacing={6}>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Price Distribution</Heading>
+              <Box height="260px">
+                <Bar
+                  data={{
+                    labels: analytics.priceDistribution.labels,
+                    datasets: [{ label: 'Listings', data: analytics.priceDistribution.values, backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 3 }],
+                  }}
+                  options={{ responsive: true, maintainAspectRatio: false, scales: { y: { beginAtZero: true } } }}
+                />
+              </Box>
+            </Box>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Assumable Loan Mix</Heading>
+              <Box height="260px">
+                {analytics.assumableListings.labels.length > 0 ? (
+                  <Pie
+                    data={{
+                      labels: analytics.assumableListings.labels,
+                      datasets: [{
+                        data: analytics.assumableListings.values,
+                        backgroundColor: ASSUMABLE_PIE_COLORS.slice(0, analytics.assumableListings.labels.length),
+                        borderColor: '#000',
+                        borderWidth: 3,
+                      }],
+                    }}
+                    options={{ responsive: true, maintainAspectRatio: false }}
+                  />
+                ) : (
+                  <Text>No assumable listings in this area.</Text>
+                )}
+              </Box>
+            </Box>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Days on Market</Heading>
+              <Box height="260px">
+                <Bar
+                  data={{
+                    labels: analytics.daysOnMarket.labels,
+                    datasets: [{ label: 'Listings', data: analytics.daysOnMarket.values, backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 3 }],
+                  }}
+                  options={{ responsive: true, maintainAspectRatio: false, scales: { y: { beginAtZero: true } } }}
+                />
+              </Box>
+            </Box>
+          </SimpleGrid>
+
+          {!activeSavedId && (
+            <HStack>
+              <Input
+                placeholder="Name this area to save it"
+                border="3px solid #000"
+                bg="#fff"
+                value={areaName}
+                onChange={e => setAreaName(e.target.value)}
+              />
+              <Button bg="#D1FF4C" border="3px solid #000" onClick={handleSave} isDisabled={!areaName.trim()}>
+                Save Area
+              </Button>
+            </HStack>
+          )}
+        </>
+      )}
+
+      {areas.length > 0 && (
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+          <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Saved Areas</Heading>
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Name</Th>
+                <Th>Shape</Th>
+                <Th isNumeric>Runs</Th>
+                <Th isNumeric>Last Count</Th>
+                <Th isNumeric>Last Avg Price</Th>
+                <Th />
+              </Tr>
+            </Thead>
+            <Tbody>
+              {areas.map(saved => {
+                const last = saved.history[saved.history.length - 1];
+                return (
+                  <Tr key={saved.id} bg={saved.id === activeSavedId ? '#f4ffd6' : undefined}>
+                    <Td fontWeight="bold">{saved.name}</Td>
+                    <Td>{saved.area.type === 'radius' ? `${(saved.area.radiusMeters / METERS_PER_MILE).toFixed(1)} mi radius` : 'Polygon'}</Td>
+                    <Td isNumeric>{saved.history.length}</Td>
+                    <Td isNumeric>{last ? formatNumber(last.totalListings) : '-'}</Td>
+                    <Td isNumeric>{last ? formatCurrency(last.averagePrice) : '-'}</Td>
+                    <Td>
+                      <ButtonGroup size="sm">
+                        <Button border="2px solid #000" bg="#D1FF4C" onClick={() => runSavedArea(saved)} isLoading={isPending && saved.id === activeSavedId}>
+                          Run
+                        </Button>
+                        <Button border="2px solid #000" bg="#fff" onClick={() => removeArea(saved.id)}>Delete</Button>
+                      </ButtonGroup>
+                    </Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        </Box>
+      )}
+
+      {activeSaved && activeSaved.history.length > 1 && (
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+          <Heading size="md" mb={4} color="#000" fontWeight="extrabold">{activeSaved.name} Over Time</Heading>
+          <Box height="260px">
+            <Bar
+              data={{
+                labels: activeSaved.history.map(run => new Date(run.runAt).toLocaleDateString()),
+                datasets: [{ label: 'Listings', data: activeSaved.history.map(run => run.totalListings), backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 3 }],
+              }}
+              options={{ responsive: true, maintainAspectRatio: false, scales: { y: { beginAtZero: true } } }}
+            />
+          </Box>
+        </Box>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Select } from '@chakra-ui/react';
+import { bucketPresets, DEFAULT_AUTO_BUCKETS, DEFAULT_BUCKET_PRESET, formatBucketSpec, parseBucketSpec } from '@/lib/bucket-specs';
+import { BucketChart, BucketSpec } from '@/types/buckets';
+
+interface BucketSelectProps {
+  chart: BucketChart;
+  value?: BucketSpec;
+  onChange: (spec: BucketSpec) => void;
+}
+
+/**
+ * Bucket preset picker shown in a distribution chart's header. Offers the
+ * chart's presets plus the two automatic modes; custom boundaries set through
+ * the API show up as an extra "Custom" option.
+ */
+export default function BucketSelect({ chart, value, onChange }: BucketSelectProps) {
+  const current = value ? formatBucketSpec(value) : DEFAULT_BUCKET_PRESET;
+  const options = [
+    ...bucketPresets(chart).map(preset => ({ value: preset.name, label: preset.label })),
+    { value: `auto:quantile:${DEFAULT_AUTO_BUCKETS}`, label: 'Auto (quantiles)' },
+    { value: `auto:fd:${DEFAULT_AUTO_BUCKETS * 2}`, label: 'Auto (Freedman–Diaconis)' },
+  ];
+  if (!options.some(option => option.value === current)) {
+    options.push({ value: current, label: 'Custom' });
+  }
+
+  return (
+    <Select
+      size="sm"
+      width="auto"
+      border="3px solid #000"
+      borderRadius="12px"
+      fontWeight="bold"
+      value={current}
+      onChange={e => onChange(parseBucketSpec(chart, e.target.value))}
+      aria-label="Buckets"
+    >
+      {options.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </Select>
+  );
+}
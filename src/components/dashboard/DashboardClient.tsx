@@ -1,9 +1,12 @@
 'use client';
 
-import React from 'react';
-import { Box, Heading, Text, SimpleGrid, Card, CardBody, Stack, Alert, AlertIcon, Spinner, Tabs, TabList, TabPanels, Tab, TabPanel } from '@chakra-ui/react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Box, Heading, Text, SimpleGrid, Card, CardBody, Stack, Alert, AlertIcon, Spinner, Tabs, TabList, TabPanels, Tab, TabPanel, HStack } from '@chakra-ui/react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { LoanType } from '@prisma/client';
 import {
+  ActiveElement,
   Chart as ChartJS,
   ArcElement,
   CategoryScale,
@@ -16,7 +19,32 @@ import {
 } from 'chart.js';
 import { Pie, Bar, Line } from 'react-chartjs-2';
 import { DashboardService } from '@/services/dashboard.service';
-import { DashboardResponse } from '@/types/dashboard';
+import { useDashboardFilters } from '@/hooks/useDashboardFilters';
+import { STATUS_CATEGORY_COLORS, STATUS_CATEGORY_LABELS, STATUS_CATEGORY_ORDER } from '@/lib/listing-status';
+import { bucketBounds } from '@/lib/bucket-specs';
+import { BucketChart, BucketSpec, BucketSpecs } from '@/types/buckets';
+import { ChartData } from '@/types/dashboard';
+import { ListingSegment } from '@/types/listings';
+import BucketSelect from './BucketSelect';
+import DashboardFilterBar from './DashboardFilterBar';
+import IngestionHealth from './IngestionHealth';
+import ListingTable from './ListingTable';
+import MediaAnalytics from './MediaAnalytics';
+import MortgageDeepDive from './MortgageDeepDive';
+import PriceHistory from './PriceHistory';
+import SnapshotStatus from './SnapshotStatus';
+import StatusFlow from './StatusFlow';
+import UpdateCadence from './UpdateCadence';
+
+// Mapbox touches `window` on import, so the map is only rendered client-side
+const ListingMap = dynamic(() => import('./ListingMap'), {
+  ssr: false,
+  loading: () => <Spinner size="xl" />,
+});
+const AreaSearch = dynamic(() => import('./AreaSearch'), {
+  ssr: false,
+  loading: () => <Spinner size="xl" />,
+});
 
 // Register ChartJS components
 ChartJS.register(
@@ -32,6 +60,11 @@ ChartJS.register(
 
 const dashboardService = new DashboardService();
 
+const LISTINGS_TAB = 4;
+
+// Index of the clicked bar or slice, if any
+const clickedIndex = (elements: ActiveElement[]) => elements[0]?.index;
+
 const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -53,6 +86,11 @@ const PIE_GREENS = [
   '#1B5E20', // deep green
 ];
 
+// Status distribution labels are category labels; map them back to category colors
+const STATUS_LABEL_COLORS: Record<string, string> = Object.fromEntries(
+  STATUS_CATEGORY_ORDER.map(category => [STATUS_CATEGORY_LABELS[category], STATUS_CATEGORY_COLORS[category]])
+);
+
 // Pie chart color palette for Assumable Loan Distribution
 const ASSUMABLE_PIE_COLORS = [
   '#D1FF4C', // primary green
@@ -64,16 +102,54 @@ const ASSUMABLE_PIE_COLORS = [
 ];
 
 export default function DashboardClient() {
+  const [filters, setFilters] = useDashboardFilters();
+  const [buckets, setBuckets] = useState<BucketSpecs>({});
+  const [tabIndex, setTabIndex] = useState(0);
+  const [segment, setSegment] = useState<ListingSegment | null>(null);
+  const [corrected, setCorrected] = useState(false);
   const { data, isLoading, error } = useQuery({
-    queryKey: ['dashboardData'],
-    queryFn: () => dashboardService.fetchDashboardData(),
+    queryKey: ['dashboardData', filters, buckets, corrected],
+    queryFn: () => dashboardService.fetchDashboardData(filters, { buckets, corrected }),
+    placeholderData: keepPreviousData,
     retry: 1,
   });
 
+  const chartHeader = (title: string, chart: BucketChart) => (
+    <HStack justify="space-between" mb={4} spacing={4}>
+      <Heading size="md" color="#000" fontWeight="extrabold">{title}</Heading>
+      <BucketSelect
+        chart={chart}
+        value={buckets[chart]}
+        onChange={(spec: BucketSpec) => setBuckets({ ...buckets, [chart]: spec })}
+      />
+    </HStack>
+  );
+
+  // Chart drill-down: open the listing table narrowed to the clicked segment
+  const openListings = (next: ListingSegment) => {
+    setSegment(next);
+    setTabIndex(LISTINGS_TAB);
+  };
+
+  const openBucket = (chart: 'price' | 'daysOnMarket', title: string, data: ChartData, index: number | undefined) => {
+    if (index === undefined) return;
+    const { min, max } = bucketBounds(data.edges ?? [], index);
+    openListings({
+      label: `${title}: ${data.labels[index]}`,
+      ...(chart === 'price' ? { priceMin: min, priceMax: max } : { daysOnMarketMin: min, daysOnMarketMax: max }),
+    });
+  };
+
+  const filterBar = <DashboardFilterBar filters={filters} onChange={setFilters} />;
+
   if (isLoading) {
     return (
-      <Box p={4} display="flex" justifyContent="center" alignItems="center" minHeight="200px">
-        <Spinner size="xl" />
+      <Box p={4}>
+        <Heading mb={6}>Listings Dashboard</Heading>
+        {filterBar}
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <Spinner size="xl" />
+        </Box>
       </Box>
     );
   }
@@ -81,6 +157,8 @@ export default function DashboardClient() {
   if (error) {
     return (
       <Box p={4}>
+        <Heading mb={6}>Listings Dashboard</Heading>
+        {filterBar}
         <Alert status="error">
           <AlertIcon />
           Error loading dashboard data. Please try again later.
@@ -92,6 +170,8 @@ export default function DashboardClient() {
   if (!data) {
     return (
       <Box p={4}>
+        <Heading mb={6}>Listings Dashboard</Heading>
+        {filterBar}
         <Alert status="warning">
           <AlertIcon />
           No data available.
@@ -105,6 +185,15 @@ export default function DashboardClient() {
   return (
     <Box p={4}>
       <Heading mb={6}>Listings Dashboard</Heading>
+      {filterBar}
+      <SnapshotStatus
+        filters={filters}
+        buckets={buckets}
+        snapshot={data.snapshot}
+        corrected={corrected}
+        corrections={dashboardData.corrections}
+        onCorrectedChange={setCorrected}
+      />
       
       <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4} mb={6}>
         <Card bg="#D1FF4C" border="3px solid #000" borderRadius="18px" boxShadow="none" p={6}>
@@ -136,6 +225,9 @@ export default function DashboardClient() {
               <Text fontSize="3xl" fontWeight="extrabold" color="#000">
                 {formatNumber(dashboardData.metrics.averageDaysOnMarket)} days
               </Text>
+              <Text fontSize="sm" color="#000" fontWeight="bold">
+                Median {formatNumber(dashboardData.metrics.medianDaysOnMarket)} · p90 {formatNumber(dashboardData.metrics.p90DaysOnMarket)}
+              </Text>
             </Stack>
           </CardBody>
         </Card>
@@ -152,12 +244,18 @@ export default function DashboardClient() {
         </Card>
       </SimpleGrid>
 
-      <Tabs variant="unstyled">
+      <Tabs variant="unstyled" isLazy index={tabIndex} onChange={setTabIndex}>
         <TabList mb={4}>
           <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Overview</Tab>
           <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Trends</Tab>
           <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Mortgage Analytics</Tab>
           <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Listing Lifecycle</Tab>
+          <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Listings</Tab>
+          <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Price History</Tab>
+          <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Map</Tab>
+          <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Area Search</Tab>
+          <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Media</Tab>
+          <Tab _selected={{ bg: '#D1FF4C', color: '#000', border: '3px solid #000', borderRadius: '12px' }} fontWeight="bold" fontSize="lg">Ingestion</Tab>
         </TabList>
 
         <TabPanels>
@@ -181,6 +279,12 @@ export default function DashboardClient() {
                     options={{
                       responsive: true,
                       maintainAspectRatio: false,
+                      onClick: (_event, elements) => {
+                        const index = clickedIndex(elements);
+                        if (index === undefined) return;
+                        const loanType = dashboardData.assumableListings.labels[index];
+                        openListings({ label: `Loan type: ${loanType}`, loanType: loanType as LoanType });
+                      },
                       plugins: {
                         legend: {
                           position: 'top' as const,
@@ -193,7 +297,7 @@ export default function DashboardClient() {
               </Box>
 
               <Box p={4} borderRadius="18px" border="3px solid #000" boxShadow="none" bg="#fff" mb={6}>
-                <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Price Distribution</Heading>
+                {chartHeader('Price Distribution', 'price')}
                 <Box height="300px">
                   <Bar
                     data={{
@@ -211,6 +315,8 @@ export default function DashboardClient() {
                     options={{
                       responsive: true,
                       maintainAspectRatio: false,
+                      onClick: (_event, elements) =>
+                        openBucket('price', 'Price', dashboardData.priceDistribution, clickedIndex(elements)),
                       plugins: {
                         legend: {
                           position: 'top' as const,
@@ -356,7 +462,7 @@ export default function DashboardClient() {
           <TabPanel>
             <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
               <Box p={4} borderRadius="18px" border="3px solid #000" boxShadow="none" bg="#fff" mb={6}>
-                <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Mortgage Age Distribution</Heading>
+                {chartHeader('Mortgage Age Distribution', 'mortgageAge')}
                 <Box height="300px">
                   <Bar
                     data={{
@@ -398,7 +504,7 @@ export default function DashboardClient() {
               </Box>
 
               <Box p={4} borderRadius="18px" border="3px solid #000" boxShadow="none" bg="#fff" mb={6}>
-                <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Balance Distribution</Heading>
+                {chartHeader('Balance Distribution', 'balance')}
                 <Box height="300px">
                   <Bar
                     data={{
@@ -439,6 +545,7 @@ export default function DashboardClient() {
                 </Box>
               </Box>
             </SimpleGrid>
+            <MortgageDeepDive filters={filters} />
           </TabPanel>
 
           <TabPanel>
@@ -452,18 +559,10 @@ export default function DashboardClient() {
                       datasets: [
                         {
                           data: dashboardData.listingLifecycle.statusDistribution.values,
-                          backgroundColor: [
-                            'rgba(255, 99, 132, 0.2)',
-                            'rgba(54, 162, 235, 0.2)',
-                            'rgba(255, 206, 86, 0.2)',
-                            'rgba(75, 192, 192, 0.2)',
-                          ],
-                          borderColor: [
-                            'rgba(255, 99, 132, 1)',
-                            'rgba(54, 162, 235, 1)',
-                            'rgba(255, 206, 86, 1)',
-                            'rgba(75, 192, 192, 1)',
-                          ],
+                          backgroundColor: dashboardData.listingLifecycle.statusDistribution.labels.map(
+                            label => STATUS_LABEL_COLORS[label] ?? STATUS_CATEGORY_COLORS.unknown
+                          ),
+                          borderColor: '#000',
                           borderWidth: 3,
                         },
                       ],
@@ -483,7 +582,7 @@ export default function DashboardClient() {
               </Box>
 
               <Box p={4} borderRadius="18px" border="3px solid #000" boxShadow="none" bg="#fff" mb={6}>
-                <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Days on Market Distribution</Heading>
+                {chartHeader('Days on Market Distribution', 'daysOnMarket')}
                 <Box height="300px">
                   <Bar
                     data={{
@@ -501,6 +600,8 @@ export default function DashboardClient() {
                     options={{
                       responsive: true,
                       maintainAspectRatio: false,
+                      onClick: (_event, elements) =>
+                        openBucket('daysOnMarket', 'Days on market', dashboardData.listingLifecycle.daysOnMarketByType, clickedIndex(elements)),
                       plugins: {
                         legend: {
                           position: 'top' as const,
@@ -524,6 +625,34 @@ export default function DashboardClient() {
                 </Box>
               </Box>
             </SimpleGrid>
+
+            <UpdateCadence cadence={dashboardData.listingLifecycle.updateCadence} />
+
+            <StatusFlow filters={filters} />
+          </TabPanel>
+
+          <TabPanel>
+            <ListingTable filters={filters} segment={segment} onClearSegment={() => setSegment(null)} />
+          </TabPanel>
+
+          <TabPanel>
+            <PriceHistory filters={filters} />
+          </TabPanel>
+
+          <TabPanel>
+            <ListingMap filters={filters} />
+          </TabPanel>
+
+          <TabPanel>
+            <AreaSearch />
+          </TabPanel>
+
+          <TabPanel>
+            <MediaAnalytics filters={filters} />
+          </TabPanel>
+
+          <TabPanel>
+            <IngestionHealth mlsInstanceId={filters.mlsInstanceId} />
           </TabPanel>
         </TabPanels>
       </Tabs>
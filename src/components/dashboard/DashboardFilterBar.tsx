@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  Input,
+  Menu,
+  MenuButton,
+  MenuItemOption,
+  MenuList,
+  MenuOptionGroup,
+  Select,
+  SimpleGrid,
+  Text,
+} from '@chakra-ui/react';
+import { ListingStatus, LoanType, PropertyType } from '@prisma/client';
+import { DashboardFilters } from '@/types/dashboard';
+
+interface DashboardFilterBarProps {
+  filters: DashboardFilters;
+  onChange: (filters: DashboardFilters) => void;
+}
+
+interface MultiSelectProps<T extends string> {
+  label: string;
+  options: T[];
+  value: T[] | undefined;
+  onChange: (value: T[]) => void;
+}
+
+const inputStyles = {
+  bg: '#fff',
+  border: '3px solid #000',
+  borderRadius: '12px',
+  fontWeight: 'bold',
+  _hover: { borderColor: '#000' },
+};
+
+/**
+ * Turn an enum constant like SINGLE_FAMILY into "Single Family"
+ */
+const formatEnumLabel = (value: string) =>
+  value.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+/**
+ * Checkbox menu for picking several values of a Prisma enum
+ */
+function MultiSelect<T extends string>({ label, options, value, onChange }: MultiSelectProps<T>) {
+  const selected = value ?? [];
+
+  return (
+    <Menu closeOnSelect={false}>
+      <MenuButton as={Button} {...inputStyles} textAlign="left" width="100%">
+        {selected.length ? `${label} (${selected.length})` : label}
+      </MenuButton>
+      <MenuList maxHeight="320px" overflowY="auto" border="3px solid #000">
+        <MenuOptionGroup
+          type="checkbox"
+          value={selected}
+          onChange={next => onChange((Array.isArray(next) ? next : [next]) as T[])}
+        >
+          {options.map(option => (
+            <MenuItemOption key={option} value={option}>
+              {formatEnumLabel(option)}
+            </MenuItemOption>
+          ))}
+        </MenuOptionGroup>
+      </MenuList>
+    </Menu>
+  );
+}
+
+/**
+ * DashboardFilterBar - edits the dashboard filter set.
+ *
+ * Edits are staged locally and only pushed up on Apply, so typing in the text
+ * fields does not refetch the dashboard on every keystroke.
+ */
+export default function DashboardFilterBar({ filters, onChange }: DashboardFilterBarProps) {
+  const [draft, setDraft] = useState<DashboardFilters>(filters);
+
+  // Keep the draft in sync when filters change from the URL (back/forward navigation)
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = <K extends keyof DashboardFilters>(key: K, value: DashboardFilters[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value === '' ? undefined : value }));
+  };
+
+  return (
+    <Box p={4} mb={6} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <Text fontSize="sm" fontWeight="bold" color="#000" mb={3}>Filters</Text>
+      <SimpleGrid columns={{ base: 1, md: 3, lg: 6 }} spacing={3} mb={3}>
+        <Input
+          {...inputStyles}
+          placeholder="State (e.g. TX)"
+          maxLength={2}
+          value={draft.state ?? ''}
+          onChange={e => update('state', e.target.value.toUpperCase())}
+        />
+        <Input
+          {...inputStyles}
+          placeholder="City"
+          value={draft.city ?? ''}
+          onChange={e => update('city', e.target.value)}
+        />
+        <Input
+          {...inputStyles}
+          placeholder="ZIP code"
+          maxLength={5}
+          value={draft.zipCode ?? ''}
+          onChange={e => update('zipCode', e.target.value)}
+        />
+        <Input
+          {...inputStyles}
+          placeholder="MLS instance ID"
+          value={draft.mlsInstanceId ?? ''}
+          onChange={e => update('mlsInstanceId', e.target.value)}
+        />
+        <Select
+          {...inputStyles}
+          value={draft.isAssumable === undefined ? '' : String(draft.isAssumable)}
+          onChange={e => update('isAssumable', e.target.value === '' ? undefined : e.target.value === 'true')}
+        >
+          <option value="">Any assumability</option>
+          <option value="true">Assumable only</option>
+          <option value="false">Not assumable</option>
+        </Select>
+        <Select
+          {...inputStyles}
+          value={draft.includeHidden ? 'true' : ''}
+          onChange={e => update('includeHidden', e.target.value === 'true' ? true : undefined)}
+        >
+          <option value="">Visible MLSs only</option>
+          <option value="true">Include hidden MLSs</option>
+        </Select>
+        <MultiSelect
+          label="Status"
+          options={Object.values(ListingStatus)}
+          value={draft.status}
+          onChange={value => update('status', value)}
+        />
+        <MultiSelect
+          label="Property Type"
+          options={Object.values(PropertyType)}
+          value={draft.propertyType}
+          onChange={value => update('propertyType', value)}
+        />
+        <MultiSelect
+          label="Loan Type"
+          options={Object.values(LoanType)}
+          value={draft.loanType}
+          onChange={value => update('loanType', value)}
+        />
+        <Input
+          {...inputStyles}
+          type="date"
+          title="Created from"
+          value={draft.createdFrom ?? ''}
+          onChange={e => update('createdFrom', e.target.value)}
+        />
+        <Input
+          {...inputStyles}
+          type="date"
+          title="Created to"
+          value={draft.createdTo ?? ''}
+          onChange={e => update('createdTo', e.target.value)}
+        />
+        <Input
+          {...inputStyles}
+          type="date"
+          title="Listed from"
+          value={draft.listedFrom ?? ''}
+          onChange={e => update('listedFrom', e.target.value)}
+        />
+        <Input
+          {...inputStyles}
+          type="date"
+          title="Listed to"
+          value={draft.listedTo ?? ''}
+          onChange={e => update('listedTo', e.target.value)}
+        />
+      </SimpleGrid>
+      <HStack spacing={3}>
+        <Button bg="#D1FF4C" color="#000" border="3px solid #000" borderRadius="12px" onClick={() => onChange(draft)}>
+          Apply
+        </Button>
+        <Button bg="#fff" color="#000" border="3px solid #000" borderRadius="12px" onClick={() => onChange({})}>
+          Reset
+        </Button>
+      </HStack>
+    </Box>
+  );
+}
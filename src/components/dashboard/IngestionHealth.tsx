@@ -0,0 +1,309 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  ButtonGroup,
+  Heading,
+  HStack,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tooltip,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Bar, Line } from 'react-chartjs-2';
+import type { DataPullStatus } from '@prisma/client';
+import { IngestionService } from '@/services/ingestion.service';
+import { IngestionStage, PullStatusSeries } from '@/types/ingestion';
+
+const ingestionService = new IngestionService();
+
+const WINDOW_OPTIONS = [7, 30, 90];
+
+// Healthy outcomes in greens, retries and failures in warm colors, skips in greys
+const STATUS_COLORS: Record<DataPullStatus, string> = {
+  COMPLETED: '#D1FF4C',
+  HASH_MATCHED: '#A3E635',
+  NEW: '#65C466',
+  EXISTING_DATA_LINKED: '#3CA86B',
+  PENDING: '#E5E5E5',
+  PENDING_RETRY: '#FFB020',
+  FAILED: '#FF5C5C',
+  NO_RESULTS: '#FFD6D6',
+  MULTIPLE_RESULTS: '#FF9F80',
+  SKIPPED_INACTIVE: '#B0B0B0',
+  INACTIVE: '#8C8C8C',
+  SKIPPED_UNDER_CONSTRUCTION: '#6B6B6B',
+  SKIPPED_NOT_VA_OR_FHA: '#4A4A4A',
+};
+
+const STAGE_LABELS: Record<IngestionStage, string> = {
+  listing: 'Listing processing',
+  loan: 'Loan pull',
+  photos: 'Photo pull',
+  photoData: 'Photo processing',
+};
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes.toFixed(1)} min`;
+  if (minutes < 1440) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / 1440).toFixed(1)} d`;
+};
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const axisTicks = { color: '#000', font: { weight: 'bold' as const } };
+
+function StatusChart({ title, data }: { title: string; data: PullStatusSeries }) {
+  const statuses = Object.keys(data.series) as DataPullStatus[];
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <Heading size="md" mb={4} color="#000" fontWeight="extrabold">{title}</Heading>
+      <Box height="300px">
+        {statuses.length > 0 ? (
+          <Bar
+            data={{
+              labels: data.labels,
+              datasets: statuses.map(status => ({
+                label: status,
+                data: data.series[status] ?? [],
+                backgroundColor: STATUS_COLORS[status],
+                borderColor: '#000',
+                borderWidth: 1,
+              })),
+            }}
+            options={{
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: { legend: { position: 'top' as const, labels: { color: '#000', boxWidth: 12 } } },
+              scales: {
+                x: { stacked: true, ticks: axisTicks },
+                y: { stacked: true, beginAtZero: true, ticks: axisTicks },
+              },
+            }}
+          />
+        ) : (
+          <Text>No raw records in this window.</Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Ingestion tab: pull status breakdowns, top pipeline errors, stuck photo
+ * retries and raw-to-processed latency. Used by ops to spot a broken MLS
+ * feed or loan provider.
+ */
+export default function IngestionHealth({ mlsInstanceId }: { mlsInstanceId?: string }) {
+  const [windowDays, setWindowDays] = useState(30);
+  const [minAttempts, setMinAttempts] = useState(3);
+
+  const to = isoDay(new Date());
+  const from = isoDay(new Date(Date.now() - (windowDays - 1) * 86400000));
+  const request = { from, to, minAttempts, mlsInstanceId };
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['ingestionHealth', request],
+    queryFn: () => ingestionService.fetchIngestionHealth(request),
+    placeholderData: keepPreviousData,
+  });
+
+  const health = response?.data;
+  const loanFailed = health?.loanPullStatus.totals.FAILED ?? 0;
+  const photoRetries = health?.photosPullStatus.totals.PENDING_RETRY ?? 0;
+
+  return (
+    <Stack spacing={6}>
+      <HStack spacing={4} wrap="wrap">
+        <ButtonGroup isAttached>
+          {WINDOW_OPTIONS.map(days => (
+            <Button
+              key={days}
+              border="3px solid #000"
+              bg={windowDays === days ? '#D1FF4C' : '#fff'}
+              onClick={() => setWindowDays(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+        </ButtonGroup>
+        <HStack>
+          <Text fontWeight="bold">Stuck after</Text>
+          <NumberInput
+            value={minAttempts}
+            min={1}
+            max={100}
+            width="90px"
+            onChange={(_, value) => setMinAttempts(Number.isNaN(value) ? 1 : value)}
+          >
+            <NumberInputField border="3px solid #000" />
+          </NumberInput>
+          <Text fontWeight="bold">attempts</Text>
+        </HStack>
+        {isFetching && <Spinner size="sm" />}
+        {mlsInstanceId && <Badge border="2px solid #000" bg="#D1FF4C" color="#000">MLS instance: {mlsInstanceId}</Badge>}
+      </HStack>
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error loading ingestion health. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading && (
+        <Box display="flex" justifyContent="center" p={8}>
+          <Spinner size="xl" />
+        </Box>
+      )}
+
+      {health && (
+        <>
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4}>
+            {[
+              { label: 'Raw Records', value: formatNumber(health.totalRecords) },
+              { label: 'Not Yet Processed', value: formatNumber(health.unprocessedRecords) },
+              {
+                label: 'Loan Pull Failures',
+                value: `${formatNumber(loanFailed)} (${health.totalRecords > 0 ? ((loanFailed / health.totalRecords) * 100).toFixed(1) : '0.0'}%)`,
+              },
+              { label: 'Photo Pulls Awaiting Retry', value: formatNumber(photoRetries) },
+            ].map((metric, i) => (
+              <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={6}>
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <StatusChart title="Loan Data Pull Status" data={health.loanPullStatus} />
+            <StatusChart title="Photo Pull Status" data={health.photosPullStatus} />
+          </SimpleGrid>
+
+          <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+            <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Raw-to-Processed Latency</Heading>
+            <Box height="300px">
+              <Line
+                data={{
+                  labels: health.latency.labels,
+                  datasets: [
+                    { label: 'p50', data: health.latency.p50, borderColor: '#000', backgroundColor: '#D1FF4C', borderWidth: 3, tension: 0.1 },
+                    { label: 'p90', data: health.latency.p90, borderColor: '#3CA86B', backgroundColor: '#3CA86B', borderWidth: 3, tension: 0.1 },
+                    { label: 'p99', data: health.latency.p99, borderColor: '#FF5C5C', backgroundColor: '#FF5C5C', borderWidth: 3, tension: 0.1 },
+                  ],
+                }}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: {
+                    legend: { position: 'top' as const, labels: { color: '#000', font: { weight: 'bold' } } },
+                    tooltip: {
+                      callbacks: {
+                        label: context => `${context.dataset.label}: ${formatMinutes(context.parsed.y ?? 0)} (${formatNumber(health.latency.processed[context.dataIndex])} processed)`,
+                      },
+                    },
+                  },
+                  scales: {
+                    y: {
+                      beginAtZero: true,
+                      title: { display: true, text: 'Minutes', color: '#000', font: { weight: 'bold', size: 16 } },
+                      ticks: axisTicks,
+                    },
+                    x: { ticks: axisTicks },
+                  },
+                }}
+              />
+            </Box>
+          </Box>
+
+          <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+            <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Top Errors</Heading>
+            {health.topErrors.length > 0 ? (
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Stage</Th>
+                    <Th>Message</Th>
+                    <Th isNumeric>Count</Th>
+                    <Th>Last Seen</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {health.topErrors.map(group => (
+                    <Tr key={`${group.stage}-${group.message}`}>
+                      <Td whiteSpace="nowrap"><Badge border="2px solid #000" bg="#fff" color="#000">{STAGE_LABELS[group.stage]}</Badge></Td>
+                      <Td>
+                        <Tooltip label={group.example} placement="top-start">
+                          <Text fontFamily="mono" fontSize="xs" noOfLines={2}>{group.message}</Text>
+                        </Tooltip>
+                      </Td>
+                      <Td isNumeric fontWeight="bold">{formatNumber(group.count)}</Td>
+                      <Td whiteSpace="nowrap">{new Date(group.lastSeen).toLocaleString()}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            ) : (
+              <Text>No errors recorded in this window.</Text>
+            )}
+          </Box>
+
+          <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+            <Heading size="md" mb={1} color="#000" fontWeight="extrabold">Stuck Photo Pulls</Heading>
+            <Text fontSize="sm" mb={4}>
+              {formatNumber(health.stuckTotal)} records in PENDING_RETRY after {health.filters.minAttempts}+ attempts
+              {health.stuckTotal > health.stuckRecords.length && ` (showing ${health.stuckRecords.length})`}
+            </Text>
+            {health.stuckRecords.length > 0 && (
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>Raw Record</Th>
+                    <Th>MLS Instance</Th>
+                    <Th>Parcel / ZIP</Th>
+                    <Th isNumeric>Attempts</Th>
+                    <Th>Last Attempt</Th>
+                    <Th>Last Error</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {health.stuckRecords.map(record => (
+                    <Tr key={record.id}>
+                      <Td fontFamily="mono" fontSize="xs">{record.id}</Td>
+                      <Td>{record.mlsInstanceId ?? record.mlsProviderId}</Td>
+                      <Td>{[record.parcelNumber, record.zipCode].filter(Boolean).join(' / ') || '-'}</Td>
+                      <Td isNumeric fontWeight="bold">{record.photosPullAttempts}</Td>
+                      <Td whiteSpace="nowrap">{record.lastPhotosPullAt ? new Date(record.lastPhotosPullAt).toLocaleString() : '-'}</Td>
+                      <Td><Text fontSize="xs" noOfLines={2}>{record.photosPullError ?? '-'}</Text></Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            )}
+          </Box>
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import {
+  Button,
+  Drawer,
+  DrawerBody,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerHeader,
+  DrawerOverlay,
+  HStack,
+  Stack,
+  Text,
+} from '@chakra-ui/react';
+import AffordabilityCalculator from './AffordabilityCalculator';
+import ListingTimeline from './ListingTimeline';
+
+interface ListingDrawerProps {
+  listingId: string | null;
+  title?: string;
+  onClose: () => void;
+}
+
+/**
+ * Side drawer with one listing's assumption calculator and price timeline,
+ * linking to the full listing detail page
+ */
+export default function ListingDrawer({ listingId, title, onClose }: ListingDrawerProps) {
+  return (
+    <Drawer isOpen={listingId !== null} placement="right" size="lg" onClose={onClose}>
+      <DrawerOverlay />
+      <DrawerContent borderLeft="3px solid #000">
+        <DrawerCloseButton />
+        <DrawerHeader>
+          <HStack spacing={4} pr={8}>
+            <Text fontWeight="extrabold">{title ?? 'Listing details'}</Text>
+            {listingId && (
+              <Button as={Link} href={`/listings/${encodeURIComponent(listingId)}`} size="sm" border="3px solid #000" bg="#D1FF4C">
+                Full details
+              </Button>
+            )}
+          </HStack>
+        </DrawerHeader>
+        <DrawerBody>
+          {listingId && (
+            <Stack spacing={8} pb={6}>
+              <AffordabilityCalculator key={listingId} listingId={listingId} />
+              <ListingTimeline listingId={listingId} />
+            </Stack>
+          )}
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Alert, AlertIcon, Box, Button, HStack, Spinner, Text, Wrap, WrapItem } from '@chakra-ui/react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import MapGL, { Layer, MapLayerMouseEvent, MapRef, NavigationControl, Popup, Source, ViewStateChangeEvent } from 'react-map-gl';
+import type { CircleLayer, SymbolLayer } from 'react-map-gl';
+import type { ExpressionSpecification } from 'mapbox-gl';
+import type { FeatureCollection, Point } from 'geojson';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { MapService } from '@/services/map.service';
+import { INITIAL_VIEW, MAP_STYLE, MAPBOX_TOKEN } from '@/lib/mapbox';
+import { DashboardFilters } from '@/types/dashboard';
+import { MapBounds, MapListing } from '@/types/map';
+import ListingDrawer from './ListingDrawer';
+
+interface ListingMapProps {
+  filters: DashboardFilters;
+}
+
+const mapService = new MapService();
+
+// Loan type colors, NONE covers listings without an assumable loan
+const LOAN_TYPE_COLORS: Record<string, string> = {
+  FHA: '#D1FF4C',
+  VA: '#3CA86B',
+  CONVENTIONAL: '#60A5FA',
+  CONFORMING: '#A78BFA',
+  NON_CONFORMING_JUMBO: '#F472B6',
+  PRIVATE: '#FBBF24',
+  OTHER: '#FB923C',
+  NONE: '#9CA3AF',
+};
+
+// Mapbox "match" expression mapping the loanType feature property to a color
+const loanTypeColorExpression = [
+  'match',
+  ['get', 'loanType'],
+  ...Object.entries(LOAN_TYPE_COLORS).flat(),
+  LOAN_TYPE_COLORS.NONE,
+] as ExpressionSpecification;
+
+const clusterLayer: CircleLayer = {
+  id: 'listing-clusters',
+  type: 'circle',
+  source: 'listings',
+  filter: ['==', ['get', 'kind'], 'cluster'],
+  paint: {
+    'circle-color': loanTypeColorExpression,
+    'circle-stroke-color': '#000',
+    'circle-stroke-width': 2,
+    // Grow roughly logarithmically so dense metros do not swallow the map
+    'circle-radius': ['interpolate', ['linear'], ['get', 'count'], 1, 10, 100, 18, 1000, 26, 10000, 36],
+  },
+};
+
+const clusterCountLayer: SymbolLayer = {
+  id: 'listing-cluster-count',
+  type: 'symbol',
+  source: 'listings',
+  filter: ['==', ['get', 'kind'], 'cluster'],
+  layout: {
+    'text-field': ['get', 'countLabel'],
+    'text-size': 12,
+    'text-allow-overlap': true,
+  },
+  paint: { 'text-color': '#000' },
+};
+
+const listingLayer: CircleLayer = {
+  id: 'listing-points',
+  type: 'circle',
+  source: 'listings',
+  filter: ['==', ['get', 'kind'], 'listing'],
+  paint: {
+    'circle-color': loanTypeColorExpression,
+    'circle-stroke-color': '#000',
+    'circle-stroke-width': 1.5,
+    'circle-radius': 6,
+  },
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatCount = (count: number) =>
+  count >= 1000 ? `${(count / 1000).toFixed(count >= 10000 ? 0 : 1)}k` : String(count);
+
+/**
+ * Round viewport bounds outward so small pans reuse the cached query
+ */
+const roundBounds = (bounds: MapBounds): MapBounds => ({
+  west: Math.floor(bounds.west * 100) / 100,
+  south: Math.floor(bounds.south * 100) / 100,
+  east: Math.ceil(bounds.east * 100) / 100,
+  north: Math.ceil(bounds.north * 100) / 100,
+});
+
+/**
+ * ListingMap - Mapbox map of listings in the current viewport.
+ *
+ * Zoomed out, listings are aggregated server-side per tile and drawn as clusters
+ * colored by their dominant assumable loan type. Zoomed in, individual listings
+ * are drawn. Everything is rendered through a single GeoJSON source with WebGL
+ * layers rather than React markers, which keeps panning smooth with tens of
+ * thousands of listings.
+ */
+export default function ListingMap({ filters }: ListingMapProps) {
+  const mapRef = useRef<MapRef>(null);
+  const [viewport, setViewport] = useState<{ bounds: MapBounds; zoom: number } | null>(null);
+  const [selectedListing, setSelectedListing] = useState<MapListing | null>(null);
+  const [drawerListing, setDrawerListing] = useState<MapListing | null>(null);
+
+  // Only refetch once the user stops moving the map
+  const syncViewport = useCallback((event?: ViewStateChangeEvent) => {
+    const map = event?.target ?? mapRef.current?.getMap();
+    if (!map) return;
+    const bounds = map.getBounds();
+    if (!bounds) return;
+    setViewport({
+      bounds: roundBounds({
+        west: Math.max(-180, bounds.getWest()),
+        south: Math.max(-90, bounds.getSouth()),
+        east: Math.min(180, bounds.getEast()),
+        north: Math.min(90, bounds.getNorth()),
+      }),
+      zoom: Math.floor(map.getZoom()),
+    });
+  }, []);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ['mapData', viewport, filters],
+    queryFn: () => mapService.fetchMapData(viewport!.bounds, viewport!.zoom, filters),
+    enabled: viewport !== null,
+    placeholderData: keepPreviousData,
+    retry: 1,
+  });
+
+  const mapData = data?.data;
+
+  const geojson = useMemo<FeatureCollection<Point>>(() => ({
+    type: 'FeatureCollection',
+    features: [
+      ...(mapData?.clusters ?? []).map(cluster => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [cluster.longitude, cluster.latitude] },
+        properties: {
+          kind: 'cluster',
+          id: cluster.id,
+          count: cluster.count,
+          countLabel: formatCount(cluster.count),
+          loanType: cluster.loanType,
+        },
+      })),
+      ...(mapData?.listings ?? []).map(listing => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [listing.longitude, listing.latitude] },
+        properties: {
+          kind: 'listing',
+          id: listing.id,
+          loanType: listing.loanType ?? 'NONE',
+        },
+      })),
+    ],
+  }), [mapData]);
+
+  const listingsById = useMemo(
+    () => new Map((mapData?.listings ?? []).map(listing => [listing.id, listing])),
+    [mapData]
+  );
+
+  const handleClick = useCallback((event: MapLayerMouseEvent) => {
+    const feature = event.features?.[0];
+    if (!feature || feature.geometry.type !== 'Point') return;
+
+    if (feature.properties?.kind === 'cluster') {
+      // Zoom into the cluster until it splits up
+      const [longitude, latitude] = feature.geometry.coordinates;
+      mapRef.current?.flyTo({ center: [longitude, latitude], zoom: event.target.getZoom() + 2 });
+      return;
+    }
+
+    setSelectedListing(listingsById.get(feature.properties?.id) ?? null);
+  }, [listingsById]);
+
+  if (!MAPBOX_TOKEN) {
+    return (
+      <Alert status="warning">
+        <AlertIcon />
+        Set NEXT_PUBLIC_MAPBOX_TOKEN to enable the listing map.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <HStack justify="space-between" mb={4}>
+        <Text fontWeight="extrabold" fontSize="lg" color="#000">
+          {mapData?.mode === 'listings'
+            ? `${formatCount(mapData.listings.length)} listings in view${mapData.truncated ? ' (showing top results, zoom in for more)' : ''}`
+            : `${formatCount((mapData?.clusters ?? []).reduce((sum, c) => sum + c.count, 0))} listings in view`}
+        </Text>
+        {isFetching && <Spinner size="sm" />}
+      </HStack>
+
+      {error && (
+        <Alert status="error" mb={4}>
+          <AlertIcon />
+          Error loading map data. Please try again later.
+        </Alert>
+      )}
+
+      <Box height={{ base: '420px', lg: '600px' }} borderRadius="12px" overflow="hidden" border="3px solid #000">
+        <MapGL
+          ref={mapRef}
+          mapboxAccessToken={MAPBOX_TOKEN}
+          initialViewState={INITIAL_VIEW}
+          mapStyle={MAP_STYLE}
+          interactiveLayerIds={[clusterLayer.id, listingLayer.id]}
+          onLoad={() => syncViewport()}
+          onMoveEnd={syncViewport}
+          onClick={handleClick}
+        >
+          <NavigationControl position="top-right" />
+          <Source id="listings" type="geojson" data={geojson}>
+            <Layer {...clusterLayer} />
+            <Layer {...clusterCountLayer} />
+            <Layer {...listingLayer} />
+          </Source>
+          {selectedListing && (
+            <Popup
+              longitude={selectedListing.longitude}
+              latitude={selectedListing.latitude}
+              onClose={() => setSelectedListing(null)}
+              closeOnClick={false}
+            >
+              <Text fontWeight="bold">{formatCurrency(selectedListing.price)}</Text>
+              <Text>{selectedListing.address}</Text>
+              <Text>{[selectedListing.city, selectedListing.state, selectedListing.zipCode].filter(Boolean).join(', ')}</Text>
+              {selectedListing.loanType && <Text fontWeight="bold">{selectedListing.loanType}</Text>}
+              <Button size="xs" mt={2} border="2px solid #000" bg="#D1FF4C" onClick={() => setDrawerListing(selectedListing)}>
+                Details
+              </Button>
+            </Popup>
+          )}
+        </MapGL>
+      </Box>
+
+      <Wrap spacing={4} mt={4}>
+        {Object.entries(LOAN_TYPE_COLORS).map(([loanType, color]) => (
+          <WrapItem key={loanType} alignItems="center">
+            <Box w="14px" h="14px" borderRadius="full" bg={color} border="2px solid #000" mr={2} />
+            <Text fontSize="sm" fontWeight="bold">{loanType === 'NONE' ? 'No assumable loan' : loanType}</Text>
+          </WrapItem>
+        ))}
+      </Wrap>
+
+      <ListingDrawer
+        listingId={drawerListing?.id ?? null}
+        title={drawerListing?.address}
+        onClose={() => setDrawerListing(null)}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { ListingService } from '@/services/listing.service';
+import { DashboardFilters } from '@/types/dashboard';
+import { ListingRow, ListingSegment, ListingSortField, SortOrder } from '@/types/listings';
+import ListingDrawer from './ListingDrawer';
+
+const listingService = new ListingService();
+
+const PAGE_SIZE = 50;
+
+const formatCurrency = (value: number | null) => {
+  if (value === null) return '-';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+};
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString('en-US') : '-');
+
+const SORTABLE_COLUMNS: Array<{ field: ListingSortField; label: string }> = [
+  { field: 'price', label: 'Price' },
+  { field: 'listedAt', label: 'Listed' },
+  { field: 'denormalizedAssumableInterestRate', label: 'Rate' },
+  { field: 'assumableDesirabilityScore', label: 'Desirability' },
+];
+
+interface ListingTableProps {
+  filters: DashboardFilters;
+  /** Chart segment the table was opened from, applied on top of `filters` */
+  segment: ListingSegment | null;
+  onClearSegment: () => void;
+}
+
+/**
+ * Paginated table of the listings behind the dashboard, sortable by column
+ * header. Chart drill-downs pass a segment that narrows it to one bucket or
+ * slice; clicking a row opens the listing drawer.
+ */
+export default function ListingTable({ filters, segment, onClearSegment }: ListingTableProps) {
+  const [sort, setSort] = useState<ListingSortField>('listedAt');
+  const [order, setOrder] = useState<SortOrder>('desc');
+  const [selected, setSelected] = useState<ListingRow | null>(null);
+
+  const scopedFilters: DashboardFilters = segment?.loanType ? { ...filters, loanType: [segment.loanType] } : filters;
+  const ranges = {
+    priceMin: segment?.priceMin,
+    priceMax: segment?.priceMax,
+    daysOnMarketMin: segment?.daysOnMarketMin,
+    daysOnMarketMax: segment?.daysOnMarketMax,
+  };
+
+  const { data, isLoading, isFetching, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['listings', scopedFilters, ranges, sort, order],
+    queryFn: ({ pageParam }) =>
+      listingService.searchListings(scopedFilters, { ...ranges, sort, order, limit: PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.data.nextCursor ?? undefined,
+  });
+
+  const listings = data?.pages.flatMap(page => page.data.listings) ?? [];
+  const total = data?.pages[0]?.data.total ?? null;
+
+  const toggleSort = (field: ListingSortField) => {
+    if (field === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setOrder('desc');
+    }
+  };
+
+  return (
+    <Stack spacing={4}>
+      <HStack justify="space-between" wrap="wrap">
+        <HStack spacing={3}>
+          <Heading size="md" color="#000" fontWeight="extrabold">Listings</Heading>
+          {total !== null && <Text fontWeight="bold">{formatNumber(total)} matching</Text>}
+          {isFetching && <Spinner size="sm" />}
+        </HStack>
+        {segment && (
+          <HStack>
+            <Badge border="2px solid #000" bg="#D1FF4C" color="#000" fontSize="sm" px={2}>{segment.label}</Badge>
+            <Button size="sm" border="3px solid #000" bg="#fff" onClick={onClearSegment}>Show all</Button>
+          </HStack>
+        )}
+      </HStack>
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error loading listings. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" p={8}>
+          <Spinner size="xl" />
+        </Box>
+      ) : (
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Address</Th>
+                <Th>Status</Th>
+                <Th>Loan</Th>
+                {SORTABLE_COLUMNS.map(column => (
+                  <Th
+                    key={column.field}
+                    isNumeric={column.field !== 'listedAt'}
+                    cursor="pointer"
+                    color={sort === column.field ? '#000' : undefined}
+                    onClick={() => toggleSort(column.field)}
+                  >
+                    {column.label}{sort === column.field ? (order === 'asc' ? ' ▲' : ' ▼') : ''}
+                  </Th>
+                ))}
+                <Th isNumeric>Payment</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {listings.map(listing => (
+                <Tr key={listing.id} cursor="pointer" _hover={{ bg: '#F4FFD6' }} onClick={() => setSelected(listing)}>
+                  <Td>
+                    <Text fontWeight="bold">{listing.address}</Text>
+                    <Text fontSize="xs">{[listing.city, listing.state, listing.zipCode].filter(Boolean).join(', ')}</Text>
+                  </Td>
+                  <Td>{listing.status}</Td>
+                  <Td>{listing.loanType ?? '-'}</Td>
+                  <Td isNumeric>{formatCurrency(listing.price)}</Td>
+                  <Td>{formatDate(listing.listedAt)}</Td>
+                  <Td isNumeric>{listing.interestRate === null ? '-' : `${listing.interestRate.toFixed(2)}%`}</Td>
+                  <Td isNumeric>{listing.desirabilityScore === null ? '-' : listing.desirabilityScore.toFixed(1)}</Td>
+                  <Td isNumeric>{formatCurrency(listing.monthlyPayment)}</Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+          {listings.length === 0 && <Text mt={4}>No listings match.</Text>}
+        </Box>
+      )}
+
+      {hasNextPage && (
+        <Button alignSelf="center" border="3px solid #000" bg="#D1FF4C" onClick={() => fetchNextPage()} isLoading={isFetchingNextPage}>
+          Load more
+        </Button>
+      )}
+
+      <ListingDrawer listingId={selected?.id ?? null} title={selected?.address} onClose={() => setSelected(null)} />
+    </Stack>
+  );
+}
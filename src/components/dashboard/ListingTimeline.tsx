@@ -0,0 +1,132 @@
+'use client';
+
+import React from 'react';
+import { Alert, AlertIcon, Badge, Box, Heading, HStack, Spinner, Table, Tbody, Td, Text, Th, Thead, Tr } from '@chakra-ui/react';
+import { useQuery } from '@tanstack/react-query';
+import { Line } from 'react-chartjs-2';
+import { PriceHistoryService } from '@/services/price-history.service';
+
+const priceHistoryService = new PriceHistoryService();
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+/**
+ * Price and status timeline of one listing from its ListingHistory rows
+ */
+export default function ListingTimeline({ listingId }: { listingId: string }) {
+  const { data: response, isLoading, error } = useQuery({
+    queryKey: ['listingTimeline', listingId],
+    queryFn: () => priceHistoryService.fetchListingTimeline(listingId),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" p={8}>
+        <Spinner size="xl" />
+      </Box>
+    );
+  }
+
+  if (error || !response?.data) {
+    return (
+      <Alert status="error">
+        <AlertIcon />
+        {error instanceof Error ? error.message : 'Error loading listing timeline.'}
+      </Alert>
+    );
+  }
+
+  const { listing, entries } = response.data;
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <HStack justify="space-between" align="start" mb={4} wrap="wrap">
+        <Box>
+          <Heading size="md" color="#000" fontWeight="extrabold">{listing.address}</Heading>
+          <Text fontSize="sm">{[listing.city, listing.state].filter(Boolean).join(', ')}</Text>
+        </Box>
+        <HStack>
+          <Badge border="2px solid #000" bg="#D1FF4C" color="#000">{listing.status}</Badge>
+          {listing.loanType && <Badge border="2px solid #000" bg="#fff" color="#000">{listing.loanType}</Badge>}
+          <Text fontWeight="extrabold">{formatCurrency(listing.price)}</Text>
+        </HStack>
+      </HStack>
+
+      {entries.length === 0 ? (
+        <Text>No price or status history recorded for this listing.</Text>
+      ) : (
+        <>
+          <Box height="260px" mb={4}>
+            <Line
+              data={{
+                labels: entries.map(entry => new Date(entry.effectiveDate).toLocaleDateString()),
+                datasets: [{
+                  label: 'Price',
+                  data: entries.map(entry => entry.price),
+                  borderColor: '#000',
+                  backgroundColor: '#D1FF4C',
+                  borderWidth: 3,
+                  stepped: 'before' as const,
+                  pointRadius: 5,
+                }],
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: {
+                  legend: { display: false },
+                  tooltip: {
+                    callbacks: {
+                      label: context => `${formatCurrency(context.parsed.y ?? 0)} (${entries[context.dataIndex].status})`,
+                    },
+                  },
+                },
+                scales: {
+                  y: { ticks: { color: '#000', font: { weight: 'bold' }, callback: value => formatCurrency(Number(value)) } },
+                  x: { ticks: { color: '#000', font: { weight: 'bold' } } },
+                },
+              }}
+            />
+          </Box>
+
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Date</Th>
+                <Th>Status</Th>
+                <Th isNumeric>Price</Th>
+                <Th isNumeric>Change</Th>
+                <Th>Changed Fields</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {entries.map((entry, i) => {
+                const statusChanged = i > 0 && entries[i - 1].status !== entry.status;
+                return (
+                  <Tr key={entry.id}>
+                    <Td whiteSpace="nowrap">{new Date(entry.effectiveDate).toLocaleDateString()}</Td>
+                    <Td fontWeight={statusChanged ? 'bold' : undefined}>{entry.status}</Td>
+                    <Td isNumeric>{formatCurrency(entry.price)}</Td>
+                    <Td isNumeric color={entry.priceChange && entry.priceChange < 0 ? 'red.600' : undefined}>
+                      {entry.priceChange
+                        ? `${entry.priceChange > 0 ? '+' : ''}${formatCurrency(entry.priceChange)} (${entry.priceChangePercent?.toFixed(1)}%)`
+                        : '-'}
+                    </Td>
+                    <Td fontSize="xs">{entry.changedFields.join(', ') || '-'}</Td>
+                  </Tr>
+                );
+              })}
+            </Tbody>
+          </Table>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { Bar } from 'react-chartjs-2';
+import { MediaService } from '@/services/media.service';
+import { ChartData, DashboardFilters } from '@/types/dashboard';
+import { PhotoRepullReason, PhotoRepullRow } from '@/types/media';
+import ListingDrawer from './ListingDrawer';
+
+const mediaService = new MediaService();
+
+const PAGE_SIZE = 50;
+
+const REASON_LABELS: Record<PhotoRepullReason, string> = {
+  NO_PHOTOS: 'No photos',
+  MISSING_PHOTOS: 'Missing photos',
+  NOT_MIRRORED: 'Not on S3',
+  STALE_CHECK: 'Stale check',
+};
+
+const REASON_COLORS: Record<PhotoRepullReason, string> = {
+  NO_PHOTOS: '#FF5C5C',
+  MISSING_PHOTOS: '#FFB020',
+  NOT_MIRRORED: '#5CC8FF',
+  STALE_CHECK: '#E5E5E5',
+};
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString('en-US') : '-');
+
+const axisTicks = { color: '#000', font: { weight: 'bold' as const } };
+
+function DistributionChart({ title, data, label }: { title: string; data: ChartData; label: string }) {
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <Heading size="md" mb={4} color="#000" fontWeight="extrabold">{title}</Heading>
+      <Box height="260px">
+        <Bar
+          data={{
+            labels: data.labels,
+            datasets: [{ label, data: data.values, backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 3 }],
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            plugins: { legend: { display: false } },
+            scales: { x: { ticks: axisTicks }, y: { beginAtZero: true, ticks: axisTicks } },
+          }}
+        />
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Listings needing a photo re-pull, longest since the last pull first,
+ * optionally narrowed to one reason. Clicking a row opens the listing drawer.
+ */
+function RepullList({ filters, reason, onReasonChange }: {
+  filters: DashboardFilters;
+  reason: PhotoRepullReason | null;
+  onReasonChange: (reason: PhotoRepullReason | null) => void;
+}) {
+  const [selected, setSelected] = useState<PhotoRepullRow | null>(null);
+
+  const { data, isLoading, isFetching, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['photoRepulls', filters, reason],
+    queryFn: ({ pageParam }) =>
+      mediaService.fetchRepulls(filters, { reason: reason ?? undefined, limit: PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.data.nextCursor ?? undefined,
+  });
+
+  const listings = data?.pages.flatMap(page => page.data.listings) ?? [];
+  const total = data?.pages[0]?.data.total ?? null;
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+      <HStack justify="space-between" mb={4} wrap="wrap">
+        <HStack spacing={3}>
+          <Heading size="md" color="#000" fontWeight="extrabold">Needs a photo re-pull</Heading>
+          {total !== null && <Text fontWeight="bold">{formatNumber(total)} listings</Text>}
+          {isFetching && <Spinner size="sm" />}
+        </HStack>
+        <HStack wrap="wrap" spacing={2}>
+          <Button size="sm" border="3px solid #000" bg={reason === null ? '#D1FF4C' : '#fff'} onClick={() => onReasonChange(null)}>
+            Any reason
+          </Button>
+          {(Object.keys(REASON_LABELS) as PhotoRepullReason[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              border="3px solid #000"
+              bg={reason === option ? '#D1FF4C' : '#fff'}
+              onClick={() => onReasonChange(option)}
+            >
+              {REASON_LABELS[option]}
+            </Button>
+          ))}
+        </HStack>
+      </HStack>
+
+      {error && (
+        <Alert status="error" mb={4}>
+          <AlertIcon />
+          Error loading listings. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" p={8}>
+          <Spinner size="xl" />
+        </Box>
+      ) : (
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Address</Th>
+              <Th>MLS</Th>
+              <Th isNumeric>MLS photos</Th>
+              <Th isNumeric>Stored</Th>
+              <Th isNumeric>Not on S3</Th>
+              <Th>Oldest check</Th>
+              <Th>Last pull</Th>
+              <Th>Reasons</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {listings.map(listing => (
+              <Tr key={listing.id} cursor="pointer" _hover={{ bg: '#F4FFD6' }} onClick={() => setSelected(listing)}>
+                <Td>
+                  <Text fontWeight="bold">{listing.address}</Text>
+                  <Text fontSize="xs">{[listing.city, listing.state].filter(Boolean).join(', ')} · {listing.status}</Text>
+                </Td>
+                <Td>{listing.mlsName ?? '-'}</Td>
+                <Td isNumeric>{listing.reportedPhotos ?? '-'}</Td>
+                <Td isNumeric>{listing.storedPhotos}</Td>
+                <Td isNumeric>{listing.unmirroredPhotos}</Td>
+                <Td>{formatDate(listing.oldestCheck)}</Td>
+                <Td>
+                  <Text>{listing.lastPhotosPullAt ? formatDate(listing.lastPhotosPullAt) : 'Never'}</Text>
+                  {listing.photosPullStatus && <Text fontSize="xs">{listing.photosPullStatus}</Text>}
+                </Td>
+                <Td>
+                  <HStack spacing={1} wrap="wrap">
+                    {listing.reasons.map(item => (
+                      <Badge key={item} border="2px solid #000" bg={REASON_COLORS[item]} color="#000">{REASON_LABELS[item]}</Badge>
+                    ))}
+                  </HStack>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      )}
+      {!isLoading && listings.length === 0 && <Text mt={4}>No listings need a re-pull.</Text>}
+
+      {hasNextPage && (
+        <Box display="flex" justifyContent="center" mt={4}>
+          <Button border="3px solid #000" bg="#D1FF4C" onClick={() => fetchNextPage()} isLoading={isFetchingNextPage}>
+            Load more
+          </Button>
+        </Box>
+      )}
+
+      <ListingDrawer listingId={selected?.id ?? null} title={selected?.address} onClose={() => setSelected(null)} />
+    </Box>
+  );
+}
+
+/**
+ * Media tab: photo coverage of the listings behind the dashboard, the gap
+ * between MLS-reported and stored photos, S3 mirroring and photo check ages,
+ * with a drill-down of listings whose photos should be pulled again
+ */
+export default function MediaAnalytics({ filters }: { filters: DashboardFilters }) {
+  const [reason, setReason] = useState<PhotoRepullReason | null>(null);
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['mediaAnalytics', filters],
+    queryFn: () => mediaService.fetchMediaAnalytics(filters),
+    placeholderData: keepPreviousData,
+  });
+  const analytics = response?.data;
+  const summary = analytics?.summary;
+
+  const metrics: Array<{ label: string; value: string; detail: string; reason: PhotoRepullReason }> = summary
+    ? [
+        {
+          label: 'Listings without photos',
+          value: formatPercent(summary.withoutPhotosShare),
+          detail: `${formatNumber(summary.withoutPhotos)} of ${formatNumber(summary.listingCount)}`,
+          reason: 'NO_PHOTOS',
+        },
+        {
+          label: 'Stored vs MLS photos',
+          value: `${formatNumber(summary.storedOfReported)} / ${formatNumber(summary.reportedPhotos)}`,
+          detail: `${formatNumber(summary.missingPhotos)} listings short of the MLS count`,
+          reason: 'MISSING_PHOTOS',
+        },
+        {
+          label: 'Photos not on S3',
+          value: formatPercent(summary.unmirroredShare),
+          detail: `${formatNumber(summary.unmirroredPhotos)} photos on ${formatNumber(summary.listingsUnmirrored)} listings`,
+          reason: 'NOT_MIRRORED',
+        },
+        {
+          label: `Checked over ${summary.staleAfterDays} days ago`,
+          value: formatNumber(summary.staleListings),
+          detail: summary.medianCheckAgeDays === null
+            ? 'No stored photos'
+            : `Median check age ${summary.medianCheckAgeDays.toFixed(1)} days`,
+          reason: 'STALE_CHECK',
+        },
+      ]
+    : [];
+
+  return (
+    <Stack spacing={6}>
+      <HStack spacing={3}>
+        <Heading size="md" color="#000" fontWeight="extrabold">Photos &amp; Media</Heading>
+        {isFetching && <Spinner size="sm" />}
+      </HStack>
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error loading media analytics. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading || !analytics || !summary ? (
+        !error && (
+          <Box display="flex" justifyContent="center" p={8}>
+            <Spinner size="xl" />
+          </Box>
+        )
+      ) : (
+        <>
+          <SimpleGrid columns={{ base: 1, md: 2, xl: 4 }} spacing={4}>
+            {metrics.map((metric, i) => (
+              <Box
+                key={metric.label}
+                as="button"
+                textAlign="left"
+                bg={i % 2 === 0 ? '#D1FF4C' : '#fff'}
+                border="3px solid #000"
+                borderRadius="18px"
+                p={4}
+                outline={reason === metric.reason ? '3px solid #000' : undefined}
+                onClick={() => setReason(metric.reason)}
+              >
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+                <Text fontSize="sm" color="#000">{metric.detail}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+          <Text fontSize="sm">
+            Of {formatNumber(summary.listingCount)} listings, {formatNumber(summary.withPhotoUrls)} carry photo URLs,
+            {' '}{formatNumber(summary.withVideos)} videos and {formatNumber(summary.withDocuments)} documents;
+            {' '}{formatNumber(summary.withReportedCount)} have an MLS photo count. Click a card to list the affected listings.
+          </Text>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <DistributionChart title="Photos missing vs MLS count" data={analytics.photoGap} label="Listings" />
+            <DistributionChart title="Days since photo check" data={analytics.checkAge} label="Photos" />
+          </SimpleGrid>
+        </>
+      )}
+
+      <RepullList filters={filters} reason={reason} onReasonChange={setReason} />
+    </Stack>
+  );
+}
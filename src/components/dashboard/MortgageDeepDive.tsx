@@ -0,0 +1,280 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  NumberInput,
+  NumberInputField,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Bar } from 'react-chartjs-2';
+import { MortgageService } from '@/services/mortgage.service';
+import { BucketChart, BucketSpec, BucketSpecs } from '@/types/buckets';
+import { ChartData, DashboardFilters } from '@/types/dashboard';
+import { DesirabilityGroup } from '@/types/mortgage';
+import BucketSelect from './BucketSelect';
+import VintageCohorts from './VintageCohorts';
+
+const mortgageService = new MortgageService();
+
+const formatCurrency = (value: number | null) => {
+  if (value === null) return '-';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+};
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatRate = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+const formatPoints = (value: number | null) => (value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(2)} pts`);
+
+const formatRatio = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const axisTicks = { color: '#000', font: { weight: 'bold' as const } };
+
+const PAYMENT_COMPONENTS = [
+  { key: 'principalAndInterest', label: 'Principal & Interest', color: '#D1FF4C' },
+  { key: 'propertyTax', label: 'Property Tax', color: '#7CC6FE' },
+  { key: 'insurance', label: 'Insurance', color: '#FFB86B' },
+  { key: 'hoa', label: 'HOA', color: '#C9A7FF' },
+  { key: 'pmi', label: 'PMI', color: '#FF7A7A' },
+] as const;
+
+function DistributionChart({ data, label }: { data: ChartData; label: string }) {
+  return (
+    <Box height="300px">
+      <Bar
+        data={{
+          labels: data.labels,
+          datasets: [{
+            label,
+            data: data.values,
+            backgroundColor: '#D1FF4C',
+            borderColor: '#000',
+            borderWidth: 3,
+          }],
+        }}
+        options={{
+          responsive: true,
+          maintainAspectRatio: false,
+          plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+          scales: { y: { beginAtZero: true, ticks: axisTicks }, x: { ticks: axisTicks } },
+        }}
+      />
+    </Box>
+  );
+}
+
+function GroupTable({ title, groups }: { title: string; groups: DesirabilityGroup[] }) {
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+      <Heading size="md" mb={4} color="#000" fontWeight="extrabold">{title}</Heading>
+      {groups.length === 0 ? (
+        <Text>No mortgages match these filters.</Text>
+      ) : (
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th></Th>
+              <Th isNumeric>Mortgages</Th>
+              <Th isNumeric>Desirable</Th>
+              <Th isNumeric>Avg Advantage</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {groups.map(group => (
+              <Tr key={group.key}>
+                <Td fontWeight="bold">{group.key}</Td>
+                <Td isNumeric>{formatNumber(group.mortgages)}</Td>
+                <Td isNumeric>{formatRatio(group.desirableShare)}</Td>
+                <Td isNumeric>{formatPoints(group.averageRateAdvantage)}</Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Assumable mortgage deep-dive: rate advantage over a configurable market
+ * benchmark, rate / down payment / desirability distributions, desirability by
+ * state and MLS, the all-in monthly payment broken down by loan type, and
+ * vintage cohorts.
+ */
+export default function MortgageDeepDive({ filters }: { filters: DashboardFilters }) {
+  const [benchmarkInput, setBenchmarkInput] = useState('');
+  const [benchmarkRate, setBenchmarkRate] = useState<number | undefined>(undefined);
+  const [buckets, setBuckets] = useState<BucketSpecs>({});
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['mortgageAnalytics', filters, benchmarkRate, buckets],
+    queryFn: () => mortgageService.fetchMortgageAnalytics(filters, { benchmarkRate, buckets }),
+    placeholderData: keepPreviousData,
+  });
+
+  const analytics = response?.data;
+  const summary = analytics?.summary;
+  const benchmarkDraft = Number(benchmarkInput);
+  const canApply = benchmarkInput !== '' && benchmarkDraft > 0 && benchmarkDraft <= 20 && benchmarkDraft !== benchmarkRate;
+
+  const setBucketSpec = (chart: BucketChart, spec: BucketSpec) => {
+    setBuckets(current => ({ ...current, [chart]: spec }));
+  };
+
+  const chartHeader = (title: string, chart: BucketChart) => (
+    <HStack justify="space-between" mb={4}>
+      <Heading size="md" color="#000" fontWeight="extrabold">{title}</Heading>
+      <BucketSelect chart={chart} value={buckets[chart]} onChange={spec => setBucketSpec(chart, spec)} />
+    </HStack>
+  );
+
+  return (
+    <Stack spacing={6}>
+      <HStack justify="space-between" wrap="wrap">
+        <Heading size="md" color="#000" fontWeight="extrabold">Assumable Mortgage Deep Dive</Heading>
+        <HStack>
+          {isFetching && <Spinner size="sm" />}
+          <Text fontWeight="bold">Market rate</Text>
+          <NumberInput
+            value={benchmarkInput}
+            min={0}
+            max={20}
+            step={0.125}
+            precision={3}
+            width="110px"
+            onChange={value => setBenchmarkInput(value)}
+          >
+            <NumberInputField
+              border="3px solid #000"
+              placeholder={summary ? String(summary.benchmarkRate) : ''}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && canApply) setBenchmarkRate(benchmarkDraft);
+              }}
+            />
+          </NumberInput>
+          <Text fontWeight="bold">%</Text>
+          <Button border="3px solid #000" bg="#D1FF4C" isDisabled={!canApply} onClick={() => setBenchmarkRate(benchmarkDraft)}>
+            Apply
+          </Button>
+        </HStack>
+      </HStack>
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error loading mortgage analytics. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading && (
+        <Box display="flex" justifyContent="center" p={8}>
+          <Spinner size="xl" />
+        </Box>
+      )}
+
+      {analytics && summary && (
+        <>
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4}>
+            {[
+              { label: 'Desirable Mortgages', value: `${formatNumber(summary.desirable)} (${formatRatio(summary.desirableShare)})` },
+              { label: 'Median Rate', value: formatRate(summary.medianRate) },
+              { label: `Avg Advantage vs ${formatRate(summary.benchmarkRate)}`, value: formatPoints(summary.averageRateAdvantage) },
+              { label: 'Avg Monthly Savings', value: formatCurrency(summary.averageMonthlySavings) },
+              { label: 'Median Down Payment', value: formatCurrency(summary.medianDownPayment) },
+              { label: 'Median Percent Down', value: formatRate(summary.medianPercentDown) },
+              { label: 'Avg All-In Payment', value: formatCurrency(summary.averageAllInPayment) },
+              {
+                label: 'Within Down Payment Threshold',
+                value: summary.withDownPaymentThreshold > 0
+                  ? formatRatio(summary.withinDownPaymentThreshold / summary.withDownPaymentThreshold)
+                  : '-',
+              },
+            ].map((metric, i) => (
+              <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={6}>
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              {chartHeader('Interest Rate Distribution', 'interestRate')}
+              <DistributionChart data={analytics.rateDistribution} label="Number of Mortgages" />
+            </Box>
+
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">
+                Rate Advantage vs {formatRate(summary.benchmarkRate)}
+              </Heading>
+              <DistributionChart data={analytics.rateAdvantageDistribution} label="Number of Mortgages" />
+            </Box>
+
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              {chartHeader('Down Payment Distribution', 'downPayment')}
+              <DistributionChart data={analytics.downPaymentDistribution} label="Number of Mortgages" />
+            </Box>
+
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Desirability Score</Heading>
+              <DistributionChart data={analytics.desirabilityDistribution} label="Number of Mortgages" />
+            </Box>
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <GroupTable title="Desirability by State" groups={analytics.desirableByState} />
+            <GroupTable title="Desirability by MLS" groups={analytics.desirableByMls} />
+          </SimpleGrid>
+
+          <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+            <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Average Monthly Payment by Loan Type</Heading>
+            <Box height="320px">
+              <Bar
+                data={{
+                  labels: analytics.paymentComposition.map(row => row.loanType ?? 'All loans'),
+                  datasets: PAYMENT_COMPONENTS.map(component => ({
+                    label: component.label,
+                    data: analytics.paymentComposition.map(row => Math.round(row[component.key])),
+                    backgroundColor: component.color,
+                    borderColor: '#000',
+                    borderWidth: 2,
+                  })),
+                }}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+                  scales: {
+                    x: { stacked: true, ticks: axisTicks },
+                    y: { stacked: true, beginAtZero: true, ticks: axisTicks },
+                  },
+                }}
+              />
+            </Box>
+          </Box>
+
+          <VintageCohorts vintages={analytics.vintages} />
+        </>
+      )}
+    </Stack>
+  );
+}
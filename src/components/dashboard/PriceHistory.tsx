@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Input,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Bar } from 'react-chartjs-2';
+import { PriceHistoryService } from '@/services/price-history.service';
+import { DashboardFilters } from '@/types/dashboard';
+import ListingTimeline from './ListingTimeline';
+
+const priceHistoryService = new PriceHistoryService();
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatPercent = (value: number | null, digits = 1) => (value === null ? '-' : `${value.toFixed(digits)}%`);
+
+const formatDays = (value: number | null) => (value === null ? '-' : `${Math.round(value)} days`);
+
+const formatRatio = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+const axisTicks = { color: '#000', font: { weight: 'bold' as const } };
+
+/**
+ * Price History tab: price-cut analytics from ListingHistory broken down by
+ * assumable loan type, plus a per-listing price/status timeline.
+ */
+export default function PriceHistory({ filters }: { filters: DashboardFilters }) {
+  const [listingIdInput, setListingIdInput] = useState('');
+  const [listingId, setListingId] = useState<string | null>(null);
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['priceHistory', filters],
+    queryFn: () => priceHistoryService.fetchPriceHistory(filters),
+    placeholderData: keepPreviousData,
+  });
+
+  const analytics = response?.data;
+
+  return (
+    <Stack spacing={6}>
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error loading price history. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading && (
+        <Box display="flex" justifyContent="center" p={8}>
+          <Spinner size="xl" />
+        </Box>
+      )}
+
+      {analytics && (
+        <>
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4}>
+            {[
+              { label: 'Listings Cut At Least Once', value: formatRatio(analytics.overall.reductionFrequency) },
+              { label: 'Median Price Cut', value: formatPercent(analytics.overall.medianCutPercent) },
+              { label: 'Median Days To First Cut', value: formatDays(analytics.overall.medianDaysToFirstReduction) },
+              { label: 'Median List-to-Final', value: formatRatio(analytics.overall.medianListToFinalRatio) },
+            ].map((metric, i) => (
+              <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={6}>
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Price-Cut Frequency by Loan Type</Heading>
+              <Box height="300px">
+                <Bar
+                  data={{
+                    labels: analytics.segments.map(segment => segment.segment === 'NONE' ? 'Not assumable' : segment.segment),
+                    datasets: [{
+                      label: 'Listings cut at least once (%)',
+                      data: analytics.segments.map(segment => Number((segment.reductionFrequency * 100).toFixed(1))),
+                      backgroundColor: analytics.segments.map(segment => segment.segment === 'NONE' ? '#fff' : '#D1FF4C'),
+                      borderColor: '#000',
+                      borderWidth: 3,
+                    }],
+                  }}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+                    scales: { y: { beginAtZero: true, ticks: axisTicks }, x: { ticks: axisTicks } },
+                  }}
+                />
+              </Box>
+            </Box>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Price Cut Size</Heading>
+              <Box height="300px">
+                <Bar
+                  data={{
+                    labels: analytics.cutDistribution.labels,
+                    datasets: [{ label: 'Price cuts', data: analytics.cutDistribution.values, backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 3 }],
+                  }}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+                    scales: { y: { beginAtZero: true, ticks: axisTicks }, x: { ticks: axisTicks } },
+                  }}
+                />
+              </Box>
+            </Box>
+          </SimpleGrid>
+
+          <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+            <HStack justify="space-between" mb={4}>
+              <Heading size="md" color="#000" fontWeight="extrabold">By Loan Type</Heading>
+              {isFetching && <Spinner size="sm" />}
+            </HStack>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Loan Type</Th>
+                  <Th isNumeric>Listings</Th>
+                  <Th isNumeric>Cut Rate</Th>
+                  <Th isNumeric>Cuts / Listing</Th>
+                  <Th isNumeric>Median Cut</Th>
+                  <Th isNumeric>Days To First Cut</Th>
+                  <Th isNumeric>Sold</Th>
+                  <Th isNumeric>List-to-Final</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {analytics.segments.map(segment => (
+                  <Tr key={segment.segment}>
+                    <Td fontWeight="bold">{segment.segment === 'NONE' ? 'Not assumable' : segment.segment}</Td>
+                    <Td isNumeric>{formatNumber(segment.listings)}</Td>
+                    <Td isNumeric>{formatRatio(segment.reductionFrequency)}</Td>
+                    <Td isNumeric>{segment.averageReductionsPerListing.toFixed(2)}</Td>
+                    <Td isNumeric>{formatPercent(segment.medianCutPercent)}</Td>
+                    <Td isNumeric>{formatDays(segment.medianDaysToFirstReduction)}</Td>
+                    <Td isNumeric>{formatNumber(segment.soldListings)}</Td>
+                    <Td isNumeric>{formatRatio(segment.medianListToFinalRatio)}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        </>
+      )}
+
+      <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+        <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Listing Timeline</Heading>
+        <HStack mb={listingId ? 4 : 0}>
+          <Input
+            placeholder="Listing ID"
+            border="3px solid #000"
+            bg="#fff"
+            value={listingIdInput}
+            onChange={e => setListingIdInput(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && listingIdInput.trim()) setListingId(listingIdInput.trim()); }}
+          />
+          <Button bg="#D1FF4C" border="3px solid #000" onClick={() => setListingId(listingIdInput.trim())} isDisabled={!listingIdInput.trim()}>
+            Show Timeline
+          </Button>
+        </HStack>
+        {listingId && <ListingTimeline listingId={listingId} />}
+      </Box>
+    </Stack>
+  );
+}
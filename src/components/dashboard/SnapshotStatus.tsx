@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  FormControl,
+  FormLabel,
+  HStack,
+  Spinner,
+  Switch,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DashboardService } from '@/services/dashboard.service';
+import { CorrectionOverlaySummary, DashboardFilters, SnapshotInfo } from '@/types/dashboard';
+import { BucketSpecs } from '@/types/buckets';
+
+const dashboardService = new DashboardService();
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US', { maximumFractionDigits: 1 }).format(value);
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatAge = (iso: string) => {
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+const formatChange = (change: number, percentChange: number | null) => {
+  const sign = change > 0 ? '+' : '';
+  const percent = percentChange === null ? '' : ` (${sign}${(percentChange * 100).toFixed(1)}%)`;
+  return `${sign}${formatNumber(change)}${percent}`;
+};
+
+interface SnapshotStatusProps {
+  filters: DashboardFilters;
+  buckets: BucketSpecs;
+  snapshot?: SnapshotInfo;
+  /** Whether the dashboard shows metrics with override corrections applied */
+  corrected: boolean;
+  /** Overlay counts of the corrected payload */
+  corrections?: CorrectionOverlaySummary;
+  onCorrectedChange: (corrected: boolean) => void;
+}
+
+/**
+ * "Data as of" line for the dashboard snapshot with a manual refresh, a toggle
+ * that applies override data corrections, and a comparison against either the
+ * previous snapshot or the raw (uncorrected) metrics.
+ */
+export default function SnapshotStatus({ filters, buckets, snapshot, corrected, corrections, onCorrectedChange }: SnapshotStatusProps) {
+  const queryClient = useQueryClient();
+  const [compareWith, setCompareWith] = useState<'previous' | 'raw' | null>(null);
+  const comparing = compareWith === 'raw' && !corrected ? null : compareWith;
+
+  const refresh = useMutation({
+    mutationFn: () => dashboardService.fetchDashboardData(filters, { refresh: true, buckets, corrected }),
+    onSuccess: response => {
+      queryClient.setQueryData(['dashboardData', filters, buckets, corrected], response);
+      queryClient.invalidateQueries({ queryKey: ['dashboardComparison', filters, buckets] });
+    },
+  });
+
+  const { data: comparison, isFetching, error } = useQuery({
+    queryKey: ['dashboardComparison', filters, buckets, corrected, comparing],
+    queryFn: () =>
+      dashboardService.fetchSnapshotComparison(filters, buckets, { corrected, against: comparing === 'raw' ? 'raw' : 'previous' }),
+    enabled: comparing !== null,
+  });
+
+  if (!snapshot) return null;
+
+  const changes = comparison?.data;
+  const showComparison = comparing !== null;
+  const toggleComparison = (target: 'previous' | 'raw') => setCompareWith(comparing === target ? null : target);
+  const correctedCount = corrections
+    ? corrections.listingPrices + corrections.mortgageBalances + corrections.mortgageRates
+    : 0;
+
+  return (
+    <Box mb={6}>
+      <HStack spacing={4} wrap="wrap">
+        <Text fontWeight="bold" title={`Computed in ${formatNumber(snapshot.computeMs)} ms`}>
+          Data as of {formatTime(snapshot.generatedAt)} ({formatAge(snapshot.generatedAt)})
+        </Text>
+        <Button
+          size="sm"
+          border="3px solid #000"
+          bg="#D1FF4C"
+          onClick={() => refresh.mutate()}
+          isLoading={refresh.isPending}
+          loadingText="Refreshing"
+        >
+          Refresh
+        </Button>
+        <Button
+          size="sm"
+          border="3px solid #000"
+          bg={comparing === 'previous' ? '#D1FF4C' : '#fff'}
+          onClick={() => toggleComparison('previous')}
+          isDisabled={!snapshot.previousGeneratedAt}
+          title={snapshot.previousGeneratedAt ? undefined : 'No previous snapshot yet'}
+        >
+          Compare with previous
+        </Button>
+        <FormControl display="flex" alignItems="center" w="auto">
+          <Switch
+            id="apply-corrections"
+            colorScheme="green"
+            isChecked={corrected}
+            onChange={e => onCorrectedChange(e.target.checked)}
+          />
+          <FormLabel htmlFor="apply-corrections" mb={0} ml={2} fontWeight="bold">
+            Apply data corrections
+          </FormLabel>
+        </FormControl>
+        {corrected && (
+          <>
+            <Text fontSize="sm">
+              {corrections
+                ? `${formatNumber(correctedCount)} corrected values (${corrections.listingPrices} prices, ${corrections.mortgageRates} rates, ${corrections.mortgageBalances} balances)`
+                : null}
+            </Text>
+            <Button
+              size="sm"
+              border="3px solid #000"
+              bg={comparing === 'raw' ? '#D1FF4C' : '#fff'}
+              onClick={() => toggleComparison('raw')}
+            >
+              Compare with raw
+            </Button>
+          </>
+        )}
+        {isFetching && <Spinner size="sm" />}
+      </HStack>
+
+      {refresh.error && (
+        <Alert status="error" mt={4}>
+          <AlertIcon />
+          Refresh failed. Showing the last snapshot.
+        </Alert>
+      )}
+
+      {showComparison && error && (
+        <Alert status="error" mt={4}>
+          <AlertIcon />
+          Error loading the comparison.
+        </Alert>
+      )}
+
+      {showComparison && changes && (
+        <Box mt={4} p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+          <Text fontWeight="bold" mb={2}>
+            {comparing === 'raw'
+              ? 'Effect of active data corrections'
+              : `Changes since ${formatTime(changes.previousGeneratedAt)}`}
+          </Text>
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Metric</Th>
+                <Th isNumeric>{comparing === 'raw' ? 'Raw' : 'Previous'}</Th>
+                <Th isNumeric>{comparing === 'raw' ? 'Corrected' : 'Current'}</Th>
+                <Th isNumeric>Change</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {changes.metrics.map(metric => (
+                <Tr key={metric.metric}>
+                  <Td fontWeight="bold">{metric.metric}</Td>
+                  <Td isNumeric>{formatNumber(metric.previous)}</Td>
+                  <Td isNumeric>{formatNumber(metric.current)}</Td>
+                  <Td isNumeric>{formatChange(metric.change, metric.percentChange)}</Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+          <Text fontSize="sm" mt={2}>
+            {changes.charts.length > 0
+              ? `Changed distributions: ${changes.charts.map(chart => chart.chart).join(', ')}`
+              : 'No distribution changed.'}
+          </Text>
+        </Box>
+      )}
+
+      {showComparison && comparison && !changes && (
+        <Text mt={4}>No previous snapshot to compare with yet.</Text>
+      )}
+    </Box>
+  );
+}
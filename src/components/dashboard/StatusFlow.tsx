@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  ButtonGroup,
+  Heading,
+  HStack,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { STATUS_CATEGORY_COLORS, STATUS_CATEGORY_LABELS, StatusCategory } from '@/lib/listing-status';
+import { StatusFlowService } from '@/services/status-flow.service';
+import { DashboardFilters } from '@/types/dashboard';
+import { StatusTransition } from '@/types/status-flow';
+
+const statusFlowService = new StatusFlowService();
+
+const WINDOW_OPTIONS = [90, 180, 365];
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatRatio = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const FLOW_WIDTH = 640;
+const FLOW_HEIGHT = 360;
+const NODE_WIDTH = 16;
+const NODE_GAP = 12;
+const LABEL_WIDTH = 130;
+
+interface FlowNode {
+  category: StatusCategory;
+  total: number;
+  y: number;
+  height: number;
+}
+
+/** Stack one column of nodes, sized by their share of all transitions */
+function layoutColumn(totals: Map<StatusCategory, number>, scale: number): Map<StatusCategory, FlowNode> {
+  const nodes = new Map<StatusCategory, FlowNode>();
+  let y = 0;
+  totals.forEach((total, category) => {
+    const height = Math.max(2, total * scale);
+    nodes.set(category, { category, total, y, height });
+    y += height + NODE_GAP;
+  });
+  return nodes;
+}
+
+/**
+ * Two-column flow diagram: each band runs from the category a listing left
+ * to the category it moved into, with width proportional to the count.
+ */
+function FlowDiagram({ transitions, categories }: { transitions: StatusTransition[]; categories: StatusCategory[] }) {
+  const total = transitions.reduce((sum, t) => sum + t.count, 0);
+  if (total === 0) return <Text>No status changes in this window.</Text>;
+
+  const sourceTotals = new Map<StatusCategory, number>();
+  const targetTotals = new Map<StatusCategory, number>();
+  categories.forEach(category => {
+    const out = transitions.filter(t => t.from === category).reduce((sum, t) => sum + t.count, 0);
+    const into = transitions.filter(t => t.to === category).reduce((sum, t) => sum + t.count, 0);
+    if (out > 0) sourceTotals.set(category, out);
+    if (into > 0) targetTotals.set(category, into);
+  });
+
+  const gaps = Math.max(sourceTotals.size, targetTotals.size) - 1;
+  const scale = (FLOW_HEIGHT - gaps * NODE_GAP) / total;
+  const sources = layoutColumn(sourceTotals, scale);
+  const targets = layoutColumn(targetTotals, scale);
+
+  const left = LABEL_WIDTH;
+  const right = FLOW_WIDTH - LABEL_WIDTH - NODE_WIDTH;
+  const sourceOffset = new Map<StatusCategory, number>();
+  const targetOffset = new Map<StatusCategory, number>();
+
+  // Order bands by target within each source so they cross as little as possible
+  const ordered = [...transitions].sort(
+    (a, b) => categories.indexOf(a.from) - categories.indexOf(b.from) || categories.indexOf(a.to) - categories.indexOf(b.to)
+  );
+
+  const bands = ordered.map(t => {
+    const source = sources.get(t.from)!;
+    const target = targets.get(t.to)!;
+    const width = t.count * scale;
+    const y0 = source.y + (sourceOffset.get(t.from) ?? 0);
+    const y1 = target.y + (targetOffset.get(t.to) ?? 0);
+    sourceOffset.set(t.from, (sourceOffset.get(t.from) ?? 0) + width);
+    targetOffset.set(t.to, (targetOffset.get(t.to) ?? 0) + width);
+
+    const x0 = left + NODE_WIDTH;
+    const x1 = right;
+    const mid = (x0 + x1) / 2;
+    const path = [
+      `M${x0},${y0}`,
+      `C${mid},${y0} ${mid},${y1} ${x1},${y1}`,
+      `L${x1},${y1 + width}`,
+      `C${mid},${y1 + width} ${mid},${y0 + width} ${x0},${y0 + width}`,
+      'Z',
+    ].join(' ');
+
+    return { transition: t, path };
+  });
+
+  return (
+    <Box overflowX="auto">
+      <svg
+        viewBox={`0 0 ${FLOW_WIDTH} ${FLOW_HEIGHT}`}
+        width="100%"
+        style={{ minWidth: FLOW_WIDTH, maxHeight: FLOW_HEIGHT + 20 }}
+        role="img"
+        aria-label="Status transitions"
+      >
+        {bands.map(({ transition, path }) => (
+          <path
+            key={`${transition.from}-${transition.to}`}
+            d={path}
+            fill={STATUS_CATEGORY_COLORS[transition.to]}
+            fillOpacity={0.55}
+            stroke="#000"
+            strokeWidth={0.5}
+          >
+            <title>
+              {`${STATUS_CATEGORY_LABELS[transition.from]} → ${STATUS_CATEGORY_LABELS[transition.to]}: ${formatNumber(transition.count)}`}
+            </title>
+          </path>
+        ))}
+        {Array.from(sources.values()).map(node => (
+          <g key={`source-${node.category}`}>
+            <rect x={left} y={node.y} width={NODE_WIDTH} height={node.height} fill={STATUS_CATEGORY_COLORS[node.category]} stroke="#000" strokeWidth={2} />
+            <text x={left - 8} y={node.y + node.height / 2} textAnchor="end" dominantBaseline="middle" fontSize={12} fontWeight="bold">
+              {`${STATUS_CATEGORY_LABELS[node.category]} (${formatNumber(node.total)})`}
+            </text>
+          </g>
+        ))}
+        {Array.from(targets.values()).map(node => (
+          <g key={`target-${node.category}`}>
+            <rect x={right} y={node.y} width={NODE_WIDTH} height={node.height} fill={STATUS_CATEGORY_COLORS[node.category]} stroke="#000" strokeWidth={2} />
+            <text x={right + NODE_WIDTH + 8} y={node.y + node.height / 2} dominantBaseline="middle" fontSize={12} fontWeight="bold">
+              {`${STATUS_CATEGORY_LABELS[node.category]} (${formatNumber(node.total)})`}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </Box>
+  );
+}
+
+/**
+ * Status flow section of the Listing Lifecycle tab: the Active -> Under
+ * Contract -> Closed funnel, a flow diagram of status-category changes and the
+ * full transition matrix.
+ */
+export default function StatusFlow({ filters }: { filters: DashboardFilters }) {
+  const [windowDays, setWindowDays] = useState(365);
+
+  const to = isoDay(new Date());
+  const from = isoDay(new Date(Date.now() - (windowDays - 1) * 86400000));
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['statusFlow', filters, from, to],
+    queryFn: () => statusFlowService.fetchStatusFlow(filters, { from, to }),
+    placeholderData: keepPreviousData,
+  });
+
+  const flow = response?.data;
+  const funnelSteps = flow
+    ? [
+        { label: 'Listed', value: flow.funnel.listed, color: STATUS_CATEGORY_COLORS.active },
+        { label: 'Under Contract', value: flow.funnel.underContract, color: STATUS_CATEGORY_COLORS.underContract },
+        { label: 'Closed', value: flow.funnel.closed, color: STATUS_CATEGORY_COLORS.closed },
+      ]
+    : [];
+
+  return (
+    <Stack spacing={6}>
+      <HStack justify="space-between" wrap="wrap">
+        <Heading size="md" color="#000" fontWeight="extrabold">Status Flow</Heading>
+        <HStack>
+          {isFetching && <Spinner size="sm" />}
+          <ButtonGroup isAttached>
+            {WINDOW_OPTIONS.map(days => (
+              <Button
+                key={days}
+                border="3px solid #000"
+                bg={windowDays === days ? '#D1FF4C' : '#fff'}
+                onClick={() => setWindowDays(days)}
+              >
+                {days} days
+              </Button>
+            ))}
+          </ButtonGroup>
+        </HStack>
+      </HStack>
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          Error loading status flow. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading && (
+        <Box display="flex" justifyContent="center" p={8}>
+          <Spinner size="xl" />
+        </Box>
+      )}
+
+      {flow && (
+        <>
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4}>
+            {[
+              { label: 'Contract Rate', value: formatRatio(flow.funnel.contractRate) },
+              { label: 'Close Rate', value: formatRatio(flow.funnel.closeRate) },
+              { label: 'Fall-Through Rate', value: formatRatio(flow.funnel.fallThroughRate) },
+              { label: 'Withdrawn Before Contract', value: formatNumber(flow.funnel.withdrawnBeforeContract) },
+            ].map((metric, i) => (
+              <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={6}>
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={1} color="#000" fontWeight="extrabold">Listing Funnel</Heading>
+              <Text fontSize="sm" mb={4}>Listings first active between {flow.from} and {flow.to}</Text>
+              <Stack spacing={3}>
+                {funnelSteps.map(step => (
+                  <Box key={step.label}>
+                    <HStack justify="space-between">
+                      <Text fontWeight="bold">{step.label}</Text>
+                      <Text fontWeight="bold">{formatNumber(step.value)}</Text>
+                    </HStack>
+                    <Box border="3px solid #000" borderRadius="12px" overflow="hidden" height="28px" bg="#fff">
+                      <Box
+                        height="100%"
+                        bg={step.color}
+                        width={flow.funnel.listed > 0 ? `${(step.value / flow.funnel.listed) * 100}%` : '0%'}
+                      />
+                    </Box>
+                  </Box>
+                ))}
+              </Stack>
+              <Text fontSize="sm" mt={4}>
+                {formatNumber(flow.funnel.fellThrough)} fell through and returned to market ·{' '}
+                {formatNumber(flow.funnel.stillOnMarket)} still on market
+              </Text>
+            </Box>
+
+            <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+              <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Status Changes</Heading>
+              <FlowDiagram transitions={flow.transitions} categories={flow.matrix.categories} />
+            </Box>
+          </SimpleGrid>
+
+          <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+            <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Transition Matrix</Heading>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>From \ To</Th>
+                  {flow.matrix.categories.map(category => (
+                    <Th key={category} isNumeric>{STATUS_CATEGORY_LABELS[category]}</Th>
+                  ))}
+                </Tr>
+              </Thead>
+              <Tbody>
+                {flow.matrix.categories.map((from, i) => (
+                  <Tr key={from}>
+                    <Td fontWeight="bold">{STATUS_CATEGORY_LABELS[from]}</Td>
+                    {flow.matrix.counts[i].map((count, j) => (
+                      <Td key={flow.matrix.categories[j]} isNumeric color={i === j ? '#B0B0B0' : '#000'}>
+                        {i === j ? '-' : formatNumber(count)}
+                      </Td>
+                    ))}
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        </>
+      )}
+    </Stack>
+  );
+}
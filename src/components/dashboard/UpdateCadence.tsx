@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import { Box, Heading, SimpleGrid, Table, Tbody, Td, Text, Th, Thead, Tr } from '@chakra-ui/react';
+import { Bar } from 'react-chartjs-2';
+import { UpdateCadence as UpdateCadenceData } from '@/types/dashboard';
+
+const formatRate = (value: number) => value.toFixed(2);
+
+const formatGap = (days: number | null) => {
+  if (days === null) return '-';
+  return days < 2 ? `${(days * 24).toFixed(1)} hours` : `${days.toFixed(1)} days`;
+};
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+/**
+ * Update cadence section of the Listing Lifecycle tab: how often listings
+ * are updated according to the audit trail, overall and per MLS instance
+ */
+export default function UpdateCadence({ cadence }: { cadence: UpdateCadenceData }) {
+  const metrics = [
+    { label: 'Updates per listing per week', value: formatRate(cadence.updatesPerListingPerWeek) },
+    { label: 'Median gap between updates', value: formatGap(cadence.medianGapDays) },
+    { label: `Untouched in ${cadence.untouchedAfterDays} days`, value: formatPercent(cadence.untouchedShare) },
+  ];
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" boxShadow="none" bg="#fff" mb={6}>
+      <Heading size="md" mb={2} color="#000" fontWeight="extrabold">Update Cadence</Heading>
+      <Text fontSize="sm" mb={4}>
+        Updates are audit entries, status history and MLS updates over the last {cadence.windowDays} days.
+      </Text>
+
+      <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4} mb={6}>
+        {metrics.map((metric, i) => (
+          <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={4}>
+            <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+            <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+          </Box>
+        ))}
+      </SimpleGrid>
+
+      <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+        <Box>
+          <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">Time between updates</Heading>
+          <Box height="300px">
+            <Bar
+              data={{
+                labels: cadence.gapDistribution.labels,
+                datasets: [
+                  {
+                    label: 'Updates',
+                    data: cadence.gapDistribution.values,
+                    backgroundColor: '#D1FF4C',
+                    borderColor: '#000',
+                    borderWidth: 3,
+                  },
+                ],
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { display: false } },
+                scales: { y: { beginAtZero: true, ticks: { color: '#000', font: { weight: 'bold' } } } },
+              }}
+            />
+          </Box>
+        </Box>
+
+        <Box overflowX="auto" maxH="340px" overflowY="auto">
+          <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">By MLS</Heading>
+          {cadence.byMls.length === 0 ? (
+            <Text>No listings match these filters.</Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>MLS</Th>
+                  <Th isNumeric>Listings</Th>
+                  <Th isNumeric>Updates / week</Th>
+                  <Th isNumeric>Median gap</Th>
+                  <Th isNumeric>Untouched</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {cadence.byMls.map(mls => (
+                  <Tr key={mls.mlsInstanceId}>
+                    <Td fontWeight="bold">{mls.name}</Td>
+                    <Td isNumeric>{mls.listingCount.toLocaleString('en-US')}</Td>
+                    <Td isNumeric>{formatRate(mls.updatesPerListingPerWeek)}</Td>
+                    <Td isNumeric>{formatGap(mls.medianGapDays)}</Td>
+                    <Td isNumeric>{formatPercent(mls.untouchedShare)}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+        </Box>
+      </SimpleGrid>
+    </Box>
+  );
+}
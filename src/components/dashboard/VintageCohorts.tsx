@@ -0,0 +1,162 @@
+'use client';
+
+import React from 'react';
+import { Box, Heading, SimpleGrid, Stack, Table, Tbody, Td, Text, Th, Thead, Tr } from '@chakra-ui/react';
+import { Bar, Line } from 'react-chartjs-2';
+import { VintageAnalytics } from '@/types/mortgage';
+
+const formatNumber = (value: number) => {
+  return new Intl.NumberFormat('en-US').format(value);
+};
+
+const formatRate = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+const formatRatio = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+const formatYears = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)} years`);
+
+const axisTicks = { color: '#000', font: { weight: 'bold' as const } };
+
+/**
+ * Vintage cohorts by recording year, with the low-rate vintage pulled out
+ * into its own panel and highlighted in the cohort charts.
+ */
+export default function VintageCohorts({ vintages }: { vintages: VintageAnalytics }) {
+  const { cohorts, lowRate } = vintages;
+  const vintageLabel = `${lowRate.fromYear}–${lowRate.toYear}`;
+  const isLowRate = (year: number) => year >= lowRate.fromYear && year <= lowRate.toYear;
+
+  return (
+    <Stack spacing={6}>
+      <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+        <Heading size="md" mb={1} color="#000" fontWeight="extrabold">{vintageLabel} Low-Rate Vintage</Heading>
+        <Text fontSize="sm" mb={4}>Loans recorded in {vintageLabel}, compared with every other vintage</Text>
+        <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4} mb={6}>
+          {[
+            { label: 'Mortgages', value: `${formatNumber(lowRate.mortgages)} (${formatRatio(lowRate.share)})` },
+            { label: 'Average Rate', value: formatRate(lowRate.averageRate) },
+            { label: 'Other Vintages Rate', value: formatRate(lowRate.otherAverageRate) },
+            { label: 'Remaining Balance', value: formatRatio(lowRate.averageRemainingBalanceShare) },
+            { label: 'Average Age', value: formatYears(lowRate.averageAge) },
+            { label: 'Term Elapsed', value: formatRatio(lowRate.averageTermElapsed) },
+            {
+              label: 'Desirable',
+              value: lowRate.mortgages > 0 ? formatRatio(lowRate.desirable / lowRate.mortgages) : '-',
+            },
+          ].map((metric, i) => (
+            <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={6}>
+              <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+              <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+            </Box>
+          ))}
+        </SimpleGrid>
+        <Box height="260px">
+          <Bar
+            data={{
+              labels: lowRate.rateDistribution.labels,
+              datasets: [{
+                label: `${vintageLabel} mortgages by rate`,
+                data: lowRate.rateDistribution.values,
+                backgroundColor: '#D1FF4C',
+                borderColor: '#000',
+                borderWidth: 3,
+              }],
+            }}
+            options={{
+              responsive: true,
+              maintainAspectRatio: false,
+              plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+              scales: { y: { beginAtZero: true, ticks: axisTicks }, x: { ticks: axisTicks } },
+            }}
+          />
+        </Box>
+      </Box>
+
+      <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+          <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Mortgages by Vintage</Heading>
+          <Box height="300px">
+            <Bar
+              data={{
+                labels: cohorts.map(cohort => String(cohort.year)),
+                datasets: [{
+                  label: 'Number of Mortgages',
+                  data: cohorts.map(cohort => cohort.mortgages),
+                  backgroundColor: cohorts.map(cohort => (isLowRate(cohort.year) ? '#D1FF4C' : '#fff')),
+                  borderColor: '#000',
+                  borderWidth: 3,
+                }],
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+                scales: { y: { beginAtZero: true, ticks: axisTicks }, x: { ticks: axisTicks } },
+              }}
+            />
+          </Box>
+        </Box>
+
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+          <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Average Rate by Vintage</Heading>
+          <Box height="300px">
+            <Line
+              data={{
+                labels: cohorts.map(cohort => String(cohort.year)),
+                datasets: [{
+                  label: 'Average Rate (%)',
+                  data: cohorts.map(cohort => (cohort.averageRate === null ? null : Number(cohort.averageRate.toFixed(2)))),
+                  borderColor: '#000',
+                  backgroundColor: '#D1FF4C',
+                  pointBackgroundColor: cohorts.map(cohort => (isLowRate(cohort.year) ? '#D1FF4C' : '#fff')),
+                  pointRadius: 6,
+                  borderWidth: 3,
+                }],
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { labels: { color: '#000', font: { weight: 'bold' } } } },
+                scales: { y: { ticks: axisTicks }, x: { ticks: axisTicks } },
+              }}
+            />
+          </Box>
+        </Box>
+      </SimpleGrid>
+
+      <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+        <Heading size="md" mb={4} color="#000" fontWeight="extrabold">Vintage Cohorts</Heading>
+        {cohorts.length === 0 ? (
+          <Text>No mortgages match these filters.</Text>
+        ) : (
+          <Table size="sm">
+            <Thead>
+              <Tr>
+                <Th>Vintage</Th>
+                <Th isNumeric>Mortgages</Th>
+                <Th isNumeric>Avg Rate</Th>
+                <Th isNumeric>Remaining Balance</Th>
+                <Th isNumeric>Avg Age</Th>
+                <Th isNumeric>Term Elapsed</Th>
+                <Th isNumeric>Desirable</Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {cohorts.map(cohort => (
+                <Tr key={cohort.year} bg={isLowRate(cohort.year) ? '#D1FF4C' : undefined}>
+                  <Td fontWeight="bold">{cohort.year}</Td>
+                  <Td isNumeric>{formatNumber(cohort.mortgages)}</Td>
+                  <Td isNumeric>{formatRate(cohort.averageRate)}</Td>
+                  <Td isNumeric>{formatRatio(cohort.averageRemainingBalanceShare)}</Td>
+                  <Td isNumeric>{formatYears(cohort.averageAge)}</Td>
+                  <Td isNumeric>{formatRatio(cohort.averageTermElapsed)}</Td>
+                  <Td isNumeric>{cohort.mortgages > 0 ? formatRatio(cohort.desirable / cohort.mortgages) : '-'}</Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        )}
+      </Box>
+    </Stack>
+  );
+}
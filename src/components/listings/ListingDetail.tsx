@@ -0,0 +1,382 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Image,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip as ChartTooltip,
+  Legend,
+} from 'chart.js';
+import { ListingService } from '@/services/listing.service';
+import { ListingDetailSection, LoanDetail } from '@/types/listing-detail';
+import ListingTimeline from '@/components/dashboard/ListingTimeline';
+
+// The timeline chart is rendered outside the dashboard, which registers the rest
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, ChartTooltip, Legend);
+
+const listingService = new ListingService();
+
+const SECTION_LABELS: Record<ListingDetailSection, string> = {
+  photos: 'photos',
+  propertyRadar: 'PropertyRadar record',
+  loans: 'loans',
+  audits: 'audit log',
+  corrections: 'data corrections',
+  reports: 'reports',
+};
+
+const formatCurrency = (value: number | null) => {
+  if (value === null) return '-';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+};
+
+const formatPercent = (value: number | null, digits = 2) => (value === null ? '-' : `${value.toFixed(digits)}%`);
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString('en-US') : '-');
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+      <Heading size="md" color="#000" fontWeight="extrabold" mb={4}>{title}</Heading>
+      {children}
+    </Box>
+  );
+}
+
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <Box>
+      <Text fontSize="xs" fontWeight="bold" textTransform="uppercase">{label}</Text>
+      <Text>{value}</Text>
+    </Box>
+  );
+}
+
+function LoanRow({ loan }: { loan: LoanDetail }) {
+  const mortgage = loan.assumableMortgage;
+  return (
+    <>
+      <Tr opacity={loan.deletedAt ? 0.5 : 1}>
+        <Td>{loan.loanPosition}</Td>
+        <Td>
+          <HStack>
+            <Text>{loan.loanType}</Text>
+            {loan.deletedAt && <Badge>Deleted</Badge>}
+          </HStack>
+        </Td>
+        <Td>{loan.lenderName}</Td>
+        <Td>{formatDate(loan.recordingDate)}</Td>
+        <Td isNumeric>{formatCurrency(loan.initialAmount)}</Td>
+        <Td isNumeric>{formatCurrency(loan.remainingBalance)}</Td>
+        <Td isNumeric>
+          {formatPercent(loan.interestRate)}
+          {loan.interestRateEstimated ? ' (est.)' : ''}
+        </Td>
+        <Td isNumeric>{formatCurrency(loan.monthlyPayment)}</Td>
+      </Tr>
+      {mortgage && (
+        <Tr bg="#F4FFD6">
+          <Td />
+          <Td colSpan={7}>
+            <HStack spacing={6} wrap="wrap">
+              <Badge border="2px solid #000" bg="#D1FF4C" color="#000">Assumable</Badge>
+              <Field label="Balance" value={formatCurrency(mortgage.currentBalance)} />
+              <Field label="Rate" value={formatPercent(mortgage.interestRate)} />
+              <Field label="Payment" value={formatCurrency(mortgage.monthlyPayment)} />
+              <Field label="All-in" value={formatCurrency(mortgage.monthlyAllInPayment)} />
+              <Field label="Remaining" value={`${mortgage.remainingTerm} mo`} />
+              <Field label="Down" value={`${formatCurrency(mortgage.downPayment)} (${formatPercent(mortgage.percentDown, 1)})`} />
+              <Field label="Status" value={mortgage.assumabilityStatus} />
+              <Field label="Verified" value={formatDate(mortgage.lastVerifiedDate)} />
+              <Field
+                label="Desirability"
+                value={mortgage.desirabilityScore === null ? '-' : mortgage.desirabilityScore.toFixed(1)}
+              />
+            </HStack>
+          </Td>
+        </Tr>
+      )}
+    </>
+  );
+}
+
+/**
+ * Everything stored about one listing: photos, PropertyRadar record, loans
+ * with their assumable mortgages, price timeline, audit log, active data
+ * corrections and user reports. Sections without data show an empty state.
+ */
+export default function ListingDetail({ listingId }: { listingId: string }) {
+  const { data: response, isLoading, error } = useQuery({
+    queryKey: ['listingDetail', listingId],
+    queryFn: () => listingService.fetchListingDetail(listingId),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" p={8}>
+        <Spinner size="xl" />
+      </Box>
+    );
+  }
+
+  if (error || !response?.data) {
+    return (
+      <Box p={4}>
+        <Alert status="error">
+          <AlertIcon />
+          {error instanceof Error ? error.message : 'Error loading listing.'}
+        </Alert>
+      </Box>
+    );
+  }
+
+  const { listing, photos, propertyRadar, loans, audits, corrections, reports, unavailable } = response.data;
+
+  return (
+    <Box p={4}>
+      <Stack spacing={6}>
+        <HStack justify="space-between" align="start" wrap="wrap">
+          <Box>
+            <Heading color="#000" fontWeight="extrabold">
+              {listing.address}{listing.unitNumber ? ` #${listing.unitNumber}` : ''}
+            </Heading>
+            <Text>{[listing.city, listing.state, listing.zipCode].filter(Boolean).join(', ')}</Text>
+          </Box>
+          <HStack>
+            <Badge border="2px solid #000" bg="#D1FF4C" color="#000" fontSize="md">{listing.status}</Badge>
+            {listing.loanType && <Badge border="2px solid #000" bg="#fff" color="#000" fontSize="md">{listing.loanType}</Badge>}
+            {listing.deletedAt && <Badge colorScheme="red" fontSize="md">Deleted</Badge>}
+            <Text fontSize="xl" fontWeight="extrabold">{formatCurrency(listing.price)}</Text>
+            <Button as={Link} href="/dashboard" size="sm" border="3px solid #000" bg="#fff">Dashboard</Button>
+          </HStack>
+        </HStack>
+
+        {unavailable.length > 0 && (
+          <Alert status="warning">
+            <AlertIcon />
+            Could not load {unavailable.map(section => SECTION_LABELS[section]).join(', ')}. Those sections are shown empty.
+          </Alert>
+        )}
+
+        <Section title="Listing">
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+            <Field label="Type" value={[listing.propertyType, listing.propertySubType].filter(Boolean).join(' / ')} />
+            <Field label="Beds / baths" value={`${listing.bedrooms ?? '-'} / ${listing.bathrooms ?? '-'}`} />
+            <Field label="Square feet" value={listing.squareFeet?.toLocaleString('en-US') ?? '-'} />
+            <Field label="Year built" value={listing.yearBuilt ?? '-'} />
+            <Field label="Listed" value={formatDate(listing.listedAt)} />
+            <Field label="Last status change" value={formatDate(listing.lastStatusChange)} />
+            <Field label="Last MLS update" value={formatDate(listing.lastMlsUpdate)} />
+            <Field label="MLS" value={`${listing.mlsName ?? (listing.mlsInstanceId || '-')} #${listing.mlsListingId}`} />
+            <Field label="Assumable rate" value={formatPercent(listing.assumableInterestRate)} />
+            <Field label="Assumable payment" value={formatCurrency(listing.assumableMonthlyPayment)} />
+            <Field label="Desirability" value={listing.desirabilityScore === null ? '-' : listing.desirabilityScore.toFixed(1)} />
+            <Field label="Processing" value={[listing.processingState, listing.processingVersion].filter(Boolean).join(' ') || '-'} />
+            <Field label="Agent" value={listing.agentName ?? '-'} />
+            <Field label="Office" value={listing.agentOfficeName ?? '-'} />
+            <Field label="Agent contact" value={[listing.agentPhone, listing.agentEmail].filter(Boolean).join(' · ') || '-'} />
+          </SimpleGrid>
+        </Section>
+
+        <Section title={`Photos (${photos.length})`}>
+          {photos.length === 0 ? (
+            <Text>No active photos.</Text>
+          ) : (
+            <SimpleGrid columns={{ base: 2, md: 4, lg: 6 }} spacing={3}>
+              {photos.map(photo => (
+                <Box key={photo.id} position="relative" border="2px solid #000" borderRadius="12px" overflow="hidden">
+                  <Image src={photo.url} alt={`Photo ${photo.order + 1}`} objectFit="cover" w="100%" h="120px" loading="lazy" />
+                  {!photo.mirrored && (
+                    <Badge position="absolute" top={1} left={1} bg="#fff" border="1px solid #000">MLS</Badge>
+                  )}
+                </Box>
+              ))}
+            </SimpleGrid>
+          )}
+        </Section>
+
+        <Section title="Property">
+          {!propertyRadar ? (
+            <Text>No PropertyRadar record linked to this listing.</Text>
+          ) : (
+            <Stack spacing={4}>
+              {propertyRadar.needsReview && (
+                <Alert status="warning">
+                  <AlertIcon />
+                  Needs review{propertyRadar.reviewReason ? `: ${propertyRadar.reviewReason}` : ''}
+                </Alert>
+              )}
+              <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+                <Field label="AVM" value={formatCurrency(propertyRadar.avm)} />
+                <Field label="Available equity" value={formatCurrency(propertyRadar.availableEquity)} />
+                <Field label="Equity" value={formatPercent(propertyRadar.equityPercent, 1)} />
+                <Field label="CLTV" value={formatPercent(propertyRadar.cltv, 1)} />
+                <Field label="Owner" value={propertyRadar.owners.join(', ') || '-'} />
+                <Field label="Owner mailing address" value={propertyRadar.ownerMailingAddress ?? '-'} />
+                <Field label="Annual taxes" value={formatCurrency(propertyRadar.annualTaxes)} />
+                <Field label="Parcel" value={`${propertyRadar.parcelNumber} (${propertyRadar.county})`} />
+                <Field label="Last transfer" value={formatDate(propertyRadar.lastTransferDate)} />
+                <Field label="Transfer value" value={formatCurrency(propertyRadar.lastTransferValue)} />
+                <Field label="Transfer type" value={propertyRadar.lastTransferType ?? '-'} />
+                <Field
+                  label="Transfer down payment"
+                  value={`${formatCurrency(propertyRadar.lastTransferDownPayment)} (${formatPercent(propertyRadar.lastTransferDownPaymentPercent, 1)})`}
+                />
+                <Field label="Loans fetched" value={formatDate(propertyRadar.loanDataFetchedAt)} />
+              </SimpleGrid>
+            </Stack>
+          )}
+        </Section>
+
+        <Section title={`Loans (${loans.length})`}>
+          {loans.length === 0 ? (
+            <Text>No loans recorded for this property.</Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Pos.</Th>
+                  <Th>Type</Th>
+                  <Th>Lender</Th>
+                  <Th>Recorded</Th>
+                  <Th isNumeric>Original</Th>
+                  <Th isNumeric>Balance</Th>
+                  <Th isNumeric>Rate</Th>
+                  <Th isNumeric>Payment</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {loans.map(loan => <LoanRow key={loan.id} loan={loan} />)}
+              </Tbody>
+            </Table>
+          )}
+        </Section>
+
+        <ListingTimeline listingId={listing.id} />
+
+        <Section title={`Data corrections (${corrections.length})`}>
+          {corrections.length === 0 ? (
+            <Text>No active corrections.</Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Entity</Th>
+                  <Th>Field</Th>
+                  <Th>Original</Th>
+                  <Th>Corrected</Th>
+                  <Th>Reason</Th>
+                  <Th>By</Th>
+                  <Th>Created</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {corrections.map(correction => (
+                  <Tr key={correction.id}>
+                    <Td>{correction.entityType}</Td>
+                    <Td fontWeight="bold">{correction.field}</Td>
+                    <Td>{formatValue(correction.originalValue)}</Td>
+                    <Td>{formatValue(correction.correctedValue)}</Td>
+                    <Td>{correction.reason ?? '-'}</Td>
+                    <Td>{correction.createdBy}</Td>
+                    <Td>{formatDate(correction.createdAt)}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+        </Section>
+
+        <Section title={`Reports (${reports.length})`}>
+          {reports.length === 0 ? (
+            <Text>No reports filed.</Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Reason</Th>
+                  <Th>Reporter</Th>
+                  <Th>Details</Th>
+                  <Th>Status</Th>
+                  <Th>Filed</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {reports.map(report => (
+                  <Tr key={report.id}>
+                    <Td>{report.reason}</Td>
+                    <Td>{report.reporterType}</Td>
+                    <Td>{report.details ?? '-'}</Td>
+                    <Td>{report.status}</Td>
+                    <Td>{formatDate(report.createdAt)}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+        </Section>
+
+        <Section title="Audit log">
+          <Button as={Link} href={`/admin/audits?listingId=${encodeURIComponent(listing.id)}`} size="sm" mb={4} border="3px solid #000" bg="#fff">
+            Open in audit feed
+          </Button>
+          {audits.length === 0 ? (
+            <Text>No audit entries.</Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>When</Th>
+                  <Th>Action</Th>
+                  <Th>Source</Th>
+                  <Th>Changed fields</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {audits.map(audit => (
+                  <Tr key={audit.id}>
+                    <Td>{new Date(audit.createdAt).toLocaleString('en-US')}</Td>
+                    <Td>{audit.action}</Td>
+                    <Td>{audit.source} · {audit.sourceName}</Td>
+                    <Td>{audit.changedFields.join(', ') || '-'}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+        </Section>
+      </Stack>
+    </Box>
+  );
+}
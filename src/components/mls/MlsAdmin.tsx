@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Image,
+  Input,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { MlsService } from '@/services/mls.service';
+import { useDashboardFilters } from '@/hooks/useDashboardFilters';
+import DashboardFilterBar from '@/components/dashboard/DashboardFilterBar';
+import { MlsScorecard, MlsVisibilityChange } from '@/types/mls';
+
+const mlsService = new MlsService();
+
+const fieldStyle = { border: '3px solid #000', bg: '#fff' };
+
+const formatCurrency = (value: number | null) => {
+  if (value === null) return '-';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+};
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const formatAge = (hours: number | null) => {
+  if (hours === null) return '-';
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+};
+
+/** Logo, or the acronym in a box when the instance has none */
+function MlsLogo({ scorecard }: { scorecard: MlsScorecard }) {
+  if (scorecard.logoUrl) {
+    return <Image src={scorecard.logoUrl} alt={scorecard.acronym ?? scorecard.name} h="32px" maxW="80px" objectFit="contain" />;
+  }
+  return (
+    <Box px={2} py={1} border="2px solid #000" borderRadius="8px" fontWeight="extrabold" fontSize="xs" textAlign="center">
+      {scorecard.acronym ?? scorecard.name.slice(0, 4).toUpperCase()}
+    </Box>
+  );
+}
+
+/**
+ * Admin page for MLS instances: a scorecard per instance over listings
+ * matching the dashboard filters, and hide/show controls. Hidden instances
+ * are excluded from every dashboard query until shown again.
+ */
+export default function MlsAdmin() {
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useDashboardFilters();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['mlsScorecards', filters],
+    queryFn: () => mlsService.fetchScorecards(filters),
+    placeholderData: keepPreviousData,
+  });
+
+  const visibility = useMutation({
+    mutationFn: ({ id, change }: { id: string; change: MlsVisibilityChange }) => mlsService.setVisibility(id, change),
+    onSuccess: () => {
+      setEditing(null);
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['mlsScorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardData'] });
+    },
+  });
+
+  const startEditing = (scorecard: MlsScorecard) => {
+    setEditing(scorecard.mlsInstanceId);
+    setReason(scorecard.isHidden ? '' : scorecard.reason ?? '');
+    visibility.reset();
+  };
+
+  const scorecards = response?.data.scorecards ?? [];
+  const hiddenCount = scorecards.filter(scorecard => scorecard.isHidden).length;
+
+  return (
+    <Box p={4}>
+      <HStack justify="space-between" mb={6} wrap="wrap">
+        <Heading color="#000" fontWeight="extrabold">MLS Instances</Heading>
+        <HStack>
+          <Button as={Link} href="/admin/reports" border="3px solid #000" bg="#fff">Reports</Button>
+          <Button as={Link} href="/dashboard" border="3px solid #000" bg="#fff">Dashboard</Button>
+        </HStack>
+      </HStack>
+
+      <DashboardFilterBar filters={filters} onChange={setFilters} />
+
+      <Stack spacing={4}>
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+          <HStack mb={4} spacing={3} wrap="wrap">
+            <Heading size="md" color="#000" fontWeight="extrabold">Scorecards</Heading>
+            {hiddenCount > 0 && (
+              <Badge border="2px solid #000" bg="#FF5C5C" color="#000">{hiddenCount} hidden</Badge>
+            )}
+            {isFetching && <Spinner size="sm" />}
+          </HStack>
+          <Text fontSize="sm" mb={4}>
+            Hidden MLSs are listed here but left out of the dashboard. Stale means no MLS update
+            in {response?.data.staleAfterDays ?? 7} days; report rate is reports per 100 listings.
+          </Text>
+
+          {error && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              Error loading MLS scorecards. Please try again later.
+            </Alert>
+          )}
+          {visibility.error && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              {visibility.error.message}
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box display="flex" justifyContent="center" p={8}>
+              <Spinner size="xl" />
+            </Box>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th />
+                  <Th>MLS</Th>
+                  <Th isNumeric>Listings</Th>
+                  <Th isNumeric>Assumable</Th>
+                  <Th isNumeric>Avg price</Th>
+                  <Th>Last update</Th>
+                  <Th isNumeric>Median age</Th>
+                  <Th isNumeric>Stale</Th>
+                  <Th isNumeric>Photos</Th>
+                  <Th isNumeric>Report rate</Th>
+                  <Th>Visibility</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {scorecards.map(scorecard => (
+                  <Tr key={scorecard.mlsInstanceId} bg={scorecard.isHidden ? '#F2F2F2' : undefined}>
+                    <Td><MlsLogo scorecard={scorecard} /></Td>
+                    <Td>
+                      <Text fontWeight="bold">{scorecard.name}</Text>
+                      <Text fontSize="xs">
+                        {[scorecard.acronym, scorecard.region, scorecard.state].filter(Boolean).join(' · ') || scorecard.mlsInstanceId}
+                      </Text>
+                      {!scorecard.hasDetails && <Text fontSize="xs" color="gray.600">No MLS details on file</Text>}
+                    </Td>
+                    <Td isNumeric>{scorecard.listingCount.toLocaleString('en-US')}</Td>
+                    <Td isNumeric>{formatPercent(scorecard.assumableShare)}</Td>
+                    <Td isNumeric>{formatCurrency(scorecard.averagePrice)}</Td>
+                    <Td>{scorecard.lastUpdate ? new Date(scorecard.lastUpdate).toLocaleString('en-US') : '-'}</Td>
+                    <Td isNumeric>{formatAge(scorecard.medianUpdateAgeHours)}</Td>
+                    <Td isNumeric>{formatPercent(scorecard.staleShare)}</Td>
+                    <Td isNumeric>{formatPercent(scorecard.photoCoverage)}</Td>
+                    <Td isNumeric>{scorecard.reportRate.toFixed(2)}</Td>
+                    <Td minW="240px">
+                      {editing === scorecard.mlsInstanceId ? (
+                        <Stack spacing={2}>
+                          <Input
+                            {...fieldStyle}
+                            size="sm"
+                            placeholder={scorecard.isHidden ? 'Reason (optional)' : 'Reason for hiding'}
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                          />
+                          <HStack>
+                            <Button
+                              size="sm"
+                              border="3px solid #000"
+                              bg={scorecard.isHidden ? '#D1FF4C' : '#FF5C5C'}
+                              isDisabled={!scorecard.isHidden && !reason.trim()}
+                              isLoading={visibility.isPending}
+                              onClick={() => visibility.mutate({
+                                id: scorecard.mlsInstanceId,
+                                change: { isHidden: !scorecard.isHidden, reason: reason.trim() || null },
+                              })}
+                            >
+                              {scorecard.isHidden ? 'Show' : 'Hide'}
+                            </Button>
+                            <Button size="sm" border="3px solid #000" bg="#fff" onClick={() => setEditing(null)}>Cancel</Button>
+                          </HStack>
+                        </Stack>
+                      ) : (
+                        <Stack spacing={1}>
+                          <HStack>
+                            <Badge border="2px solid #000" bg={scorecard.isHidden ? '#FF5C5C' : '#D1FF4C'} color="#000">
+                              {scorecard.isHidden ? 'Hidden' : 'Visible'}
+                            </Badge>
+                            <Button size="xs" border="2px solid #000" bg="#fff" onClick={() => startEditing(scorecard)}>
+                              {scorecard.isHidden ? 'Show…' : 'Hide…'}
+                            </Button>
+                          </HStack>
+                          {scorecard.reason && <Text fontSize="xs">{scorecard.reason}</Text>}
+                          {scorecard.hiddenAt && (
+                            <Text fontSize="xs">Since {new Date(scorecard.hiddenAt).toLocaleDateString('en-US')}</Text>
+                          )}
+                        </Stack>
+                      )}
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+          {!isLoading && scorecards.length === 0 && <Text mt={4}>No MLS instances found.</Text>}
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Heading,
+  HStack,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Text,
+} from '@chakra-ui/react';
+import {
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  Tooltip as ChartTooltip,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { ListingReportReason } from '@prisma/client';
+import { ReportService } from '@/services/report.service';
+import { REPORT_REASON_LABELS } from '@/lib/report-status';
+
+// The moderation screen is rendered outside the dashboard, which registers the rest
+ChartJS.register(CategoryScale, LinearScale, BarElement, ChartTooltip, Legend);
+
+const reportService = new ReportService();
+
+const DAY_MS = 86400000;
+
+const WINDOW_OPTIONS = [30, 90, 180, 365];
+
+const REASON_COLORS: Record<ListingReportReason, string> = {
+  NO_LONGER_AVAILABLE: '#D1FF4C',
+  INCORRECT_INFORMATION: '#5CC8FF',
+  FRAUDULENT_OR_SPAM: '#FF5C5C',
+};
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '-';
+  return hours < 48 ? `${hours.toFixed(1)} hours` : `${(hours / 24).toFixed(1)} days`;
+};
+
+/**
+ * Report volume by reason, by day and by MLS, and time-to-resolution, for a
+ * trailing window of days
+ */
+export default function ReportAnalyticsPanel() {
+  const [days, setDays] = useState(90);
+  const from = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  const { data: response, isLoading, isFetching, error } = useQuery({
+    queryKey: ['reportAnalytics', days],
+    queryFn: () => reportService.fetchAnalytics({ from }),
+    placeholderData: keepPreviousData,
+  });
+  const analytics = response?.data;
+
+  return (
+    <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff">
+      <HStack justify="space-between" mb={4} wrap="wrap">
+        <HStack spacing={3}>
+          <Heading size="md" color="#000" fontWeight="extrabold">Report Analytics</Heading>
+          {isFetching && <Spinner size="sm" />}
+        </HStack>
+        <Select w="200px" border="3px solid #000" bg="#fff" value={days} onChange={e => setDays(Number(e.target.value))}>
+          {WINDOW_OPTIONS.map(option => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </Select>
+      </HStack>
+
+      {error && (
+        <Alert status="error" mb={4}>
+          <AlertIcon />
+          Error loading report analytics. Please try again later.
+        </Alert>
+      )}
+
+      {isLoading || !analytics ? (
+        !error && (
+          <Box display="flex" justifyContent="center" p={8}>
+            <Spinner size="xl" />
+          </Box>
+        )
+      ) : (
+        <Stack spacing={6}>
+          <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+            {[
+              { label: 'Reports filed', value: analytics.total.toLocaleString('en-US') },
+              { label: 'Closed', value: analytics.resolutionTime.values.reduce((sum, count) => sum + count, 0).toLocaleString('en-US') },
+              { label: 'Median time to close', value: formatHours(analytics.medianResolutionHours) },
+            ].map((metric, i) => (
+              <Box key={metric.label} bg={i % 2 === 0 ? '#D1FF4C' : '#fff'} border="3px solid #000" borderRadius="18px" p={4}>
+                <Text fontSize="sm" color="#000" fontWeight="bold">{metric.label}</Text>
+                <Text fontSize="2xl" fontWeight="extrabold" color="#000">{metric.value}</Text>
+              </Box>
+            ))}
+          </SimpleGrid>
+
+          <Box>
+            <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">Daily volume by reason</Heading>
+            <Box height="260px">
+              <Bar
+                data={{
+                  labels: analytics.volume.labels,
+                  datasets: (Object.keys(REPORT_REASON_LABELS) as ListingReportReason[])
+                    .filter(reason => analytics.volume.series[reason])
+                    .map(reason => ({
+                      label: REPORT_REASON_LABELS[reason],
+                      data: analytics.volume.series[reason]!,
+                      backgroundColor: REASON_COLORS[reason],
+                      borderColor: '#000',
+                      borderWidth: 1,
+                    })),
+                }}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: false,
+                  scales: { x: { stacked: true }, y: { stacked: true, beginAtZero: true } },
+                }}
+              />
+            </Box>
+          </Box>
+
+          <SimpleGrid columns={{ base: 1, lg: 3 }} spacing={6}>
+            <Box>
+              <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">By reason</Heading>
+              <Box height="240px">
+                <Bar
+                  data={{
+                    labels: analytics.byReason.labels.map(reason => REPORT_REASON_LABELS[reason as ListingReportReason] ?? reason),
+                    datasets: [{
+                      label: 'Reports',
+                      data: analytics.byReason.values,
+                      backgroundColor: analytics.byReason.labels.map(reason => REASON_COLORS[reason as ListingReportReason] ?? '#fff'),
+                      borderColor: '#000',
+                      borderWidth: 3,
+                    }],
+                  }}
+                  options={{ responsive: true, maintainAspectRatio: false, plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }}
+                />
+              </Box>
+            </Box>
+            <Box>
+              <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">By MLS</Heading>
+              <Box height="240px">
+                {analytics.byMls.length > 0 ? (
+                  <Bar
+                    data={{
+                      labels: analytics.byMls.map(row => row.mls),
+                      datasets: [
+                        { label: 'Open', data: analytics.byMls.map(row => row.open), backgroundColor: '#FF5C5C', borderColor: '#000', borderWidth: 2 },
+                        { label: 'Closed', data: analytics.byMls.map(row => row.total - row.open), backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 2 },
+                      ],
+                    }}
+                    options={{
+                      indexAxis: 'y',
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      scales: { x: { stacked: true, beginAtZero: true }, y: { stacked: true } },
+                    }}
+                  />
+                ) : (
+                  <Text>No reports in this window.</Text>
+                )}
+              </Box>
+            </Box>
+            <Box>
+              <Heading size="sm" mb={2} color="#000" fontWeight="extrabold">Time to resolution</Heading>
+              <Box height="240px">
+                <Bar
+                  data={{
+                    labels: analytics.resolutionTime.labels,
+                    datasets: [{ label: 'Reports', data: analytics.resolutionTime.values, backgroundColor: '#D1FF4C', borderColor: '#000', borderWidth: 3 }],
+                  }}
+                  options={{ responsive: true, maintainAspectRatio: false, plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }}
+                />
+              </Box>
+            </Box>
+          </SimpleGrid>
+        </Stack>
+      )}
+    </Box>
+  );
+}
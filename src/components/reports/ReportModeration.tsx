@@ -0,0 +1,443 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  Alert,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Heading,
+  HStack,
+  Input,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Textarea,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ListingReportReason, ReporterType } from '@prisma/client';
+import { ReportService } from '@/services/report.service';
+import {
+  CORRECTABLE_ENTITY_TYPES,
+  CORRECTION_ENTITY_MODELS,
+  parseCorrectionValue,
+  parseFieldPath,
+} from '@/lib/correction-paths';
+import {
+  canTransition,
+  REPORT_REASON_LABELS,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUS_TRANSITIONS,
+  REPORT_STATUSES,
+} from '@/lib/report-status';
+import { CorrectableEntityType } from '@/types/corrections';
+import { ModerationReport, ReportFollowUp, ReportStatus, ReportStatusChangeResult } from '@/types/reports';
+import ReportAnalyticsPanel from './ReportAnalyticsPanel';
+
+const reportService = new ReportService();
+
+const PAGE_SIZE = 50;
+
+const fieldStyle = { border: '3px solid #000', bg: '#fff' };
+
+const STATUS_COLORS: Record<ReportStatus, string> = {
+  PENDING: '#fff',
+  CONFIRMED: '#FFD84C',
+  DISMISSED: '#E2E2E2',
+  RESOLVED: '#D1FF4C',
+};
+
+/** Bulk action button label for moving to a status */
+const ACTION_LABELS: Record<ReportStatus, string> = {
+  PENDING: 'Reopen',
+  CONFIRMED: 'Confirm',
+  DISMISSED: 'Dismiss',
+  RESOLVED: 'Resolve',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-US');
+
+/**
+ * Correction follow-up for one report, prefilled with the reported listing
+ */
+function CorrectionFollowUp({
+  report,
+  adminName,
+  onSubmit,
+  isSubmitting,
+}: {
+  report: ModerationReport;
+  adminName: string;
+  onSubmit: (followUp: ReportFollowUp) => void;
+  isSubmitting: boolean;
+}) {
+  const [entityType, setEntityType] = useState<CorrectableEntityType>('LISTING_OVERRIDE');
+  const [entityId, setEntityId] = useState(report.listingId);
+  const [fieldExpression, setFieldExpression] = useState('');
+  const [valueText, setValueText] = useState('');
+  const [reason, setReason] = useState(`Listing report: ${REPORT_REASON_LABELS[report.reason]}`);
+
+  const canSubmit = Boolean(adminName.trim() && entityId.trim() && parseFieldPath(fieldExpression).length > 0 && valueText.trim());
+
+  return (
+    <Box p={3} borderRadius="12px" border="2px solid #000" bg="#F4FFD6">
+      <SimpleGrid columns={{ base: 1, md: 4 }} spacing={3}>
+        <Select {...fieldStyle} size="sm" value={entityType} onChange={e => setEntityType(e.target.value as CorrectableEntityType)}>
+          {CORRECTABLE_ENTITY_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </Select>
+        <Input
+          {...fieldStyle}
+          size="sm"
+          placeholder={`${CORRECTION_ENTITY_MODELS[entityType]} id`}
+          value={entityId}
+          onChange={e => setEntityId(e.target.value)}
+        />
+        <Input
+          {...fieldStyle}
+          size="sm"
+          placeholder="Field, e.g. price or remarks.public"
+          value={fieldExpression}
+          onChange={e => setFieldExpression(e.target.value)}
+        />
+        <Input {...fieldStyle} size="sm" placeholder="Reason" value={reason} onChange={e => setReason(e.target.value)} />
+      </SimpleGrid>
+      <HStack mt={3} align="start">
+        <Textarea
+          {...fieldStyle}
+          size="sm"
+          fontFamily="mono"
+          rows={2}
+          placeholder="Corrected value (JSON or text)"
+          value={valueText}
+          onChange={e => setValueText(e.target.value)}
+        />
+        <Button
+          size="sm"
+          border="3px solid #000"
+          bg="#000"
+          color="#fff"
+          _hover={{ bg: '#333' }}
+          isDisabled={!canSubmit}
+          isLoading={isSubmitting}
+          onClick={() => onSubmit({
+            action: 'CREATE_CORRECTION',
+            updatedBy: adminName.trim(),
+            note: reason.trim() || null,
+            correction: {
+              entityType,
+              entityId: entityId.trim(),
+              fieldPath: parseFieldPath(fieldExpression),
+              correctedValue: parseCorrectionValue(valueText),
+              reason: reason.trim() || null,
+              createdBy: adminName.trim(),
+            },
+          })}
+        >
+          Correct &amp; resolve
+        </Button>
+      </HStack>
+    </Box>
+  );
+}
+
+/**
+ * Moderation queue for listing reports: filter by status, reason and reporter,
+ * move reports through the pending → confirmed → resolved/dismissed
+ * lifecycle in bulk, and resolve a report by taking the listing off market
+ * or correcting its data. Every change is recorded in the listing's audit log.
+ */
+export default function ReportModeration() {
+  const queryClient = useQueryClient();
+  const [adminName, setAdminName] = useState('');
+  const [status, setStatus] = useState<ReportStatus | ''>('PENDING');
+  const [reason, setReason] = useState<ListingReportReason | ''>('');
+  const [reporterType, setReporterType] = useState<ReporterType | ''>('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [correcting, setCorrecting] = useState<string | null>(null);
+  const [bulkResult, setBulkResult] = useState<ReportStatusChangeResult | null>(null);
+
+  const filters = { status: status || undefined, reason: reason || undefined, reporterType: reporterType || undefined };
+  const { data, isLoading, isFetching, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['reports', filters],
+    queryFn: ({ pageParam }) => reportService.fetchReports({ ...filters, limit: PAGE_SIZE, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: lastPage => lastPage.data.nextCursor ?? undefined,
+  });
+
+  const reports = data?.pages.flatMap(page => page.data.reports) ?? [];
+  const statusCounts = data?.pages[0]?.data.statusCounts ?? null;
+  const selectedReports = reports.filter(report => selected.includes(report.id));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['reports'] });
+    queryClient.invalidateQueries({ queryKey: ['reportAnalytics'] });
+  };
+
+  const bulk = useMutation({
+    mutationFn: (next: ReportStatus) => reportService.setStatus(selected, next, adminName.trim(), note.trim() || undefined),
+    onSuccess: response => {
+      setBulkResult(response.data);
+      setSelected([]);
+      setNote('');
+      refresh();
+    },
+  });
+
+  const followUp = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: ReportFollowUp }) => reportService.followUp(id, body),
+    onSuccess: () => {
+      setCorrecting(null);
+      refresh();
+    },
+  });
+
+  const changeFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setSelected([]);
+    setBulkResult(null);
+  };
+
+  const toggle = (id: string) =>
+    setSelected(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+
+  const allSelected = reports.length > 0 && selected.length === reports.length;
+  const hasAdmin = Boolean(adminName.trim());
+  // Bulk targets every status at least one selected report can move to
+  const bulkTargets = REPORT_STATUSES.filter(target => selectedReports.some(report => canTransition(report.status, target)));
+
+  return (
+    <Box p={4}>
+      <HStack justify="space-between" mb={6} wrap="wrap">
+        <Heading color="#000" fontWeight="extrabold">Listing Reports</Heading>
+        <HStack>
+          <Input
+            {...fieldStyle}
+            w="240px"
+            placeholder="Your name (recorded on writes)"
+            value={adminName}
+            onChange={e => setAdminName(e.target.value)}
+          />
+          <Button as={Link} href="/admin/corrections" border="3px solid #000" bg="#fff">Corrections</Button>
+          <Button as={Link} href="/dashboard" border="3px solid #000" bg="#fff">Dashboard</Button>
+        </HStack>
+      </HStack>
+
+      <Stack spacing={6}>
+        <Box p={4} borderRadius="18px" border="3px solid #000" bg="#fff" overflowX="auto">
+          <HStack mb={4} spacing={3}>
+            <Heading size="md" color="#000" fontWeight="extrabold">Moderation queue</Heading>
+            {isFetching && <Spinner size="sm" />}
+          </HStack>
+
+          <HStack mb={4} wrap="wrap" spacing={2}>
+            {REPORT_STATUSES.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                border="3px solid #000"
+                bg={status === option ? '#D1FF4C' : '#fff'}
+                onClick={() => changeFilter(setStatus)(option)}
+              >
+                {REPORT_STATUS_LABELS[option]}{statusCounts ? ` (${statusCounts[option].toLocaleString('en-US')})` : ''}
+              </Button>
+            ))}
+            <Button size="sm" border="3px solid #000" bg={status === '' ? '#D1FF4C' : '#fff'} onClick={() => changeFilter(setStatus)('')}>
+              All
+            </Button>
+          </HStack>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3} mb={4}>
+            <Select {...fieldStyle} value={reason} onChange={e => changeFilter(setReason)(e.target.value as ListingReportReason | '')}>
+              <option value="">All reasons</option>
+              {(Object.keys(REPORT_REASON_LABELS) as ListingReportReason[]).map(option => (
+                <option key={option} value={option}>{REPORT_REASON_LABELS[option]}</option>
+              ))}
+            </Select>
+            <Select {...fieldStyle} value={reporterType} onChange={e => changeFilter(setReporterType)(e.target.value as ReporterType | '')}>
+              <option value="">All reporters</option>
+              <option value="CONSUMER">Consumers</option>
+              <option value="REAL_ESTATE_PROFESSIONAL">Real estate professionals</option>
+            </Select>
+          </SimpleGrid>
+
+          {selected.length > 0 && (
+            <HStack mb={4} p={3} borderRadius="12px" border="3px solid #000" bg="#D1FF4C" wrap="wrap">
+              <Text fontWeight="bold">{selected.length} selected</Text>
+              <Input {...fieldStyle} size="sm" w="260px" placeholder="Note (optional)" value={note} onChange={e => setNote(e.target.value)} />
+              {bulkTargets.map(target => (
+                <Button
+                  key={target}
+                  size="sm"
+                  border="3px solid #000"
+                  bg="#fff"
+                  isDisabled={!hasAdmin}
+                  isLoading={bulk.isPending && bulk.variables === target}
+                  onClick={() => bulk.mutate(target)}
+                >
+                  {ACTION_LABELS[target]}
+                </Button>
+              ))}
+              {!hasAdmin && <Text fontSize="sm" fontWeight="bold">Enter your name above to make changes.</Text>}
+            </HStack>
+          )}
+
+          {error && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              Error loading listing reports. Please try again later.
+            </Alert>
+          )}
+          {(bulk.error ?? followUp.error) && (
+            <Alert status="error" mb={4}>
+              <AlertIcon />
+              {(bulk.error ?? followUp.error)?.message}
+            </Alert>
+          )}
+          {bulkResult && (
+            <Alert status={bulkResult.skipped.length > 0 ? 'warning' : 'success'} mb={4}>
+              <AlertIcon />
+              <Box>
+                <Text>Updated {bulkResult.updated.length} report{bulkResult.updated.length === 1 ? '' : 's'}.</Text>
+                {bulkResult.skipped.map(skip => (
+                  <Text key={skip.id} fontSize="sm">{skip.id}: {skip.reason}</Text>
+                ))}
+              </Box>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box display="flex" justifyContent="center" p={8}>
+              <Spinner size="xl" />
+            </Box>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>
+                    <Checkbox
+                      isChecked={allSelected}
+                      isIndeterminate={selected.length > 0 && !allSelected}
+                      onChange={() => setSelected(allSelected ? [] : reports.map(report => report.id))}
+                    />
+                  </Th>
+                  <Th>Filed</Th>
+                  <Th>Listing</Th>
+                  <Th>MLS</Th>
+                  <Th>Reason</Th>
+                  <Th>Reporter</Th>
+                  <Th>Details</Th>
+                  <Th>Status</Th>
+                  <Th>Follow-up</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {reports.map(report => {
+                  const actionable = canTransition(report.status, 'RESOLVED');
+                  const pendingFollowUp = followUp.isPending && followUp.variables?.id === report.id;
+                  return (
+                    <React.Fragment key={report.id}>
+                      <Tr>
+                        <Td>
+                          <Checkbox isChecked={selected.includes(report.id)} onChange={() => toggle(report.id)} />
+                        </Td>
+                        <Td>{formatDate(report.createdAt)}</Td>
+                        <Td>
+                          <Link href={`/listings/${encodeURIComponent(report.listingId)}`}>
+                            <Text fontWeight="bold" textDecoration="underline">{report.listing.address}</Text>
+                          </Link>
+                          <Text fontSize="xs">
+                            {[report.listing.city, report.listing.state].filter(Boolean).join(', ')} · {report.listing.status}
+                          </Text>
+                        </Td>
+                        <Td>{report.listing.mls}</Td>
+                        <Td>{REPORT_REASON_LABELS[report.reason]}</Td>
+                        <Td>{report.reporterType === 'CONSUMER' ? 'Consumer' : 'Professional'}</Td>
+                        <Td maxW="280px"><Text noOfLines={3}>{report.details ?? '-'}</Text></Td>
+                        <Td>
+                          <Badge border="2px solid #000" bg={STATUS_COLORS[report.status]} color="#000">
+                            {REPORT_STATUS_LABELS[report.status]}
+                          </Badge>
+                          {!actionable && (
+                            <Text fontSize="xs" mt={1}>{formatDate(report.updatedAt)}</Text>
+                          )}
+                        </Td>
+                        <Td>
+                          {actionable ? (
+                            <HStack>
+                              <Button
+                                size="sm"
+                                border="3px solid #000"
+                                bg="#fff"
+                                isDisabled={!hasAdmin}
+                                isLoading={pendingFollowUp && followUp.variables?.body.action === 'MARK_OFF_MARKET'}
+                                onClick={() => followUp.mutate({
+                                  id: report.id,
+                                  body: { action: 'MARK_OFF_MARKET', updatedBy: adminName.trim(), note: null },
+                                })}
+                              >
+                                Off market
+                              </Button>
+                              <Button
+                                size="sm"
+                                border="3px solid #000"
+                                bg={correcting === report.id ? '#D1FF4C' : '#fff'}
+                                onClick={() => setCorrecting(correcting === report.id ? null : report.id)}
+                              >
+                                Correct
+                              </Button>
+                            </HStack>
+                          ) : (
+                            <Text fontSize="xs">
+                              {REPORT_STATUS_TRANSITIONS[report.status].map(next => ACTION_LABELS[next]).join(' / ')} via bulk actions
+                            </Text>
+                          )}
+                        </Td>
+                      </Tr>
+                      {correcting === report.id && (
+                        <Tr>
+                          <Td colSpan={9}>
+                            <CorrectionFollowUp
+                              report={report}
+                              adminName={adminName}
+                              isSubmitting={pendingFollowUp}
+                              onSubmit={body => followUp.mutate({ id: report.id, body })}
+                            />
+                          </Td>
+                        </Tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </Tbody>
+            </Table>
+          )}
+          {!isLoading && reports.length === 0 && <Text mt={4}>No reports match.</Text>}
+
+          {hasNextPage && (
+            <Box display="flex" justifyContent="center" mt={4}>
+              <Button border="3px solid #000" bg="#D1FF4C" onClick={() => fetchNextPage()} isLoading={isFetchingNextPage}>
+                Load more
+              </Button>
+            </Box>
+          )}
+        </Box>
+
+        <ReportAnalyticsPanel />
+      </Stack>
+    </Box>
+  );
+}
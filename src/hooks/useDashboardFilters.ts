@@ -0,0 +1,36 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { filtersToSearchParams, parseDashboardFilters } from '@/lib/filters';
+import { DashboardFilters } from '@/types/dashboard';
+
+/**
+ * useDashboardFilters - keeps the dashboard filter set in the URL query string
+ * so filtered views can be bookmarked and shared.
+ *
+ * Malformed parameters (e.g. a hand-edited link) fall back to no filters
+ * rather than breaking the page.
+ *
+ * @returns {[DashboardFilters, (filters: DashboardFilters) => void]} Current filters and a setter
+ */
+export function useDashboardFilters(): [DashboardFilters, (filters: DashboardFilters) => void] {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(() => {
+    try {
+      return parseDashboardFilters(new URLSearchParams(searchParams.toString()));
+    } catch {
+      return {};
+    }
+  }, [searchParams]);
+
+  const setFilters = useCallback((next: DashboardFilters) => {
+    const query = filtersToSearchParams(next).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname]);
+
+  return [filters, setFilters];
+}
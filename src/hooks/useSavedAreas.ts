@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AreaAnalytics, SavedArea, SearchArea } from '@/types/area';
+
+const STORAGE_KEY = 'roots-dashboard:saved-areas';
+
+/** Keep at most this many runs per area so localStorage does not grow unbounded */
+const MAX_HISTORY = 100;
+
+/**
+ * Read saved areas from localStorage, ignoring corrupt or missing data
+ */
+const loadAreas = (): SavedArea[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * useSavedAreas - drawn search areas persisted in the browser.
+ *
+ * Each re-run appends a history entry, which lets us watch a neighborhood's
+ * listing count and prices change over time.
+ */
+export function useSavedAreas() {
+  const [areas, setAreas] = useState<SavedArea[]>([]);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setAreas(loadAreas());
+  }, []);
+
+  const update = useCallback((updater: (prev: SavedArea[]) => SavedArea[]) => {
+    setAreas(prev => {
+      const next = updater(prev);
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const saveArea = useCallback((name: string, area: SearchArea, analytics?: AreaAnalytics): SavedArea => {
+    const saved: SavedArea = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      area,
+      createdAt: new Date().toISOString(),
+      history: analytics ? [{
+        runAt: analytics.generatedAt,
+        totalListings: analytics.totalListings,
+        averagePrice: analytics.averagePrice,
+        medianPrice: analytics.medianPrice,
+      }] : [],
+    };
+    update(prev => [...prev, saved]);
+    return saved;
+  }, [update]);
+
+  const removeArea = useCallback((id: string) => {
+    update(prev => prev.filter(area => area.id !== id));
+  }, [update]);
+
+  const recordRun = useCallback((id: string, analytics: AreaAnalytics) => {
+    update(prev => prev.map(area => area.id !== id ? area : {
+      ...area,
+      history: [...area.history, {
+        runAt: analytics.generatedAt,
+        totalListings: analytics.totalListings,
+        averagePrice: analytics.averagePrice,
+        medianPrice: analytics.medianPrice,
+      }].slice(-MAX_HISTORY),
+    }));
+  }, [update]);
+
+  return { areas, saveArea, removeArea, recordRun };
+}
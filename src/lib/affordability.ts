@@ -0,0 +1,98 @@
+import { monthlyPayment } from '@/lib/amortization';
+import {
+  AffordabilityResult,
+  AffordabilitySeed,
+  BuyerInputs,
+  MonthlyPaymentBreakdown,
+} from '@/types/affordability';
+
+/**
+ * Assumption affordability calculator.
+ *
+ * Pure and synchronous so the listing drawer can recalculate on every
+ * keystroke with the same code the API runs. Rates and DTI are percentages
+ * (6.5 means 6.5%), amounts are dollars and nothing is rounded.
+ *
+ * The buyer assumes the current balance and covers the equity gap (price
+ * minus balance) with cash first and a fully amortizing second lien for the
+ * rest. The conventional comparison puts the same cash down on a new 30-year
+ * loan at the market rate.
+ */
+
+export const DEFAULT_SECOND_LIEN_RATE = 9;
+export const DEFAULT_SECOND_LIEN_TERM_YEARS = 30;
+export const CONVENTIONAL_TERM_MONTHS = 360;
+/** Annual PMI on a conventional loan with less than 20% down, as a share of the loan */
+export const CONVENTIONAL_PMI_RATE = 0.005;
+const CONVENTIONAL_PMI_MAX_LTV = 0.8;
+
+const breakdown = (costs: Omit<MonthlyPaymentBreakdown, 'total'>): MonthlyPaymentBreakdown => ({
+  ...costs,
+  total: costs.principalAndInterest + costs.secondLien + costs.propertyTax + costs.insurance + costs.hoa + costs.pmi,
+});
+
+const debtToIncome = (housing: number, inputs: BuyerInputs): number | null =>
+  inputs.annualIncome && inputs.annualIncome > 0 ? ((housing + inputs.monthlyDebts) / (inputs.annualIncome / 12)) * 100 : null;
+
+/**
+ * Run the calculator for one listing
+ * @param {AffordabilitySeed} seed - Listing and assumable mortgage figures
+ * @param {BuyerInputs} inputs - Buyer cash, income and rate assumptions
+ * @returns {AffordabilityResult} Equity gap, financing, payments, DTI and the conventional comparison
+ */
+export function calculateAffordability(seed: AffordabilitySeed, inputs: BuyerInputs): AffordabilityResult {
+  const equityGap = Math.max(0, seed.price - seed.currentBalance);
+  const cashApplied = Math.min(Math.max(0, inputs.cash), equityGap);
+  const cashRemaining = Math.max(0, inputs.cash - cashApplied);
+  const secondLienAmount = equityGap - cashApplied;
+
+  const financed = seed.currentBalance + secondLienAmount;
+  const blendedRate = financed > 0
+    ? (seed.currentBalance * seed.interestRate + secondLienAmount * inputs.secondLienRate) / financed
+    : 0;
+
+  const monthly = breakdown({
+    principalAndInterest: seed.monthlyPayment,
+    secondLien: secondLienAmount > 0
+      ? monthlyPayment(secondLienAmount, inputs.secondLienRate, inputs.secondLienTermYears * 12)
+      : 0,
+    propertyTax: seed.monthlyPropertyTax,
+    insurance: seed.monthlyInsurance,
+    hoa: seed.monthlyHoa,
+    pmi: seed.monthlyPmi,
+  });
+
+  const downPayment = Math.min(Math.max(0, inputs.cash), seed.price);
+  const loanAmount = seed.price - downPayment;
+  const needsPmi = seed.price > 0 && loanAmount / seed.price > CONVENTIONAL_PMI_MAX_LTV;
+  const conventionalMonthly = breakdown({
+    principalAndInterest: monthlyPayment(loanAmount, inputs.marketRate, CONVENTIONAL_TERM_MONTHS),
+    secondLien: 0,
+    propertyTax: seed.monthlyPropertyTax,
+    insurance: seed.monthlyInsurance,
+    hoa: seed.monthlyHoa,
+    pmi: needsPmi ? (loanAmount * CONVENTIONAL_PMI_RATE) / 12 : 0,
+  });
+
+  const dti = debtToIncome(monthly.total, inputs);
+
+  return {
+    equityGap,
+    cashApplied,
+    cashRemaining,
+    secondLienAmount,
+    blendedRate,
+    monthly,
+    dti,
+    qualifyingDti: seed.qualifyingDti,
+    meetsQualifyingDti: dti === null || seed.qualifyingDti === null ? null : dti <= seed.qualifyingDti,
+    conventional: {
+      rate: inputs.marketRate,
+      downPayment,
+      loanAmount,
+      monthly: conventionalMonthly,
+      monthlySavings: conventionalMonthly.total - monthly.total,
+      dti: debtToIncome(conventionalMonthly.total, inputs),
+    },
+  };
+}
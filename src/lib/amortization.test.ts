@@ -0,0 +1,65 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { addMonths, monthlyPayment, monthsBetween, remainingBalance } from '@/lib/amortization';
+
+/**
+ * Golden schedules for typical FHA, VA and conventional loans. Run with
+ * UPDATE_GOLDEN=1 to rewrite the golden file after an intended change, then
+ * review the diff.
+ */
+const GOLDEN_FILE = path.join(__dirname, '__fixtures__', 'amortization.golden.json');
+
+const LOANS = [
+  { name: 'FHA 30-year, 3.5% down on $350,000', principal: 337750, annualRatePct: 6.25, termMonths: 360 },
+  { name: 'VA 30-year, no down payment', principal: 400000, annualRatePct: 2.75, termMonths: 360 },
+  { name: 'Conventional 15-year', principal: 250000, annualRatePct: 5.5, termMonths: 180 },
+  { name: 'Conventional 30-year at 0%', principal: 180000, annualRatePct: 0, termMonths: 360 },
+];
+
+const CHECKPOINTS = [0, 1, 12, 60, 120, 179, 180, 240, 359, 360];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const schedules = () => LOANS.map(({ name, principal, annualRatePct, termMonths }) => ({
+  name,
+  monthlyPayment: roundCents(monthlyPayment(principal, annualRatePct, termMonths)),
+  balances: Object.fromEntries(
+    CHECKPOINTS
+      .filter(payments => payments <= termMonths)
+      .map(payments => [payments, roundCents(remainingBalance(principal, annualRatePct, termMonths, payments))])
+  ),
+}));
+
+describe('amortization', () => {
+  test('matches the golden FHA, VA and conventional schedules', () => {
+    const actual = schedules();
+    if (process.env.UPDATE_GOLDEN) writeFileSync(GOLDEN_FILE, `${JSON.stringify(actual, null, 2)}\n`);
+    assert.deepEqual(actual, JSON.parse(readFileSync(GOLDEN_FILE, 'utf8')));
+  });
+
+  test('matches published payment tables', () => {
+    assert.equal(roundCents(monthlyPayment(300000, 6.5, 360)), 1896.2);
+    assert.equal(roundCents(monthlyPayment(200000, 3.25, 360)), 870.41);
+    assert.equal(roundCents(monthlyPayment(100000, 7, 180)), 898.83);
+  });
+
+  test('balance walks down to zero and clamps the payment count', () => {
+    assert.equal(remainingBalance(250000, 5.5, 180, 0), 250000);
+    assert.equal(roundCents(remainingBalance(250000, 5.5, 180, 180)), 0);
+    assert.equal(remainingBalance(250000, 5.5, 180, 500), remainingBalance(250000, 5.5, 180, 180));
+    assert.equal(remainingBalance(250000, 5.5, 180, -3), 250000);
+  });
+
+  test('a zero term has no payment', () => {
+    assert.equal(monthlyPayment(100000, 5, 0), 0);
+  });
+
+  test('counts whole calendar months', () => {
+    assert.equal(monthsBetween(new Date('2020-01-31T00:00:00Z'), new Date('2020-02-29T00:00:00Z')), 0);
+    assert.equal(monthsBetween(new Date('2020-01-15T00:00:00Z'), new Date('2021-01-15T00:00:00Z')), 12);
+    assert.equal(monthsBetween(new Date('2021-01-15T00:00:00Z'), new Date('2020-01-15T00:00:00Z')), 0);
+    assert.equal(addMonths(new Date('2020-01-15T00:00:00Z'), 360).toISOString(), '2050-01-15T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Fixed-rate amortization helpers.
+ *
+ * Rates are annual percentages (6.5 means 6.5%), terms are in months and all
+ * amounts are in dollars. Results are not rounded; round at the edges.
+ */
+
+/**
+ * Monthly principal and interest payment for a fully amortizing loan
+ * @param {number} principal - Original loan amount
+ * @param {number} annualRatePct - Annual interest rate in percent
+ * @param {number} termMonths - Number of monthly payments
+ * @returns {number} Monthly P&I payment
+ */
+export function monthlyPayment(principal: number, annualRatePct: number, termMonths: number): number {
+  if (termMonths <= 0) return 0;
+  const r = annualRatePct / 100 / 12;
+  if (r === 0) return principal / termMonths;
+  return (principal * r) / (1 - Math.pow(1 + r, -termMonths));
+}
+
+/**
+ * Outstanding balance after a number of scheduled payments
+ * @param {number} principal - Original loan amount
+ * @param {number} annualRatePct - Annual interest rate in percent
+ * @param {number} termMonths - Number of monthly payments
+ * @param {number} paymentsMade - Payments already made (clamped to [0, termMonths])
+ * @returns {number} Remaining principal, never below zero
+ */
+export function remainingBalance(principal: number, annualRatePct: number, termMonths: number, paymentsMade: number): number {
+  const k = Math.min(Math.max(0, paymentsMade), termMonths);
+  const r = annualRatePct / 100 / 12;
+  if (r === 0) return Math.max(0, principal - (principal / termMonths) * k);
+
+  const payment = monthlyPayment(principal, annualRatePct, termMonths);
+  const growth = Math.pow(1 + r, k);
+  return Math.max(0, principal * growth - payment * ((growth - 1) / r));
+}
+
+/**
+ * Whole calendar months from `start` to `end` (0 if end is before start)
+ * @param {Date} start - Start date
+ * @param {Date} end - End date
+ * @returns {number} Elapsed months
+ */
+export function monthsBetween(start: Date, end: Date): number {
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth());
+  if (end.getUTCDate() < start.getUTCDate()) months--;
+  return Math.max(0, months);
+}
+
+/**
+ * Add calendar months to a date in UTC
+ * @param {Date} date - Start date
+ * @param {number} months - Months to add
+ * @returns {Date} New date
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
@@ -0,0 +1,191 @@
+import { ListingStatus, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { DAYS_ON_MARKET_RANGES, PRICE_RANGES } from '@/lib/buckets';
+import { daysOnMarketSql } from '@/lib/days-on-market';
+import { buildListingSql, DEFAULT_STATUSES, FilterValidationError } from '@/lib/filters';
+import { AreaAnalytics, LngLat, SearchArea } from '@/types/area';
+
+/** Largest polygon we accept, keeps the WKT and the spatial predicate cheap */
+export const MAX_POLYGON_VERTICES = 500;
+
+/** Largest search radius in meters (~31 miles) */
+export const MAX_RADIUS_METERS = 50000;
+
+/**
+ * Validate a [longitude, latitude] pair
+ * @param {unknown} value - Candidate coordinate
+ * @param {string} field - Field name for error messages
+ * @returns {LngLat} The validated coordinate
+ */
+const parseLngLat = (value: unknown, field: string): LngLat => {
+  if (
+    !Array.isArray(value) || value.length !== 2 ||
+    typeof value[0] !== 'number' || typeof value[1] !== 'number' ||
+    Math.abs(value[0]) > 180 || Math.abs(value[1]) > 90
+  ) {
+    throw new FilterValidationError(field, `${field} must be a [longitude, latitude] pair`);
+  }
+  return [value[0], value[1]];
+};
+
+/**
+ * Validate a search area from an untrusted request body
+ * @param {unknown} value - Request body `area` field
+ * @returns {SearchArea} Validated polygon or radius area
+ * @throws {FilterValidationError} If the shape is malformed
+ */
+export function parseSearchArea(value: unknown): SearchArea {
+  const area = value as Partial<SearchArea> | null;
+
+  if (area?.type === 'radius') {
+    const radiusMeters = (area as { radiusMeters?: unknown }).radiusMeters;
+    if (typeof radiusMeters !== 'number' || radiusMeters <= 0 || radiusMeters > MAX_RADIUS_METERS) {
+      throw new FilterValidationError('area.radiusMeters', `radiusMeters must be between 0 and ${MAX_RADIUS_METERS}`);
+    }
+    return { type: 'radius', center: parseLngLat(area.center, 'area.center'), radiusMeters };
+  }
+
+  if (area?.type === 'polygon') {
+    if (!Array.isArray(area.coordinates)) {
+      throw new FilterValidationError('area.coordinates', 'coordinates must be an array of [longitude, latitude] pairs');
+    }
+    const coordinates = area.coordinates.map((point, i) => parseLngLat(point, `area.coordinates[${i}]`));
+
+    // Close the ring if the client did not repeat the first vertex
+    const [first] = coordinates;
+    const last = coordinates[coordinates.length - 1];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+      coordinates.push(first);
+    }
+
+    if (coordinates.length < 4) {
+      throw new FilterValidationError('area.coordinates', 'A polygon needs at least 3 distinct vertices');
+    }
+    if (coordinates.length > MAX_POLYGON_VERTICES + 1) {
+      throw new FilterValidationError('area.coordinates', `A polygon can have at most ${MAX_POLYGON_VERTICES} vertices`);
+    }
+    return { type: 'polygon', coordinates };
+  }
+
+  throw new FilterValidationError('area.type', 'area.type must be "polygon" or "radius"');
+}
+
+/**
+ * Build the spatial predicate against `ListingLocation.location` (a geography column).
+ *
+ * Polygon: the `&&` bounding box test is answered by the GiST index on the
+ * geography column, then ST_Within does the exact check on the narrowed rows.
+ * Radius: ST_DWithin on geography measures in meters and uses the index directly.
+ *
+ * @param {SearchArea} area - Validated search area
+ * @returns {Prisma.Sql} SQL condition referencing the `ll` alias
+ */
+const buildSpatialCondition = (area: SearchArea): Prisma.Sql => {
+  if (area.type === 'radius') {
+    const [lng, lat] = area.center;
+    return Prisma.sql`ST_DWithin(ll.location, ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography, ${area.radiusMeters})`;
+  }
+
+  const wkt = `POLYGON((${area.coordinates.map(([lng, lat]) => `${lng} ${lat}`).join(', ')}))`;
+  return Prisma.sql`
+    ll.location && ST_GeogFromText(${wkt})
+    AND ST_Within(ll.location::geometry, ST_GeomFromText(${wkt}, 4326))
+  `;
+};
+
+/**
+ * Compute dashboard-style metrics for listings inside a drawn area.
+ *
+ * Everything is aggregated in Postgres over a shared CTE so only a handful of
+ * rows come back regardless of how many listings the area contains. Listings
+ * are scoped with `buildListingSql`, so hidden MLS instances are left out as on
+ * the rest of the dashboard, and days on market follow the lib/days-on-market
+ * rules through `daysOnMarketSql`.
+ *
+ * @param {SearchArea} area - Validated search area
+ * @param {ListingStatus[]} [statuses] - Statuses to include, defaults to ACTIVE
+ * @returns {Promise<AreaAnalytics>} Aggregated metrics for the area
+ */
+export async function computeAreaAnalytics(area: SearchArea, statuses: ListingStatus[] = DEFAULT_STATUSES): Promise<AreaAnalytics> {
+  const now = new Date();
+  const daysOnMarket = daysOnMarketSql(Prisma.sql`
+    FROM "Listing" l
+    JOIN "ListingLocation" ll ON ll."listingId" = l.id
+    WHERE ${buildSpatialCondition(area)}
+      AND ${buildListingSql({ status: statuses })}
+  `, { asOf: now });
+
+  const areaListings = Prisma.sql`
+    WITH area_listings AS (
+      SELECT
+        l.price,
+        l."denormalizedAssumableLoanType"::text AS "loanType",
+        dom.days AS "daysOnMarket"
+      FROM (${daysOnMarket}) dom
+      JOIN "Listing" l ON l.id = dom."listingId"
+    )
+  `;
+
+  const priceBuckets = Prisma.join(PRICE_RANGES.map(range => range.max === null
+    ? Prisma.sql`COUNT(*) FILTER (WHERE price >= ${range.min})::int`
+    : Prisma.sql`COUNT(*) FILTER (WHERE price >= ${range.min} AND price < ${range.max})::int`
+  ));
+
+  // Each DOM bucket runs from the previous bucket's maxDays (exclusive) to its own (inclusive)
+  const domBuckets = Prisma.join(DAYS_ON_MARKET_RANGES.map((range, i) => {
+    const previousMax = i === 0 ? -1 : DAYS_ON_MARKET_RANGES[i - 1].maxDays ?? -1;
+    return range.maxDays === null
+      ? Prisma.sql`COUNT(*) FILTER (WHERE "daysOnMarket" > ${previousMax})::int`
+      : Prisma.sql`COUNT(*) FILTER (WHERE "daysOnMarket" > ${previousMax} AND "daysOnMarket" <= ${range.maxDays})::int`;
+  }));
+
+  const [summary, priceCounts, domCounts, loanMix] = await Promise.all([
+    prisma.$queryRaw<Array<{ total: number; average: number | null; median: number | null; assumable: number }>>`
+      ${areaListings}
+      SELECT
+        COUNT(*)::int AS total,
+        AVG(price)::float AS average,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY price)::float AS median,
+        COUNT("loanType")::int AS assumable
+      FROM area_listings
+    `,
+    prisma.$queryRaw<Array<{ counts: number[] }>>`
+      ${areaListings}
+      SELECT ARRAY[${priceBuckets}] AS counts FROM area_listings
+    `,
+    prisma.$queryRaw<Array<{ counts: number[] }>>`
+      ${areaListings}
+      SELECT ARRAY[${domBuckets}] AS counts FROM area_listings
+    `,
+    prisma.$queryRaw<Array<{ loanType: string; count: number }>>`
+      ${areaListings}
+      SELECT "loanType", COUNT(*)::int AS count
+      FROM area_listings
+      WHERE "loanType" IS NOT NULL
+      GROUP BY "loanType"
+      ORDER BY count DESC
+    `
+  ]);
+
+  const { total, average, median, assumable } = summary[0];
+
+  return {
+    totalListings: total,
+    averagePrice: average ?? 0,
+    medianPrice: median ?? 0,
+    assumableShare: total > 0 ? assumable / total : 0,
+    priceDistribution: {
+      labels: PRICE_RANGES.map(r => r.label),
+      values: priceCounts[0]?.counts ?? PRICE_RANGES.map(() => 0)
+    },
+    assumableListings: {
+      labels: loanMix.map(row => row.loanType),
+      values: loanMix.map(row => row.count)
+    },
+    daysOnMarket: {
+      labels: DAYS_ON_MARKET_RANGES.map(r => r.label),
+      values: domCounts[0]?.counts ?? DAYS_ON_MARKET_RANGES.map(() => 0)
+    },
+    generatedAt: now.toISOString()
+  };
+}
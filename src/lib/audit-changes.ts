@@ -0,0 +1,85 @@
+import type { Prisma } from '@prisma/client';
+import { AuditFieldChange } from '@/types/audits';
+
+/**
+ * Key pairs writers have used for before/after values in `ListingAudit.changes`.
+ * The admin tools in this repo write `{from, to}`; feed sync jobs have used the others.
+ */
+const VALUE_PAIRS: Array<[string, string]> = [
+  ['from', 'to'],
+  ['old', 'new'],
+  ['before', 'after'],
+  ['oldValue', 'newValue'],
+  ['previous', 'current'],
+];
+
+/** Keys naming the field in list-shaped `changes` entries */
+const FIELD_KEYS = ['field', 'name', 'path'];
+
+const isObject = (value: unknown): value is Prisma.JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Read one field's recorded value, which is either a before/after pair or the
+ * new value on its own
+ */
+function fieldChange(field: string, value: Prisma.JsonValue): AuditFieldChange {
+  if (isObject(value)) {
+    const keys = Object.keys(value);
+    const pair = VALUE_PAIRS.find(([before, after]) => keys.includes(after) && keys.every(key => key === before || key === after));
+    if (pair) {
+      const [before, after] = pair;
+      return keys.includes(before)
+        ? { field, kind: 'changed', before: value[before] ?? null, after: value[after] ?? null }
+        : { field, kind: 'set', before: null, after: value[after] ?? null };
+    }
+  }
+  return { field, kind: 'set', before: null, after: value };
+}
+
+/**
+ * Normalize `ListingAudit.changes` into one entry per field. Handles objects
+ * keyed by field (with before/after pairs or bare new values), lists of field
+ * names, and lists of `{field, from, to}` style entries.
+ * @param {Prisma.JsonValue} changes - Raw changes JSON
+ * @returns {AuditFieldChange[]} Field changes in stored order
+ */
+export function auditFieldChanges(changes: Prisma.JsonValue): AuditFieldChange[] {
+  if (Array.isArray(changes)) {
+    return changes.flatMap((item): AuditFieldChange[] => {
+      if (typeof item === 'string') return [{ field: item, kind: 'touched', before: null, after: null }];
+      if (!isObject(item)) return [];
+      const fieldKey = FIELD_KEYS.find(key => typeof item[key] === 'string');
+      if (!fieldKey) return [];
+      const { [fieldKey]: field, ...rest } = item;
+      return [fieldChange(field as string, rest)];
+    });
+  }
+  if (isObject(changes)) {
+    return Object.entries(changes).map(([field, value]) => fieldChange(field, value ?? null));
+  }
+  return [];
+}
+
+/**
+ * Expand a change between two objects into one row per differing nested key,
+ * so a changed JSON column shows which keys moved. Other values (including
+ * arrays) are compared whole.
+ * @param {AuditFieldChange} change - Normalized field change
+ * @returns {AuditFieldChange[]} Leaf-level changes; the input itself when it cannot be expanded
+ */
+export function nestedFieldChanges(change: AuditFieldChange): AuditFieldChange[] {
+  if (change.kind !== 'changed' || !isObject(change.before) || !isObject(change.after)) return [change];
+
+  const before = change.before;
+  const after = change.after;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .filter(key => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null))
+    .flatMap(key => nestedFieldChanges({
+      field: `${change.field}.${key}`,
+      kind: 'changed',
+      before: before[key] ?? null,
+      after: after[key] ?? null,
+    }));
+}
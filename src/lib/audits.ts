@@ -0,0 +1,181 @@
+import { AuditSource, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildDateRange, FilterValidationError, parseDate, parseDateWindow, parseEnumList } from '@/lib/filters';
+import { auditFieldChanges } from '@/lib/audit-changes';
+import { AuditFeedEntry, AuditFeedPage, AuditFeedQuery, AuditVolume } from '@/types/audits';
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+export const DEFAULT_VOLUME_DAYS = 30;
+export const MAX_VOLUME_DAYS = 180;
+/** Windows up to this many days are bucketed by hour */
+const HOURLY_MAX_DAYS = 2;
+const TOP_ACTIONS = 25;
+
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+
+/**
+ * Parse the activity feed filters
+ * @param {URLSearchParams} params - Query parameters (`source` and `action` as comma lists,
+ *   `listingId`, `sourceName`, `field`, `from`, `to`, `cursor`, `limit`)
+ * @returns {AuditFeedQuery} Validated query
+ * @throws {FilterValidationError} If a parameter is invalid
+ */
+export function parseAuditFeedQuery(params: URLSearchParams): AuditFeedQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+  const query: AuditFeedQuery = { limit: DEFAULT_AUDIT_PAGE_SIZE };
+
+  const source = get('source');
+  if (source) query.source = parseEnumList('source', source, AuditSource);
+
+  const action = get('action');
+  if (action) query.action = Array.from(new Set(action.split(',').map(value => value.trim()).filter(Boolean)));
+
+  for (const key of ['listingId', 'sourceName', 'field', 'cursor'] as const) {
+    const value = get(key);
+    if (value) query[key] = value;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = get(key);
+    if (value) query[key] = parseDate(key, value);
+  }
+  if (query.from && query.to && query.from > query.to) {
+    throw new FilterValidationError('from', 'from must be on or before to');
+  }
+
+  const limit = Number(get('limit') ?? DEFAULT_AUDIT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+    throw new FilterValidationError('limit', `limit must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}`);
+  }
+  query.limit = limit;
+
+  return query;
+}
+
+/**
+ * One page of the activity feed, newest entries first
+ * @param {AuditFeedQuery} query - Validated filters and paging
+ * @returns {Promise<AuditFeedPage>} Entries with normalized field changes and the next cursor
+ */
+export async function listAuditFeed(query: AuditFeedQuery): Promise<AuditFeedPage> {
+  const where: Prisma.ListingAuditWhereInput = {
+    source: query.source ? { in: query.source } : undefined,
+    action: query.action ? { in: query.action } : undefined,
+    listingId: query.listingId,
+    sourceName: query.sourceName ? { contains: query.sourceName, mode: 'insensitive' } : undefined,
+    createdAt: buildDateRange(query.from, query.to),
+  };
+  if (query.field) {
+    // `changes` is either keyed by field or a list of field names
+    where.OR = [
+      { changes: { path: [query.field], not: Prisma.AnyNull } },
+      { changes: { array_contains: [query.field] } },
+    ];
+  }
+
+  const rows = await prisma.listingAudit.findMany({
+    where,
+    include: { Listing: { select: { address: true, city: true, state: true } } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    cursor: query.cursor ? { id: query.cursor } : undefined,
+    skip: query.cursor ? 1 : 0,
+    take: query.limit + 1,
+  });
+
+  const page = rows.slice(0, query.limit);
+  return {
+    entries: page.map((audit): AuditFeedEntry => ({
+      id: audit.id,
+      listingId: audit.listingId,
+      listing: audit.Listing,
+      action: audit.action,
+      source: audit.source,
+      sourceId: audit.sourceId,
+      sourceName: audit.sourceName,
+      createdAt: audit.createdAt.toISOString(),
+      changes: auditFieldChanges(audit.changes),
+      rawChanges: audit.changes,
+      metadata: audit.metadata,
+    })),
+    nextCursor: rows.length > query.limit ? page[page.length - 1].id : null,
+  };
+}
+
+/**
+ * Parse the volume window, defaulting to the last 30 days
+ * @param {URLSearchParams} params - Query parameters (`from`, `to`)
+ * @returns {{from: string, to: string}} Validated window
+ * @throws {FilterValidationError} If a date is malformed or the window is too long
+ */
+export const parseAuditVolumeWindow = (params: URLSearchParams) =>
+  parseDateWindow(params, { defaultDays: DEFAULT_VOLUME_DAYS, maxDays: MAX_VOLUME_DAYS });
+
+/**
+ * Audit volume per source over the window, the latest entry per source and
+ * the most frequent actions. Hourly buckets for short windows make a stalled
+ * sync visible within the day; labels cover every bucket so gaps show as zeros.
+ * @param {{from: string, to: string}} window - Inclusive day window
+ * @returns {Promise<AuditVolume>} Volume series
+ */
+export async function computeAuditVolume(window: { from: string; to: string }): Promise<AuditVolume> {
+  const createdAt = buildDateRange(window.from, window.to)!;
+  const days = (Date.parse(window.to) - Date.parse(window.from)) / DAY_MS + 1;
+  const interval = days <= HOURLY_MAX_DAYS ? 'hour' : 'day';
+  const step = interval === 'hour' ? HOUR_MS : DAY_MS;
+  const format = interval === 'hour' ? 'YYYY-MM-DD"T"HH24:00' : 'YYYY-MM-DD';
+  const label = (time: number) => (interval === 'hour' ? `${new Date(time).toISOString().slice(0, 13)}:00` : new Date(time).toISOString().slice(0, 10));
+
+  const labels: string[] = [];
+  const end = Date.parse(window.to) + DAY_MS;
+  for (let t = Date.parse(window.from); t < end; t += step) {
+    labels.push(label(t));
+  }
+
+  const [volumeRows, lastSeenRows, actionRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ bucket: string; source: AuditSource; count: number }>>`
+      SELECT
+        to_char(date_trunc(${interval}, a."createdAt"), ${format}) AS bucket,
+        a.source::text AS source,
+        COUNT(*)::int AS count
+      FROM "ListingAudit" a
+      WHERE a."createdAt" >= ${createdAt.gte} AND a."createdAt" < ${createdAt.lt}
+      GROUP BY 1, 2
+    `,
+    prisma.listingAudit.groupBy({ by: ['source'], _max: { createdAt: true } }),
+    prisma.listingAudit.groupBy({
+      by: ['action'],
+      where: { createdAt },
+      _count: { _all: true },
+      orderBy: { _count: { action: 'desc' } },
+      take: TOP_ACTIONS,
+    }),
+  ]);
+
+  const index = new Map(labels.map((bucket, i) => [bucket, i]));
+  const series: AuditVolume['series'] = {};
+  const totals: AuditVolume['totals'] = {};
+  volumeRows.forEach(({ bucket, source, count }) => {
+    const i = index.get(bucket);
+    if (i === undefined) return;
+    (series[source] ??= labels.map(() => 0))[i] += count;
+    totals[source] = (totals[source] ?? 0) + count;
+  });
+
+  const lastSeen: AuditVolume['lastSeen'] = {};
+  lastSeenRows.forEach(row => {
+    if (row._max.createdAt) lastSeen[row.source] = row._max.createdAt.toISOString();
+  });
+
+  return {
+    from: window.from,
+    to: window.to,
+    interval,
+    labels,
+    series,
+    totals,
+    lastSeen,
+    actions: actionRows.map(row => ({ action: row.action, count: row._count._all })),
+  };
+}
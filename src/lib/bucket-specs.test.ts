@@ -0,0 +1,43 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatBucketSpec, parseBucketSpec, parseBucketSpecs } from '@/lib/bucket-specs';
+import { FilterValidationError } from '@/lib/filters';
+
+describe('parseBucketSpec', () => {
+  test('accepts presets, boundaries and automatic edges', () => {
+    assert.deepEqual(parseBucketSpec('price', 'default'), { kind: 'preset', preset: 'default' });
+    assert.deepEqual(parseBucketSpec('price', '500000,1000000'), { kind: 'edges', edges: [500000, 1000000] });
+    assert.deepEqual(parseBucketSpec('daysOnMarket', 'auto:quantile:4'), { kind: 'auto', method: 'quantile', buckets: 4 });
+  });
+
+  test('round-trips through formatBucketSpec', () => {
+    for (const raw of ['default', '7,14,45', 'auto:fd:8']) {
+      assert.equal(formatBucketSpec(parseBucketSpec('daysOnMarket', raw)), raw);
+    }
+  });
+
+  test('rejects keys inherited from Object.prototype as preset names', () => {
+    for (const raw of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      assert.throws(() => parseBucketSpec('price', raw), FilterValidationError, raw);
+    }
+  });
+
+  test('rejects unknown presets and malformed boundaries', () => {
+    assert.throws(() => parseBucketSpec('price', 'luxury'), FilterValidationError);
+    assert.throws(() => parseBucketSpec('price', '1000,500'), FilterValidationError);
+    assert.throws(() => parseBucketSpec('price', 'auto:median'), FilterValidationError);
+  });
+});
+
+describe('parseBucketSpecs', () => {
+  test('rejects an inherited key in any chart parameter', () => {
+    assert.throws(() => parseBucketSpecs(new URLSearchParams('priceBuckets=constructor')), FilterValidationError);
+    assert.throws(() => parseBucketSpecs(new URLSearchParams('interestRateBuckets=__proto__')), FilterValidationError);
+  });
+
+  test('omits charts left on the default preset', () => {
+    assert.deepEqual(parseBucketSpecs(new URLSearchParams('priceBuckets=default&balanceBuckets=100000,200000')), {
+      balance: { kind: 'edges', edges: [100000, 200000] },
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import {
+  DAYS_ON_MARKET_RANGES,
+  INTEREST_RATE_RANGES,
+  MORTGAGE_AGE_RANGES,
+  MORTGAGE_BALANCE_RANGES,
+  PRICE_RANGES,
+} from '@/lib/buckets';
+import { FilterValidationError, isOwnKey } from '@/lib/filters';
+import {
+  AutoBucketMethod,
+  BucketChart,
+  BucketScheme,
+  BucketSpec,
+  BucketSpecs,
+  BucketValueStats,
+} from '@/types/buckets';
+import { ChartData } from '@/types/dashboard';
+
+/**
+ * Configurable histogram buckets for the dashboard distribution charts.
+ *
+ * Each chart accepts a `<chart>Buckets` query parameter holding one of:
+ * - a preset name, e.g. `priceBuckets=highCost`
+ * - ascending boundaries, e.g. `priceBuckets=500000,1000000,2000000`
+ * - `auto:quantile[:n]` or `auto:fd[:max]` for edges computed from the data
+ *
+ * The `default` preset of every chart is the bucket set the dashboard has
+ * always used, with the same labels.
+ */
+
+export const DEFAULT_BUCKET_PRESET = 'default';
+export const DEFAULT_AUTO_BUCKETS = 5;
+export const MAX_BUCKETS = 20;
+
+const formatAmount = (value: number) => {
+  if (value >= 1000000) return `${Number((value / 1000000).toFixed(2))}M`;
+  if (value >= 1000) return `${Number((value / 1000).toFixed(1))}k`;
+  return String(Number(value.toFixed(2)));
+};
+
+const formatPlain = (value: number) => String(Number(value.toFixed(2)));
+
+interface BucketPreset {
+  label: string;
+  boundaries: number[];
+  /** Fixed labels; generated from the boundaries when omitted */
+  labels?: string[];
+}
+
+interface ChartBucketConfig {
+  closed: 'left' | 'right';
+  label: (lower: number, upper: number | null) => string;
+  presets: Record<string, BucketPreset>;
+}
+
+export const BUCKET_CHARTS: BucketChart[] = ['price', 'balance', 'interestRate', 'mortgageAge', 'daysOnMarket', 'downPayment'];
+
+const CHART_CONFIGS: Record<BucketChart, ChartBucketConfig> = {
+  price: {
+    closed: 'left',
+    label: (lower, upper) => (upper === null ? `${formatAmount(lower)}+` : `${formatAmount(lower)}-${formatAmount(upper)}`),
+    presets: {
+      default: {
+        label: 'Standard',
+        boundaries: PRICE_RANGES.slice(1).map(range => range.min),
+        labels: PRICE_RANGES.map(range => range.label),
+      },
+      lowCost: { label: 'Low-cost market', boundaries: [100000, 200000, 300000, 400000, 500000] },
+      highCost: { label: 'High-cost market', boundaries: [500000, 1000000, 1500000, 2000000, 3000000] },
+    },
+  },
+  balance: {
+    closed: 'right',
+    label: (lower, upper) => (upper === null ? `${formatAmount(lower)}+` : `${formatAmount(lower)}-${formatAmount(upper)}`),
+    presets: {
+      default: {
+        label: 'Standard',
+        boundaries: MORTGAGE_BALANCE_RANGES.flatMap(range => (range.max === null ? [] : [range.max])),
+        labels: MORTGAGE_BALANCE_RANGES.map(range => range.label),
+      },
+      highCost: { label: 'High-cost market', boundaries: [250000, 500000, 750000, 1000000] },
+    },
+  },
+  interestRate: {
+    closed: 'right',
+    label: (lower, upper) => (upper === null ? `${formatPlain(lower)}%+` : `${formatPlain(lower)}-${formatPlain(upper)}%`),
+    presets: {
+      default: {
+        label: 'Standard',
+        boundaries: INTEREST_RATE_RANGES.flatMap(range => (range.max === null ? [] : [range.max])),
+        labels: INTEREST_RATE_RANGES.map(range => range.label),
+      },
+      fine: { label: 'Half points', boundaries: [2, 2.5, 3, 3.5, 4, 4.5, 5, 5.5, 6, 6.5, 7] },
+    },
+  },
+  mortgageAge: {
+    closed: 'right',
+    label: (lower, upper) => (upper === null ? `${formatPlain(lower)}+ years` : `${formatPlain(lower)}-${formatPlain(upper)} years`),
+    presets: {
+      default: {
+        label: 'Standard',
+        boundaries: MORTGAGE_AGE_RANGES.flatMap(range => (range.max === null ? [] : [range.max])),
+        labels: MORTGAGE_AGE_RANGES.map(range => range.label),
+      },
+      recent: { label: 'Recent originations', boundaries: [1, 2, 3, 5, 10] },
+    },
+  },
+  daysOnMarket: {
+    closed: 'right',
+    label: (lower, upper) => (upper === null ? `${formatPlain(lower)}+ days` : `${formatPlain(lower)}-${formatPlain(upper)} days`),
+    presets: {
+      default: {
+        label: 'Standard',
+        boundaries: DAYS_ON_MARKET_RANGES.flatMap(range => (range.maxDays === null ? [] : [range.maxDays])),
+        labels: DAYS_ON_MARKET_RANGES.map(range => range.label),
+      },
+      fast: { label: 'Fast market', boundaries: [7, 14, 30, 60] },
+      slow: { label: 'Slow market', boundaries: [30, 90, 180, 365] },
+    },
+  },
+  downPayment: {
+    closed: 'right',
+    label: (lower, upper) => (upper === null ? `${formatAmount(lower)}+` : `${formatAmount(lower)}-${formatAmount(upper)}`),
+    presets: {
+      default: { label: 'Standard', boundaries: [25000, 50000, 100000, 150000, 250000] },
+      highCost: { label: 'High-cost market', boundaries: [100000, 250000, 500000, 750000, 1000000] },
+    },
+  },
+};
+
+/**
+ * Presets available for a chart, for the UI
+ * @param {BucketChart} chart - Chart name
+ * @returns {Array<{name: string, label: string}>} Preset names and display labels
+ */
+export const bucketPresets = (chart: BucketChart): Array<{ name: string; label: string }> =>
+  Object.entries(CHART_CONFIGS[chart].presets).map(([name, preset]) => ({ name, label: preset.label }));
+
+/** Query parameter carrying the spec of a chart */
+export const bucketParam = (chart: BucketChart) => `${chart}Buckets`;
+
+/**
+ * Parse one bucket spec
+ * @param {BucketChart} chart - Chart the spec applies to
+ * @param {string} raw - Preset name, comma-separated boundaries or `auto:<method>[:n]`
+ * @returns {BucketSpec} Parsed spec
+ * @throws {FilterValidationError} If the spec is malformed or names an unknown preset
+ */
+export function parseBucketSpec(chart: BucketChart, raw: string): BucketSpec {
+  const param = bucketParam(chart);
+
+  if (raw.startsWith('auto:')) {
+    const [, method, count] = raw.split(':');
+    if (method !== 'quantile' && method !== 'fd') {
+      throw new FilterValidationError(param, `${param} auto method must be quantile or fd`);
+    }
+    const buckets = count === undefined ? DEFAULT_AUTO_BUCKETS : Number(count);
+    if (!Number.isInteger(buckets) || buckets < 2 || buckets > MAX_BUCKETS) {
+      throw new FilterValidationError(param, `${param} bucket count must be between 2 and ${MAX_BUCKETS}`);
+    }
+    return { kind: 'auto', method: method as AutoBucketMethod, buckets };
+  }
+
+  if (/^[\d.,\s]+$/.test(raw)) {
+    const edges = raw.split(',').map(value => Number(value.trim()));
+    if (edges.some(edge => !Number.isFinite(edge) || edge <= 0)) {
+      throw new FilterValidationError(param, `${param} boundaries must be positive numbers`);
+    }
+    if (edges.some((edge, i) => i > 0 && edge <= edges[i - 1])) {
+      throw new FilterValidationError(param, `${param} boundaries must be strictly increasing`);
+    }
+    if (edges.length >= MAX_BUCKETS) {
+      throw new FilterValidationError(param, `${param} can define at most ${MAX_BUCKETS} buckets`);
+    }
+    return { kind: 'edges', edges };
+  }
+
+  if (!isOwnKey(raw, CHART_CONFIGS[chart].presets)) {
+    const names = Object.keys(CHART_CONFIGS[chart].presets).join(', ');
+    throw new FilterValidationError(param, `${param} must be one of ${names}, boundaries or auto:quantile / auto:fd`);
+  }
+  return { kind: 'preset', preset: raw };
+}
+
+/**
+ * Parse every `<chart>Buckets` parameter; charts without one use the default preset
+ * @param {URLSearchParams} params - Query parameters
+ * @returns {BucketSpecs} Specs per chart
+ * @throws {FilterValidationError} If any spec is malformed
+ */
+export function parseBucketSpecs(params: URLSearchParams): BucketSpecs {
+  const specs: BucketSpecs = {};
+  BUCKET_CHARTS.forEach(chart => {
+    const raw = params.get(bucketParam(chart))?.trim();
+    if (raw && raw !== DEFAULT_BUCKET_PRESET) specs[chart] = parseBucketSpec(chart, raw);
+  });
+  return specs;
+}
+
+/**
+ * Serialize a spec back to its query parameter value
+ * @param {BucketSpec} spec - Bucket spec
+ * @returns {string} Parameter value accepted by `parseBucketSpec`
+ */
+export function formatBucketSpec(spec: BucketSpec): string {
+  if (spec.kind === 'preset') return spec.preset;
+  if (spec.kind === 'edges') return spec.edges.join(',');
+  return `auto:${spec.method}:${spec.buckets}`;
+}
+
+/**
+ * Serialize specs into query parameters, omitting defaults
+ * @param {BucketSpecs} specs - Specs per chart
+ * @returns {URLSearchParams} `<chart>Buckets` parameters
+ */
+export function bucketSpecsToSearchParams(specs: BucketSpecs): URLSearchParams {
+  const params = new URLSearchParams();
+  BUCKET_CHARTS.forEach(chart => {
+    const spec = specs[chart];
+    if (spec && !(spec.kind === 'preset' && spec.preset === DEFAULT_BUCKET_PRESET)) {
+      params.set(bucketParam(chart), formatBucketSpec(spec));
+    }
+  });
+  return params;
+}
+
+/**
+ * Quantile fractions `autoBoundaries` needs for a spec
+ * @param {Extract<BucketSpec, {kind: 'auto'}>} spec - Automatic spec
+ * @returns {number[]} Fractions between 0 and 1
+ */
+export function autoFractions(spec: Extract<BucketSpec, { kind: 'auto' }>): number[] {
+  if (spec.method === 'fd') return [0.25, 0.75];
+  return Array.from({ length: spec.buckets - 1 }, (_, i) => (i + 1) / spec.buckets);
+}
+
+/** Round to two significant digits so generated labels stay readable */
+const roundEdge = (value: number) => Number(value.toPrecision(2));
+
+/**
+ * Compute boundaries from value statistics. Edges are rounded to two
+ * significant digits and collapsed when rounding makes them equal, so skewed
+ * data can yield fewer buckets than requested.
+ * @param {Extract<BucketSpec, {kind: 'auto'}>} spec - Automatic spec (`buckets` caps the FD bin count)
+ * @param {BucketValueStats} stats - Count, range and the quantiles from `autoFractions`
+ * @returns {number[]} Strictly increasing positive boundaries
+ */
+export function autoBoundaries(spec: Extract<BucketSpec, { kind: 'auto' }>, stats: BucketValueStats): number[] {
+  if (stats.count < 2 || stats.max <= stats.min) return [];
+
+  let edges: number[];
+  if (spec.method === 'quantile') {
+    edges = stats.quantiles;
+  } else {
+    const [q1, q3] = stats.quantiles;
+    const width = (2 * (q3 - q1)) / Math.cbrt(stats.count);
+    if (!(width > 0)) return [];
+    const bins = Math.min(spec.buckets, Math.ceil((stats.max - stats.min) / width));
+    edges = Array.from({ length: bins - 1 }, (_, i) => stats.min + (i + 1) * width);
+  }
+
+  return edges
+    .map(roundEdge)
+    .filter((edge, i, all) => edge > 0 && (i === 0 || edge > all[i - 1]));
+}
+
+/**
+ * Resolve a chart's spec into concrete buckets
+ * @param {BucketChart} chart - Chart name
+ * @param {BucketSpec} [spec] - Spec (default preset when omitted)
+ * @param {number[]} [computedEdges] - Boundaries from `autoBoundaries`, required for automatic specs
+ * @returns {BucketScheme} Boundaries, labels and closing side
+ */
+export function resolveBucketScheme(chart: BucketChart, spec?: BucketSpec, computedEdges: number[] = []): BucketScheme {
+  const config = CHART_CONFIGS[chart];
+  let boundaries: number[];
+  let labels: string[] | undefined;
+
+  if (!spec || spec.kind === 'preset') {
+    const preset = config.presets[spec?.preset ?? DEFAULT_BUCKET_PRESET];
+    boundaries = preset.boundaries;
+    labels = preset.labels;
+  } else {
+    boundaries = spec.kind === 'edges' ? spec.edges : computedEdges;
+  }
+
+  return {
+    boundaries,
+    labels: labels ?? [0, ...boundaries].map((lower, i) => config.label(lower, boundaries[i] ?? null)),
+    closed: config.closed,
+  };
+}
+
+/**
+ * Count values into a scheme's buckets in JavaScript
+ * @param {number[]} values - Values to bucket
+ * @param {BucketScheme} scheme - Resolved buckets
+ * @returns {ChartData} Labels, counts and boundaries
+ */
+export function bucketValues(values: number[], scheme: BucketScheme): ChartData {
+  const counts = scheme.labels.map(() => 0);
+  values.forEach(value => {
+    const index = scheme.boundaries.filter(edge => (scheme.closed === 'left' ? value >= edge : value > edge)).length;
+    counts[index]++;
+  });
+  return { labels: scheme.labels, values: counts, edges: scheme.boundaries };
+}
+
+/**
+ * Edges around one bucket of a chart, for drilling down into it
+ * @param {number[]} edges - Inner boundaries (`ChartData.edges`)
+ * @param {number} index - Bucket index
+ * @returns {{min?: number, max?: number}} Lower and upper edge; open ends are omitted
+ */
+export function bucketBounds(edges: number[], index: number): { min?: number; max?: number } {
+  return {
+    ...(index > 0 ? { min: edges[index - 1] } : {}),
+    ...(index < edges.length ? { max: edges[index] } : {}),
+  };
+}
+
+/**
+ * Whether a value falls between two bucket edges of a chart, honouring the
+ * chart's closed side the same way `bucketValues` does
+ * @param {BucketChart} chart - Chart name
+ * @param {number} value - Value to test
+ * @param {{min?: number, max?: number}} bounds - Edges from `bucketBounds`
+ * @returns {boolean} True when the value is in the bucket
+ */
+export function inBucket(chart: BucketChart, value: number, { min, max }: { min?: number; max?: number }): boolean {
+  if (CHART_CONFIGS[chart].closed === 'left') {
+    return (min === undefined || value >= min) && (max === undefined || value < max);
+  }
+  return (min === undefined || value > min) && (max === undefined || value <= max);
+}
+
+/**
+ * Closed side of a chart's buckets
+ * @param {BucketChart} chart - Chart name
+ * @returns {'left'|'right'} 'left' when buckets include their lower edge
+ */
+export const bucketClosedSide = (chart: BucketChart): BucketScheme['closed'] => CHART_CONFIGS[chart].closed;
@@ -0,0 +1,117 @@
+/**
+ * A histogram bucket covering [min, max). A null max means the bucket is open-ended.
+ */
+export interface BucketRange {
+  min: number;
+  max: number | null;
+  label: string;
+}
+
+/** Listing price ranges shared by the dashboard and area analytics */
+export const PRICE_RANGES: BucketRange[] = [
+  { min: 0, max: 250000, label: '0-250k' },
+  { min: 250000, max: 500000, label: '250k-500k' },
+  { min: 500000, max: 750000, label: '500k-750k' },
+  { min: 750000, max: 1000000, label: '750k-1M' },
+  { min: 1000000, max: null, label: '1M+' }
+];
+
+/**
+ * Days-on-market ranges. Upper bounds are inclusive (a 30-day listing is in
+ * "0-30 days"), matching how the lifecycle chart has always bucketed them.
+ */
+export const DAYS_ON_MARKET_RANGES: Array<{ maxDays: number | null; label: string }> = [
+  { maxDays: 30, label: '0-30 days' },
+  { maxDays: 60, label: '30-60 days' },
+  { maxDays: 90, label: '60-90 days' },
+  { maxDays: null, label: '90+ days' }
+];
+
+/** Size of a single price cut, in percent of the previous price */
+export const PRICE_CUT_RANGES: BucketRange[] = [
+  { min: 0, max: 2, label: 'Under 2%' },
+  { min: 2, max: 5, label: '2-5%' },
+  { min: 5, max: 10, label: '5-10%' },
+  { min: 10, max: null, label: '10%+' }
+];
+
+/**
+ * A histogram bucket with an inclusive upper bound. A null max catches everything above.
+ */
+export interface UpperBoundRange {
+  max: number | null;
+  label: string;
+}
+
+/** Age of assumable mortgage records, in years */
+export const MORTGAGE_AGE_RANGES: UpperBoundRange[] = [
+  { max: 5, label: '0-5 years' },
+  { max: 10, label: '5-10 years' },
+  { max: 15, label: '10-15 years' },
+  { max: 20, label: '15-20 years' },
+  { max: null, label: '20+ years' }
+];
+
+/** Current balance of assumable mortgages */
+export const MORTGAGE_BALANCE_RANGES: UpperBoundRange[] = [
+  { max: 100000, label: '0-100k' },
+  { max: 250000, label: '100k-250k' },
+  { max: 500000, label: '250k-500k' },
+  { max: null, label: '500k+' }
+];
+
+/** Interest rate of assumable mortgages, in percent */
+export const INTEREST_RATE_RANGES: UpperBoundRange[] = [
+  { max: 3, label: '0-3%' },
+  { max: 4, label: '3-4%' },
+  { max: 5, label: '4-5%' },
+  { max: 6, label: '5-6%' },
+  { max: null, label: '6%+' }
+];
+
+/** Days between consecutive updates of a listing */
+export const UPDATE_GAP_RANGES: BucketRange[] = [
+  { min: 0, max: 1, label: 'Under 1 day' },
+  { min: 1, max: 3, label: '1-3 days' },
+  { min: 3, max: 7, label: '3-7 days' },
+  { min: 7, max: 14, label: '1-2 weeks' },
+  { min: 14, max: 30, label: '2-4 weeks' },
+  { min: 30, max: null, label: '30+ days' }
+];
+
+/** Photos a listing is missing against the MLS-reported count */
+export const PHOTO_GAP_RANGES: BucketRange[] = [
+  { min: 0, max: 1, label: 'None missing' },
+  { min: 1, max: 6, label: '1-5' },
+  { min: 6, max: 11, label: '6-10' },
+  { min: 11, max: 26, label: '11-25' },
+  { min: 26, max: null, label: '26+' }
+];
+
+/** Days since a stored photo was last checked against the MLS */
+export const PHOTO_CHECK_AGE_RANGES: BucketRange[] = [
+  { min: 0, max: 1, label: 'Under 1 day' },
+  { min: 1, max: 7, label: '1-7 days' },
+  { min: 7, max: 30, label: '7-30 days' },
+  { min: 30, max: 90, label: '30-90 days' },
+  { min: 90, max: null, label: '90+ days' }
+];
+
+/** Market benchmark rate minus the mortgage rate, in percentage points */
+export const RATE_ADVANTAGE_RANGES: UpperBoundRange[] = [
+  { max: 0, label: 'No advantage' },
+  { max: 1, label: '0-1 pts' },
+  { max: 2, label: '1-2 pts' },
+  { max: 3, label: '2-3 pts' },
+  { max: null, label: '3+ pts' }
+];
+
+/** Hours from a listing report being filed to its resolution or dismissal */
+export const RESOLUTION_TIME_RANGES: BucketRange[] = [
+  { min: 0, max: 24, label: 'Under 1 day' },
+  { min: 24, max: 72, label: '1-3 days' },
+  { min: 72, max: 168, label: '3-7 days' },
+  { min: 168, max: 336, label: '1-2 weeks' },
+  { min: 336, max: 720, label: '2-4 weeks' },
+  { min: 720, max: null, label: '30+ days' }
+];
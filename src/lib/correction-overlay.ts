@@ -0,0 +1,141 @@
+import { CorrectionStatus, EntityType, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { setAtPath } from '@/lib/correction-paths';
+import { CorrectionOverlaySummary } from '@/types/dashboard';
+
+/**
+ * Read-time overlay of ACTIVE `*_OVERRIDE` DataCorrections.
+ *
+ * Override corrections leave the stored rows untouched, so anything that
+ * should reflect them has to apply them when reading. `applyCorrections` does
+ * that for loaded entities; `overlaySql` does it inside aggregate queries for
+ * numeric columns, so the dashboard keeps aggregating in the database.
+ */
+
+export interface OverrideCorrection {
+  entityId: string;
+  column: string;
+  /** Column followed by nested JSON keys or array indexes */
+  fieldPath: string[];
+  correctedValue: Prisma.JsonValue;
+  createdAt: Date;
+}
+
+/**
+ * Active override corrections of one entity type, oldest first
+ * @param {EntityType} entityType - An `*_OVERRIDE` entity type
+ * @param {string[]} [columns] - Only corrections on these columns
+ * @returns {Promise<OverrideCorrection[]>} Corrections
+ */
+export async function loadOverrideCorrections(entityType: EntityType, columns?: string[]): Promise<OverrideCorrection[]> {
+  return prisma.dataCorrection.findMany({
+    where: { entityType, status: CorrectionStatus.ACTIVE, column: columns ? { in: columns } : undefined },
+    select: { entityId: true, column: true, fieldPath: true, correctedValue: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Apply override corrections to entities. Corrections match on entity id and
+ * column; paths below the column replace the value inside JSON and list
+ * columns. When several corrections touch the same field the newest wins.
+ * Corrected values are the JSON stored on the correction, so Decimal and
+ * DateTime columns come back as numbers and ISO strings.
+ * @param {T[]} entities - Entities with an `id`
+ * @param {OverrideCorrection[]} corrections - Corrections of the entities' override type
+ * @returns {T[]} Corrected copies; entities without corrections are returned as-is
+ */
+export function applyCorrections<T extends { id: string }>(entities: T[], corrections: OverrideCorrection[]): T[] {
+  const byEntity = new Map<string, OverrideCorrection[]>();
+  corrections.forEach(correction => {
+    byEntity.set(correction.entityId, [...(byEntity.get(correction.entityId) ?? []), correction]);
+  });
+
+  return entities.map(entity => {
+    const matching = byEntity.get(entity.id);
+    if (!matching) return entity;
+
+    const corrected: Record<string, unknown> = { ...entity };
+    [...matching]
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .filter(correction => correction.column in corrected && correction.fieldPath[0] === correction.column)
+      .forEach(correction => {
+        corrected[correction.column] = setAtPath(
+          (corrected[correction.column] ?? null) as Prisma.JsonValue,
+          correction.fieldPath.slice(1),
+          correction.correctedValue
+        );
+      });
+    return corrected as T;
+  });
+}
+
+/**
+ * Corrected values of one numeric column keyed by entity id. Values that are
+ * not numbers (or numeric strings) are skipped; null clears the field.
+ * @param {OverrideCorrection[]} corrections - Corrections of one override type
+ * @param {string} column - Numeric column
+ * @returns {Record<string, number | null>} Corrected value per entity id
+ */
+export function numericOverrides(corrections: OverrideCorrection[], column: string): Record<string, number | null> {
+  const ids = Array.from(new Set(corrections.filter(c => c.column === column).map(c => c.entityId)));
+  const corrected = applyCorrections(ids.map(id => ({ id, [column]: undefined })), corrections);
+
+  const values: Record<string, number | null> = {};
+  corrected.forEach(entity => {
+    const value = (entity as Record<string, unknown>)[column];
+    if (value === null) values[entity.id] = null;
+    else if (typeof value === 'number' && Number.isFinite(value)) values[entity.id] = value;
+    else if (typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) values[entity.id] = Number(value);
+  });
+  return values;
+}
+
+/**
+ * Column expression with corrected values swapped in: a jsonb lookup by the
+ * row's id, falling back to the stored value
+ * @param {Prisma.Sql} raw - Stored column, e.g. `l.price`
+ * @param {Prisma.Sql} id - Id of the row, e.g. `l.id`
+ * @param {Record<string, number | null>} values - Corrected values by id
+ * @returns {Prisma.Sql} Numeric expression (the raw column when there are no corrections)
+ */
+export const overlaySql = (raw: Prisma.Sql, id: Prisma.Sql, values: Record<string, number | null>): Prisma.Sql => {
+  if (Object.keys(values).length === 0) return raw;
+  const lookup = JSON.stringify(values);
+  // `->` yields a jsonb null (not SQL NULL) for ids whose correction clears the value
+  return Prisma.sql`(CASE WHEN (${lookup}::jsonb -> ${id}) IS NOT NULL THEN (${lookup}::jsonb ->> ${id})::numeric ELSE ${raw} END)`;
+};
+
+/** Corrected numeric columns the dashboard aggregates over */
+export interface DashboardOverlay {
+  listingPrice: Record<string, number | null>;
+  mortgageBalance: Record<string, number | null>;
+  mortgageRate: Record<string, number | null>;
+}
+
+/**
+ * Load the overrides for listing price and assumable mortgage balance and rate
+ * @returns {Promise<DashboardOverlay>} Corrected values by entity id
+ */
+export async function loadDashboardOverlay(): Promise<DashboardOverlay> {
+  const [listings, mortgages] = await Promise.all([
+    loadOverrideCorrections(EntityType.LISTING_OVERRIDE, ['price']),
+    loadOverrideCorrections(EntityType.ASSUMABLE_MORTGAGE_OVERRIDE, ['currentBalance', 'interestRate']),
+  ]);
+  return {
+    listingPrice: numericOverrides(listings, 'price'),
+    mortgageBalance: numericOverrides(mortgages, 'currentBalance'),
+    mortgageRate: numericOverrides(mortgages, 'interestRate'),
+  };
+}
+
+/**
+ * Number of corrected entities per overlaid column
+ * @param {DashboardOverlay} overlay - Loaded overlay
+ * @returns {CorrectionOverlaySummary} Counts
+ */
+export const summarizeOverlay = (overlay: DashboardOverlay): CorrectionOverlaySummary => ({
+  listingPrices: Object.keys(overlay.listingPrice).length,
+  mortgageBalances: Object.keys(overlay.mortgageBalance).length,
+  mortgageRates: Object.keys(overlay.mortgageRate).length,
+});
@@ -0,0 +1,98 @@
+import type { Prisma } from '@prisma/client';
+import { CorrectableEntityType, CorrectionModel } from '@/types/corrections';
+
+/** Table each correctable entity type points at */
+export const CORRECTION_ENTITY_MODELS: Record<CorrectableEntityType, CorrectionModel> = {
+  LISTING_OVERRIDE: 'Listing',
+  LISTING_PERMANENT: 'Listing',
+  LOAN_OVERRIDE: 'Loan',
+  LOAN_PERMANENT: 'Loan',
+  PROPERTY_RADAR_OVERRIDE: 'PropertyRadar',
+  PROPERTY_RADAR_PERMANENT: 'PropertyRadar',
+  ASSUMABLE_MORTGAGE_OVERRIDE: 'AssumableMortgage',
+  ASSUMABLE_MORTGAGE_PERMANENT: 'AssumableMortgage',
+};
+
+export const CORRECTABLE_ENTITY_TYPES = Object.keys(CORRECTION_ENTITY_MODELS) as CorrectableEntityType[];
+
+const ARRAY_INDEX = /^\d+$/;
+
+/**
+ * Split a field expression like `remarks.public` or `photoUrls[2]` into a
+ * field path
+ * @param {string} expression - Dotted path with optional [index] segments
+ * @returns {string[]} Column followed by nested keys and indexes
+ */
+export const parseFieldPath = (expression: string): string[] =>
+  expression
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .map(segment => segment.trim())
+    .filter(Boolean);
+
+/**
+ * Inverse of `parseFieldPath`, used for `DataCorrection.field`
+ * @param {string[]} path - Field path
+ * @returns {string} Dotted path with [index] segments
+ */
+export const formatFieldPath = (path: string[]): string =>
+  path.reduce((field, segment, index) => {
+    if (index === 0) return segment;
+    return ARRAY_INDEX.test(segment) ? `${field}[${segment}]` : `${field}.${segment}`;
+  }, '');
+
+/**
+ * Read a typed correction value as JSON, falling back to the raw text so
+ * plain strings can be typed without quotes
+ * @param {string} raw - Text from a value input
+ * @returns {Prisma.JsonValue} Parsed value
+ */
+export const parseCorrectionValue = (raw: string): Prisma.JsonValue => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * Read the value at a path below a column value
+ * @param {Prisma.JsonValue} root - Column value
+ * @param {string[]} path - Nested keys and indexes, without the column
+ * @returns {Prisma.JsonValue} Value at the path, null when it does not exist
+ */
+export function valueAtPath(root: Prisma.JsonValue, path: string[]): Prisma.JsonValue {
+  let value: Prisma.JsonValue = root;
+  for (const segment of path) {
+    if (Array.isArray(value) && ARRAY_INDEX.test(segment)) {
+      value = value[Number(segment)] ?? null;
+    } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      value = value[segment] ?? null;
+    } else {
+      return null;
+    }
+  }
+  return value;
+}
+
+/**
+ * Copy of a column value with the value at a path replaced. Missing objects
+ * along the path are created; numeric segments index into arrays.
+ * @param {Prisma.JsonValue} root - Column value
+ * @param {string[]} path - Nested keys and indexes, without the column
+ * @param {Prisma.JsonValue} value - Replacement value
+ * @returns {Prisma.JsonValue} Updated column value
+ */
+export function setAtPath(root: Prisma.JsonValue, path: string[], value: Prisma.JsonValue): Prisma.JsonValue {
+  if (path.length === 0) return value;
+  const [segment, ...rest] = path;
+
+  if (Array.isArray(root) && ARRAY_INDEX.test(segment)) {
+    const copy = [...root];
+    copy[Number(segment)] = setAtPath(copy[Number(segment)] ?? null, rest, value);
+    return copy.map(item => item ?? null);
+  }
+
+  const object = root !== null && typeof root === 'object' && !Array.isArray(root) ? root : {};
+  return { ...object, [segment]: setAtPath(object[segment] ?? null, rest, value) };
+}
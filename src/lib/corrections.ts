@@ -0,0 +1,547 @@
+import { randomUUID } from 'crypto';
+import { CorrectionStatus, DataCorrection, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { expireDashboardSnapshots } from '@/lib/dashboard-snapshots';
+import { FilterValidationError, isOwnKey } from '@/lib/filters';
+import {
+  CORRECTABLE_ENTITY_TYPES,
+  CORRECTION_ENTITY_MODELS,
+  formatFieldPath,
+  setAtPath,
+  valueAtPath,
+} from '@/lib/correction-paths';
+import {
+  CorrectableEntityType,
+  CorrectionColumn,
+  CorrectionInput,
+  CorrectionModel,
+  CorrectionPreview,
+  CorrectionQuery,
+  DataCorrectionRecord,
+} from '@/types/corrections';
+
+export const DEFAULT_CORRECTION_LIMIT = 100;
+export const MAX_CORRECTION_LIMIT = 500;
+
+/** `ListingAudit.action` values written by the correction console */
+export const CORRECTION_AUDIT_ACTIONS = {
+  created: 'DATA_CORRECTION_CREATED',
+  deactivated: 'DATA_CORRECTION_DEACTIVATED',
+  reactivated: 'DATA_CORRECTION_REACTIVATED',
+} as const;
+
+/** Bookkeeping columns that are never corrected */
+const PROTECTED_COLUMNS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const isCorrectableEntityType = (value: unknown): value is CorrectableEntityType =>
+  isOwnKey(value, CORRECTION_ENTITY_MODELS);
+
+/**
+ * Scalar, enum and JSON columns of a model that a correction may target.
+ * Read from the Prisma datamodel so new schema columns show up without code
+ * changes; ids, timestamps and relation foreign keys are excluded.
+ * @param {CorrectionModel} model - Target table
+ * @returns {CorrectionColumn[]} Columns sorted by name
+ */
+function modelColumns(model: CorrectionModel): CorrectionColumn[] {
+  const definition = Prisma.dmmf.datamodel.models.find(candidate => candidate.name === model);
+  if (!definition) return [];
+
+  const foreignKeys = new Set(definition.fields.flatMap(field => field.relationFromFields ?? []));
+  return definition.fields
+    .filter(field => field.kind === 'scalar' || field.kind === 'enum')
+    .filter(field => !field.isId && !field.isUpdatedAt && !PROTECTED_COLUMNS.has(field.name) && !foreignKeys.has(field.name))
+    .map(field => {
+      const column: CorrectionColumn = {
+        name: field.name,
+        type: field.type,
+        isList: field.isList,
+        isJson: field.type === 'Json',
+        isRequired: field.isRequired,
+      };
+      if (field.kind === 'enum') {
+        column.enumValues = Prisma.dmmf.datamodel.enums
+          .find(candidate => candidate.name === field.type)
+          ?.values.map(value => value.name);
+      }
+      return column;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Columns a correction may target for an entity type
+ * @param {URLSearchParams} params - Query parameters (`entityType`)
+ * @returns {CorrectionColumn[]} Correctable columns
+ * @throws {FilterValidationError} If the entity type is missing or not correctable
+ */
+export function getCorrectionColumns(params: URLSearchParams): CorrectionColumn[] {
+  const entityType = params.get('entityType');
+  if (!isCorrectableEntityType(entityType)) {
+    throw new FilterValidationError('entityType', `entityType must be one of ${CORRECTABLE_ENTITY_TYPES.join(', ')}`);
+  }
+  return modelColumns(CORRECTION_ENTITY_MODELS[entityType]);
+}
+
+/**
+ * Convert a Prisma column value (Decimal, Date, ...) into the JSON stored on
+ * the correction
+ * @param {unknown} value - Column value
+ * @returns {Prisma.JsonValue} JSON value
+ */
+const toJsonValue = (value: unknown): Prisma.JsonValue => {
+  if (value === null || value === undefined) return null;
+  if (Prisma.Decimal.isDecimal(value)) return Number(value);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  return value as Prisma.JsonValue;
+};
+
+const describeType = (column: CorrectionColumn) =>
+  column.enumValues ? `one of ${column.enumValues.join(', ')}` : `a ${column.type} value`;
+
+/**
+ * Check a value against a non-JSON column's type
+ * @param {CorrectionColumn} column - Target column
+ * @param {Prisma.JsonValue} value - Corrected value for one element of the column
+ * @returns {boolean} Whether the value fits
+ */
+function fitsScalar(column: CorrectionColumn, value: Prisma.JsonValue): boolean {
+  if (column.enumValues) return typeof value === 'string' && column.enumValues.includes(value);
+  switch (column.type) {
+    case 'String':
+      return typeof value === 'string';
+    case 'Int':
+    case 'BigInt':
+      return Number.isInteger(value);
+    case 'Float':
+    case 'Decimal':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'Boolean':
+      return typeof value === 'boolean';
+    case 'DateTime':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validate a corrected value against its column and path. JSON columns accept
+ * any value at any depth; list columns accept a whole list or one element by
+ * index; other columns only a top-level value of their type.
+ * @param {CorrectionColumn} column - Target column
+ * @param {string[]} nested - Path below the column
+ * @param {Prisma.JsonValue} value - Corrected value
+ * @throws {FilterValidationError} If the value or path does not fit the column
+ */
+function validateValue(column: CorrectionColumn, nested: string[], value: Prisma.JsonValue) {
+  if (column.isJson) return;
+
+  if (column.isList) {
+    if (nested.length > 1 || (nested.length === 1 && !/^\d+$/.test(nested[0]))) {
+      throw new FilterValidationError('fieldPath', `${column.name} is a list; only a single array index can follow it`);
+    }
+    if (nested.length === 0) {
+      if (!Array.isArray(value) || !value.every(item => fitsScalar(column, item))) {
+        throw new FilterValidationError('correctedValue', `${column.name} must be a list of ${describeType(column)}`);
+      }
+      return;
+    }
+  } else if (nested.length > 0) {
+    throw new FilterValidationError('fieldPath', `${column.name} is not a JSON or list column and has no nested fields`);
+  }
+
+  if (value === null) {
+    if (column.isRequired || column.isList) {
+      throw new FilterValidationError('correctedValue', `${column.name} cannot be null`);
+    }
+    return;
+  }
+  if (!fitsScalar(column, value)) {
+    throw new FilterValidationError('correctedValue', `${column.name} must be ${describeType(column)}`);
+  }
+}
+
+interface CorrectionTarget {
+  record: Record<string, unknown>;
+  /** Listing audits are written against */
+  listingId: string | null;
+  rawDataId: string | null;
+}
+
+/**
+ * Load the row a correction points at and resolve the listing it belongs to.
+ * Loans, assumable mortgages and PropertyRadar records reach their listing
+ * via `propertyRadarId`.
+ * @param {CorrectionModel} model - Target table
+ * @param {string} id - Row id
+ * @returns {Promise<CorrectionTarget | null>} Target, or null if the row does not exist
+ */
+async function loadTarget(model: CorrectionModel, id: string): Promise<CorrectionTarget | null> {
+  const listingForProperty = async (propertyRadarId: string) =>
+    (await prisma.listing.findFirst({ where: { propertyRadarId }, select: { id: true } }))?.id ?? null;
+
+  switch (model) {
+    case 'Listing': {
+      const listing = await prisma.listing.findUnique({ where: { id } });
+      return listing && { record: listing, listingId: listing.id, rawDataId: listing.rawDataId };
+    }
+    case 'Loan': {
+      const loan = await prisma.loan.findUnique({ where: { id } });
+      return loan && { record: loan, listingId: await listingForProperty(loan.propertyId), rawDataId: loan.rawLoanDataId };
+    }
+    case 'AssumableMortgage': {
+      const mortgage = await prisma.assumableMortgage.findUnique({ where: { id }, include: { Loan: true } });
+      return (
+        mortgage && {
+          record: mortgage,
+          listingId: mortgage.Loan ? await listingForProperty(mortgage.Loan.propertyId) : null,
+          rawDataId: mortgage.rawLoanDataId ?? mortgage.Loan?.rawLoanDataId ?? null,
+        }
+      );
+    }
+    case 'PropertyRadar': {
+      const property = await prisma.propertyRadar.findUnique({ where: { id } });
+      return (
+        property && {
+          record: property,
+          listingId: (await listingForProperty(property.id)) ?? property.listingId,
+          rawDataId: property.rawLoanDataId,
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Validate a correction request body. `createdBy` is taken from the body as
+ * is and recorded as the audit author, so the routes calling this must sit
+ * behind admin authentication.
+ * @param {unknown} body - Parsed JSON body
+ * @returns {CorrectionInput} Validated input
+ * @throws {FilterValidationError} If a field is missing or invalid
+ */
+export function parseCorrectionInput(body: unknown): CorrectionInput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new FilterValidationError('body', 'body must be a JSON object');
+  }
+  const { entityType, entityId, fieldPath, correctedValue, reason, createdBy } = body as Record<string, unknown>;
+
+  if (!isCorrectableEntityType(entityType)) {
+    throw new FilterValidationError('entityType', `entityType must be one of ${CORRECTABLE_ENTITY_TYPES.join(', ')}`);
+  }
+  if (typeof entityId !== 'string' || !entityId.trim()) {
+    throw new FilterValidationError('entityId', 'entityId is required');
+  }
+  if (!Array.isArray(fieldPath) || fieldPath.length === 0 || !fieldPath.every(segment => typeof segment === 'string' && segment.trim())) {
+    throw new FilterValidationError('fieldPath', 'fieldPath must be a non-empty list of field names and indexes');
+  }
+  if (correctedValue === undefined) {
+    throw new FilterValidationError('correctedValue', 'correctedValue is required (use null to clear a field)');
+  }
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    throw new FilterValidationError('reason', 'reason must be a string');
+  }
+  if (typeof createdBy !== 'string' || !createdBy.trim()) {
+    throw new FilterValidationError('createdBy', 'createdBy is required');
+  }
+
+  return {
+    entityType,
+    entityId: entityId.trim(),
+    fieldPath: fieldPath.map(segment => segment.trim()),
+    correctedValue: correctedValue as Prisma.JsonValue,
+    reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+    createdBy: createdBy.trim(),
+  };
+}
+
+/**
+ * Before/after values of a correction without writing it
+ * @param {CorrectionInput} input - Validated input
+ * @returns {Promise<CorrectionPreview>} Current and corrected values at the path and for the whole column
+ * @throws {FilterValidationError} If the entity does not exist or the value does not fit the column
+ */
+export async function previewCorrection(input: CorrectionInput): Promise<CorrectionPreview> {
+  const model = CORRECTION_ENTITY_MODELS[input.entityType];
+  const [columnName, ...nested] = input.fieldPath;
+  const column = modelColumns(model).find(candidate => candidate.name === columnName);
+  if (!column) {
+    throw new FilterValidationError('fieldPath', `${columnName} is not a correctable ${model} column`);
+  }
+  validateValue(column, nested, input.correctedValue);
+
+  const target = await loadTarget(model, input.entityId);
+  if (!target) {
+    throw new FilterValidationError('entityId', `No ${model} with id ${input.entityId}`);
+  }
+
+  const field = formatFieldPath(input.fieldPath);
+  const columnBefore = toJsonValue(target.record[column.name]);
+  const superseded = await prisma.dataCorrection.findMany({
+    where: { entityType: input.entityType, entityId: input.entityId, field, status: CorrectionStatus.ACTIVE },
+    select: { id: true },
+  });
+
+  return {
+    entityType: input.entityType,
+    entityId: input.entityId,
+    listingId: target.listingId,
+    rawDataId: target.rawDataId,
+    column: column.name,
+    fieldPath: input.fieldPath,
+    field,
+    isJsonField: column.isJson,
+    isArrayField: column.isList,
+    before: valueAtPath(columnBefore, nested),
+    after: input.correctedValue,
+    columnBefore,
+    columnAfter: setAtPath(columnBefore, nested, input.correctedValue),
+    supersedes: superseded.map(correction => correction.id),
+  };
+}
+
+const toCorrectionRecord = (correction: DataCorrection): DataCorrectionRecord => ({
+  id: correction.id,
+  entityType: correction.entityType,
+  entityId: correction.entityId,
+  field: correction.field,
+  column: correction.column,
+  fieldPath: correction.fieldPath,
+  isArrayField: correction.isArrayField,
+  isJsonField: correction.isJsonField,
+  originalValue: correction.originalValue,
+  correctedValue: correction.correctedValue,
+  reason: correction.reason,
+  status: correction.status,
+  rawDataId: correction.rawDataId,
+  createdBy: correction.createdBy,
+  createdByAuditSource: correction.createdByAuditSource,
+  createdAt: correction.createdAt.toISOString(),
+  updatedAt: correction.updatedAt.toISOString(),
+});
+
+const jsonInput = (value: Prisma.JsonValue) => (value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue));
+
+/**
+ * Create an ACTIVE correction and record it in the listing's audit log.
+ * Active corrections on the same field are deactivated in the same
+ * transaction so at most one applies per field. Cached dashboard snapshots are
+ * expired so the corrected value shows on the next load.
+ * @param {CorrectionInput} input - Validated input
+ * @returns {Promise<DataCorrectionRecord>} Created correction
+ * @throws {FilterValidationError} If the correction is invalid or the entity has no listing to audit against
+ */
+export async function createCorrection(input: CorrectionInput): Promise<DataCorrectionRecord> {
+  const preview = await previewCorrection(input);
+  const { listingId } = preview;
+  if (!listingId) {
+    throw new FilterValidationError('entityId', `${input.entityType} ${input.entityId} is not linked to a listing, so the correction cannot be audited`);
+  }
+  const now = new Date();
+
+  const correction = await prisma.$transaction(async tx => {
+    if (preview.supersedes.length > 0) {
+      await tx.dataCorrection.updateMany({
+        where: { id: { in: preview.supersedes } },
+        data: { status: CorrectionStatus.INACTIVE, updatedAt: now },
+      });
+    }
+
+    const created = await tx.dataCorrection.create({
+      data: {
+        id: randomUUID(),
+        entityType: input.entityType,
+        entityId: input.entityId,
+        field: preview.field,
+        column: preview.column,
+        fieldPath: preview.fieldPath,
+        isArrayField: preview.isArrayField,
+        isJsonField: preview.isJsonField,
+        originalValue: preview.before === null ? Prisma.DbNull : (preview.before as Prisma.InputJsonValue),
+        correctedValue: jsonInput(input.correctedValue),
+        reason: input.reason,
+        status: CorrectionStatus.ACTIVE,
+        createdBy: input.createdBy,
+        createdByAuditSource: 'ADMIN',
+        updatedAt: now,
+        rawDataId: preview.rawDataId,
+      },
+    });
+
+    await tx.listingAudit.create({
+      data: {
+        id: randomUUID(),
+        listingId,
+        action: CORRECTION_AUDIT_ACTIONS.created,
+        source: 'ADMIN',
+        sourceId: input.createdBy,
+        sourceName: input.createdBy,
+        changes: { [preview.field]: { from: preview.before, to: preview.after } },
+        metadata: {
+          correctionId: created.id,
+          entityType: input.entityType,
+          entityId: input.entityId,
+          reason: input.reason,
+          superseded: preview.supersedes,
+        },
+      },
+    });
+
+    return created;
+  });
+
+  expireDashboardSnapshots();
+  return toCorrectionRecord(correction);
+}
+
+/**
+ * Parse the correction list filters
+ * @param {URLSearchParams} params - Query parameters (`entityType`, `entityId`, `createdBy`, `status`, `limit`)
+ * @returns {CorrectionQuery} Validated query
+ * @throws {FilterValidationError} If a parameter is invalid
+ */
+export function parseCorrectionQuery(params: URLSearchParams): CorrectionQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const entityType = get('entityType');
+  if (entityType !== undefined && !isCorrectableEntityType(entityType)) {
+    throw new FilterValidationError('entityType', `entityType must be one of ${CORRECTABLE_ENTITY_TYPES.join(', ')}`);
+  }
+
+  const status = get('status');
+  if (status !== undefined && !isOwnKey(status, CorrectionStatus)) {
+    throw new FilterValidationError('status', `status must be one of ${Object.keys(CorrectionStatus).join(', ')}`);
+  }
+
+  const limit = Number(get('limit') ?? DEFAULT_CORRECTION_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CORRECTION_LIMIT) {
+    throw new FilterValidationError('limit', `limit must be an integer between 1 and ${MAX_CORRECTION_LIMIT}`);
+  }
+
+  return {
+    entityType,
+    entityId: get('entityId'),
+    createdBy: get('createdBy'),
+    status,
+    limit,
+  };
+}
+
+/**
+ * Corrections matching the console filters, newest first
+ * @param {CorrectionQuery} query - Validated query
+ * @returns {Promise<DataCorrectionRecord[]>} Matching corrections
+ */
+export async function listCorrections(query: CorrectionQuery): Promise<DataCorrectionRecord[]> {
+  const corrections = await prisma.dataCorrection.findMany({
+    where: {
+      entityType: query.entityType,
+      entityId: query.entityId,
+      createdBy: query.createdBy ? { contains: query.createdBy, mode: 'insensitive' } : undefined,
+      status: query.status,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: query.limit,
+  });
+  return corrections.map(toCorrectionRecord);
+}
+
+/**
+ * Validate a status change body. Like `createdBy` on new corrections,
+ * `updatedBy` is trusted from the body and needs admin authentication in front.
+ * @param {unknown} body - Parsed JSON body with `status` and `updatedBy`
+ * @returns {{status: CorrectionStatus, updatedBy: string}} Validated change
+ * @throws {FilterValidationError} If a field is missing or invalid
+ */
+export function parseStatusChange(body: unknown): { status: CorrectionStatus; updatedBy: string } {
+  const { status, updatedBy } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  if (!isOwnKey(status, CorrectionStatus)) {
+    throw new FilterValidationError('status', `status must be one of ${Object.keys(CorrectionStatus).join(', ')}`);
+  }
+  if (typeof updatedBy !== 'string' || !updatedBy.trim()) {
+    throw new FilterValidationError('updatedBy', 'updatedBy is required');
+  }
+  return { status, updatedBy: updatedBy.trim() };
+}
+
+/**
+ * Deactivate or reactivate a correction and record it in the listing's audit
+ * log. Reactivating deactivates any other active correction on the field;
+ * setting the status a correction already has writes nothing. Dashboard
+ * snapshots are expired after a change, as in `createCorrection`.
+ * @param {string} id - Correction id
+ * @param {CorrectionStatus} status - New status
+ * @param {string} updatedBy - Admin making the change
+ * @returns {Promise<DataCorrectionRecord | null>} Updated correction, or null if it does not exist
+ * @throws {FilterValidationError} If the corrected entity has no listing to audit against
+ */
+export async function setCorrectionStatus(
+  id: string,
+  status: CorrectionStatus,
+  updatedBy: string
+): Promise<DataCorrectionRecord | null> {
+  const correction = await prisma.dataCorrection.findUnique({ where: { id } });
+  if (!correction) return null;
+  if (correction.status === status) return toCorrectionRecord(correction);
+
+  const model = isCorrectableEntityType(correction.entityType) ? CORRECTION_ENTITY_MODELS[correction.entityType] : null;
+  const listingId = model ? (await loadTarget(model, correction.entityId))?.listingId : null;
+  if (!listingId) {
+    throw new FilterValidationError('id', `Correction ${id} does not belong to a listing, so the change cannot be audited`);
+  }
+
+  const activating = status === CorrectionStatus.ACTIVE;
+  const now = new Date();
+
+  const updated = await prisma.$transaction(async tx => {
+    const superseded = activating
+      ? await tx.dataCorrection.findMany({
+          where: {
+            entityType: correction.entityType,
+            entityId: correction.entityId,
+            field: correction.field,
+            status: CorrectionStatus.ACTIVE,
+          },
+          select: { id: true },
+        })
+      : [];
+    if (superseded.length > 0) {
+      await tx.dataCorrection.updateMany({
+        where: { id: { in: superseded.map(row => row.id) } },
+        data: { status: CorrectionStatus.INACTIVE, updatedAt: now },
+      });
+    }
+
+    const changed = await tx.dataCorrection.update({ where: { id }, data: { status, updatedAt: now } });
+
+    await tx.listingAudit.create({
+      data: {
+        id: randomUUID(),
+        listingId,
+        action: activating ? CORRECTION_AUDIT_ACTIONS.reactivated : CORRECTION_AUDIT_ACTIONS.deactivated,
+        source: 'ADMIN',
+        sourceId: updatedBy,
+        sourceName: updatedBy,
+        changes: {
+          [correction.field]: activating
+            ? { from: correction.originalValue, to: correction.correctedValue }
+            : { from: correction.correctedValue, to: correction.originalValue },
+        },
+        metadata: {
+          correctionId: id,
+          entityType: correction.entityType,
+          entityId: correction.entityId,
+          superseded: superseded.map(row => row.id),
+        },
+      },
+    });
+
+    return changed;
+  });
+
+  expireDashboardSnapshots();
+  return toCorrectionRecord(updated);
+}
@@ -0,0 +1,383 @@
+/**
+ * Dashboard aggregations in SQL against the JavaScript they replaced, on
+ * listings and assumable mortgages seeded into a real Postgres database: days
+ * on market against the calculator, histograms bucket by bucket against
+ * `bucketValues` (with automatic edges from the same statistics), and the
+ * listing trend against the dashboard's old `processTimeSeries`.
+ *
+ *   TEST_DATABASE_URL=postgresql://localhost:5432/roots_test pnpm test
+ *
+ * The database needs the Prisma schema applied (`prisma db push`). Seeded
+ * rows carry their own MLS instance id and are removed afterwards. The URL is
+ * read from TEST_DATABASE_URL only, never LISTING_DATABASE_URL, so the test
+ * cannot write to a shared database by accident; without it the suite is skipped.
+ */
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { ListingStatus, Prisma, PrismaClient } from '@prisma/client';
+import { STATUS_CATEGORIES } from '@/lib/listing-status';
+import {
+  bucketDaysOnMarket,
+  computeDaysOnMarket,
+  DaysOnMarketResult,
+  DomListing,
+  StatusEvent,
+  summarizeDaysOnMarket,
+} from '@/lib/days-on-market';
+import type { DashboardOverlay } from '@/lib/correction-overlay';
+import { autoBoundaries, autoFractions, bucketValues, resolveBucketScheme } from '@/lib/bucket-specs';
+import { INTEREST_RATE_RANGES, MORTGAGE_BALANCE_RANGES, PRICE_RANGES } from '@/lib/buckets';
+import { BucketChart, BucketSpec, BucketSpecs, BucketValueStats } from '@/types/buckets';
+import { ChartData, DashboardFilters, TimeSeriesData } from '@/types/dashboard';
+
+const DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const TEST_MLS_INSTANCE_ID = `dom-test-${randomUUID()}`;
+const LISTING_COUNT = 400;
+const DAY_MS = 86400000;
+const YEAR_MS = 365 * DAY_MS;
+const AS_OF = new Date('2025-06-01T12:00:00.000Z');
+
+const ALL_STATUSES = Object.keys(STATUS_CATEGORIES) as ListingStatus[];
+
+/** Statuses weighted towards the ones that drive the clock */
+const STATUS_POOL: ListingStatus[] = [
+  'ACTIVE', 'ACTIVE', 'ACTIVE', 'NEW', 'BACK_ON_MARKET', 'PRICE_CHANGE', 'REACTIVATED',
+  'TEMPORARILY_OFF_MARKET', 'HOLD',
+  'PENDING', 'PENDING', 'CONTINGENT', 'ACTIVE_UNDER_CONTRACT',
+  'SOLD', 'CLOSED', 'LEASED',
+  'WITHDRAWN', 'EXPIRED', 'CANCELLED', 'ARCHIVED',
+  'COMING_SOON', 'UNKNOWN',
+];
+
+/** Bucket edges values land on exactly, to pin down each chart's closed side */
+const PRICE_EDGES = [...PRICE_RANGES.slice(1).map(range => range.min), 100000, 1000000];
+const BALANCE_EDGES = [...MORTGAGE_BALANCE_RANGES.flatMap(range => (range.max === null ? [] : [range.max])), 750000];
+const RATE_EDGES = [...INTEREST_RATE_RANGES.flatMap(range => (range.max === null ? [] : [range.max])), 2.5, 6.5];
+const AGE_EDGE_YEARS = [1, 2, 3, 5, 10, 15, 20];
+
+interface SeededMortgage {
+  id: string;
+  loanId: string;
+  propertyRadarId: string;
+  currentBalance: number;
+  interestRate: number;
+  recordingDate: Date;
+}
+
+interface SeededListing extends DomListing {
+  id: string;
+  history: StatusEvent[];
+  price: number;
+  mortgage: SeededMortgage | null;
+}
+
+/**
+ * Seeded random generator (mulberry32) so failures reproduce
+ * @param {number} seed - Seed
+ * @returns {() => number} Generator of floats in [0, 1)
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Listings with random status histories around AS_OF, including the edge
+ * cases the rules call out: no history, events after AS_OF, a current status
+ * newer than the history and listedAt before the first history row. Prices,
+ * mortgages and midnight creation times come from a second generator so the
+ * histories stay the same; a share of the values sit exactly on bucket edges.
+ * @returns {SeededListing[]} Listings to insert
+ */
+function generateListings(): SeededListing[] {
+  const random = createRandom(20250601);
+  const values = createRandom(20250602);
+  const pick = <T>(items: T[], next = random): T => items[Math.floor(next() * items.length)];
+  const at = (daysBeforeAsOf: number) => new Date(AS_OF.getTime() - Math.round(daysBeforeAsOf * DAY_MS));
+  const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+  const generateMortgage = (): SeededMortgage => ({
+    id: randomUUID(),
+    loanId: randomUUID(),
+    propertyRadarId: randomUUID(),
+    currentBalance: values() < 0.25 ? pick(BALANCE_EDGES, values) : round(values() * 900000, 2),
+    interestRate: values() < 0.25 ? pick(RATE_EDGES, values) : round(2 + values() * 6, 3),
+    recordingDate: new Date(AS_OF.getTime() - (values() < 0.25 ? pick(AGE_EDGE_YEARS, values) * YEAR_MS : Math.round(values() * 30 * YEAR_MS))),
+  });
+
+  return Array.from({ length: LISTING_COUNT }, () => {
+    let createdAt = at(100 + random() * 500);
+    // Midnight UTC, so some listings open a week or month exactly
+    if (values() < 0.1) createdAt = new Date(createdAt.getTime() - (createdAt.getTime() % DAY_MS));
+    const listedAt = random() < 0.2 ? null : new Date(createdAt.getTime() + Math.round(random() * 20 * DAY_MS));
+    const eventCount = random() < 0.15 ? 0 : 1 + Math.floor(random() * 8);
+
+    let time = (listedAt ?? createdAt).getTime() + (random() < 0.3 ? Math.round(random() * 40 * DAY_MS) : 0);
+    const history: StatusEvent[] = [];
+    for (let i = 0; i < eventCount; i++) {
+      history.push({ status: pick(STATUS_POOL), effectiveDate: new Date(time) });
+      // Gaps straddle the 30-day relist threshold; some land after AS_OF
+      time += Math.round((1 + random() * 70) * DAY_MS);
+    }
+
+    const status = random() < 0.7 && history.length > 0 ? history[history.length - 1].status : pick(STATUS_POOL);
+    const lastStatusChange = random() < 0.3 ? null : new Date(time - Math.round(random() * 60 * DAY_MS));
+
+    const price = values() < 0.25 ? pick(PRICE_EDGES, values) - (values() < 0.3 ? 0.01 : 0) : round(30000 + values() ** 2 * 3000000, 0);
+    const mortgage = values() < 0.6 ? generateMortgage() : null;
+
+    return { id: randomUUID(), status, createdAt, listedAt, lastStatusChange, history, price, mortgage };
+  });
+}
+
+/**
+ * Count, range and quantiles computed like `percentile_cont`, so automatic
+ * edges can be derived from the seeded values without the database
+ * @param {number[]} values - Values
+ * @param {number[]} fractions - Quantile fractions
+ * @returns {BucketValueStats} Value statistics
+ */
+function valueStats(values: number[], fractions: number[]): BucketValueStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const quantiles = fractions.map(fraction => {
+    const position = fraction * (sorted.length - 1);
+    const lower = Math.floor(position);
+    return sorted[lower] + (position - lower) * (sorted[Math.ceil(position)] - sorted[lower]);
+  });
+  return { count: sorted.length, min: sorted[0], max: sorted[sorted.length - 1], quantiles };
+}
+
+/**
+ * Bucket values in JavaScript, computing automatic edges from the values
+ * @param {BucketChart} chart - Chart name
+ * @param {number[]} values - Values to bucket
+ * @param {BucketSpec} [spec] - Requested spec
+ * @returns {ChartData} Expected chart
+ */
+function expectedChart(chart: BucketChart, values: number[], spec?: BucketSpec): ChartData {
+  const edges = spec?.kind === 'auto' ? autoBoundaries(spec, valueStats(values, autoFractions(spec))) : [];
+  return bucketValues(values, resolveBucketScheme(chart, spec, edges));
+}
+
+/**
+ * The dashboard route's old `processTimeSeries`, reading dates in UTC:
+ * creation times grouped into weeks starting Sunday or calendar months
+ * @param {Date[]} dates - Creation times
+ * @param {'week'|'month'} interval - Grouping interval
+ * @returns {TimeSeriesData} Periods and counts, oldest first
+ */
+function processTimeSeries(dates: Date[], interval: 'week' | 'month'): TimeSeriesData {
+  const groupedData = new Map<string, number>();
+  dates.forEach(date => {
+    let key: string;
+    if (interval === 'week') {
+      const startOfWeek = new Date(date);
+      startOfWeek.setUTCDate(date.getUTCDate() - date.getUTCDay());
+      key = startOfWeek.toISOString().split('T')[0];
+    } else {
+      key = `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+    }
+    groupedData.set(key, (groupedData.get(key) ?? 0) + 1);
+  });
+
+  const sortedEntries = Array.from(groupedData.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  return { dates: sortedEntries.map(([date]) => date), values: sortedEntries.map(([, count]) => count) };
+}
+
+describe('dashboard queries in SQL', { skip: !DATABASE_URL && 'TEST_DATABASE_URL is not set' }, () => {
+  const listings = generateListings();
+  const mortgages = listings.flatMap(listing => (listing.mortgage ? [listing.mortgage] : []));
+  const filters: DashboardFilters = { mlsInstanceId: TEST_MLS_INSTANCE_ID, status: ALL_STATUSES };
+  const expected = new Map<string, DaysOnMarketResult>(
+    listings.map(listing => [listing.id, computeDaysOnMarket(listing, listing.history, { asOf: AS_OF })])
+  );
+  const expectedDays = listings.map(listing => expected.get(listing.id)!.days);
+
+  let prisma: PrismaClient;
+  let queries: typeof import('@/lib/dashboard-queries');
+  let daysOnMarketSql: typeof import('@/lib/days-on-market').daysOnMarketSql;
+
+  before(async () => {
+    // lib/prisma connects on import, so point it at the test database first
+    process.env.LISTING_DATABASE_URL = DATABASE_URL;
+    prisma = (await import('@/lib/prisma')).default;
+    queries = await import('@/lib/dashboard-queries');
+    ({ daysOnMarketSql } = await import('@/lib/days-on-market'));
+
+    const now = new Date();
+    for (let i = 0; i < mortgages.length; i += 100) {
+      const batch = mortgages.slice(i, i + 100);
+      await prisma.$executeRaw`
+        INSERT INTO "PropertyRadar" (id, "parcelNumber", address, city, state, "zipCode", county, "propertyType")
+        VALUES ${Prisma.join(batch.map((mortgage, j) => Prisma.sql`(
+          ${mortgage.propertyRadarId}, ${mortgage.propertyRadarId}, ${`${i + j} Test St`}, 'Test', 'TS', '00000', 'Test', 'SFR'
+        )`))}
+      `;
+      await prisma.$executeRaw`
+        INSERT INTO "AssumableMortgage" (
+          id, "currentBalance", "interestRate", "monthlyPayment", "remainingTerm", "assumabilityStatus", "updatedAt",
+          "downPayment", "monthlyAllInPayment", "monthlyHoa", "monthlyInsurance", "monthlyPmi", "monthlyPropertyTax", "percentDown"
+        )
+        VALUES ${Prisma.join(batch.map(mortgage => Prisma.sql`(
+          ${mortgage.id}, ${mortgage.currentBalance}, ${mortgage.interestRate}, 0, 360, 'ASSUMABLE', ${now}::timestamp,
+          0, 0, 0, 0, 0, 0, 0
+        )`))}
+      `;
+      await prisma.$executeRaw`
+        INSERT INTO "Loan" (
+          id, "propertyId", "loanPosition", "loanType", "recordingDate", "initialAmount", "lenderName", "updatedAt", "assumableMortgageId"
+        )
+        VALUES ${Prisma.join(batch.map(mortgage => Prisma.sql`(
+          ${mortgage.loanId}, ${mortgage.propertyRadarId}, 1, 'FHA'::"LoanType", ${mortgage.recordingDate}::timestamp,
+          ${mortgage.currentBalance}, 'Test Lender', ${now}::timestamp, ${mortgage.id}
+        )`))}
+      `;
+    }
+
+    for (let i = 0; i < listings.length; i += 100) {
+      const batch = listings.slice(i, i + 100);
+      await prisma.$executeRaw`
+        INSERT INTO "Listing" (
+          id, "mlsProviderId", "mlsInstanceId", "mlsListingId", "parcelNumber", "zipCode", "rawDataHash",
+          status, price, "propertyType", address, latitude, longitude,
+          "createdAt", "updatedAt", "listedAt", "lastStatusChange", "propertyRadarId"
+        )
+        VALUES ${Prisma.join(batch.map((listing, j) => Prisma.sql`(
+          ${listing.id}, 'dom-test', ${TEST_MLS_INSTANCE_ID}, ${`DOM${i + j}`}, ${listing.id}, '00000', 'dom-test',
+          ${listing.status}::"ListingStatus", ${listing.price}, 'SINGLE_FAMILY'::"PropertyType", ${`${i + j} Test St`}, 0, 0,
+          ${listing.createdAt}::timestamp, ${now}::timestamp, ${listing.listedAt}::timestamp, ${listing.lastStatusChange}::timestamp,
+          ${listing.mortgage?.propertyRadarId ?? null}
+        )`))}
+      `;
+
+      const events = batch.flatMap(listing => listing.history.map(event => ({ listingId: listing.id, ...event })));
+      if (events.length === 0) continue;
+      await prisma.$executeRaw`
+        INSERT INTO "ListingHistory" (id, "listingId", price, status, "rawData", "changedFields", "effectiveDate")
+        VALUES ${Prisma.join(events.map(event => Prisma.sql`(
+          ${randomUUID()}, ${event.listingId}, 100000, ${event.status}::"ListingStatus", '{}'::jsonb, '[]'::jsonb,
+          ${event.effectiveDate}::timestamp
+        )`))}
+      `;
+    }
+  });
+
+  after(async () => {
+    if (!prisma) return;
+    await prisma.$executeRaw`
+      DELETE FROM "ListingHistory"
+      WHERE "listingId" IN (SELECT id FROM "Listing" WHERE "mlsInstanceId" = ${TEST_MLS_INSTANCE_ID})
+    `;
+    await prisma.$executeRaw`DELETE FROM "Listing" WHERE "mlsInstanceId" = ${TEST_MLS_INSTANCE_ID}`;
+    if (mortgages.length > 0) {
+      await prisma.$executeRaw`DELETE FROM "Loan" WHERE id IN (${Prisma.join(mortgages.map(mortgage => mortgage.loanId))})`;
+      await prisma.$executeRaw`DELETE FROM "AssumableMortgage" WHERE id IN (${Prisma.join(mortgages.map(mortgage => mortgage.id))})`;
+      await prisma.$executeRaw`DELETE FROM "PropertyRadar" WHERE id IN (${Prisma.join(mortgages.map(mortgage => mortgage.propertyRadarId))})`;
+    }
+    await prisma.$disconnect();
+  });
+
+  describe('days on market', () => {
+    test('matches computeDaysOnMarket for every listing', async () => {
+      const rows = await prisma.$queryRaw<Array<{ listingId: string; days: number; onMarket: boolean; relists: number }>>`
+        ${daysOnMarketSql(Prisma.sql`FROM "Listing" l WHERE l."mlsInstanceId" = ${TEST_MLS_INSTANCE_ID}`, { asOf: AS_OF })}
+      `;
+
+      assert.equal(rows.length, listings.length);
+      for (const row of rows) {
+        const { days, onMarket, relists } = expected.get(row.listingId)!;
+        assert.deepEqual({ listingId: row.listingId, days: row.days, onMarket: row.onMarket, relists: row.relists }, { listingId: row.listingId, days, onMarket, relists });
+      }
+    });
+
+    test('matches the JavaScript summary and default buckets', async () => {
+      const { summary, distribution } = await queries.queryDaysOnMarket(filters, AS_OF);
+
+      assert.deepEqual(summary, summarizeDaysOnMarket(expectedDays));
+      assert.deepEqual(distribution, bucketDaysOnMarket(expectedDays));
+    });
+
+    test('matches the JavaScript edges and buckets for custom and automatic specs', async () => {
+      const specs: BucketSpec[] = [
+        { kind: 'edges', edges: [7, 14, 45, 120] },
+        { kind: 'auto', method: 'quantile', buckets: 4 },
+        { kind: 'auto', method: 'fd', buckets: 8 },
+      ];
+      for (const spec of specs) {
+        const { distribution } = await queries.queryDaysOnMarket(filters, AS_OF, spec);
+        assert.deepEqual(distribution, expectedChart('daysOnMarket', expectedDays, spec), JSON.stringify(spec));
+        if (spec.kind === 'edges') {
+          assert.deepEqual(distribution, bucketDaysOnMarket(expectedDays, resolveBucketScheme('daysOnMarket', spec)));
+        }
+      }
+    });
+  });
+
+  test('price distribution matches bucketValues for every spec', async () => {
+    const prices = listings.map(listing => listing.price);
+    const specs: Array<BucketSpec | undefined> = [
+      undefined,
+      { kind: 'preset', preset: 'lowCost' },
+      { kind: 'edges', edges: [150000, 500000, 1250000] },
+      { kind: 'auto', method: 'quantile', buckets: 5 },
+      { kind: 'auto', method: 'fd', buckets: 8 },
+    ];
+    for (const spec of specs) {
+      const distribution = await queries.queryPriceDistribution(filters, spec);
+      assert.deepEqual(distribution, expectedChart('price', prices, spec), JSON.stringify(spec));
+    }
+  });
+
+  test('mortgage distributions match bucketValues for every spec', async () => {
+    const ages = mortgages.map(mortgage => (AS_OF.getTime() - mortgage.recordingDate.getTime()) / YEAR_MS);
+    const balances = mortgages.map(mortgage => mortgage.currentBalance);
+    const rates = mortgages.map(mortgage => mortgage.interestRate);
+    const specSets: BucketSpecs[] = [
+      {},
+      { mortgageAge: { kind: 'preset', preset: 'recent' }, balance: { kind: 'preset', preset: 'highCost' }, interestRate: { kind: 'preset', preset: 'fine' } },
+      { mortgageAge: { kind: 'edges', edges: [2, 10] }, balance: { kind: 'edges', edges: [250000, 600000] }, interestRate: { kind: 'edges', edges: [3, 6.5] } },
+      {
+        mortgageAge: { kind: 'auto', method: 'quantile', buckets: 4 },
+        balance: { kind: 'auto', method: 'quantile', buckets: 5 },
+        interestRate: { kind: 'auto', method: 'fd', buckets: 10 },
+      },
+    ];
+    for (const specs of specSets) {
+      const { ageDistribution, balanceDistribution, interestRateDistribution } = await queries.queryMortgageDistributions(filters, AS_OF, specs);
+      assert.deepEqual(ageDistribution, expectedChart('mortgageAge', ages, specs.mortgageAge), JSON.stringify(specs));
+      assert.deepEqual(balanceDistribution, expectedChart('balance', balances, specs.balance), JSON.stringify(specs));
+      assert.deepEqual(interestRateDistribution, expectedChart('interestRate', rates, specs.interestRate), JSON.stringify(specs));
+    }
+  });
+
+  test('mortgage distributions apply overrides and leave out values corrected to null', async () => {
+    const [cleared, corrected, unrated] = mortgages;
+    const overlay: DashboardOverlay = {
+      listingPrice: {},
+      mortgageBalance: { [cleared.id]: null, [corrected.id]: 1000000 },
+      mortgageRate: { [unrated.id]: null },
+    };
+    const balances = mortgages.flatMap(mortgage => {
+      if (mortgage === cleared) return [];
+      return [mortgage === corrected ? 1000000 : mortgage.currentBalance];
+    });
+    const rates = mortgages.filter(mortgage => mortgage !== unrated).map(mortgage => mortgage.interestRate);
+
+    const { ageDistribution, balanceDistribution, interestRateDistribution } = await queries.queryMortgageDistributions(filters, AS_OF, {}, overlay);
+    assert.equal(ageDistribution.values.reduce((sum, count) => sum + count, 0), mortgages.length);
+    assert.deepEqual(balanceDistribution, expectedChart('balance', balances));
+    assert.deepEqual(interestRateDistribution, expectedChart('interestRate', rates));
+  });
+
+  test('listing trend matches processTimeSeries for weeks and months', async () => {
+    const since = new Date(AS_OF.getTime() - YEAR_MS);
+    const created = listings.map(listing => listing.createdAt).filter(createdAt => createdAt >= since);
+    for (const interval of ['week', 'month'] as const) {
+      assert.deepEqual(await queries.queryListingTrend(filters, interval, since), processTimeSeries(created, interval), interval);
+    }
+  });
+});
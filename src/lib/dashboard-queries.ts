@@ -0,0 +1,447 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildListingSql } from '@/lib/filters';
+import { DashboardOverlay, overlaySql } from '@/lib/correction-overlay';
+import { UPDATE_GAP_RANGES } from '@/lib/buckets';
+import { daysOnMarketSql, DaysOnMarketSummary } from '@/lib/days-on-market';
+import { autoBoundaries, autoFractions, resolveBucketScheme } from '@/lib/bucket-specs';
+import { BucketChart, BucketScheme, BucketSpec, BucketSpecs, BucketValueStats } from '@/types/buckets';
+import {
+  ChartData,
+  DashboardFilters,
+  MlsUpdateCadence,
+  TimeSeriesData,
+  UpdateCadence,
+  UpdateCadenceStats,
+} from '@/types/dashboard';
+
+/**
+ * Database-side aggregations for the dashboard.
+ *
+ * Each query returns one row per bucket or period instead of one row per
+ * listing, so the work done in Node stays constant as the tables grow. Bucket
+ * boundaries come from lib/bucket-specs (default presets match the JavaScript
+ * bucketing the dashboard used before); every chart returns all labels,
+ * including empty ones.
+ *
+ * Dates are bucketed in UTC.
+ */
+
+const DAY_SECONDS = 86400;
+const YEAR_SECONDS = 365 * DAY_SECONDS;
+
+export interface ValueSource {
+  /** Numeric expression to bucket */
+  value: Prisma.Sql;
+  /** FROM and WHERE clauses producing the rows */
+  from: Prisma.Sql;
+}
+
+/**
+ * 0-based bucket index of a value: `width_bucket` for left-closed buckets,
+ * a CASE over the boundaries for right-closed ones
+ * @param {Prisma.Sql} value - Numeric expression
+ * @param {BucketScheme} scheme - Resolved buckets
+ * @returns {Prisma.Sql} Expression evaluating to the bucket index
+ */
+export const bucketIndexSql = (value: Prisma.Sql, scheme: BucketScheme): Prisma.Sql => {
+  if (scheme.boundaries.length === 0) return Prisma.sql`0`;
+  if (scheme.closed === 'left') {
+    return Prisma.sql`width_bucket((${value})::numeric, ARRAY[${Prisma.join(scheme.boundaries)}]::numeric[])`;
+  }
+  const cases = scheme.boundaries.map((edge, i) => Prisma.sql`WHEN ${value} <= ${edge} THEN ${Prisma.raw(String(i))}`);
+  return Prisma.sql`(CASE ${Prisma.join(cases, ' ')} ELSE ${Prisma.raw(String(scheme.boundaries.length))} END)`;
+};
+
+/**
+ * Lay bucket counts out in scheme order, filling empty buckets with zero
+ * @param {BucketScheme} scheme - Resolved buckets
+ * @param {Array<{bucket: number, count: number}>} rows - Counts per non-empty bucket index
+ * @returns {ChartData} Labels, counts and boundaries
+ */
+export const toChartData = (scheme: BucketScheme, rows: Array<{ bucket: number; count: number }>): ChartData => {
+  const values = scheme.labels.map(() => 0);
+  rows.forEach(row => {
+    values[row.bucket] += row.count;
+  });
+  return { labels: scheme.labels, values, edges: scheme.boundaries };
+};
+
+/**
+ * Count, range and quantiles of a value, the inputs for automatic bucket edges
+ * @param {ValueSource} source - Value expression and the rows it comes from
+ * @param {number[]} fractions - Quantile fractions to compute
+ * @returns {Promise<BucketValueStats>} Value statistics (zeros when there are no rows)
+ */
+async function queryValueStats(source: ValueSource, fractions: number[]): Promise<BucketValueStats> {
+  const [row] = await prisma.$queryRaw<Array<{ count: number; min: number | null; max: number | null; quantiles: number[] | null }>>`
+    SELECT
+      COUNT(v)::int AS count,
+      MIN(v) AS min,
+      MAX(v) AS max,
+      percentile_cont(ARRAY[${Prisma.join(fractions)}]::float8[]) WITHIN GROUP (ORDER BY v) AS quantiles
+    FROM (SELECT (${source.value})::float8 AS v ${source.from}) source_values
+  `;
+  return { count: row?.count ?? 0, min: row?.min ?? 0, max: row?.max ?? 0, quantiles: row?.quantiles ?? [] };
+}
+
+/**
+ * Resolve a chart's bucket spec, querying value statistics for automatic specs
+ * @param {BucketChart} chart - Chart name
+ * @param {BucketSpec | undefined} spec - Requested spec
+ * @param {ValueSource} source - Values the chart buckets
+ * @returns {Promise<BucketScheme>} Resolved buckets
+ */
+export async function resolveSchemeFromSource(chart: BucketChart, spec: BucketSpec | undefined, source: ValueSource): Promise<BucketScheme> {
+  if (spec?.kind !== 'auto') return resolveBucketScheme(chart, spec);
+  const stats = await queryValueStats(source, autoFractions(spec));
+  return resolveBucketScheme(chart, spec, autoBoundaries(spec, stats));
+}
+
+/**
+ * Listing price, with corrected prices swapped in when an overlay is given
+ * @param {DashboardOverlay} [overlay] - Override corrections to apply
+ * @returns {Prisma.Sql} Price expression over `l`
+ */
+const listingPriceSql = (overlay?: DashboardOverlay): Prisma.Sql =>
+  overlay ? overlaySql(Prisma.sql`l.price`, Prisma.sql`l.id`, overlay.listingPrice) : Prisma.sql`l.price`;
+
+/**
+ * Average price of matching listings. Listings without a price are skipped.
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {DashboardOverlay} [overlay] - Override corrections to apply
+ * @returns {Promise<number>} Average price (0 when there are no listings)
+ */
+export async function queryAveragePrice(filters: DashboardFilters, overlay?: DashboardOverlay): Promise<number> {
+  const [row] = await prisma.$queryRaw<Array<{ average: number | null }>>`
+    SELECT AVG(${listingPriceSql(overlay)})::float8 AS average
+    FROM "Listing" l
+    WHERE ${buildListingSql(filters)}
+  `;
+  return row?.average ?? 0;
+}
+
+/**
+ * Listing counts per price bucket. Listings without a price are skipped.
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {BucketSpec} [spec] - Price buckets (PRICE_RANGES by default)
+ * @param {DashboardOverlay} [overlay] - Override corrections to apply
+ * @returns {Promise<ChartData>} Price distribution
+ */
+export async function queryPriceDistribution(filters: DashboardFilters, spec?: BucketSpec, overlay?: DashboardOverlay): Promise<ChartData> {
+  const price = listingPriceSql(overlay);
+  const source: ValueSource = {
+    value: price,
+    from: Prisma.sql`FROM "Listing" l WHERE ${buildListingSql(filters)} AND ${price} IS NOT NULL`,
+  };
+  const scheme = await resolveSchemeFromSource('price', spec, source);
+
+  const rows = await prisma.$queryRaw<Array<{ bucket: number; count: number }>>`
+    SELECT ${bucketIndexSql(source.value, scheme)} AS bucket, COUNT(*)::int AS count
+    ${source.from}
+    GROUP BY 1
+  `;
+  return toChartData(scheme, rows);
+}
+
+/**
+ * FROM/WHERE clauses for assumable mortgages on matching listings, walking
+ * AssumableMortgage (m) -> Loan (lo) -> PropertyRadar -> Listing (l)
+ * @param {DashboardFilters} filters - Validated filters
+ * @returns {Prisma.Sql} FROM ... WHERE ... fragment
+ */
+export const mortgageFromSql = (filters: DashboardFilters): Prisma.Sql => Prisma.sql`
+  FROM "AssumableMortgage" m
+  JOIN "Loan" lo ON lo."assumableMortgageId" = m.id
+  JOIN "Listing" l ON l."propertyRadarId" = lo."propertyId"
+  WHERE ${buildListingSql(filters)}
+`;
+
+/**
+ * Loan age in years from the loan's recording date. AssumableMortgage.createdAt
+ * is when the row was inserted, not when the loan originated.
+ * @param {Date} asOf - Reference time
+ * @returns {Prisma.Sql} Age expression over `lo`, as float8 so averages come back as numbers
+ */
+export const loanAgeSql = (asOf: Date): Prisma.Sql =>
+  Prisma.sql`(EXTRACT(EPOCH FROM (${asOf}::timestamp - lo."recordingDate")) / ${YEAR_SECONDS})::float8`;
+
+export interface MortgageDistributions {
+  ageDistribution: ChartData;
+  balanceDistribution: ChartData;
+  interestRateDistribution: ChartData;
+}
+
+/**
+ * Age, balance and interest-rate histograms of the assumable mortgages on
+ * matching listings (AssumableMortgage -> Loan -> PropertyRadar -> Listing).
+ * A balance or rate corrected to null is left out of that histogram.
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {Date} asOf - Reference time for loan age
+ * @param {BucketSpecs} [specs] - Bucket specs for `mortgageAge`, `balance` and `interestRate`
+ * @param {DashboardOverlay} [overlay] - Override corrections to apply to balance and rate
+ * @returns {Promise<MortgageDistributions>} The three distributions
+ */
+export async function queryMortgageDistributions(
+  filters: DashboardFilters,
+  asOf: Date,
+  specs: BucketSpecs = {},
+  overlay?: DashboardOverlay
+): Promise<MortgageDistributions> {
+  const from = mortgageFromSql(filters);
+  const age = loanAgeSql(asOf);
+  const balance = overlay
+    ? overlaySql(Prisma.sql`m."currentBalance"`, Prisma.sql`m.id`, overlay.mortgageBalance)
+    : Prisma.sql`m."currentBalance"`;
+  const rate = overlay
+    ? overlaySql(Prisma.sql`m."interestRate"`, Prisma.sql`m.id`, overlay.mortgageRate)
+    : Prisma.sql`m."interestRate"`;
+
+  const [ageScheme, balanceScheme, rateScheme] = await Promise.all([
+    resolveSchemeFromSource('mortgageAge', specs.mortgageAge, { value: age, from }),
+    resolveSchemeFromSource('balance', specs.balance, { value: balance, from }),
+    resolveSchemeFromSource('interestRate', specs.interestRate, { value: rate, from }),
+  ]);
+
+  const rows = await prisma.$queryRaw<Array<{ chart: 'age' | 'balance' | 'rate'; bucket: number; count: number }>>`
+    WITH scoped AS (
+      SELECT ${age} AS age, ${balance} AS balance, ${rate} AS rate
+      ${from}
+    )
+    SELECT 'age' AS chart, ${bucketIndexSql(Prisma.sql`age`, ageScheme)} AS bucket, COUNT(*)::int AS count
+    FROM scoped GROUP BY 2
+    UNION ALL
+    SELECT 'balance', ${bucketIndexSql(Prisma.sql`balance`, balanceScheme)}, COUNT(*)::int
+    FROM scoped WHERE balance IS NOT NULL GROUP BY 2
+    UNION ALL
+    SELECT 'rate', ${bucketIndexSql(Prisma.sql`rate`, rateScheme)}, COUNT(*)::int
+    FROM scoped WHERE rate IS NOT NULL GROUP BY 2
+  `;
+
+  const chart = (name: 'age' | 'balance' | 'rate', scheme: BucketScheme) =>
+    toChartData(scheme, rows.filter(row => row.chart === name));
+
+  return {
+    ageDistribution: chart('age', ageScheme),
+    balanceDistribution: chart('balance', balanceScheme),
+    interestRateDistribution: chart('rate', rateScheme),
+  };
+}
+
+export interface DaysOnMarketDistribution {
+  summary: DaysOnMarketSummary;
+  distribution: ChartData;
+}
+
+/**
+ * Days-on-market summary and histogram of matching listings, with DOM
+ * computed per listing in the database (`daysOnMarketSql`). Mean, median and
+ * p90 are rounded to whole days like `summarizeDaysOnMarket`.
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {Date} asOf - Reference time
+ * @param {BucketSpec} [spec] - DOM buckets (DAYS_ON_MARKET_RANGES by default)
+ * @returns {Promise<DaysOnMarketDistribution>} Summary statistics and distribution
+ */
+export async function queryDaysOnMarket(filters: DashboardFilters, asOf: Date, spec?: BucketSpec): Promise<DaysOnMarketDistribution> {
+  const source: ValueSource = {
+    value: Prisma.sql`dom.days`,
+    from: Prisma.sql`FROM (${daysOnMarketSql(Prisma.sql`FROM "Listing" l WHERE ${buildListingSql(filters)}`, { asOf })}) dom`,
+  };
+  const scheme = await resolveSchemeFromSource('daysOnMarket', spec, source);
+
+  const rows = await prisma.$queryRaw<Array<{
+    isTotal: boolean;
+    bucket: number | null;
+    count: number;
+    mean: number | null;
+    median: number | null;
+    p90: number | null;
+  }>>`
+    SELECT
+      GROUPING(bucket) = 1 AS "isTotal",
+      bucket,
+      COUNT(*)::int AS count,
+      AVG(days)::float8 AS mean,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY days)::float8 AS median,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY days)::float8 AS p90
+    FROM (
+      SELECT ${source.value} AS days, ${bucketIndexSql(source.value, scheme)} AS bucket
+      ${source.from}
+    ) buckets
+    GROUP BY GROUPING SETS ((bucket), ())
+  `;
+
+  const total = rows.find(row => row.isTotal);
+  return {
+    summary: {
+      count: total?.count ?? 0,
+      mean: Math.round(total?.mean ?? 0),
+      median: Math.round(total?.median ?? 0),
+      p90: Math.round(total?.p90 ?? 0),
+    },
+    distribution: toChartData(scheme, rows.filter(row => !row.isTotal) as Array<{ bucket: number; count: number }>),
+  };
+}
+
+/**
+ * New listings per week (starting Sunday) or per month, across every status
+ * @param {DashboardFilters} filters - Validated filters (the status set is ignored)
+ * @param {'week'|'month'} interval - Period length
+ * @param {Date} since - Only listings created at or after this time
+ * @returns {Promise<TimeSeriesData>} `YYYY-MM-DD` week starts or `YYYY-MM` months with counts, oldest first
+ */
+export async function queryListingTrend(
+  filters: DashboardFilters,
+  interval: 'week' | 'month',
+  since: Date
+): Promise<TimeSeriesData> {
+  // date_trunc weeks start on Monday; shift by a day so they start on Sunday
+  const period = interval === 'week'
+    ? Prisma.sql`to_char(date_trunc('week', l."createdAt" + interval '1 day') - interval '1 day', 'YYYY-MM-DD')`
+    : Prisma.sql`to_char(date_trunc('month', l."createdAt"), 'YYYY-MM')`;
+
+  const rows = await prisma.$queryRaw<Array<{ period: string; count: number }>>`
+    SELECT ${period} AS period, COUNT(*)::int AS count
+    FROM "Listing" l
+    WHERE ${buildListingSql(filters, { includeStatus: false })} AND l."createdAt" >= ${since}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  return { dates: rows.map(row => row.period), values: rows.map(row => row.count) };
+}
+
+/** Trailing window the update cadence is measured over */
+export const UPDATE_CADENCE_WINDOW_DAYS = 90;
+/** Listings without an update for this long count as untouched */
+export const UNTOUCHED_AFTER_DAYS = 30;
+
+interface UpdateCadenceRow {
+  mlsInstanceId: string | null;
+  isTotal: boolean;
+  name: string | null;
+  listingCount: number;
+  updates: number;
+  weeks: number;
+  untouched: number;
+  medianGapDays: number | null;
+  gapCounts: number[] | null;
+}
+
+/**
+ * Update cadence of matching listings, overall and per MLS instance. Updates
+ * are read from ListingAudit, from ListingHistory rows not linked to an audit
+ * (those duplicate the audit) and from `lastMlsUpdate`; a listing's updates
+ * within the same minute count once. Rates and gaps cover the trailing
+ * UPDATE_CADENCE_WINDOW_DAYS, with each listing weighted by the part of the
+ * window it existed for; the untouched share looks at the latest update ever.
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {Date} asOf - Reference time
+ * @returns {Promise<UpdateCadence>} Cadence with the gap distribution and per-MLS breakdown
+ */
+export async function queryUpdateCadence(filters: DashboardFilters, asOf: Date): Promise<UpdateCadence> {
+  const windowStart = new Date(asOf.getTime() - UPDATE_CADENCE_WINDOW_DAYS * DAY_SECONDS * 1000);
+  const untouchedBefore = new Date(asOf.getTime() - UNTOUCHED_AFTER_DAYS * DAY_SECONDS * 1000);
+  const gapBuckets = Prisma.join(UPDATE_GAP_RANGES.map(range => range.max === null
+    ? Prisma.sql`COUNT(*) FILTER (WHERE gap >= ${range.min})::int`
+    : Prisma.sql`COUNT(*) FILTER (WHERE gap >= ${range.min} AND gap < ${range.max})::int`
+  ));
+
+  const rows = await prisma.$queryRaw<UpdateCadenceRow[]>`
+    WITH scoped AS (
+      SELECT l.id, l."mlsInstanceId", l."denormalizedMlsInstanceName" AS name, l."createdAt", l."lastMlsUpdate"
+      FROM "Listing" l
+      WHERE ${buildListingSql(filters)}
+    ),
+    events AS (
+      SELECT DISTINCT e."listingId", date_trunc('minute', e.at) AS at
+      FROM (
+        SELECT a."listingId", a."createdAt" AS at FROM "ListingAudit" a JOIN scoped s ON s.id = a."listingId"
+        UNION ALL
+        SELECT h."listingId", h."createdAt" FROM "ListingHistory" h JOIN scoped s ON s.id = h."listingId"
+        WHERE h."auditId" IS NULL
+        UNION ALL
+        SELECT s.id, s."lastMlsUpdate" FROM scoped s WHERE s."lastMlsUpdate" IS NOT NULL
+      ) e
+      WHERE e.at <= ${asOf}::timestamp
+    ),
+    gaps AS (
+      SELECT
+        s."mlsInstanceId",
+        EXTRACT(EPOCH FROM (e.at - LAG(e.at) OVER (PARTITION BY e."listingId" ORDER BY e.at))) / ${DAY_SECONDS} AS gap
+      FROM events e
+      JOIN scoped s ON s.id = e."listingId"
+      WHERE e.at >= ${windowStart}::timestamp
+    ),
+    listings AS (
+      SELECT
+        s."mlsInstanceId",
+        s.name,
+        COALESCE(u.updates, 0) AS updates,
+        GREATEST(
+          EXTRACT(EPOCH FROM (${asOf}::timestamp - GREATEST(s."createdAt", ${windowStart}::timestamp))) / ${7 * DAY_SECONDS},
+          1.0 / 7
+        ) AS weeks,
+        GREATEST(s."createdAt", u."lastUpdate") AS "lastTouch"
+      FROM scoped s
+      LEFT JOIN (
+        SELECT "listingId", COUNT(*) FILTER (WHERE at >= ${windowStart}::timestamp) AS updates, MAX(at) AS "lastUpdate"
+        FROM events
+        GROUP BY 1
+      ) u ON u."listingId" = s.id
+    ),
+    by_listing AS (
+      SELECT
+        "mlsInstanceId",
+        GROUPING("mlsInstanceId") = 1 AS "isTotal",
+        MAX(name) AS name,
+        COUNT(*)::int AS "listingCount",
+        COALESCE(SUM(updates), 0)::float AS updates,
+        COALESCE(SUM(weeks), 0)::float AS weeks,
+        COUNT(*) FILTER (WHERE "lastTouch" < ${untouchedBefore}::timestamp)::int AS untouched
+      FROM listings
+      GROUP BY GROUPING SETS (("mlsInstanceId"), ())
+    ),
+    by_gap AS (
+      SELECT
+        "mlsInstanceId",
+        GROUPING("mlsInstanceId") = 1 AS "isTotal",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY gap)::float AS "medianGapDays",
+        ARRAY[${gapBuckets}] AS "gapCounts"
+      FROM gaps
+      WHERE gap IS NOT NULL
+      GROUP BY GROUPING SETS (("mlsInstanceId"), ())
+    )
+    SELECT b.*, g."medianGapDays", g."gapCounts"
+    FROM by_listing b
+    LEFT JOIN by_gap g ON g."isTotal" = b."isTotal" AND g."mlsInstanceId" IS NOT DISTINCT FROM b."mlsInstanceId"
+  `;
+
+  const stats = (row: UpdateCadenceRow | undefined): UpdateCadenceStats => ({
+    listingCount: row?.listingCount ?? 0,
+    updatesPerListingPerWeek: row && row.weeks > 0 ? row.updates / row.weeks : 0,
+    medianGapDays: row?.medianGapDays ?? null,
+    untouchedShare: row && row.listingCount > 0 ? row.untouched / row.listingCount : 0,
+  });
+
+  const total = rows.find(row => row.isTotal);
+  const byMls = rows
+    .filter(row => !row.isTotal)
+    .map((row): MlsUpdateCadence => ({
+      ...stats(row),
+      mlsInstanceId: row.mlsInstanceId ?? '',
+      name: row.name || row.mlsInstanceId || 'Unknown MLS',
+    }))
+    .sort((a, b) => b.listingCount - a.listingCount || a.name.localeCompare(b.name));
+
+  return {
+    ...stats(total),
+    windowDays: UPDATE_CADENCE_WINDOW_DAYS,
+    untouchedAfterDays: UNTOUCHED_AFTER_DAYS,
+    gapDistribution: {
+      labels: UPDATE_GAP_RANGES.map(range => range.label),
+      values: total?.gapCounts ?? UPDATE_GAP_RANGES.map(() => 0),
+    },
+    byMls,
+  };
+}
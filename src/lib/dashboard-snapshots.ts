@@ -0,0 +1,363 @@
+import { createHash } from 'crypto';
+import { computeDashboardData } from '@/lib/dashboard';
+import { filtersToSearchParams } from '@/lib/filters';
+import { bucketSpecsToSearchParams } from '@/lib/bucket-specs';
+import { BucketSpecs } from '@/types/buckets';
+import {
+  ChartChange,
+  ChartData,
+  DashboardData,
+  DashboardFilters,
+  MetricChange,
+  SnapshotComparison,
+  SnapshotInfo,
+} from '@/types/dashboard';
+
+/**
+ * Precomputed dashboard snapshots.
+ *
+ * `computeDashboardData` is expensive, so payloads are computed once per filter
+ * set (including bucket specs) and kept in memory until they are older than the TTL
+ * (`DASHBOARD_SNAPSHOT_TTL_SECONDS`, default 5 minutes). Concurrent requests for
+ * the same filters share one computation. A few older snapshots are kept per
+ * filter set so the UI can show what changed between refreshes. Payloads with
+ * override corrections applied are cached under their own key.
+ *
+ * Snapshots live in memory on `globalThis` of the server process, so each
+ * instance keeps its own copy. Behind a load balancer, consecutive requests can
+ * hit instances that computed the same filter set at different times and get a
+ * different `generatedAt` and ETag (and a 200 instead of a 304). Expiring
+ * snapshots after a write, or `POST /api/dashboard/snapshots` from an external
+ * scheduler, only reaches the instance that handled the request.
+ *
+ * Forced refreshes (`refresh`, the POST route) are rate limited per filter set:
+ * a snapshot younger than `DASHBOARD_SNAPSHOT_MIN_REFRESH_SECONDS` (default 30)
+ * is served instead of recomputed, so repeated refresh requests cannot keep the
+ * database busy.
+ */
+
+export interface DashboardSnapshot {
+  key: string;
+  filters: DashboardFilters;
+  buckets: BucketSpecs;
+  /** Computed with override corrections applied */
+  corrected: boolean;
+  data: DashboardData;
+  /** When the computation started; the data reflects the database no later than this */
+  startedAt: Date;
+  generatedAt: Date;
+  computeMs: number;
+  /** Strong ETag of the payload and its generation time */
+  etag: string;
+}
+
+interface SnapshotEntry {
+  /** Newest first */
+  history: DashboardSnapshot[];
+  pending?: Promise<DashboardSnapshot>;
+  /** Start time (ms) of the pending computation */
+  pendingStartedAt?: number;
+  lastRequestedAt: number;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_MIN_REFRESH_SECONDS = 30;
+/** Snapshots kept per filter set, including the current one */
+const HISTORY_LENGTH = 5;
+/** Least recently requested filter sets are evicted past this */
+const MAX_FILTER_SETS = 100;
+
+export const SNAPSHOT_TTL_SECONDS = Number(process.env.DASHBOARD_SNAPSHOT_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+/** Forced refreshes of a filter set within this many seconds reuse its current snapshot */
+export const SNAPSHOT_MIN_REFRESH_SECONDS =
+  Number(process.env.DASHBOARD_SNAPSHOT_MIN_REFRESH_SECONDS) || DEFAULT_MIN_REFRESH_SECONDS;
+
+// Kept on globalThis so dev hot reloads don't drop the cache (same as the Prisma client)
+const globalForSnapshots = globalThis as unknown as {
+  dashboardSnapshots?: Map<string, SnapshotEntry>;
+  /** Snapshots generated at or before this time (ms) are treated as expired */
+  dashboardSnapshotsExpiredAt?: number;
+};
+const store = globalForSnapshots.dashboardSnapshots ?? new Map<string, SnapshotEntry>();
+globalForSnapshots.dashboardSnapshots = store;
+
+/**
+ * Canonical cache key for a filter set: sorted parameters and sorted list values,
+ * so equivalent filters share a snapshot regardless of order
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {BucketSpecs} [buckets] - Bucket specs (defaults are omitted from the key)
+ * @param {boolean} [corrected=false] - Whether override corrections are applied
+ * @returns {string} Query-string style key (empty for no filters)
+ */
+export function snapshotKey(filters: DashboardFilters, buckets: BucketSpecs = {}, corrected = false): string {
+  const filterParams = Array.from(filtersToSearchParams(filters).entries())
+    .map(([key, value]) => [key, value.split(',').sort().join(',')]);
+  const correctionParams = corrected ? [['corrected', 'true']] : [];
+  // Bucket boundaries are ordered, so their values are kept as-is
+  return [...filterParams, ...correctionParams, ...Array.from(bucketSpecsToSearchParams(buckets).entries())]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+const computeEtag = (data: DashboardData, generatedAt: Date) =>
+  `"${createHash('sha1').update(generatedAt.toISOString()).update(JSON.stringify(data)).digest('base64url')}"`;
+
+/**
+ * Whether a computation that started at `startedAt` (ms) could have seen the
+ * latest expiring change. Compared on the start time: a computation already
+ * running when snapshots are expired may have read the data before the change.
+ */
+const startedAfterExpiry = (startedAt: number) => startedAt > (globalForSnapshots.dashboardSnapshotsExpiredAt ?? 0);
+
+const isFresh = (snapshot: DashboardSnapshot, now: number) =>
+  now - snapshot.generatedAt.getTime() < SNAPSHOT_TTL_SECONDS * 1000 && startedAfterExpiry(snapshot.startedAt.getTime());
+
+/**
+ * Expire every cached snapshot so the next request recomputes it, for changes
+ * that affect all filter sets at once (e.g. hiding an MLS instance). History
+ * is kept so comparisons still work, and computations already in flight are
+ * not reused.
+ */
+export function expireDashboardSnapshots() {
+  globalForSnapshots.dashboardSnapshotsExpiredAt = Date.now();
+}
+
+function evictLeastRecent() {
+  if (store.size <= MAX_FILTER_SETS) return;
+  const [oldestKey] = Array.from(store.entries())
+    .filter(([, entry]) => !entry.pending)
+    .sort(([, a], [, b]) => a.lastRequestedAt - b.lastRequestedAt)[0] ?? [];
+  if (oldestKey !== undefined) store.delete(oldestKey);
+}
+
+async function computeSnapshot(
+  key: string,
+  filters: DashboardFilters,
+  buckets: BucketSpecs,
+  corrected: boolean,
+  startedAt: Date
+): Promise<DashboardSnapshot> {
+  const data = await computeDashboardData(filters, buckets, { corrected });
+  const generatedAt = new Date();
+  return {
+    key,
+    filters,
+    buckets,
+    corrected,
+    data,
+    startedAt,
+    generatedAt,
+    computeMs: generatedAt.getTime() - startedAt.getTime(),
+    etag: computeEtag(data, generatedAt),
+  };
+}
+
+/**
+ * Current snapshot for a filter set, computing it when missing, expired or forced
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {Object} [options]
+ * @param {boolean} [options.refresh=false] - Recompute even if the snapshot is fresh, unless it is
+ *   younger than `SNAPSHOT_MIN_REFRESH_SECONDS`
+ * @param {BucketSpecs} [options.buckets] - Bucket specs for the distribution charts
+ * @param {boolean} [options.corrected=false] - Apply override corrections
+ * @returns {Promise<DashboardSnapshot>} The snapshot to serve
+ * @throws {Error} If the computation fails (the previous snapshot is kept)
+ */
+export async function getDashboardSnapshot(
+  filters: DashboardFilters,
+  { refresh = false, buckets = {}, corrected = false }: { refresh?: boolean; buckets?: BucketSpecs; corrected?: boolean } = {}
+): Promise<DashboardSnapshot> {
+  const key = snapshotKey(filters, buckets, corrected);
+  const now = Date.now();
+  let entry = store.get(key);
+  if (!entry) {
+    entry = { history: [], lastRequestedAt: now };
+    store.set(key, entry);
+    evictLeastRecent();
+  }
+  entry.lastRequestedAt = now;
+
+  const current = entry.history[0];
+  const recent = current && now - current.generatedAt.getTime() < SNAPSHOT_MIN_REFRESH_SECONDS * 1000;
+  if (current && (!refresh || recent) && isFresh(current, now)) return current;
+  // A refresh already in flight is at least as new as the one being asked for,
+  // unless snapshots were expired after it started
+  if (entry.pending && startedAfterExpiry(entry.pendingStartedAt ?? 0)) return entry.pending;
+
+  const target = entry;
+  const startedAt = new Date();
+  const pending = computeSnapshot(key, filters, buckets, corrected, startedAt)
+    .then(snapshot => {
+      // An expired computation can finish after the one that replaced it
+      target.history = [...target.history, snapshot]
+        .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+        .slice(0, HISTORY_LENGTH);
+      return snapshot;
+    })
+    .finally(() => {
+      if (target.pending === pending) {
+        target.pending = undefined;
+        target.pendingStartedAt = undefined;
+      }
+    });
+  target.pending = pending;
+  target.pendingStartedAt = startedAt.getTime();
+  return pending;
+}
+
+/**
+ * Recompute snapshots for every cached filter set plus the unfiltered dashboard.
+ * Runs sequentially to keep database load flat; filter sets refreshed within
+ * `SNAPSHOT_MIN_REFRESH_SECONDS` keep their snapshot.
+ * @returns {Promise<Array<{key: string, generatedAt?: string, error?: string}>>} Outcome per filter set
+ */
+export async function refreshDashboardSnapshots(): Promise<Array<{ key: string; generatedAt?: string; error?: string }>> {
+  const filterSets: Array<{ filters: DashboardFilters; buckets: BucketSpecs; corrected: boolean }> = [
+    { filters: {}, buckets: {}, corrected: false },
+  ];
+  store.forEach((entry, key) => {
+    const latest = entry.history[0];
+    if (latest && key !== '') filterSets.push({ filters: latest.filters, buckets: latest.buckets, corrected: latest.corrected });
+  });
+
+  const results: Array<{ key: string; generatedAt?: string; error?: string }> = [];
+  for (const { filters, buckets, corrected } of filterSets) {
+    const key = snapshotKey(filters, buckets, corrected);
+    try {
+      const snapshot = await getDashboardSnapshot(filters, { refresh: true, buckets, corrected });
+      results.push({ key, generatedAt: snapshot.generatedAt.toISOString() });
+    } catch (error) {
+      results.push({ key, error: error instanceof Error ? error.message : 'Unknown error occurred' });
+    }
+  }
+  return results;
+}
+
+/**
+ * Summary of every cached filter set, newest snapshot first
+ * @returns {Array<{key: string, generatedAt: string, computeMs: number, history: number}>} Cache listing
+ */
+export function listDashboardSnapshots(): Array<{ key: string; generatedAt: string; computeMs: number; history: number }> {
+  return Array.from(store.values())
+    .filter(entry => entry.history.length > 0)
+    .map(entry => ({
+      key: entry.history[0].key,
+      generatedAt: entry.history[0].generatedAt.toISOString(),
+      computeMs: entry.history[0].computeMs,
+      history: entry.history.length,
+    }))
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+}
+
+/**
+ * Snapshot metadata sent alongside the payload
+ * @param {DashboardSnapshot} snapshot - Served snapshot
+ * @returns {SnapshotInfo} Age and provenance of the snapshot
+ */
+export function describeSnapshot(snapshot: DashboardSnapshot): SnapshotInfo {
+  const previous = store.get(snapshot.key)?.history.find(s => s.generatedAt < snapshot.generatedAt);
+  return {
+    key: snapshot.key,
+    generatedAt: snapshot.generatedAt.toISOString(),
+    ageSeconds: Math.max(0, Math.round((Date.now() - snapshot.generatedAt.getTime()) / 1000)),
+    maxAgeSeconds: SNAPSHOT_TTL_SECONDS,
+    computeMs: snapshot.computeMs,
+    previousGeneratedAt: previous?.generatedAt.toISOString() ?? null,
+  };
+}
+
+const metricChange = (metric: string, current: number, previous: number): MetricChange => ({
+  metric,
+  current,
+  previous,
+  change: current - previous,
+  percentChange: previous !== 0 ? (current - previous) / previous : null,
+});
+
+/** Bucket counts aligned on the union of both label sets */
+function chartChange(chart: string, current: ChartData, previous: ChartData): ChartChange | null {
+  const labels = [...current.labels, ...previous.labels.filter(label => !current.labels.includes(label))];
+  const valueOf = (data: ChartData, label: string) => data.values[data.labels.indexOf(label)] ?? 0;
+  const currentValues = labels.map(label => valueOf(current, label));
+  const previousValues = labels.map(label => valueOf(previous, label));
+  if (currentValues.every((value, i) => value === previousValues[i])) return null;
+  return { chart, labels, current: currentValues, previous: previousValues };
+}
+
+/**
+ * Compare two snapshots of the same filter set: headline metrics and the
+ * distribution charts that changed
+ * @param {DashboardSnapshot} current - Newer snapshot
+ * @param {DashboardSnapshot} previous - Older snapshot
+ * @returns {SnapshotComparison} Metric deltas and changed charts
+ */
+export function compareSnapshots(current: DashboardSnapshot, previous: DashboardSnapshot): SnapshotComparison {
+  const a = current.data;
+  const b = previous.data;
+
+  const charts: Array<[string, ChartData, ChartData]> = [
+    ['Assumable Loan Types', a.assumableListings, b.assumableListings],
+    ['Price Distribution', a.priceDistribution, b.priceDistribution],
+    ['Mortgage Age', a.mortgageAnalytics.ageDistribution, b.mortgageAnalytics.ageDistribution],
+    ['Mortgage Balance', a.mortgageAnalytics.balanceDistribution, b.mortgageAnalytics.balanceDistribution],
+    ['Interest Rate', a.mortgageAnalytics.interestRateDistribution, b.mortgageAnalytics.interestRateDistribution],
+    ['Status Distribution', a.listingLifecycle.statusDistribution, b.listingLifecycle.statusDistribution],
+    ['Days on Market', a.listingLifecycle.daysOnMarketByType, b.listingLifecycle.daysOnMarketByType],
+    ['Update Gaps', a.listingLifecycle.updateCadence.gapDistribution, b.listingLifecycle.updateCadence.gapDistribution],
+  ];
+
+  return {
+    key: current.key,
+    currentGeneratedAt: current.generatedAt.toISOString(),
+    previousGeneratedAt: previous.generatedAt.toISOString(),
+    metrics: [
+      metricChange('Total Listings', a.totalListings, b.totalListings),
+      metricChange('Average Price', a.metrics.averagePrice, b.metrics.averagePrice),
+      metricChange('Avg Days on Market', a.metrics.averageDaysOnMarket, b.metrics.averageDaysOnMarket),
+      metricChange('Median Days on Market', a.metrics.medianDaysOnMarket, b.metrics.medianDaysOnMarket),
+      metricChange('New Listings (30d)', a.metrics.totalNewListingsLast30Days, b.metrics.totalNewListingsLast30Days),
+      metricChange(
+        'Updates / Listing / Week',
+        a.listingLifecycle.updateCadence.updatesPerListingPerWeek,
+        b.listingLifecycle.updateCadence.updatesPerListingPerWeek
+      ),
+    ],
+    charts: charts
+      .map(([name, now, before]) => chartChange(name, now, before))
+      .filter((change): change is ChartChange => change !== null),
+  };
+}
+
+/**
+ * Compare the current snapshot of a filter set with the previous one kept for it
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {BucketSpecs} [buckets] - Bucket specs the snapshots were computed with
+ * @param {boolean} [corrected=false] - Compare the snapshots with override corrections applied
+ * @returns {Promise<SnapshotComparison | null>} Comparison, or null when only one snapshot exists
+ */
+export async function compareWithPreviousSnapshot(
+  filters: DashboardFilters,
+  buckets: BucketSpecs = {},
+  corrected = false
+): Promise<SnapshotComparison | null> {
+  const current = await getDashboardSnapshot(filters, { buckets, corrected });
+  const previous = store.get(current.key)?.history.find(s => s.generatedAt < current.generatedAt);
+  return previous ? compareSnapshots(current, previous) : null;
+}
+
+/**
+ * Compare the corrected snapshot of a filter set with the raw one: `current`
+ * is the payload with override corrections applied, `previous` without
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {BucketSpecs} [buckets] - Bucket specs for the distribution charts
+ * @returns {Promise<SnapshotComparison>} Metric deltas and charts the corrections change
+ */
+export async function compareCorrectedWithRaw(filters: DashboardFilters, buckets: BucketSpecs = {}): Promise<SnapshotComparison> {
+  const [corrected, raw] = await Promise.all([
+    getDashboardSnapshot(filters, { buckets, corrected: true }),
+    getDashboardSnapshot(filters, { buckets }),
+  ]);
+  return compareSnapshots(corrected, raw);
+}
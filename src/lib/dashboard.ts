@@ -0,0 +1,155 @@
+import prisma from '@/lib/prisma';
+import { buildListingWhere } from '@/lib/filters';
+import { loadHiddenMlsInstanceIds } from '@/lib/mls-visibility';
+import { aggregateListingTiles, MIN_TILE_ZOOM } from '@/lib/geo';
+import { groupByStatusCategory } from '@/lib/listing-status';
+import { loadDashboardOverlay, summarizeOverlay } from '@/lib/correction-overlay';
+import {
+  queryAveragePrice,
+  queryDaysOnMarket,
+  queryListingTrend,
+  queryMortgageDistributions,
+  queryPriceDistribution,
+  queryUpdateCadence,
+} from '@/lib/dashboard-queries';
+import { BucketSpecs } from '@/types/buckets';
+import { DashboardData, DashboardFilters } from '@/types/dashboard';
+
+/**
+ * Compute the full dashboard payload:
+ * - Basic metrics (total listings, average price, recent activity)
+ * - Assumable mortgage analytics
+ * - Price distribution analysis
+ * - Weekly and Monthly trends
+ * - Listing lifecycle metrics, including update cadence from the audit trail
+ *
+ * Every section is scoped by `filters`. Listings default to ACTIVE status
+ * unless a `status` set is passed, and listings of hidden MLS instances are
+ * left out unless `includeHidden` is set. Histograms, trends and days on market
+ * are aggregated in the database (lib/dashboard-queries); DOM follows the
+ * lib/days-on-market rules through `daysOnMarketSql`. Callers should still go
+ * through the snapshot cache in lib/dashboard-snapshots rather than call this
+ * per request.
+ *
+ * With `corrected`, ACTIVE override corrections to listing prices and
+ * assumable mortgage balances and rates are applied to the average price and
+ * the price, balance and rate histograms (lib/correction-overlay). Filters
+ * still match on the stored values.
+ *
+ * @param {DashboardFilters} filters - Validated dashboard filters
+ * @param {BucketSpecs} [buckets] - Bucket specs for the distribution charts (default presets when omitted)
+ * @param {Object} [options]
+ * @param {boolean} [options.corrected=false] - Apply override corrections
+ * @returns {Promise<DashboardData>} Dashboard data
+ * @throws {Error} If database queries fail
+ */
+export async function computeDashboardData(
+  filters: DashboardFilters,
+  buckets: BucketSpecs = {},
+  { corrected = false }: { corrected?: boolean } = {}
+): Promise<DashboardData> {
+  const [overlay, hiddenMlsInstanceIds] = await Promise.all([
+    corrected ? loadDashboardOverlay() : undefined,
+    filters.includeHidden ? [] : loadHiddenMlsInstanceIds(),
+  ]);
+  const listingWhere = buildListingWhere(filters, { hiddenMlsInstanceIds });
+  // Status breakdowns and trends cover every status within the other filters
+  const listingWhereAnyStatus = buildListingWhere(filters, { includeStatus: false, hiddenMlsInstanceIds });
+
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const [
+    totalActive,
+    avgPrice,
+    recentMetrics,
+    loanDistribution,
+    statusDistribution,
+    priceDistribution,
+    mortgageDistributions,
+    weeklyTrend,
+    monthlyTrend,
+    updateCadence,
+    daysOnMarket,
+    geoClusters
+  ] = await Promise.all([
+    // Total listings count
+    prisma.listing.count({
+      where: listingWhere
+    }),
+    // Average price of listings
+    queryAveragePrice(filters, overlay),
+    // New listings in last 30 days
+    prisma.listing.count({
+      where: {
+        AND: [listingWhere, { createdAt: { gte: daysAgo(30) } }]
+      }
+    }),
+    // Top 3 assumable loan types
+    prisma.listing.groupBy({
+      by: ['denormalizedAssumableLoanType'],
+      where: {
+        AND: [listingWhere, { denormalizedAssumableLoanType: { not: null } }]
+      },
+      _count: {
+        denormalizedAssumableLoanType: true
+      },
+      orderBy: {
+        _count: {
+          denormalizedAssumableLoanType: 'desc'
+        }
+      },
+      take: 3
+    }),
+    // Overall status distribution
+    prisma.listing.groupBy({
+      by: ['status'],
+      where: listingWhereAnyStatus,
+      _count: true
+    }),
+    queryPriceDistribution(filters, buckets.price, overlay),
+    queryMortgageDistributions(filters, now, buckets, overlay),
+    queryListingTrend(filters, 'week', daysAgo(90)),
+    queryListingTrend(filters, 'month', daysAgo(365)),
+    queryUpdateCadence(filters, now),
+    queryDaysOnMarket(filters, now, buckets.daysOnMarket),
+    // Coarsest tile level gives a national overview; the map tab refines it per viewport
+    aggregateListingTiles(listingWhere, MIN_TILE_ZOOM)
+  ]);
+
+  return {
+    totalListings: totalActive,
+    metrics: {
+      averagePrice: avgPrice,
+      averageDaysOnMarket: daysOnMarket.summary.mean,
+      medianDaysOnMarket: daysOnMarket.summary.median,
+      p90DaysOnMarket: daysOnMarket.summary.p90,
+      totalNewListingsLast30Days: recentMetrics
+    },
+    assumableListings: {
+      labels: loanDistribution.map(d => d.denormalizedAssumableLoanType || 'Unknown'),
+      values: loanDistribution.map(d => d._count.denormalizedAssumableLoanType),
+    },
+    priceDistribution,
+    listingTrends: {
+      weekly: weeklyTrend,
+      monthly: monthlyTrend
+    },
+    mortgageAnalytics: mortgageDistributions,
+    geographicData: geoClusters.map(({ latitude, longitude, count, loanType }) => ({
+      latitude,
+      longitude,
+      count,
+      loanType
+    })),
+    listingLifecycle: {
+      // 40 MLS statuses collapse into lifecycle categories so the chart stays readable
+      statusDistribution: groupByStatusCategory(
+        statusDistribution.map(s => ({ status: s.status, count: s._count }))
+      ),
+      daysOnMarketByType: daysOnMarket.distribution,
+      updateCadence
+    },
+    ...(overlay && { corrections: summarizeOverlay(overlay) })
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ListingStatus } from '@prisma/client';
+import { computeDaysOnMarket, DomListing, percentile, StatusEvent, summarizeDaysOnMarket } from '@/lib/days-on-market';
+
+const DAY_MS = 86400000;
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+
+/** Date `days` after 2024-01-01 */
+const day = (days: number) => new Date(START + days * DAY_MS);
+
+const history = (...events: Array<[ListingStatus, number]>): StatusEvent[] =>
+  events.map(([status, days]) => ({ status, effectiveDate: day(days) }));
+
+const listing = (overrides: Partial<DomListing> = {}): DomListing => ({
+  status: 'ACTIVE',
+  createdAt: day(0),
+  listedAt: day(0),
+  lastStatusChange: null,
+  ...overrides,
+});
+
+describe('computeDaysOnMarket', () => {
+  describe('without history', () => {
+    test('counts from listedAt to asOf for active listings', () => {
+      assert.deepEqual(
+        computeDaysOnMarket(listing(), [], { asOf: day(45) }),
+        { days: 45, onMarket: true, relists: 0, source: 'fallback' }
+      );
+    });
+
+    test('falls back to createdAt without listedAt', () => {
+      const result = computeDaysOnMarket(listing({ listedAt: null, createdAt: day(10) }), [], { asOf: day(45) });
+      assert.equal(result.days, 35);
+    });
+
+    test('stops at lastStatusChange for off-market listings', () => {
+      const result = computeDaysOnMarket(listing({ status: 'SOLD', lastStatusChange: day(20) }), [], { asOf: day(45) });
+      assert.deepEqual(result, { days: 20, onMarket: false, relists: 0, source: 'fallback' });
+    });
+
+    test('ignores a lastStatusChange before listedAt', () => {
+      const result = computeDaysOnMarket(listing({ status: 'WITHDRAWN', listedAt: day(10), lastStatusChange: day(5) }), [], { asOf: day(45) });
+      assert.equal(result.days, 35);
+    });
+  });
+
+  test('stops the clock when the listing goes under contract', () => {
+    const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['PENDING', 20]), { asOf: day(45) });
+    assert.deepEqual(result, { days: 20, onMarket: false, relists: 0, source: 'history' });
+  });
+
+  test('continues after a contract falls through', () => {
+    const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['PENDING', 10], ['BACK_ON_MARKET', 20]), { asOf: day(30) });
+    assert.deepEqual(result, { days: 20, onMarket: true, relists: 0, source: 'history' });
+  });
+
+  describe('pause statuses', () => {
+    test('pause and resume without resetting', () => {
+      const result = computeDaysOnMarket(
+        listing(),
+        history(['ACTIVE', 0], ['TEMPORARILY_OFF_MARKET', 10], ['ACTIVE', 25]),
+        { asOf: day(40) }
+      );
+      assert.deepEqual(result, { days: 25, onMarket: true, relists: 0, source: 'history' });
+    });
+
+    test('never reset, however long the pause', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['HOLD', 10], ['ACTIVE', 100]), { asOf: day(110) });
+      assert.deepEqual(result, { days: 20, onMarket: true, relists: 0, source: 'history' });
+    });
+  });
+
+  describe('relists', () => {
+    test('reset the clock after a long off-market gap', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['WITHDRAWN', 10], ['ACTIVE', 50]), { asOf: day(60) });
+      assert.deepEqual(result, { days: 10, onMarket: true, relists: 1, source: 'history' });
+    });
+
+    test('keep counting after a short off-market gap', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['EXPIRED', 10], ['ACTIVE', 20]), { asOf: day(30) });
+      assert.deepEqual(result, { days: 20, onMarket: true, relists: 0, source: 'history' });
+    });
+
+    test('honor a custom reset gap', () => {
+      const result = computeDaysOnMarket(
+        listing(),
+        history(['ACTIVE', 0], ['EXPIRED', 10], ['ACTIVE', 20]),
+        { asOf: day(30), relistResetDays: 7 }
+      );
+      assert.deepEqual(result, { days: 10, onMarket: true, relists: 1, source: 'history' });
+    });
+
+    test('reset the clock after a sale regardless of the gap', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['SOLD', 30], ['ACTIVE', 35]), { asOf: day(40) });
+      assert.deepEqual(result, { days: 5, onMarket: true, relists: 1, source: 'history' });
+    });
+
+    test('remember a sale through later housekeeping statuses', () => {
+      const result = computeDaysOnMarket(
+        listing(),
+        history(['ACTIVE', 0], ['SOLD', 30], ['ARCHIVED', 31], ['ACTIVE', 35]),
+        { asOf: day(40) }
+      );
+      assert.equal(result.relists, 1);
+      assert.equal(result.days, 5);
+    });
+
+    test('count every reset', () => {
+      const result = computeDaysOnMarket(
+        listing(),
+        history(['ACTIVE', 0], ['SOLD', 10], ['NEW', 20], ['CANCELLED', 30], ['REACTIVATED', 70]),
+        { asOf: day(75) }
+      );
+      assert.deepEqual(result, { days: 5, onMarket: true, relists: 2, source: 'history' });
+    });
+  });
+
+  describe('asOf cutoff', () => {
+    test('ignores time after asOf', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0], ['PENDING', 50]), { asOf: day(30) });
+      assert.equal(result.days, 30);
+    });
+
+    test('returns zero before the listing went active', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 10]), { asOf: day(5) });
+      assert.equal(result.days, 0);
+    });
+
+    test('keeps counting to asOf while the listing is active', () => {
+      const result = computeDaysOnMarket(listing(), history(['ACTIVE', 0]), { asOf: day(12) });
+      assert.deepEqual(result, { days: 12, onMarket: true, relists: 0, source: 'history' });
+    });
+  });
+
+  test('sorts history and skips UNKNOWN statuses', () => {
+    const result = computeDaysOnMarket(
+      listing(),
+      history(['PENDING', 20], ['UNKNOWN', 5], ['ACTIVE', 0]),
+      { asOf: day(45) }
+    );
+    assert.equal(result.days, 20);
+  });
+
+  test('does not start the clock while coming soon', () => {
+    const result = computeDaysOnMarket(listing(), history(['COMING_SOON', 0], ['ACTIVE', 10]), { asOf: day(20) });
+    assert.equal(result.days, 10);
+  });
+
+  test('assumes the listing was on market from listedAt before a later first row', () => {
+    const result = computeDaysOnMarket(listing(), history(['PENDING', 15]), { asOf: day(45) });
+    assert.deepEqual(result, { days: 15, onMarket: false, relists: 0, source: 'history' });
+  });
+
+  test('applies the current status at lastStatusChange', () => {
+    const result = computeDaysOnMarket(
+      listing({ status: 'SOLD', lastStatusChange: day(25) }),
+      history(['ACTIVE', 0]),
+      { asOf: day(40) }
+    );
+    assert.deepEqual(result, { days: 25, onMarket: false, relists: 0, source: 'history' });
+  });
+});
+
+describe('summarizeDaysOnMarket', () => {
+  test('rounds mean, median and p90', () => {
+    assert.deepEqual(summarizeDaysOnMarket([1, 2, 4, 10]), { count: 4, mean: 4, median: 3, p90: 8 });
+    assert.deepEqual(summarizeDaysOnMarket([]), { count: 0, mean: 0, median: 0, p90: 0 });
+  });
+
+  test('interpolates percentiles like percentile_cont', () => {
+    assert.equal(percentile([10, 20, 30, 40], 0.5), 25);
+    assert.equal(percentile([10, 20, 30, 40], 0.25), 17.5);
+  });
+});
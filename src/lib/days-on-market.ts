@@ -0,0 +1,318 @@
+import { ListingStatus, Prisma } from '@prisma/client';
+import { bucketValues, resolveBucketScheme } from '@/lib/bucket-specs';
+import { statusCategory, StatusCategory, statusCategorySql } from '@/lib/listing-status';
+import { BucketScheme } from '@/types/buckets';
+import { ChartData } from '@/types/dashboard';
+
+/**
+ * Days-on-market (DOM) calculator built from ListingHistory status transitions.
+ *
+ * Statuses are grouped by `statusCategory` (lib/listing-status).
+ *
+ * Rules:
+ * 1. The clock runs only while the listing is in an active status
+ *    (ACTIVE, NEW, BACK_ON_MARKET, ...). COMING_SOON/PRE_MLS do not start it.
+ * 2. TEMPORARILY_OFF_MARKET and HOLD pause the clock; it resumes without
+ *    resetting when the listing comes back.
+ * 3. Going under contract stops the clock. If the deal falls through and the
+ *    listing returns to market, counting continues from the previous total.
+ * 4. A relist resets the clock to zero: returning to market after a sale or
+ *    lease, or after being withdrawn/expired/cancelled for at least
+ *    `relistResetDays` (default 30). Shorter off-market gaps continue counting.
+ * 5. UNKNOWN statuses are ignored.
+ * 6. If the first history row is not an active status but `listedAt` is
+ *    earlier, the listing is assumed to have been on market from `listedAt`.
+ *    The current `Listing.status` is applied after the history at
+ *    `lastStatusChange` when it is newer than the last history row.
+ * 7. Without any history, DOM falls back to `listedAt` (or `createdAt`) until
+ *    `lastStatusChange` for off-market listings, or until `asOf`.
+ *
+ * Only the current marketing period is reported, so a relisted home shows the
+ * days since its latest relist.
+ *
+ * `daysOnMarketSql` applies the same rules in Postgres for aggregations over
+ * many listings; keep the two in step (lib/dashboard-queries.test.ts compares
+ * them on a seeded database).
+ */
+
+export const DEFAULT_RELIST_RESET_DAYS = 30;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface StatusEvent {
+  status: ListingStatus;
+  effectiveDate: Date;
+}
+
+export interface DomListing {
+  status: ListingStatus;
+  createdAt: Date;
+  listedAt: Date | null;
+  lastStatusChange: Date | null;
+}
+
+export interface DaysOnMarketResult {
+  /** Whole days on market in the current marketing period */
+  days: number;
+  /** True when the clock is still running at `asOf` */
+  onMarket: boolean;
+  /** Number of times the clock was reset by a relist */
+  relists: number;
+  source: 'history' | 'fallback';
+}
+
+export interface DaysOnMarketOptions {
+  asOf?: Date;
+  relistResetDays?: number;
+}
+
+const wholeDays = (ms: number) => Math.max(0, Math.floor(ms / DAY_MS));
+
+/**
+ * Compute cumulative days on market for one listing
+ * @param {DomListing} listing - Listing status and dates
+ * @param {StatusEvent[]} history - ListingHistory rows in any order
+ * @param {DaysOnMarketOptions} [options] - Reference date and relist gap
+ * @returns {DaysOnMarketResult} Days on market for the current marketing period
+ */
+export function computeDaysOnMarket(
+  listing: DomListing,
+  history: StatusEvent[],
+  { asOf = new Date(), relistResetDays = DEFAULT_RELIST_RESET_DAYS }: DaysOnMarketOptions = {}
+): DaysOnMarketResult {
+  const listedAt = listing.listedAt ?? listing.createdAt;
+
+  if (history.length === 0) {
+    const onMarket = statusCategory(listing.status) === 'active';
+    let end = onMarket ? asOf : listing.lastStatusChange ?? asOf;
+    // Prevent negative days on market due to data inconsistencies
+    if (end < listedAt) end = asOf;
+    return { days: wholeDays(end.getTime() - listedAt.getTime()), onMarket, relists: 0, source: 'fallback' };
+  }
+
+  const events = [...history].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+  const last = events[events.length - 1];
+  if (
+    listing.lastStatusChange &&
+    listing.lastStatusChange > last.effectiveDate &&
+    listing.status !== last.status
+  ) {
+    events.push({ status: listing.status, effectiveDate: listing.lastStatusChange });
+  }
+
+  let accumulatedMs = 0;
+  let runningSince: Date | null = null;
+  let stoppedAt: Date | null = null;
+  let stoppedCategory: StatusCategory | null = null;
+  let relists = 0;
+
+  const firstCategory = statusCategory(events[0].status);
+  if (firstCategory !== 'active' && firstCategory !== 'preMarket' && listedAt < events[0].effectiveDate) {
+    runningSince = listedAt;
+  }
+
+  for (const event of events) {
+    const category = statusCategory(event.status);
+    if (category === 'unknown') continue;
+    const at = event.effectiveDate > asOf ? asOf : event.effectiveDate;
+
+    if (category === 'active') {
+      if (runningSince) continue;
+
+      const gapDays = stoppedAt ? (at.getTime() - stoppedAt.getTime()) / DAY_MS : 0;
+      if (stoppedCategory === 'closed' || (stoppedCategory === 'offMarket' && gapDays >= relistResetDays)) {
+        accumulatedMs = 0;
+        relists++;
+      }
+      runningSince = at;
+      stoppedAt = null;
+      stoppedCategory = null;
+      continue;
+    }
+
+    if (runningSince) {
+      accumulatedMs += Math.max(0, at.getTime() - runningSince.getTime());
+      runningSince = null;
+      stoppedAt = at;
+    }
+    // Remember the strongest reason the clock stopped: a sale outranks later housekeeping statuses
+    if (stoppedAt && stoppedCategory !== 'closed') stoppedCategory = category;
+  }
+
+  if (runningSince) {
+    accumulatedMs += Math.max(0, asOf.getTime() - runningSince.getTime());
+  }
+
+  return { days: wholeDays(accumulatedMs), onMarket: runningSince !== null, relists, source: 'history' };
+}
+
+/**
+ * Days on market per listing, computed in Postgres with the rules of
+ * `computeDaysOnMarket`.
+ *
+ * Status events are laid out per listing in the order the calculator walks
+ * them: the assumed start at `listedAt` (rule 6), the history without UNKNOWN
+ * rows, then the current status at `lastStatusChange`. Because any non-active
+ * status stops the clock, each active event counts the time to the next event
+ * (or `asOf`). A run starts at an active event that follows a non-active one;
+ * it is a relist when the stretch before it held a sale or ended off market
+ * for at least `relistResetDays`. Only runs since the latest relist count.
+ * History ties on `effectiveDate` are broken by id.
+ *
+ * @param {Prisma.Sql} from - FROM and WHERE clauses selecting the listings as `l`
+ * @param {DaysOnMarketOptions} [options] - Reference date and relist gap
+ * @returns {Prisma.Sql} Query returning `listingId`, `days`, `onMarket` and `relists` for every selected listing
+ */
+export function daysOnMarketSql(
+  from: Prisma.Sql,
+  { asOf = new Date(), relistResetDays = DEFAULT_RELIST_RESET_DAYS }: DaysOnMarketOptions = {}
+): Prisma.Sql {
+  const at = Prisma.sql`${asOf}::timestamp`;
+  const dayMs = Prisma.raw(String(DAY_MS));
+  const epochMs = (interval: Prisma.Sql) => Prisma.sql`EXTRACT(EPOCH FROM (${interval})) * 1000`;
+
+  return Prisma.sql`
+    WITH dom_listings AS (
+      SELECT l.id, l.status, COALESCE(l."listedAt", l."createdAt") AS "listedAt", l."lastStatusChange"
+      ${from}
+    ),
+    dom_history AS (
+      SELECT
+        h."listingId",
+        h.status,
+        h."effectiveDate",
+        ${statusCategorySql('h.status')} AS category,
+        ROW_NUMBER() OVER (PARTITION BY h."listingId" ORDER BY h."effectiveDate", h.id) AS seq,
+        COUNT(*) OVER (PARTITION BY h."listingId") AS total
+      FROM "ListingHistory" h
+      JOIN dom_listings s ON s.id = h."listingId"
+    ),
+    dom_events AS (
+      SELECT s.id AS "listingId", 0::bigint AS seq, s."listedAt" AS at, 'active' AS category
+      FROM dom_listings s
+      JOIN dom_history h ON h."listingId" = s.id AND h.seq = 1
+      WHERE h.category NOT IN ('active', 'preMarket') AND s."listedAt" < h."effectiveDate"
+      UNION ALL
+      SELECT "listingId", seq, LEAST("effectiveDate", ${at}), category
+      FROM dom_history
+      WHERE category <> 'unknown'
+      UNION ALL
+      SELECT s.id, h.total + 1, LEAST(s."lastStatusChange", ${at}), ${statusCategorySql('s.status')}
+      FROM dom_listings s
+      JOIN dom_history h ON h."listingId" = s.id AND h.seq = h.total
+      WHERE s."lastStatusChange" > h."effectiveDate"
+        AND s.status <> h.status
+        AND ${statusCategorySql('s.status')} <> 'unknown'
+    ),
+    dom_steps AS (
+      SELECT
+        e.*,
+        e.category = 'active' AND LAG(e.category) OVER w IS DISTINCT FROM 'active' AS starts,
+        COALESCE(LEAD(e.at) OVER w, ${at}) AS "nextAt"
+      FROM dom_events e
+      WINDOW w AS (PARTITION BY e."listingId" ORDER BY e.seq)
+    ),
+    dom_runs AS (
+      SELECT *, COUNT(*) FILTER (WHERE starts) OVER (PARTITION BY "listingId" ORDER BY seq) AS run
+      FROM dom_steps
+    ),
+    dom_stops AS (
+      SELECT
+        "listingId",
+        run,
+        MIN(at) AS "stoppedAt",
+        bool_or(category = 'closed') AS sold,
+        (array_agg(category ORDER BY seq DESC))[1] AS "lastCategory"
+      FROM dom_runs
+      WHERE category <> 'active' AND run > 0
+      GROUP BY 1, 2
+    ),
+    dom_relists AS (
+      SELECT r."listingId", MAX(r.run) AS "sinceRun", COUNT(*) AS relists
+      FROM dom_runs r
+      JOIN dom_stops p ON p."listingId" = r."listingId" AND p.run = r.run - 1
+      WHERE r.starts
+        AND (p.sold OR (p."lastCategory" = 'offMarket' AND ${epochMs(Prisma.sql`r.at - p."stoppedAt"`)} / ${dayMs} >= ${relistResetDays}))
+      GROUP BY 1
+    ),
+    dom_totals AS (
+      SELECT
+        r."listingId",
+        COALESCE(SUM(GREATEST(${epochMs(Prisma.sql`r."nextAt" - r.at`)}, 0)) FILTER (
+          WHERE r.category = 'active' AND r.run >= COALESCE(x."sinceRun", 0)
+        ), 0) AS ms,
+        (array_agg(r.category ORDER BY r.seq DESC))[1] = 'active' AS "onMarket",
+        COALESCE(MAX(x.relists), 0) AS relists
+      FROM dom_runs r
+      LEFT JOIN dom_relists x ON x."listingId" = r."listingId"
+      GROUP BY 1
+    ),
+    dom_fallback AS (
+      SELECT
+        s.id,
+        ${statusCategorySql('s.status')} = 'active' AS "onMarket",
+        CASE WHEN ${statusCategorySql('s.status')} = 'active' THEN ${at} ELSE COALESCE(s."lastStatusChange", ${at}) END AS "end"
+      FROM dom_listings s
+    )
+    SELECT
+      s.id AS "listingId",
+      (CASE
+        WHEN h."listingId" IS NOT NULL THEN FLOOR(COALESCE(t.ms, 0) / ${dayMs})
+        WHEN f."end" < s."listedAt" THEN GREATEST(FLOOR(${epochMs(Prisma.sql`${at} - s."listedAt"`)} / ${dayMs}), 0)
+        ELSE GREATEST(FLOOR(${epochMs(Prisma.sql`f."end" - s."listedAt"`)} / ${dayMs}), 0)
+      END)::int AS days,
+      CASE WHEN h."listingId" IS NOT NULL THEN COALESCE(t."onMarket", false) ELSE f."onMarket" END AS "onMarket",
+      COALESCE(t.relists, 0)::int AS relists
+    FROM dom_listings s
+    JOIN dom_fallback f ON f.id = s.id
+    LEFT JOIN dom_history h ON h."listingId" = s.id AND h.seq = 1
+    LEFT JOIN dom_totals t ON t."listingId" = s.id
+  `;
+}
+
+/**
+ * Linear-interpolated percentile, matching Postgres `percentile_cont`
+ * @param {number[]} sorted - Values in ascending order
+ * @param {number} fraction - Percentile between 0 and 1
+ * @returns {number} Percentile value (0 for an empty list)
+ */
+export function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export interface DaysOnMarketSummary {
+  count: number;
+  mean: number;
+  median: number;
+  p90: number;
+}
+
+/**
+ * Mean, median and p90 of a list of DOM values, rounded to whole days
+ * @param {number[]} days - Days on market per listing
+ * @returns {DaysOnMarketSummary} Summary statistics (zeros when empty)
+ */
+export function summarizeDaysOnMarket(days: number[]): DaysOnMarketSummary {
+  if (days.length === 0) return { count: 0, mean: 0, median: 0, p90: 0 };
+  const sorted = [...days].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: Math.round(sorted.reduce((sum, d) => sum + d, 0) / sorted.length),
+    median: Math.round(percentile(sorted, 0.5)),
+    p90: Math.round(percentile(sorted, 0.9)),
+  };
+}
+
+/**
+ * Count DOM values into buckets (upper bounds inclusive by default)
+ * @param {number[]} days - Days on market per listing
+ * @param {BucketScheme} [scheme] - Buckets to use, DAYS_ON_MARKET_RANGES when omitted
+ * @returns {ChartData} Bucket labels and counts
+ */
+export function bucketDaysOnMarket(days: number[], scheme: BucketScheme = resolveBucketScheme('daysOnMarket')): ChartData {
+  return bucketValues(days, scheme);
+}
@@ -0,0 +1,328 @@
+import { ListingStatus, LoanType, Prisma, PropertyType } from '@prisma/client';
+import { DashboardFilters } from '@/types/dashboard';
+
+/**
+ * Raised when a dashboard query parameter fails validation.
+ * API routes translate this into a 400 response.
+ */
+export class FilterValidationError extends Error {
+  constructor(public readonly param: string, message: string) {
+    super(message);
+    this.name = 'FilterValidationError';
+  }
+}
+
+/** Statuses used when the caller does not pass an explicit status set */
+export const DEFAULT_STATUSES: ListingStatus[] = [ListingStatus.ACTIVE];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ZIP_PATTERN = /^\d{5}$/;
+const STATE_PATTERN = /^[A-Z]{2}$/;
+
+/**
+ * Whether a value is one of an object's own keys, e.g. a Prisma enum member or
+ * a lookup table entry. Unlike `in`, inherited keys such as `constructor` or
+ * `toString` do not match.
+ * @param {unknown} value - Candidate key from untrusted input
+ * @param {Record<K, unknown>} object - Enum or lookup table
+ * @returns {boolean} True when `value` is an own key of `object`
+ */
+export const isOwnKey = <K extends string>(value: unknown, object: Record<K, unknown>): value is K =>
+  typeof value === 'string' && Object.hasOwn(object, value);
+
+/**
+ * Parse a comma separated list and ensure every entry belongs to the given enum
+ * @param {string} param - Query parameter name, used in error messages
+ * @param {string} raw - Raw parameter value
+ * @param {Record<string, T>} enumObject - Prisma enum to validate against
+ * @returns {T[]} Deduplicated enum values
+ */
+export const parseEnumList = <T extends string>(param: string, raw: string, enumObject: Record<string, T>): T[] => {
+  const allowed = new Set<string>(Object.values(enumObject));
+  const values = raw.split(',').map(v => v.trim().toUpperCase()).filter(Boolean);
+
+  const invalid = values.filter(v => !allowed.has(v));
+  if (invalid.length > 0) {
+    throw new FilterValidationError(param, `Invalid ${param} value(s): ${invalid.join(', ')}`);
+  }
+
+  return Array.from(new Set(values)) as T[];
+};
+
+/**
+ * Validate an ISO calendar date (YYYY-MM-DD)
+ * @param {string} param - Query parameter name
+ * @param {string} raw - Raw parameter value
+ * @returns {string} The validated date string
+ */
+export const parseDate = (param: string, raw: string): string => {
+  if (!DATE_PATTERN.test(raw) || Number.isNaN(Date.parse(raw))) {
+    throw new FilterValidationError(param, `${param} must be a date in YYYY-MM-DD format`);
+  }
+  return raw;
+};
+
+/**
+ * Parse and validate dashboard filters from URL search params.
+ * Unknown parameters are ignored; empty values are treated as absent.
+ *
+ * @param {URLSearchParams} params - Incoming query parameters
+ * @returns {DashboardFilters} Validated filter object
+ * @throws {FilterValidationError} If any parameter is malformed
+ */
+export function parseDashboardFilters(params: URLSearchParams): DashboardFilters {
+  const filters: DashboardFilters = {};
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const state = get('state');
+  if (state) {
+    const normalized = state.toUpperCase();
+    if (!STATE_PATTERN.test(normalized)) {
+      throw new FilterValidationError('state', 'state must be a two-letter state code');
+    }
+    filters.state = normalized;
+  }
+
+  const city = get('city');
+  if (city) filters.city = city;
+
+  const zipCode = get('zipCode');
+  if (zipCode) {
+    if (!ZIP_PATTERN.test(zipCode)) {
+      throw new FilterValidationError('zipCode', 'zipCode must be a 5-digit ZIP code');
+    }
+    filters.zipCode = zipCode;
+  }
+
+  const mlsInstanceId = get('mlsInstanceId');
+  if (mlsInstanceId) filters.mlsInstanceId = mlsInstanceId;
+
+  const propertyType = get('propertyType');
+  if (propertyType) filters.propertyType = parseEnumList('propertyType', propertyType, PropertyType);
+
+  const isAssumable = get('isAssumable');
+  if (isAssumable) {
+    if (isAssumable !== 'true' && isAssumable !== 'false') {
+      throw new FilterValidationError('isAssumable', 'isAssumable must be true or false');
+    }
+    filters.isAssumable = isAssumable === 'true';
+  }
+
+  const includeHidden = get('includeHidden');
+  if (includeHidden) {
+    if (includeHidden !== 'true' && includeHidden !== 'false') {
+      throw new FilterValidationError('includeHidden', 'includeHidden must be true or false');
+    }
+    // Only the non-default value is kept so equivalent filters serialize the same
+    if (includeHidden === 'true') filters.includeHidden = true;
+  }
+
+  const loanType = get('loanType');
+  if (loanType) filters.loanType = parseEnumList('loanType', loanType, LoanType);
+
+  const status = get('status');
+  if (status) filters.status = parseEnumList('status', status, ListingStatus);
+
+  for (const key of ['createdFrom', 'createdTo', 'listedFrom', 'listedTo'] as const) {
+    const value = get(key);
+    if (value) filters[key] = parseDate(key, value);
+  }
+
+  if (filters.createdFrom && filters.createdTo && filters.createdFrom > filters.createdTo) {
+    throw new FilterValidationError('createdFrom', 'createdFrom must be on or before createdTo');
+  }
+  if (filters.listedFrom && filters.listedTo && filters.listedFrom > filters.listedTo) {
+    throw new FilterValidationError('listedFrom', 'listedFrom must be on or before listedTo');
+  }
+
+  return filters;
+}
+
+/**
+ * Serialize filters back into URL search params, omitting empty values
+ * @param {DashboardFilters} filters - Filter object
+ * @returns {URLSearchParams} Query parameters suitable for a URL or fetch call
+ */
+export function filtersToSearchParams(filters: DashboardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === '') return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(','));
+      return;
+    }
+    params.set(key, String(value));
+  });
+
+  return params;
+}
+
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+/**
+ * Parse an inclusive `from`/`to` day window, defaulting to the last `defaultDays` days
+ * @param {URLSearchParams} params - Query parameters
+ * @param {Object} options
+ * @param {number} options.defaultDays - Window length when `from` is omitted
+ * @param {number} options.maxDays - Longest allowed window
+ * @returns {DateWindow} Validated window as `YYYY-MM-DD` strings
+ * @throws {FilterValidationError} If a date is malformed, reversed or the window is too long
+ */
+export function parseDateWindow(
+  params: URLSearchParams,
+  { defaultDays, maxDays }: { defaultDays: number; maxDays: number }
+): DateWindow {
+  const dayMs = 86400000;
+  const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+  const fromRaw = params.get('from')?.trim();
+  const toRaw = params.get('to')?.trim();
+
+  const to = toRaw ? parseDate('to', toRaw) : isoDay(new Date());
+  const from = fromRaw ? parseDate('from', fromRaw) : isoDay(new Date(Date.parse(to) - (defaultDays - 1) * dayMs));
+
+  const days = (Date.parse(to) - Date.parse(from)) / dayMs + 1;
+  if (days < 1) {
+    throw new FilterValidationError('from', 'from must be on or before to');
+  }
+  if (days > maxDays) {
+    throw new FilterValidationError('from', `The window can span at most ${maxDays} days`);
+  }
+  return { from, to };
+}
+
+/**
+ * Build an inclusive date range condition. The upper bound covers the whole day.
+ * @param {string} [from] - Start date (YYYY-MM-DD)
+ * @param {string} [to] - End date (YYYY-MM-DD)
+ * @returns {Prisma.DateTimeFilter | undefined} Prisma date filter, if any bound is set
+ */
+export const buildDateRange = (from?: string, to?: string): Prisma.DateTimeFilter | undefined => {
+  if (!from && !to) return undefined;
+
+  const range: Prisma.DateTimeFilter = {};
+  if (from) range.gte = new Date(`${from}T00:00:00.000Z`);
+  if (to) {
+    const end = new Date(`${to}T00:00:00.000Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    range.lt = end;
+  }
+  return range;
+};
+
+/**
+ * Condition excluding listings of MLS instances marked hidden. Listing and
+ * MlsInstanceVisibility share no relation, so this is only expressible in SQL;
+ * Prisma queries pass the hidden ids to `buildListingWhere` instead.
+ * @param {string} [alias='l'] - Alias of the `Listing` table in the query
+ * @returns {Prisma.Sql} NOT EXISTS condition
+ */
+export const visibleMlsSql = (alias = 'l'): Prisma.Sql => Prisma.sql`
+  NOT EXISTS (
+    SELECT 1 FROM "MlsInstanceVisibility" v
+    WHERE v."mlsInstanceId" = ${Prisma.raw(`${alias}."mlsInstanceId"`)} AND v."isHidden"
+  )
+`;
+
+/**
+ * Translate dashboard filters into a Prisma `Listing` where clause.
+ *
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {Object} [options]
+ * @param {boolean} [options.includeStatus=true] - Apply the status set (defaults to ACTIVE).
+ *   Sections that break down by status pass `false`.
+ * @param {string[]} [options.hiddenMlsInstanceIds] - Hidden MLS instances to exclude
+ *   (from `loadHiddenMlsInstanceIds`); ignored when `filters.includeHidden` is set
+ * @returns {Prisma.ListingWhereInput} Where clause for listing queries
+ */
+export function buildListingWhere(
+  filters: DashboardFilters,
+  { includeStatus = true, hiddenMlsInstanceIds = [] }: { includeStatus?: boolean; hiddenMlsInstanceIds?: string[] } = {}
+): Prisma.ListingWhereInput {
+  const where: Prisma.ListingWhereInput = {};
+
+  if (includeStatus) {
+    where.status = { in: filters.status?.length ? filters.status : DEFAULT_STATUSES };
+  }
+  if (filters.state) where.state = filters.state;
+  if (filters.city) where.city = { equals: filters.city, mode: 'insensitive' };
+  if (filters.zipCode) where.zipCode = filters.zipCode;
+  if (filters.mlsInstanceId) where.mlsInstanceId = filters.mlsInstanceId;
+  if (!filters.includeHidden && hiddenMlsInstanceIds.length > 0) {
+    where.NOT = { mlsInstanceId: { in: hiddenMlsInstanceIds } };
+  }
+  if (filters.propertyType?.length) where.propertyType = { in: filters.propertyType };
+  if (filters.isAssumable !== undefined) where.isAssumable = filters.isAssumable;
+  if (filters.loanType?.length) where.denormalizedAssumableLoanType = { in: filters.loanType };
+
+  const createdAt = buildDateRange(filters.createdFrom, filters.createdTo);
+  if (createdAt) where.createdAt = createdAt;
+
+  const listedAt = buildDateRange(filters.listedFrom, filters.listedTo);
+  if (listedAt) where.listedAt = listedAt;
+
+  return where;
+}
+
+/**
+ * Scope `AssumableMortgage` rows to listings matching the filters by walking
+ * AssumableMortgage -> Loan -> PropertyRadar -> Listing.
+ * @param {Prisma.ListingWhereInput} listingWhere - Listing where clause
+ * @returns {Prisma.AssumableMortgageWhereInput} Where clause for mortgage queries
+ */
+export function buildMortgageWhere(listingWhere: Prisma.ListingWhereInput): Prisma.AssumableMortgageWhereInput {
+  return {
+    Loan: { is: { PropertyRadar: { is: { Listing: { is: listingWhere } } } } }
+  };
+}
+
+/**
+ * Raw SQL counterpart of `buildListingWhere` for sections aggregated with
+ * `$queryRaw`. Both must stay in sync so every section sees the same listings.
+ * Hidden MLS instances are excluded with a subquery unless `filters.includeHidden` is set.
+ *
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {Object} [options]
+ * @param {string} [options.alias='l'] - Alias of the `Listing` table in the query
+ * @param {boolean} [options.includeStatus=true] - Apply the status set (defaults to ACTIVE)
+ * @returns {Prisma.Sql} Conditions joined with AND (`TRUE` when there are none)
+ */
+export function buildListingSql(
+  filters: DashboardFilters,
+  { alias = 'l', includeStatus = true }: { alias?: string; includeStatus?: boolean } = {}
+): Prisma.Sql {
+  const column = (name: string) => Prisma.raw(`${alias}."${name}"`);
+  const conditions: Prisma.Sql[] = [];
+
+  if (includeStatus) {
+    const statuses = filters.status?.length ? filters.status : DEFAULT_STATUSES;
+    conditions.push(Prisma.sql`${column('status')}::text IN (${Prisma.join(statuses)})`);
+  }
+  if (filters.state) conditions.push(Prisma.sql`${column('state')} = ${filters.state}`);
+  if (filters.city) conditions.push(Prisma.sql`lower(${column('city')}) = lower(${filters.city})`);
+  if (filters.zipCode) conditions.push(Prisma.sql`${column('zipCode')} = ${filters.zipCode}`);
+  if (filters.mlsInstanceId) conditions.push(Prisma.sql`${column('mlsInstanceId')} = ${filters.mlsInstanceId}`);
+  if (!filters.includeHidden) conditions.push(visibleMlsSql(alias));
+  if (filters.propertyType?.length) {
+    conditions.push(Prisma.sql`${column('propertyType')}::text IN (${Prisma.join(filters.propertyType)})`);
+  }
+  if (filters.isAssumable !== undefined) conditions.push(Prisma.sql`${column('isAssumable')} = ${filters.isAssumable}`);
+  if (filters.loanType?.length) {
+    conditions.push(Prisma.sql`${column('denormalizedAssumableLoanType')}::text IN (${Prisma.join(filters.loanType)})`);
+  }
+
+  const ranges: Array<[string, string | undefined, string | undefined]> = [
+    ['createdAt', filters.createdFrom, filters.createdTo],
+    ['listedAt', filters.listedFrom, filters.listedTo],
+  ];
+  ranges.forEach(([name, from, to]) => {
+    const range = buildDateRange(from, to);
+    if (range?.gte) conditions.push(Prisma.sql`${column(name)} >= ${range.gte}`);
+    if (range?.lt) conditions.push(Prisma.sql`${column(name)} < ${range.lt}`);
+  });
+
+  return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+}
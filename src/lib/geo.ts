@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { MapBounds, MapCluster, MapListing } from '@/types/map';
+
+/** Tile zoom levels that have a precomputed `tileIdN` column on Listing */
+export const MIN_TILE_ZOOM = 6;
+export const MAX_TILE_ZOOM = 20;
+
+/** Map zoom at which the map switches from tile clusters to individual markers */
+export const LISTING_MARKER_ZOOM = 14;
+
+/** Upper bound on individual markers returned for one viewport */
+export const MAX_MAP_LISTINGS = 5000;
+
+type TileField = `tileId${number}`;
+
+/**
+ * Pick the tile column to aggregate on for a given map zoom.
+ * Aggregating two levels finer than the viewport gives roughly a 4x4 grid of
+ * clusters per screen tile, which reads well without overlapping.
+ *
+ * @param {number} zoom - Current map zoom
+ * @returns {number} Tile zoom level between MIN_TILE_ZOOM and MAX_TILE_ZOOM
+ */
+export const tileZoomForMapZoom = (zoom: number): number =>
+  Math.min(MAX_TILE_ZOOM, Math.max(MIN_TILE_ZOOM, Math.floor(zoom) + 2));
+
+/**
+ * Build a where clause restricting listings to a bounding box
+ * @param {MapBounds} bounds - Viewport bounds in degrees
+ * @returns {Prisma.ListingWhereInput} Latitude/longitude range condition
+ */
+export const buildBoundsWhere = (bounds: MapBounds): Prisma.ListingWhereInput => ({
+  latitude: { gte: bounds.south, lte: bounds.north },
+  longitude: { gte: bounds.west, lte: bounds.east }
+});
+
+/**
+ * Aggregate listings into one cluster per tile, using the indexed `tileIdN` columns.
+ *
+ * Groups by (tile, loan type) in the database and merges the groups per tile in
+ * memory, so the payload size depends on the number of tiles in view rather
+ * than the number of listings.
+ *
+ * @param {Prisma.ListingWhereInput} where - Listing filters (including any bounds)
+ * @param {number} tileZoom - Tile level to aggregate on
+ * @returns {Promise<MapCluster[]>} Clusters positioned at the mean coordinate of their listings
+ */
+export async function aggregateListingTiles(where: Prisma.ListingWhereInput, tileZoom: number): Promise<MapCluster[]> {
+  const tileField = `tileId${tileZoom}` as TileField;
+
+  // The grouping column is dynamic, so Prisma cannot infer the result row type
+  const groups = await prisma.listing.groupBy({
+    by: [tileField as Prisma.ListingScalarFieldEnum, 'denormalizedAssumableLoanType'],
+    where: { AND: [where, { [tileField]: { not: null } }] },
+    _count: { _all: true },
+    _avg: { latitude: true, longitude: true }
+  }) as unknown as Array<{
+    [key: TileField]: bigint | null;
+    denormalizedAssumableLoanType: string | null;
+    _count: { _all: number };
+    _avg: { latitude: Prisma.Decimal | null; longitude: Prisma.Decimal | null };
+  }>;
+
+  const tiles = new Map<string, { count: number; latSum: number; lngSum: number; loanTypeCounts: Record<string, number> }>();
+
+  groups.forEach(group => {
+    const tileId = String(group[tileField]);
+    const count = group._count._all;
+    const tile = tiles.get(tileId) ?? { count: 0, latSum: 0, lngSum: 0, loanTypeCounts: {} };
+
+    // Weight each group's mean coordinate by its size to get the tile-wide mean
+    tile.count += count;
+    tile.latSum += Number(group._avg.latitude ?? 0) * count;
+    tile.lngSum += Number(group._avg.longitude ?? 0) * count;
+
+    const loanType = group.denormalizedAssumableLoanType ?? 'NONE';
+    tile.loanTypeCounts[loanType] = (tile.loanTypeCounts[loanType] ?? 0) + count;
+
+    tiles.set(tileId, tile);
+  });
+
+  return Array.from(tiles.entries()).map(([tileId, tile]) => {
+    const [dominantLoanType] = Object.entries(tile.loanTypeCounts).sort((a, b) => b[1] - a[1])[0];
+    return {
+      id: tileId,
+      latitude: tile.latSum / tile.count,
+      longitude: tile.lngSum / tile.count,
+      count: tile.count,
+      loanType: dominantLoanType,
+      loanTypeCounts: tile.loanTypeCounts
+    };
+  });
+}
+
+/**
+ * Fetch individual listings for high zoom levels
+ * @param {Prisma.ListingWhereInput} where - Listing filters (including bounds)
+ * @param {number} limit - Maximum number of listings to return
+ * @returns {Promise<MapListing[]>} Listings with coordinates and display fields
+ */
+export async function findMapListings(where: Prisma.ListingWhereInput, limit: number): Promise<MapListing[]> {
+  const listings = await prisma.listing.findMany({
+    where,
+    select: {
+      id: true,
+      latitude: true,
+      longitude: true,
+      price: true,
+      address: true,
+      city: true,
+      state: true,
+      zipCode: true,
+      denormalizedAssumableLoanType: true
+    },
+    orderBy: [{ staticPriority: { sort: 'desc', nulls: 'last' } }, { listedAt: { sort: 'desc', nulls: 'last' } }],
+    take: limit
+  });
+
+  return listings.map(listing => ({
+    id: listing.id,
+    latitude: Number(listing.latitude),
+    longitude: Number(listing.longitude),
+    price: Number(listing.price),
+    address: listing.address,
+    city: listing.city ?? '',
+    state: listing.state ?? '',
+    zipCode: listing.zipCode,
+    loanType: listing.denormalizedAssumableLoanType ?? undefined
+  }));
+}
@@ -0,0 +1,275 @@
+import { DataPullStatus, PhotoProcessingStatus, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildDateRange, FilterValidationError, parseDateWindow } from '@/lib/filters';
+import {
+  IngestionErrorGroup,
+  IngestionFilters,
+  IngestionHealth,
+  IngestionStage,
+  LatencySeries,
+  PullStatusSeries,
+} from '@/types/ingestion';
+
+export const DEFAULT_WINDOW_DAYS = 30;
+export const MAX_WINDOW_DAYS = 180;
+export const DEFAULT_MIN_ATTEMPTS = 3;
+
+/** Distinct raw messages fetched per stage before grouping, and groups returned */
+const MAX_DISTINCT_ERRORS = 500;
+const TOP_ERROR_GROUPS = 20;
+const MAX_STUCK_RECORDS = 50;
+
+const DAY_MS = 86400000;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Parse ingestion health query parameters, defaulting to the last 30 days
+ * @param {URLSearchParams} params - Query parameters (`from`, `to`, `mlsInstanceId`, `minAttempts`)
+ * @returns {IngestionFilters} Validated filters
+ * @throws {FilterValidationError} If a parameter is malformed or the window is too long
+ */
+export function parseIngestionFilters(params: URLSearchParams): IngestionFilters {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const { from, to } = parseDateWindow(params, { defaultDays: DEFAULT_WINDOW_DAYS, maxDays: MAX_WINDOW_DAYS });
+
+  const rawAttempts = get('minAttempts');
+  const minAttempts = rawAttempts === undefined ? DEFAULT_MIN_ATTEMPTS : Number(rawAttempts);
+  if (!Number.isInteger(minAttempts) || minAttempts < 1 || minAttempts > 100) {
+    throw new FilterValidationError('minAttempts', 'minAttempts must be an integer between 1 and 100');
+  }
+
+  const filters: IngestionFilters = { from, to, minAttempts };
+  const mlsInstanceId = get('mlsInstanceId');
+  if (mlsInstanceId) filters.mlsInstanceId = mlsInstanceId;
+  return filters;
+}
+
+/**
+ * Collapse the variable parts of an error message so repeats of the same
+ * failure group together (ids, numbers, URLs, timestamps, quoted values).
+ * @param {string} message - Raw error message
+ * @returns {string} Normalized message
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/https?:\/\/\S+/gi, '<url>')
+    .replace(/[\w.+-]+@[\w-]+\.[\w.]+/g, '<email>')
+    .replace(/\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{16,}\b/gi, '<id>')
+    .replace(/(["'`])(?:(?!\1).)*\1/g, '"<value>"')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 300);
+}
+
+/**
+ * List every day in the window so series line up even on days with no records
+ * @param {string} from - First day (`YYYY-MM-DD`)
+ * @param {string} to - Last day (`YYYY-MM-DD`)
+ * @returns {string[]} Day labels
+ */
+const dayLabels = (from: string, to: string): string[] => {
+  const labels: string[] = [];
+  for (let t = Date.parse(from); t <= Date.parse(to); t += DAY_MS) {
+    labels.push(isoDay(new Date(t)));
+  }
+  return labels;
+};
+
+const toStatusSeries = (
+  labels: string[],
+  rows: Array<{ day: string; status: DataPullStatus; count: number }>
+): PullStatusSeries => {
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const series: PullStatusSeries['series'] = {};
+  const totals: PullStatusSeries['totals'] = {};
+
+  rows.forEach(({ day, status, count }) => {
+    const i = index.get(day);
+    if (i === undefined) return;
+    (series[status] ??= labels.map(() => 0))[i] += count;
+    totals[status] = (totals[status] ?? 0) + count;
+  });
+
+  return { labels, series, totals };
+};
+
+/**
+ * Aggregate ingestion pipeline health for raw records created in the window.
+ *
+ * Pull statuses, error groups and latency are scoped to the window; stuck
+ * records are not, since a record retried for weeks is exactly what ops needs
+ * to see. Only photo pulls record an attempt count, so "stuck" means photo
+ * pulls in PENDING_RETRY with at least `minAttempts` attempts.
+ *
+ * @param {IngestionFilters} filters - Validated window and options
+ * @returns {Promise<IngestionHealth>} Aggregated pipeline health
+ */
+export async function computeIngestionHealth(filters: IngestionFilters): Promise<IngestionHealth> {
+  const createdAt = buildDateRange(filters.from, filters.to)!;
+  const labels = dayLabels(filters.from, filters.to);
+
+  const instanceCondition = filters.mlsInstanceId
+    ? Prisma.sql`AND r."mlsInstanceId" = ${filters.mlsInstanceId}`
+    : Prisma.empty;
+  const windowCondition = (column: string) =>
+    Prisma.sql`${Prisma.raw(column)} >= ${createdAt.gte} AND ${Prisma.raw(column)} < ${createdAt.lt}`;
+
+  const statusByDay = (column: 'loanDataPullStatus' | 'photosPullStatus') =>
+    prisma.$queryRaw<Array<{ day: string; status: DataPullStatus; count: number }>>`
+      SELECT
+        to_char(date_trunc('day', r."createdAt"), 'YYYY-MM-DD') AS day,
+        r.${Prisma.raw(`"${column}"`)}::text AS status,
+        COUNT(*)::int AS count
+      FROM "RawListingData" r
+      WHERE ${windowCondition('r."createdAt"')} ${instanceCondition}
+      GROUP BY 1, 2
+    `;
+
+  const rawListingErrors = (stage: IngestionStage, column: string) =>
+    prisma.$queryRaw<Array<{ message: string; count: number; lastSeen: Date }>>`
+      SELECT r.${Prisma.raw(`"${column}"`)} AS message, COUNT(*)::int AS count, MAX(r."updatedAt") AS "lastSeen"
+      FROM "RawListingData" r
+      WHERE ${windowCondition('r."createdAt"')} ${instanceCondition}
+        AND r.${Prisma.raw(`"${column}"`)} IS NOT NULL
+      GROUP BY 1
+      ORDER BY count DESC
+      LIMIT ${MAX_DISTINCT_ERRORS}
+    `.then(rows => rows.map(row => ({ ...row, stage })));
+
+  // RawPhotoData has no MLS instance column, so the instance filter goes through the linked raw listing
+  const photoInstanceCondition = filters.mlsInstanceId
+    ? Prisma.sql`AND EXISTS (SELECT 1 FROM "RawListingData" r WHERE r."rawPhotoDataId" = p.id AND r."mlsInstanceId" = ${filters.mlsInstanceId})`
+    : Prisma.empty;
+
+  const photoDataErrors = prisma.$queryRaw<Array<{ message: string; count: number; lastSeen: Date }>>`
+    SELECT p."errorMessage" AS message, COUNT(*)::int AS count, MAX(COALESCE(p."processedAt", p."createdAt")) AS "lastSeen"
+    FROM "RawPhotoData" p
+    WHERE ${windowCondition('p."createdAt"')} ${photoInstanceCondition}
+      AND p."errorMessage" IS NOT NULL
+    GROUP BY 1
+    ORDER BY count DESC
+    LIMIT ${MAX_DISTINCT_ERRORS}
+  `.then(rows => rows.map(row => ({ ...row, stage: 'photoData' as IngestionStage })));
+
+  const stuckWhere: Prisma.RawListingDataWhereInput = {
+    photosPullStatus: DataPullStatus.PENDING_RETRY,
+    photosPullAttempts: { gte: filters.minAttempts },
+    ...(filters.mlsInstanceId && { mlsInstanceId: filters.mlsInstanceId }),
+  };
+
+  const [
+    totals,
+    loanRows,
+    photoRows,
+    photoDataGroups,
+    errorRows,
+    stuckRecords,
+    stuckTotal,
+    latencyRows,
+  ] = await Promise.all([
+    prisma.$queryRaw<Array<{ total: number; unprocessed: number }>>`
+      SELECT COUNT(*)::int AS total, COUNT(*) FILTER (WHERE r."processedAt" IS NULL)::int AS unprocessed
+      FROM "RawListingData" r
+      WHERE ${windowCondition('r."createdAt"')} ${instanceCondition}
+    `,
+    statusByDay('loanDataPullStatus'),
+    statusByDay('photosPullStatus'),
+    prisma.rawPhotoData.groupBy({
+      by: ['status'],
+      where: {
+        createdAt,
+        ...(filters.mlsInstanceId && { RawListingData: { some: { mlsInstanceId: filters.mlsInstanceId } } }),
+      },
+      _count: true,
+    }),
+    Promise.all([
+      rawListingErrors('listing', 'errorMessage'),
+      rawListingErrors('loan', 'loanDataError'),
+      rawListingErrors('photos', 'photosPullError'),
+      photoDataErrors,
+    ]),
+    prisma.rawListingData.findMany({
+      where: stuckWhere,
+      select: {
+        id: true,
+        mlsProviderId: true,
+        mlsInstanceId: true,
+        parcelNumber: true,
+        zipCode: true,
+        photosPullAttempts: true,
+        photosPullError: true,
+        lastPhotosPullAt: true,
+        createdAt: true,
+      },
+      orderBy: [{ photosPullAttempts: 'desc' }, { createdAt: 'asc' }],
+      take: MAX_STUCK_RECORDS,
+    }),
+    prisma.rawListingData.count({ where: stuckWhere }),
+    prisma.$queryRaw<Array<{ day: string; p50: number; p90: number; p99: number; processed: number }>>`
+      SELECT
+        to_char(date_trunc('day', r."processedAt"), 'YYYY-MM-DD') AS day,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r."processedAt" - r."createdAt"))::float / 60 AS p50,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r."processedAt" - r."createdAt"))::float / 60 AS p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r."processedAt" - r."createdAt"))::float / 60 AS p99,
+        COUNT(*)::int AS processed
+      FROM "RawListingData" r
+      WHERE ${windowCondition('r."processedAt"')} ${instanceCondition}
+        AND r."processedAt" >= r."createdAt"
+      GROUP BY 1
+    `,
+  ]);
+
+  // Merge raw messages that normalize to the same text, per stage
+  const groups = new Map<string, IngestionErrorGroup>();
+  errorRows.flat().forEach(({ stage, message, count, lastSeen }) => {
+    const normalized = normalizeErrorMessage(message);
+    const key = `${stage}|${normalized}`;
+    const existing = groups.get(key);
+    const seen = new Date(lastSeen).toISOString();
+    if (existing) {
+      existing.count += count;
+      if (seen > existing.lastSeen) existing.lastSeen = seen;
+    } else {
+      groups.set(key, { stage, message: normalized, count, example: message, lastSeen: seen });
+    }
+  });
+
+  const latencyByDay = new Map(latencyRows.map(row => [row.day, row]));
+  const latency: LatencySeries = {
+    labels,
+    p50: labels.map(day => latencyByDay.get(day)?.p50 ?? 0),
+    p90: labels.map(day => latencyByDay.get(day)?.p90 ?? 0),
+    p99: labels.map(day => latencyByDay.get(day)?.p99 ?? 0),
+    processed: labels.map(day => latencyByDay.get(day)?.processed ?? 0),
+  };
+
+  const photoDataStatus: Partial<Record<PhotoProcessingStatus, number>> = {};
+  photoDataGroups.forEach(group => {
+    photoDataStatus[group.status] = group._count;
+  });
+
+  return {
+    filters,
+    totalRecords: totals[0]?.total ?? 0,
+    unprocessedRecords: totals[0]?.unprocessed ?? 0,
+    loanPullStatus: toStatusSeries(labels, loanRows),
+    photosPullStatus: toStatusSeries(labels, photoRows),
+    photoDataStatus,
+    topErrors: Array.from(groups.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_ERROR_GROUPS),
+    stuckRecords: stuckRecords.map(record => ({
+      ...record,
+      lastPhotosPullAt: record.lastPhotosPullAt?.toISOString() ?? null,
+      createdAt: record.createdAt.toISOString(),
+    })),
+    stuckTotal,
+    latency,
+    generatedAt: new Date().toISOString(),
+  };
+}
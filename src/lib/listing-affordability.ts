@@ -0,0 +1,92 @@
+import prisma from '@/lib/prisma';
+import { FilterValidationError } from '@/lib/filters';
+import { DEFAULT_BENCHMARK_RATE } from '@/lib/mortgage-analytics';
+import { DEFAULT_SECOND_LIEN_RATE, DEFAULT_SECOND_LIEN_TERM_YEARS } from '@/lib/affordability';
+import { AffordabilitySeed, BuyerInputs } from '@/types/affordability';
+
+const MAX_RATE = 20;
+const MAX_SECOND_LIEN_TERM_YEARS = 40;
+
+/**
+ * Parse buyer inputs for the affordability calculator. Every parameter is
+ * optional: no cash means the second lien covers the whole equity gap, no
+ * income skips DTI and rates fall back to the defaults.
+ * @param {URLSearchParams} params - Query parameters (`cash`, `annualIncome`, `monthlyDebts`,
+ *   `secondLienRate`, `secondLienTermYears`, `marketRate`)
+ * @returns {BuyerInputs} Validated inputs
+ * @throws {FilterValidationError} If a value is not a number or out of range
+ */
+export function parseBuyerInputs(params: URLSearchParams): BuyerInputs {
+  const number = (key: string, { min, max }: { min: number; max: number }): number | undefined => {
+    const raw = params.get(key)?.trim();
+    if (!raw) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new FilterValidationError(key, `${key} must be a number between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  return {
+    cash: number('cash', { min: 0, max: Number.MAX_SAFE_INTEGER }) ?? 0,
+    annualIncome: number('annualIncome', { min: 0, max: Number.MAX_SAFE_INTEGER }) ?? null,
+    monthlyDebts: number('monthlyDebts', { min: 0, max: Number.MAX_SAFE_INTEGER }) ?? 0,
+    secondLienRate: number('secondLienRate', { min: 0, max: MAX_RATE }) ?? DEFAULT_SECOND_LIEN_RATE,
+    secondLienTermYears: number('secondLienTermYears', { min: 1, max: MAX_SECOND_LIEN_TERM_YEARS }) ?? DEFAULT_SECOND_LIEN_TERM_YEARS,
+    marketRate: number('marketRate', { min: 0, max: MAX_RATE }) ?? DEFAULT_BENCHMARK_RATE,
+  };
+}
+
+/**
+ * Load the calculator seed for a listing from its assumable loan
+ * (Listing -> PropertyRadar -> Loan -> AssumableMortgage). When a property
+ * has several assumable loans the first-position loan is used.
+ * @param {string} listingId - Listing id
+ * @returns {Promise<AffordabilitySeed | null | undefined>} The seed, null when the listing
+ *   has no assumable mortgage, undefined when the listing does not exist
+ */
+export async function getAffordabilitySeed(listingId: string): Promise<AffordabilitySeed | null | undefined> {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: {
+      id: true,
+      address: true,
+      city: true,
+      state: true,
+      price: true,
+      PropertyRadar: {
+        select: {
+          Loan: {
+            where: { deletedAt: null, assumableMortgageId: { not: null } },
+            orderBy: { loanPosition: 'asc' },
+            take: 1,
+            select: { loanType: true, AssumableMortgage: true },
+          },
+        },
+      },
+    },
+  });
+  if (!listing) return undefined;
+
+  const loan = listing.PropertyRadar?.Loan[0];
+  const mortgage = loan?.AssumableMortgage;
+  if (!loan || !mortgage) return null;
+
+  return {
+    listingId: listing.id,
+    address: listing.address,
+    city: listing.city,
+    state: listing.state,
+    price: Number(listing.price),
+    loanType: loan.loanType,
+    currentBalance: Number(mortgage.currentBalance),
+    interestRate: Number(mortgage.interestRate),
+    monthlyPayment: Number(mortgage.monthlyPayment),
+    remainingTerm: mortgage.remainingTerm,
+    monthlyPropertyTax: Number(mortgage.monthlyPropertyTax),
+    monthlyInsurance: Number(mortgage.monthlyInsurance),
+    monthlyHoa: Number(mortgage.monthlyHoa),
+    monthlyPmi: Number(mortgage.monthlyPmi),
+    qualifyingDti: mortgage.qualifyingDti === null ? null : Number(mortgage.qualifyingDti),
+  };
+}
@@ -0,0 +1,289 @@
+import { EntityType, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { changedFieldNames } from '@/lib/price-history';
+import {
+  DataCorrectionEntry,
+  ListingAuditEntry,
+  ListingDetail,
+  ListingDetailPhoto,
+  ListingDetailSection,
+  ListingReportEntry,
+  LoanDetail,
+  PropertyRadarSummary,
+} from '@/types/listing-detail';
+
+/** Audit entries returned with the detail; older ones are left to the audit feed */
+export const DETAIL_AUDIT_LIMIT = 50;
+
+const toNumber = (value: Prisma.Decimal | null) => (value === null ? null : Number(value));
+const toIso = (value: Date | null) => value?.toISOString() ?? null;
+
+/**
+ * Load one section, logging and recording it as unavailable instead of
+ * failing the whole page when its query throws
+ * @param {ListingDetailSection} section - Section name
+ * @param {() => Promise<T>} load - Section loader
+ * @param {T} fallback - Value shown when the section fails
+ * @param {ListingDetailSection[]} unavailable - Collects failed sections
+ * @returns {Promise<T>} Section data or the fallback
+ */
+async function loadSection<T>(
+  section: ListingDetailSection,
+  load: () => Promise<T>,
+  fallback: T,
+  unavailable: ListingDetailSection[]
+): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    console.error(`Listing detail ${section} error:`, error);
+    unavailable.push(section);
+    return fallback;
+  }
+}
+
+async function loadPhotos(listingId: string): Promise<ListingDetailPhoto[]> {
+  const photos = await prisma.listingPhoto.findMany({
+    where: { listingId, isActive: true },
+    orderBy: { order: 'asc' },
+  });
+  return photos.map(photo => ({
+    id: photo.id,
+    url: photo.s3Url || photo.mlsUrl,
+    mirrored: Boolean(photo.s3Url),
+    order: photo.order,
+    lastChecked: photo.lastChecked.toISOString(),
+  }));
+}
+
+async function loadPropertyRadar(propertyRadarId: string): Promise<PropertyRadarSummary | null> {
+  const record = await prisma.propertyRadar.findUnique({ where: { id: propertyRadarId } });
+  if (!record) return null;
+
+  const mailing = [record.ownerAddress, record.ownerCity, [record.ownerState, record.ownerZip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    id: record.id,
+    county: record.county,
+    parcelNumber: record.parcelNumber,
+    avm: toNumber(record.avm),
+    availableEquity: toNumber(record.availableEquity),
+    equityPercent: record.equityPercent,
+    cltv: record.cltv,
+    annualTaxes: toNumber(record.annualTaxes),
+    owners: [record.ownerName1, record.ownerName2].filter((name): name is string => Boolean(name)),
+    ownerMailingAddress: mailing || null,
+    lastTransferDate: toIso(record.lastTransferDate),
+    lastTransferValue: toNumber(record.lastTransferValue),
+    lastTransferType: record.lastTransferType,
+    lastTransferDownPayment: toNumber(record.lastTransferDownPayment),
+    lastTransferDownPaymentPercent: record.lastTransferDownPaymentPercent,
+    loanDataFetchedAt: toIso(record.loanDataFetchedAt),
+    needsReview: record.needsReview,
+    reviewReason: record.reviewReason,
+  };
+}
+
+async function loadLoans(propertyRadarId: string): Promise<LoanDetail[]> {
+  const loans = await prisma.loan.findMany({
+    where: { propertyId: propertyRadarId },
+    include: { AssumableMortgage: true },
+    orderBy: [{ loanPosition: 'asc' }, { recordingDate: 'desc' }],
+  });
+
+  return loans.map(loan => {
+    const mortgage = loan.AssumableMortgage;
+    return {
+      id: loan.id,
+      loanPosition: loan.loanPosition,
+      loanType: loan.loanType,
+      purpose: loan.purpose,
+      lenderName: loan.lenderName,
+      recordingDate: loan.recordingDate.toISOString(),
+      maturityDate: toIso(loan.maturityDate),
+      initialAmount: Number(loan.initialAmount),
+      remainingBalance: toNumber(loan.remainingBalance),
+      interestRate: toNumber(loan.interestRate),
+      interestRateEstimated: loan.interestRateEstimated,
+      termYears: loan.termYears,
+      monthlyPayment: toNumber(loan.monthlyPayment),
+      isAssumable: loan.isAssumable,
+      deletedAt: toIso(loan.deletedAt),
+      assumableMortgage: mortgage
+        ? {
+            id: mortgage.id,
+            currentBalance: Number(mortgage.currentBalance),
+            interestRate: Number(mortgage.interestRate),
+            monthlyPayment: Number(mortgage.monthlyPayment),
+            remainingTerm: mortgage.remainingTerm,
+            assumabilityStatus: mortgage.assumabilityStatus,
+            lastVerifiedDate: toIso(mortgage.lastVerifiedDate),
+            downPayment: Number(mortgage.downPayment),
+            percentDown: Number(mortgage.percentDown),
+            monthlyAllInPayment: Number(mortgage.monthlyAllInPayment),
+            desirabilityScore: toNumber(mortgage.assumableDesirabilityScore),
+            isDesirable: mortgage.isAssumableDesirable,
+          }
+        : null,
+    };
+  });
+}
+
+async function loadAudits(listingId: string): Promise<ListingAuditEntry[]> {
+  const audits = await prisma.listingAudit.findMany({
+    where: { listingId },
+    select: { id: true, action: true, source: true, sourceName: true, createdAt: true, changes: true },
+    orderBy: { createdAt: 'desc' },
+    take: DETAIL_AUDIT_LIMIT,
+  });
+  return audits.map(audit => ({
+    id: audit.id,
+    action: audit.action,
+    source: audit.source,
+    sourceName: audit.sourceName,
+    createdAt: audit.createdAt.toISOString(),
+    changedFields: audit.changes === null ? [] : changedFieldNames(audit.changes),
+  }));
+}
+
+async function loadReports(listingId: string): Promise<ListingReportEntry[]> {
+  const reports = await prisma.listingReport.findMany({
+    where: { listingId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return reports.map(report => ({
+    id: report.id,
+    reason: report.reason,
+    reporterType: report.reporterType,
+    details: report.details,
+    status: report.status,
+    createdAt: report.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Active DataCorrections on the listing or any row hanging off it. Corrections
+ * reference their target by entity type and id rather than a relation, so
+ * each related row type is matched against its override/permanent types.
+ */
+async function loadCorrections(
+  listing: { id: string; rawDataId: string | null; propertyRadarId: string | null },
+  loans: LoanDetail[],
+  photos: ListingDetailPhoto[]
+): Promise<DataCorrectionEntry[]> {
+  const history = await prisma.listingHistory.findMany({ where: { listingId: listing.id }, select: { id: true } });
+
+  const targets: Array<[EntityType[], string[]]> = [
+    [[EntityType.LISTING_OVERRIDE, EntityType.LISTING_PERMANENT], [listing.id]],
+    [[EntityType.RAW_LISTING_DATA], listing.rawDataId ? [listing.rawDataId] : []],
+    [[EntityType.PROPERTY_RADAR_OVERRIDE, EntityType.PROPERTY_RADAR_PERMANENT], listing.propertyRadarId ? [listing.propertyRadarId] : []],
+    [[EntityType.LOAN_OVERRIDE, EntityType.LOAN_PERMANENT], loans.map(loan => loan.id)],
+    [
+      [EntityType.ASSUMABLE_MORTGAGE_OVERRIDE, EntityType.ASSUMABLE_MORTGAGE_PERMANENT],
+      loans.flatMap(loan => (loan.assumableMortgage ? [loan.assumableMortgage.id] : [])),
+    ],
+    [[EntityType.LISTING_PHOTO_OVERRIDE, EntityType.LISTING_PHOTO_PERMANENT], photos.map(photo => photo.id)],
+    [[EntityType.LISTING_HISTORY_OVERRIDE, EntityType.LISTING_HISTORY_PERMANENT], history.map(row => row.id)],
+  ];
+
+  const corrections = await prisma.dataCorrection.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: targets
+        .filter(([, ids]) => ids.length > 0)
+        .map(([entityTypes, ids]) => ({ entityType: { in: entityTypes }, entityId: { in: ids } })),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return corrections.map(correction => ({
+    id: correction.id,
+    entityType: correction.entityType,
+    entityId: correction.entityId,
+    field: correction.field,
+    originalValue: correction.originalValue,
+    correctedValue: correction.correctedValue,
+    reason: correction.reason,
+    status: correction.status,
+    createdBy: correction.createdBy,
+    createdAt: correction.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Everything support needs to see about one listing: the listing itself,
+ * photos, PropertyRadar record, loans with their assumable mortgages, audit
+ * entries, active data corrections and user reports.
+ *
+ * Missing relations come back as null or empty lists. A section whose query
+ * fails is logged, returned empty and named in `unavailable` so the page can
+ * still render the rest. The ListingHistory timeline is served separately by
+ * /api/listings/[id]/history.
+ *
+ * @param {string} listingId - Listing id
+ * @returns {Promise<ListingDetail | null>} Detail, or null if the listing does not exist
+ */
+export async function getListingDetail(listingId: string): Promise<ListingDetail | null> {
+  const listing = await prisma.listing.findUnique({ where: { id: listingId } });
+  if (!listing) return null;
+
+  const unavailable: ListingDetailSection[] = [];
+  const propertyRadarId = listing.propertyRadarId;
+
+  const [photos, propertyRadar, loans, audits, reports] = await Promise.all([
+    loadSection('photos', () => loadPhotos(listing.id), [], unavailable),
+    loadSection('propertyRadar', async () => (propertyRadarId ? loadPropertyRadar(propertyRadarId) : null), null, unavailable),
+    loadSection('loans', async () => (propertyRadarId ? loadLoans(propertyRadarId) : []), [], unavailable),
+    loadSection('audits', () => loadAudits(listing.id), [], unavailable),
+    loadSection('reports', () => loadReports(listing.id), [], unavailable),
+  ]);
+  const corrections = await loadSection('corrections', () => loadCorrections(listing, loans, photos), [], unavailable);
+
+  return {
+    listing: {
+      id: listing.id,
+      address: listing.address,
+      unitNumber: listing.unitNumber,
+      city: listing.city,
+      state: listing.state,
+      zipCode: listing.zipCode,
+      status: listing.status,
+      price: Number(listing.price),
+      propertyType: listing.propertyType,
+      propertySubType: listing.propertySubType,
+      bedrooms: listing.bedrooms,
+      bathrooms: toNumber(listing.bathrooms),
+      squareFeet: listing.squareFeet,
+      yearBuilt: listing.yearBuilt,
+      listedAt: toIso(listing.listedAt),
+      lastStatusChange: toIso(listing.lastStatusChange),
+      lastMlsUpdate: toIso(listing.lastMlsUpdate),
+      createdAt: listing.createdAt.toISOString(),
+      updatedAt: listing.updatedAt.toISOString(),
+      deletedAt: toIso(listing.deletedAt),
+      mlsListingId: listing.mlsListingId,
+      mlsInstanceId: listing.mlsInstanceId,
+      mlsName: listing.denormalizedMlsInstanceName,
+      isAssumable: listing.isAssumable,
+      loanType: listing.denormalizedAssumableLoanType,
+      assumableInterestRate: toNumber(listing.denormalizedAssumableInterestRate),
+      assumableMonthlyPayment: toNumber(listing.denormalizedAssumableMonthlyPayment),
+      desirabilityScore: toNumber(listing.assumableDesirabilityScore),
+      processingState: listing.processingState,
+      processingVersion: listing.processingVersion,
+      agentName: listing.agentName,
+      agentPhone: listing.agentPhone,
+      agentEmail: listing.agentEmail,
+      agentOfficeName: listing.agentOfficeName,
+    },
+    photos,
+    propertyRadar,
+    loans,
+    audits,
+    corrections,
+    reports,
+    unavailable,
+  };
+}
@@ -0,0 +1,123 @@
+import { ListingStatus, Prisma } from '@prisma/client';
+import { ChartData } from '@/types/dashboard';
+
+/**
+ * Coarse lifecycle category of a listing status. The 40 MLS statuses collapse
+ * into these for charts, the status funnel and the days-on-market clock.
+ */
+export type StatusCategory = 'active' | 'paused' | 'underContract' | 'closed' | 'offMarket' | 'preMarket' | 'unknown';
+
+/** Categories in lifecycle order, used for chart and matrix ordering */
+export const STATUS_CATEGORY_ORDER: StatusCategory[] = [
+  'preMarket',
+  'active',
+  'paused',
+  'underContract',
+  'closed',
+  'offMarket',
+  'unknown',
+];
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  preMarket: 'Coming Soon',
+  active: 'Active',
+  paused: 'Temporarily Off',
+  underContract: 'Under Contract',
+  closed: 'Closed',
+  offMarket: 'Off Market',
+  unknown: 'Unknown',
+};
+
+/** Chart colors: greens for the selling path, warm colors for exits, greys for the rest */
+export const STATUS_CATEGORY_COLORS: Record<StatusCategory, string> = {
+  preMarket: '#E6FFB3',
+  active: '#D1FF4C',
+  paused: '#FFD166',
+  underContract: '#65C466',
+  closed: '#1B5E20',
+  offMarket: '#FF5C5C',
+  unknown: '#B0B0B0',
+};
+
+export const STATUS_CATEGORIES: Record<ListingStatus, StatusCategory> = {
+  ACTIVE: 'active',
+  NEW: 'active',
+  BACK_ON_MARKET: 'active',
+  PRICE_CHANGE: 'active',
+  REACTIVATED: 'active',
+  AUCTION: 'active',
+  SHORT_SALE: 'active',
+  PRE_FORECLOSURE: 'active',
+  TEMPORARILY_OFF_MARKET: 'paused',
+  HOLD: 'paused',
+  PENDING: 'underContract',
+  PENDING_CONTINUE_TO_SHOW: 'underContract',
+  PENDING_NO_SHOW: 'underContract',
+  PENDING_TAKING_BACKUPS: 'underContract',
+  CONTINGENT: 'underContract',
+  CONTINGENT_CONTINUE_TO_SHOW: 'underContract',
+  CONTINGENT_NO_SHOW: 'underContract',
+  ACTIVE_CONTINGENT: 'underContract',
+  ACTIVE_KICK_OUT: 'underContract',
+  ACTIVE_OPTION_CONTRACT: 'underContract',
+  ACTIVE_UNDER_CONTRACT: 'underContract',
+  ACTIVE_WITH_CONTRACT: 'underContract',
+  UNDER_CONTRACT: 'underContract',
+  IN_CONTRACT: 'underContract',
+  APPROVED: 'underContract',
+  RESERVED: 'underContract',
+  SOLD: 'closed',
+  CLOSED: 'closed',
+  LEASED: 'closed',
+  RENTED: 'closed',
+  WITHDRAWN: 'offMarket',
+  EXPIRED: 'offMarket',
+  CANCELLED: 'offMarket',
+  TERMINATED: 'offMarket',
+  OFF_MARKET: 'offMarket',
+  DELETED: 'offMarket',
+  ARCHIVED: 'offMarket',
+  COMING_SOON: 'preMarket',
+  PRE_MLS: 'preMarket',
+  UNKNOWN: 'unknown',
+};
+
+/**
+ * Lifecycle category of a listing status
+ * @param {ListingStatus} status - Listing status
+ * @returns {StatusCategory} Category of the status
+ */
+export const statusCategory = (status: ListingStatus): StatusCategory => STATUS_CATEGORIES[status] ?? 'unknown';
+
+/**
+ * SQL CASE expression mapping a status column to its category, so database
+ * aggregations use exactly the same mapping as the TypeScript code
+ * @param {string} column - Qualified status column, e.g. `h.status`
+ * @returns {Prisma.Sql} Expression evaluating to the category name
+ */
+export const statusCategorySql = (column: string): Prisma.Sql => {
+  // Enum names and categories are fixed identifiers, so they are inlined rather than bound as parameters
+  const cases = Object.entries(STATUS_CATEGORIES)
+    .map(([status, category]) => `WHEN '${status}' THEN '${category}'`)
+    .join(' ');
+  return Prisma.raw(`(CASE ${column}::text ${cases} ELSE 'unknown' END)`);
+};
+
+/**
+ * Roll per-status counts up into lifecycle categories
+ * @param {Array<{status: ListingStatus, count: number}>} rows - Counts per status
+ * @returns {ChartData} Category labels and counts in lifecycle order, empty categories omitted
+ */
+export function groupByStatusCategory(rows: Array<{ status: ListingStatus; count: number }>): ChartData {
+  const counts = new Map<StatusCategory, number>();
+  rows.forEach(({ status, count }) => {
+    const category = statusCategory(status);
+    counts.set(category, (counts.get(category) ?? 0) + count);
+  });
+
+  const categories = STATUS_CATEGORY_ORDER.filter(category => counts.has(category));
+  return {
+    labels: categories.map(category => STATUS_CATEGORY_LABELS[category]),
+    values: categories.map(category => counts.get(category) ?? 0),
+  };
+}
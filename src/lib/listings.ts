@@ -0,0 +1,212 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildListingSql, FilterValidationError } from '@/lib/filters';
+import { bucketClosedSide } from '@/lib/bucket-specs';
+import { daysOnMarketSql } from '@/lib/days-on-market';
+import { DashboardFilters } from '@/types/dashboard';
+import { ListingPage, ListingQuery, ListingRanges, ListingRow, ListingSortField, SortOrder } from '@/types/listings';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** Sortable columns and the SQL type their cursor values are cast back to */
+const SORT_FIELDS: Record<ListingSortField, 'numeric' | 'timestamp'> = {
+  price: 'numeric',
+  listedAt: 'timestamp',
+  assumableDesirabilityScore: 'numeric',
+  denormalizedAssumableInterestRate: 'numeric',
+};
+
+interface Cursor {
+  /** Sort value of the last row as Postgres text, null when the column was null */
+  value: string | null;
+  id: string;
+}
+
+const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?$/;
+const TIMESTAMP_TEXT = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/;
+
+/** Whether a cursor value is what Postgres prints for a column of the given type */
+const CURSOR_VALUE_CHECKS: Record<'numeric' | 'timestamp', (value: string) => boolean> = {
+  numeric: value => NUMERIC_TEXT.test(value) && Number.isFinite(Number(value)),
+  timestamp: value => TIMESTAMP_TEXT.test(value) && !Number.isNaN(Date.parse(`${value.replace(' ', 'T')}Z`)),
+};
+
+/**
+ * Decode a page cursor. The sort value is checked against the sort column's
+ * type so a forged cursor fails here rather than in the `::numeric` or
+ * `::timestamp` cast.
+ * @param {string} raw - Cursor from the query string
+ * @param {ListingSortField} sort - Sort field the cursor must belong to
+ * @returns {Cursor} Decoded cursor
+ * @throws {FilterValidationError} If the cursor is malformed
+ */
+const decodeCursor = (raw: string, sort: ListingSortField): Cursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString());
+    if (
+      typeof cursor?.id === 'string' &&
+      (cursor.value === null || (typeof cursor.value === 'string' && CURSOR_VALUE_CHECKS[SORT_FIELDS[sort]](cursor.value)))
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new FilterValidationError('cursor', 'cursor is invalid; pass the nextCursor of a previous page');
+};
+
+/**
+ * Parse paging, sorting and drill-down ranges for the listing search
+ * @param {URLSearchParams} params - Query parameters (`sort`, `order`, `cursor`, `limit`,
+ *   `priceMin`, `priceMax`, `daysOnMarketMin`, `daysOnMarketMax`)
+ * @returns {ListingQuery} Validated query, newest listings first by default
+ * @throws {FilterValidationError} If a parameter is invalid
+ */
+export function parseListingQuery(params: URLSearchParams): ListingQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const sort = get('sort') ?? 'listedAt';
+  if (!Object.hasOwn(SORT_FIELDS, sort)) {
+    throw new FilterValidationError('sort', `sort must be one of ${Object.keys(SORT_FIELDS).join(', ')}`);
+  }
+
+  const order = get('order') ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new FilterValidationError('order', 'order must be asc or desc');
+  }
+
+  const limit = Number(get('limit') ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new FilterValidationError('limit', `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const query: ListingQuery = { sort: sort as ListingSortField, order: order as SortOrder, limit, cursor: get('cursor') };
+  for (const key of ['priceMin', 'priceMax', 'daysOnMarketMin', 'daysOnMarketMax'] as const) {
+    const raw = get(key);
+    if (raw === undefined) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new FilterValidationError(key, `${key} must be a non-negative number`);
+    }
+    query[key] = value;
+  }
+  if (query.cursor) decodeCursor(query.cursor, query.sort);
+
+  return query;
+}
+
+/**
+ * Price range condition matching the price chart's buckets
+ * @param {ListingRanges} ranges - Drill-down ranges
+ * @returns {Prisma.Sql[]} Conditions on `l.price`
+ */
+const priceConditions = ({ priceMin, priceMax }: ListingRanges): Prisma.Sql[] => {
+  const closedLeft = bucketClosedSide('price') === 'left';
+  const conditions: Prisma.Sql[] = [];
+  if (priceMin !== undefined) conditions.push(closedLeft ? Prisma.sql`l.price >= ${priceMin}` : Prisma.sql`l.price > ${priceMin}`);
+  if (priceMax !== undefined) conditions.push(closedLeft ? Prisma.sql`l.price < ${priceMax}` : Prisma.sql`l.price <= ${priceMax}`);
+  return conditions;
+};
+
+/**
+ * Days-on-market range condition matching the DOM chart's buckets. DOM comes
+ * from `daysOnMarketSql` over the same filtered listings, so the drill-down
+ * agrees with the dashboard chart.
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {ListingRanges} ranges - Drill-down ranges
+ * @returns {Prisma.Sql[]} Condition on `l.id`, empty without a DOM range
+ */
+const daysOnMarketConditions = (filters: DashboardFilters, { daysOnMarketMin, daysOnMarketMax }: ListingRanges): Prisma.Sql[] => {
+  const closedLeft = bucketClosedSide('daysOnMarket') === 'left';
+  const bounds: Prisma.Sql[] = [];
+  if (daysOnMarketMin !== undefined) bounds.push(closedLeft ? Prisma.sql`d.days >= ${daysOnMarketMin}` : Prisma.sql`d.days > ${daysOnMarketMin}`);
+  if (daysOnMarketMax !== undefined) bounds.push(closedLeft ? Prisma.sql`d.days < ${daysOnMarketMax}` : Prisma.sql`d.days <= ${daysOnMarketMax}`);
+  if (bounds.length === 0) return [];
+
+  const daysOnMarket = daysOnMarketSql(Prisma.sql`FROM "Listing" l WHERE ${buildListingSql(filters)}`);
+  return [Prisma.sql`l.id IN (SELECT d."listingId" FROM (${daysOnMarket}) d WHERE ${Prisma.join(bounds, ' AND ')})`];
+};
+
+/**
+ * One page of listings matching the dashboard filters and drill-down ranges.
+ *
+ * Keyset pagination on (sort column, id): nulls sort last in either
+ * direction and ties break on id, so pages stay stable while listings are
+ * inserted or updated between requests.
+ *
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {ListingQuery} query - Sort, page size, cursor and ranges
+ * @returns {Promise<ListingPage>} Listings, next cursor and (first page only) the total
+ */
+export async function searchListings(filters: DashboardFilters, query: ListingQuery): Promise<ListingPage> {
+  const conditions = [buildListingSql(filters), ...priceConditions(query), ...daysOnMarketConditions(filters, query)];
+  const where = Prisma.join(conditions, ' AND ');
+  const column = Prisma.raw(`l."${query.sort}"`);
+  const cast = Prisma.raw(SORT_FIELDS[query.sort]);
+
+  let keyset = Prisma.empty;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, query.sort);
+    const beyond = Prisma.raw(query.order === 'asc' ? '>' : '<');
+    keyset = cursor.value === null
+      ? Prisma.sql`AND ${column} IS NULL AND l.id > ${cursor.id}`
+      : Prisma.sql`AND (
+          ${column} ${beyond} ${cursor.value}::${cast}
+          OR (${column} = ${cursor.value}::${cast} AND l.id > ${cursor.id})
+          OR ${column} IS NULL
+        )`;
+  }
+
+  const [rows, total] = await Promise.all([
+    prisma.$queryRaw<Array<Omit<ListingRow, 'listedAt'> & { listedAt: Date | null; cursorValue: string | null }>>`
+      SELECT
+        l.id,
+        l.address,
+        l.city,
+        l.state,
+        l."zipCode",
+        l.status,
+        l.price::float8 AS price,
+        l."listedAt",
+        l."denormalizedAssumableLoanType" AS "loanType",
+        l."denormalizedAssumableInterestRate"::float8 AS "interestRate",
+        l."denormalizedAssumableMonthlyPayment"::float8 AS "monthlyPayment",
+        l."assumableDesirabilityScore"::float8 AS "desirabilityScore",
+        ${column}::text AS "cursorValue"
+      FROM "Listing" l
+      WHERE ${where} ${keyset}
+      ORDER BY ${column} ${Prisma.raw(query.order.toUpperCase())} NULLS LAST, l.id ASC
+      LIMIT ${query.limit + 1}
+    `,
+    query.cursor
+      ? Promise.resolve(null)
+      : prisma.$queryRaw<Array<{ count: number }>>`
+          SELECT COUNT(*)::int AS count FROM "Listing" l WHERE ${where}
+        `.then(([row]) => row?.count ?? 0),
+  ]);
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    listings: page.map(row => ({
+      id: row.id,
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      zipCode: row.zipCode,
+      status: row.status,
+      price: row.price,
+      listedAt: row.listedAt?.toISOString() ?? null,
+      loanType: row.loanType,
+      interestRate: row.interestRate,
+      monthlyPayment: row.monthlyPayment,
+      desirabilityScore: row.desirabilityScore,
+    })),
+    nextCursor: rows.length > query.limit && last ? encodeCursor({ value: last.cursorValue, id: last.id }) : null,
+    total,
+  };
+}
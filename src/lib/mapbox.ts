@@ -0,0 +1,7 @@
+/** Public Mapbox token, exposed to the browser via the NEXT_PUBLIC_ prefix */
+export const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
+
+export const MAP_STYLE = 'mapbox://styles/mapbox/light-v11';
+
+// Continental US
+export const INITIAL_VIEW = { longitude: -98.5, latitude: 39.8, zoom: 3.5 };
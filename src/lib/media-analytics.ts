@@ -0,0 +1,324 @@
+import { DataPullStatus, ListingStatus, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildListingSql, FilterValidationError } from '@/lib/filters';
+import { BucketRange, PHOTO_CHECK_AGE_RANGES, PHOTO_GAP_RANGES } from '@/lib/buckets';
+import { DashboardFilters } from '@/types/dashboard';
+import {
+  MediaAnalytics,
+  PhotoRepullPage,
+  PhotoRepullQuery,
+  PhotoRepullReason,
+  PhotoRepullRow,
+} from '@/types/media';
+
+/** Photos not checked against the MLS for this many days count as stale */
+export const STALE_PHOTO_CHECK_DAYS = 30;
+
+export const DEFAULT_REPULL_PAGE_SIZE = 50;
+export const MAX_REPULL_PAGE_SIZE = 200;
+
+export const PHOTO_REPULL_REASONS: PhotoRepullReason[] = ['NO_PHOTOS', 'MISSING_PHOTOS', 'NOT_MIRRORED', 'STALE_CHECK'];
+
+const DAY_MS = 86400000;
+const DAY_SECONDS = 86400;
+
+/**
+ * Per-listing media columns for listings matching the filters, as a `media`
+ * CTE: the MLS-reported photo count and last pull from RawListingData, and
+ * the stored (active) photo count, photos without an S3 copy and the oldest
+ * `lastChecked` from ListingPhoto. `missing` is null without a reported count.
+ * @param {DashboardFilters} filters - Validated filters
+ * @returns {Prisma.Sql} WITH clause defining `media`
+ */
+const mediaCte = (filters: DashboardFilters): Prisma.Sql => Prisma.sql`
+  WITH scoped AS (
+    SELECT
+      l.id,
+      l.address,
+      l.city,
+      l.state,
+      l.status,
+      l."denormalizedMlsInstanceName" AS "mlsName",
+      cardinality(l."photoUrls") > 0 AS "hasPhotoUrls",
+      cardinality(l."videoUrls") > 0 AS "hasVideos",
+      cardinality(l."documentUrls") > 0 AS "hasDocuments",
+      r."photosCount" AS reported,
+      r."lastPhotosPullAt",
+      r."photosPullStatus"
+    FROM "Listing" l
+    LEFT JOIN "RawListingData" r ON r.id = l."rawDataId"
+    WHERE ${buildListingSql(filters)}
+  ),
+  photos AS (
+    SELECT
+      p."listingId",
+      COUNT(*)::int AS stored,
+      COUNT(*) FILTER (WHERE p."s3Url" IS NULL OR p."s3Url" = '')::int AS unmirrored,
+      MIN(p."lastChecked") AS "oldestCheck"
+    FROM "ListingPhoto" p
+    JOIN scoped s ON s.id = p."listingId"
+    WHERE p."isActive"
+    GROUP BY 1
+  ),
+  media AS (
+    SELECT
+      s.*,
+      COALESCE(ph.stored, 0) AS stored,
+      COALESCE(ph.unmirrored, 0) AS unmirrored,
+      ph."oldestCheck",
+      CASE WHEN s.reported IS NULL THEN NULL ELSE GREATEST(s.reported - COALESCE(ph.stored, 0), 0) END AS missing
+    FROM scoped s
+    LEFT JOIN photos ph ON ph."listingId" = s.id
+  )
+`;
+
+/** SQL condition flagging a `media` row for one re-pull reason */
+const reasonSql = (reason: PhotoRepullReason, staleBefore: Date): Prisma.Sql => {
+  switch (reason) {
+    case 'NO_PHOTOS':
+      return Prisma.sql`m.stored = 0`;
+    case 'MISSING_PHOTOS':
+      return Prisma.sql`m.missing > 0`;
+    case 'NOT_MIRRORED':
+      return Prisma.sql`m.unmirrored > 0`;
+    case 'STALE_CHECK':
+      return Prisma.sql`m."oldestCheck" < ${staleBefore}`;
+  }
+};
+
+/** One COUNT per bucket of `value`, as an int array in range order */
+const bucketCountsSql = (value: Prisma.Sql, ranges: BucketRange[]): Prisma.Sql =>
+  Prisma.sql`ARRAY[${Prisma.join(ranges.map(range => range.max === null
+    ? Prisma.sql`COUNT(*) FILTER (WHERE ${value} >= ${range.min})::int`
+    : Prisma.sql`COUNT(*) FILTER (WHERE ${value} >= ${range.min} AND ${value} < ${range.max})::int`
+  ))}]`;
+
+interface MediaSummaryRow {
+  listingCount: number;
+  withoutPhotos: number;
+  withPhotoUrls: number;
+  withVideos: number;
+  withDocuments: number;
+  withReportedCount: number;
+  reportedPhotos: number;
+  storedOfReported: number;
+  missingPhotos: number;
+  storedPhotos: number;
+  unmirroredPhotos: number;
+  listingsUnmirrored: number;
+  staleListings: number;
+  gapCounts: number[];
+}
+
+/**
+ * Photo and media coverage for the Media tab: listings without photos, the
+ * gap between MLS-reported and stored photo counts, photos not yet mirrored
+ * to S3, and how long ago stored photos were last checked
+ * @param {DashboardFilters} filters - Validated filters
+ * @returns {Promise<MediaAnalytics>} Summary and distributions
+ */
+export async function computeMediaAnalytics(filters: DashboardFilters): Promise<MediaAnalytics> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PHOTO_CHECK_DAYS * DAY_MS);
+  const checkAgeDays = Prisma.sql`EXTRACT(EPOCH FROM (${now}::timestamp - p."lastChecked")) / ${DAY_SECONDS}`;
+
+  const [[summary], [checkAge]] = await Promise.all([
+    prisma.$queryRaw<MediaSummaryRow[]>`
+      ${mediaCte(filters)}
+      SELECT
+        COUNT(*)::int AS "listingCount",
+        COUNT(*) FILTER (WHERE m.stored = 0)::int AS "withoutPhotos",
+        COUNT(*) FILTER (WHERE m."hasPhotoUrls")::int AS "withPhotoUrls",
+        COUNT(*) FILTER (WHERE m."hasVideos")::int AS "withVideos",
+        COUNT(*) FILTER (WHERE m."hasDocuments")::int AS "withDocuments",
+        COUNT(m.reported)::int AS "withReportedCount",
+        COALESCE(SUM(m.reported), 0)::int AS "reportedPhotos",
+        COALESCE(SUM(m.stored) FILTER (WHERE m.reported IS NOT NULL), 0)::int AS "storedOfReported",
+        COUNT(*) FILTER (WHERE m.missing > 0)::int AS "missingPhotos",
+        COALESCE(SUM(m.stored), 0)::int AS "storedPhotos",
+        COALESCE(SUM(m.unmirrored), 0)::int AS "unmirroredPhotos",
+        COUNT(*) FILTER (WHERE m.unmirrored > 0)::int AS "listingsUnmirrored",
+        COUNT(*) FILTER (WHERE m."oldestCheck" < ${staleBefore})::int AS "staleListings",
+        ${bucketCountsSql(Prisma.sql`m.missing`, PHOTO_GAP_RANGES)} AS "gapCounts"
+      FROM media m
+    `,
+    prisma.$queryRaw<Array<{ counts: number[]; medianDays: number | null }>>`
+      SELECT
+        ${bucketCountsSql(checkAgeDays, PHOTO_CHECK_AGE_RANGES)} AS counts,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY ${checkAgeDays})::float AS "medianDays"
+      FROM "ListingPhoto" p
+      JOIN "Listing" l ON l.id = p."listingId"
+      WHERE p."isActive" AND ${buildListingSql(filters)}
+    `,
+  ]);
+
+  const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+  return {
+    summary: {
+      listingCount: summary.listingCount,
+      withoutPhotos: summary.withoutPhotos,
+      withoutPhotosShare: share(summary.withoutPhotos, summary.listingCount),
+      withPhotoUrls: summary.withPhotoUrls,
+      withVideos: summary.withVideos,
+      withDocuments: summary.withDocuments,
+      withReportedCount: summary.withReportedCount,
+      reportedPhotos: summary.reportedPhotos,
+      storedOfReported: summary.storedOfReported,
+      missingPhotos: summary.missingPhotos,
+      storedPhotos: summary.storedPhotos,
+      unmirroredPhotos: summary.unmirroredPhotos,
+      unmirroredShare: share(summary.unmirroredPhotos, summary.storedPhotos),
+      listingsUnmirrored: summary.listingsUnmirrored,
+      staleListings: summary.staleListings,
+      medianCheckAgeDays: checkAge?.medianDays ?? null,
+      staleAfterDays: STALE_PHOTO_CHECK_DAYS,
+    },
+    photoGap: { labels: PHOTO_GAP_RANGES.map(range => range.label), values: summary.gapCounts },
+    checkAge: {
+      labels: PHOTO_CHECK_AGE_RANGES.map(range => range.label),
+      values: checkAge?.counts ?? PHOTO_CHECK_AGE_RANGES.map(() => 0),
+    },
+    generatedAt: now.toISOString(),
+  };
+}
+
+interface RepullCursor {
+  /** Last pull of the last row as Postgres text (`-infinity` when never pulled) */
+  value: string;
+  id: string;
+}
+
+const encodeCursor = (cursor: RepullCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (raw: string): RepullCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString());
+    if (typeof cursor?.id === 'string' && typeof cursor.value === 'string') return cursor;
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new FilterValidationError('cursor', 'cursor is invalid; pass the nextCursor of a previous page');
+};
+
+/**
+ * Parse the re-pull drill-down paging and reason
+ * @param {URLSearchParams} params - Query parameters (`reason`, `cursor`, `limit`)
+ * @returns {PhotoRepullQuery} Validated query
+ * @throws {FilterValidationError} If a parameter is invalid
+ */
+export function parsePhotoRepullQuery(params: URLSearchParams): PhotoRepullQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const reason = get('reason');
+  if (reason !== undefined && !PHOTO_REPULL_REASONS.includes(reason as PhotoRepullReason)) {
+    throw new FilterValidationError('reason', `reason must be one of ${PHOTO_REPULL_REASONS.join(', ')}`);
+  }
+
+  const limit = Number(get('limit') ?? DEFAULT_REPULL_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPULL_PAGE_SIZE) {
+    throw new FilterValidationError('limit', `limit must be an integer between 1 and ${MAX_REPULL_PAGE_SIZE}`);
+  }
+
+  const query: PhotoRepullQuery = { reason: reason as PhotoRepullReason | undefined, limit, cursor: get('cursor') };
+  if (query.cursor) decodeCursor(query.cursor);
+  return query;
+}
+
+interface RepullRow {
+  id: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  status: ListingStatus;
+  mlsName: string | null;
+  reported: number | null;
+  stored: number;
+  unmirrored: number;
+  missing: number | null;
+  oldestCheck: Date | null;
+  lastPhotosPullAt: Date | null;
+  photosPullStatus: DataPullStatus | null;
+  cursorValue: string;
+}
+
+/**
+ * One page of listings needing a photo re-pull: no stored photos, fewer than
+ * the MLS reports, photos without an S3 copy or photos not checked in
+ * STALE_PHOTO_CHECK_DAYS. Listings pulled longest ago come first (never
+ * pulled before that), keyset-paged on (last pull, id).
+ * @param {DashboardFilters} filters - Validated filters
+ * @param {PhotoRepullQuery} query - Reason, page size and cursor
+ * @returns {Promise<PhotoRepullPage>} Listings with their reasons, next cursor and (first page only) the total
+ */
+export async function listPhotoRepulls(filters: DashboardFilters, query: PhotoRepullQuery): Promise<PhotoRepullPage> {
+  const staleBefore = new Date(Date.now() - STALE_PHOTO_CHECK_DAYS * DAY_MS);
+  const reasons = query.reason ? [query.reason] : PHOTO_REPULL_REASONS;
+  const flagged = Prisma.sql`(${Prisma.join(reasons.map(reason => reasonSql(reason, staleBefore)), ' OR ')})`;
+  const pulledAt = Prisma.sql`COALESCE(m."lastPhotosPullAt", '-infinity'::timestamp)`;
+
+  let keyset = Prisma.empty;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    keyset = Prisma.sql`AND (${pulledAt}, m.id) > (${cursor.value}::timestamp, ${cursor.id})`;
+  }
+
+  const [rows, total] = await Promise.all([
+    prisma.$queryRaw<RepullRow[]>`
+      ${mediaCte(filters)}
+      SELECT
+        m.id,
+        m.address,
+        m.city,
+        m.state,
+        m.status,
+        m."mlsName",
+        m.reported,
+        m.stored,
+        m.unmirrored,
+        m.missing,
+        m."oldestCheck",
+        m."lastPhotosPullAt",
+        m."photosPullStatus",
+        ${pulledAt}::text AS "cursorValue"
+      FROM media m
+      WHERE ${flagged} ${keyset}
+      ORDER BY ${pulledAt} ASC, m.id ASC
+      LIMIT ${query.limit + 1}
+    `,
+    query.cursor
+      ? Promise.resolve(null)
+      : prisma.$queryRaw<Array<{ count: number }>>`
+          ${mediaCte(filters)}
+          SELECT COUNT(*)::int AS count FROM media m WHERE ${flagged}
+        `.then(([row]) => row?.count ?? 0),
+  ]);
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    listings: page.map((row): PhotoRepullRow => ({
+      id: row.id,
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      status: row.status,
+      mlsName: row.mlsName,
+      reportedPhotos: row.reported,
+      storedPhotos: row.stored,
+      unmirroredPhotos: row.unmirrored,
+      oldestCheck: row.oldestCheck?.toISOString() ?? null,
+      lastPhotosPullAt: row.lastPhotosPullAt?.toISOString() ?? null,
+      photosPullStatus: row.photosPullStatus,
+      reasons: PHOTO_REPULL_REASONS.filter(reason => {
+        if (reason === 'NO_PHOTOS') return row.stored === 0;
+        if (reason === 'MISSING_PHOTOS') return (row.missing ?? 0) > 0;
+        if (reason === 'NOT_MIRRORED') return row.unmirrored > 0;
+        return row.oldestCheck !== null && row.oldestCheck < staleBefore;
+      }),
+    })),
+    nextCursor: rows.length > query.limit && last ? encodeCursor({ value: last.cursorValue, id: last.id }) : null,
+    total,
+  };
+}
@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import prisma from '@/lib/prisma';
+import { buildListingSql, FilterValidationError } from '@/lib/filters';
+import { expireDashboardSnapshots } from '@/lib/dashboard-snapshots';
+import { toVisibility } from '@/lib/mls-visibility';
+import { DashboardFilters } from '@/types/dashboard';
+import { MlsScorecard, MlsScorecardData, MlsVisibility, MlsVisibilityChange } from '@/types/mls';
+
+/** Days without an MLS update after which a listing counts as stale */
+export const STALE_UPDATE_DAYS = 7;
+
+const DAY_MS = 86400000;
+
+/**
+ * Validate a visibility change body
+ * @param {unknown} body - Parsed JSON body with `isHidden` and `reason`
+ * @returns {MlsVisibilityChange} Validated change
+ * @throws {FilterValidationError} If a field is missing or invalid
+ */
+export function parseVisibilityChange(body: unknown): MlsVisibilityChange {
+  const { isHidden, reason } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  if (typeof isHidden !== 'boolean') {
+    throw new FilterValidationError('isHidden', 'isHidden must be true or false');
+  }
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    throw new FilterValidationError('reason', 'reason must be a string');
+  }
+  const text = typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+  if (isHidden && !text) {
+    throw new FilterValidationError('reason', 'A reason is required to hide an MLS instance');
+  }
+  return { isHidden, reason: text };
+}
+
+/**
+ * Hide or unhide an MLS instance. `hiddenAt` keeps the time it was first
+ * hidden while it stays hidden and is cleared when it is shown again. Cached
+ * dashboard snapshots are expired so the change shows up on the next request.
+ * @param {string} mlsInstanceId - Instance id as stored on listings
+ * @param {MlsVisibilityChange} change - Validated change
+ * @returns {Promise<MlsVisibility | null>} New visibility, or null if no listing or details row knows the instance
+ */
+export async function setMlsVisibility(mlsInstanceId: string, change: MlsVisibilityChange): Promise<MlsVisibility | null> {
+  const [details, listing, existing] = await Promise.all([
+    prisma.mlsInstanceDetails.findUnique({ where: { instanceId: mlsInstanceId }, select: { id: true } }),
+    prisma.listing.findFirst({ where: { mlsInstanceId }, select: { id: true } }),
+    prisma.mlsInstanceVisibility.findUnique({ where: { mlsInstanceId } }),
+  ]);
+  if (!details && !listing && !existing) return null;
+
+  const now = new Date();
+  const hiddenAt = change.isHidden ? (existing?.isHidden && existing.hiddenAt ? existing.hiddenAt : now) : null;
+  const row = await prisma.mlsInstanceVisibility.upsert({
+    where: { mlsInstanceId },
+    create: { id: randomUUID(), mlsInstanceId, isHidden: change.isHidden, reason: change.reason, hiddenAt, updatedAt: now },
+    update: { isHidden: change.isHidden, reason: change.reason, hiddenAt, updatedAt: now },
+  });
+
+  expireDashboardSnapshots();
+  return toVisibility(mlsInstanceId, row);
+}
+
+interface ScorecardRow {
+  mlsInstanceId: string;
+  name: string | null;
+  acronym: string | null;
+  logoUrl: string | null;
+  listingCount: number;
+  assumableCount: number;
+  averagePrice: number | null;
+  lastUpdate: Date | null;
+  medianUpdateAgeHours: number | null;
+  staleCount: number;
+  withPhotos: number;
+  reportCount: number;
+}
+
+/**
+ * Per-MLS scorecards over listings matching the dashboard filters. Hidden
+ * instances are included (and flagged) so they can be reviewed before being
+ * shown again; instances known only from MlsInstanceDetails or a visibility
+ * row appear with zero listings. Listings without an instance id are left out.
+ * @param {DashboardFilters} filters - Validated filters (`includeHidden` is ignored)
+ * @returns {Promise<MlsScorecardData>} Scorecards, largest instances first
+ */
+export async function computeMlsScorecards(filters: DashboardFilters): Promise<MlsScorecardData> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_UPDATE_DAYS * DAY_MS);
+
+  const [rows, details, visibility] = await Promise.all([
+    prisma.$queryRaw<ScorecardRow[]>`
+      WITH scoped AS (
+        SELECT
+          l.id,
+          l."mlsInstanceId",
+          l.price,
+          l."isAssumable",
+          l."lastMlsUpdate",
+          l."denormalizedMlsInstanceName",
+          l."denormalizedMlsInstanceAcronym",
+          l."denormalizedMlsInstanceLogoUrl"
+        FROM "Listing" l
+        WHERE ${buildListingSql({ ...filters, includeHidden: true })} AND l."mlsInstanceId" <> ''
+      ),
+      reports AS (
+        SELECT s."mlsInstanceId", COUNT(*)::int AS "reportCount"
+        FROM "ListingReport" r
+        JOIN scoped s ON s.id = r."listingId"
+        GROUP BY 1
+      )
+      SELECT
+        s."mlsInstanceId",
+        MAX(s."denormalizedMlsInstanceName") AS name,
+        MAX(s."denormalizedMlsInstanceAcronym") AS acronym,
+        MAX(s."denormalizedMlsInstanceLogoUrl") AS "logoUrl",
+        COUNT(*)::int AS "listingCount",
+        COUNT(*) FILTER (WHERE s."isAssumable")::int AS "assumableCount",
+        AVG(s.price)::float AS "averagePrice",
+        MAX(s."lastMlsUpdate") AS "lastUpdate",
+        percentile_cont(0.5) WITHIN GROUP (
+          ORDER BY EXTRACT(EPOCH FROM (now() - s."lastMlsUpdate")) / 3600
+        )::float AS "medianUpdateAgeHours",
+        COUNT(*) FILTER (WHERE s."lastMlsUpdate" IS NULL OR s."lastMlsUpdate" < ${staleBefore})::int AS "staleCount",
+        COUNT(*) FILTER (
+          WHERE EXISTS (SELECT 1 FROM "ListingPhoto" p WHERE p."listingId" = s.id AND p."isActive")
+        )::int AS "withPhotos",
+        COALESCE(MAX(r."reportCount"), 0)::int AS "reportCount"
+      FROM scoped s
+      LEFT JOIN reports r ON r."mlsInstanceId" = s."mlsInstanceId"
+      GROUP BY s."mlsInstanceId"
+    `,
+    prisma.mlsInstanceDetails.findMany(),
+    prisma.mlsInstanceVisibility.findMany(),
+  ]);
+
+  const rowsById = new Map(rows.map(row => [row.mlsInstanceId, row]));
+  const detailsById = new Map(details.map(row => [row.instanceId, row]));
+  const visibilityById = new Map(visibility.map(row => [row.mlsInstanceId, row]));
+  const ids = Array.from(new Set([...rowsById.keys(), ...detailsById.keys(), ...visibilityById.keys()]));
+
+  const share = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+  const scorecards = ids.map((id): MlsScorecard => {
+    const row = rowsById.get(id);
+    const detail = detailsById.get(id);
+    const listingCount = row?.listingCount ?? 0;
+    const reportCount = row?.reportCount ?? 0;
+    return {
+      ...toVisibility(id, visibilityById.get(id)),
+      name: detail?.name || row?.name || id,
+      acronym: detail?.acronym ?? row?.acronym ?? null,
+      logoUrl: detail?.logoUrl ?? row?.logoUrl ?? null,
+      region: detail?.region ?? null,
+      state: detail?.state ?? null,
+      hasDetails: Boolean(detail),
+      listingCount,
+      assumableCount: row?.assumableCount ?? 0,
+      assumableShare: share(row?.assumableCount ?? 0, listingCount),
+      averagePrice: row?.averagePrice ?? null,
+      lastUpdate: row?.lastUpdate?.toISOString() ?? null,
+      medianUpdateAgeHours: row?.medianUpdateAgeHours ?? null,
+      staleShare: share(row?.staleCount ?? 0, listingCount),
+      photoCoverage: share(row?.withPhotos ?? 0, listingCount),
+      reportCount,
+      reportRate: share(reportCount, listingCount) * 100,
+    };
+  });
+
+  scorecards.sort((a, b) => b.listingCount - a.listingCount || a.name.localeCompare(b.name));
+  return { scorecards, staleAfterDays: STALE_UPDATE_DAYS, generatedAt: now.toISOString() };
+}
@@ -0,0 +1,22 @@
+import { MlsInstanceVisibility } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { MlsVisibility } from '@/types/mls';
+
+/**
+ * Ids of MLS instances hidden from the dashboard, for Prisma queries that
+ * cannot use the `visibleMlsSql` subquery
+ * @returns {Promise<string[]>} Hidden instance ids
+ */
+export async function loadHiddenMlsInstanceIds(): Promise<string[]> {
+  const rows = await prisma.mlsInstanceVisibility.findMany({ where: { isHidden: true }, select: { mlsInstanceId: true } });
+  return rows.map(row => row.mlsInstanceId);
+}
+
+/** Visibility of an instance; instances without a visibility row are shown */
+export const toVisibility = (mlsInstanceId: string, row?: MlsInstanceVisibility): MlsVisibility => ({
+  mlsInstanceId,
+  isHidden: row?.isHidden ?? false,
+  reason: row?.reason ?? null,
+  hiddenAt: row?.hiddenAt?.toISOString() ?? null,
+  updatedAt: row?.updatedAt.toISOString() ?? null,
+});
@@ -0,0 +1,307 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { FilterValidationError } from '@/lib/filters';
+import { RATE_ADVANTAGE_RANGES } from '@/lib/buckets';
+import { bucketIndexSql, loanAgeSql, mortgageFromSql, resolveSchemeFromSource, toChartData } from '@/lib/dashboard-queries';
+import { BucketScheme, BucketSpecs } from '@/types/buckets';
+import { ChartData, DashboardFilters } from '@/types/dashboard';
+import { DesirabilityGroup, MortgageAnalytics, PaymentComposition, VintageAnalytics, VintageCohort } from '@/types/mortgage';
+
+/**
+ * Market rate the "rate advantage" of an assumable mortgage is measured
+ * against, in percent. Overridable per request with `benchmarkRate`.
+ */
+export const DEFAULT_BENCHMARK_RATE = Number(process.env.MARKET_RATE_BENCHMARK) || 6.5;
+
+/** Rows returned per state / MLS breakdown */
+const GROUP_LIMIT = 20;
+const DESIRABILITY_BINS = 10;
+
+/** Recording years of the low-rate vintage the product is built around */
+export const LOW_RATE_VINTAGE = { fromYear: 2020, toYear: 2021 };
+
+const RATE_ADVANTAGE_SCHEME: BucketScheme = {
+  boundaries: RATE_ADVANTAGE_RANGES.flatMap(range => (range.max === null ? [] : [range.max])),
+  labels: RATE_ADVANTAGE_RANGES.map(range => range.label),
+  closed: 'right',
+};
+
+/**
+ * Parse the `benchmarkRate` query parameter
+ * @param {URLSearchParams} params - Query parameters
+ * @returns {number} Benchmark rate in percent (DEFAULT_BENCHMARK_RATE when absent)
+ * @throws {FilterValidationError} If the rate is not a number between 0 and 20
+ */
+export function parseBenchmarkRate(params: URLSearchParams): number {
+  const raw = params.get('benchmarkRate')?.trim();
+  if (!raw) return DEFAULT_BENCHMARK_RATE;
+  const rate = Number(raw);
+  if (!Number.isFinite(rate) || rate <= 0 || rate > 20) {
+    throw new FilterValidationError('benchmarkRate', 'benchmarkRate must be a percentage between 0 and 20');
+  }
+  return rate;
+}
+
+const formatScore = (value: number) => String(Number(value.toFixed(1)));
+
+/**
+ * Mortgage deep-dive for the Mortgage Analytics tab: rate, rate advantage,
+ * down payment and desirability distributions, desirability by state and MLS,
+ * the monthly all-in payment composition per loan type, and vintage cohorts
+ * by recording year.
+ *
+ * Rate advantage is `benchmarkRate - interestRate` in percentage points;
+ * monthly savings compare the current P&I with the P&I of the same balance
+ * and remaining term at the benchmark rate.
+ *
+ * @param {DashboardFilters} filters - Dashboard filters applied to the mortgage's listing
+ * @param {Object} options
+ * @param {number} options.benchmarkRate - Market benchmark rate in percent
+ * @param {BucketSpecs} [options.buckets] - Specs for the `interestRate` and `downPayment` charts
+ * @returns {Promise<MortgageAnalytics>} Mortgage analytics
+ */
+export async function computeMortgageAnalytics(
+  filters: DashboardFilters,
+  { benchmarkRate, buckets = {} }: { benchmarkRate: number; buckets?: BucketSpecs }
+): Promise<MortgageAnalytics> {
+  const from = mortgageFromSql(filters);
+  const advantage = Prisma.sql`(${benchmarkRate}::float8 - m."interestRate"::float8)`;
+  const monthlyRate = benchmarkRate / 100 / 12;
+  const benchmarkPayment = Prisma.sql`
+    CASE WHEN m."remainingTerm" > 0
+      THEN m."currentBalance"::float8 * ${monthlyRate} / (1 - power(1 + ${monthlyRate}, -m."remainingTerm"))
+    END
+  `;
+
+  const [rateScheme, downPaymentScheme] = await Promise.all([
+    resolveSchemeFromSource('interestRate', buckets.interestRate, { value: Prisma.sql`m."interestRate"`, from }),
+    resolveSchemeFromSource('downPayment', buckets.downPayment, { value: Prisma.sql`m."downPayment"`, from }),
+  ]);
+
+  const groupBy = (column: string) => prisma.$queryRaw<DesirabilityGroup[]>`
+    SELECT
+      COALESCE(NULLIF(${Prisma.raw(column)}, ''), 'Unknown') AS key,
+      COUNT(*)::int AS mortgages,
+      COUNT(*) FILTER (WHERE m."isAssumableDesirable")::int AS desirable,
+      AVG(${advantage}) AS "averageRateAdvantage"
+    ${from}
+    GROUP BY 1
+    ORDER BY mortgages DESC
+    LIMIT ${GROUP_LIMIT}
+  `;
+
+  const [summaryRows, distributionRows, scoreRows, byState, byMls, compositionRows, vintages] = await Promise.all([
+    prisma.$queryRaw<Array<{
+      mortgages: number;
+      desirable: number;
+      averageRate: number | null;
+      medianRate: number | null;
+      medianDownPayment: number | null;
+      medianPercentDown: number | null;
+      averageAllInPayment: number | null;
+      averageRateAdvantage: number | null;
+      medianRateAdvantage: number | null;
+      averageMonthlySavings: number | null;
+      withDownPaymentThreshold: number;
+      withinDownPaymentThreshold: number;
+    }>>`
+      SELECT
+        COUNT(*)::int AS mortgages,
+        COUNT(*) FILTER (WHERE m."isAssumableDesirable")::int AS desirable,
+        AVG(m."interestRate")::float AS "averageRate",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY m."interestRate"::float8) AS "medianRate",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY m."downPayment"::float8) AS "medianDownPayment",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY m."percentDown"::float8) AS "medianPercentDown",
+        AVG(m."monthlyAllInPayment")::float AS "averageAllInPayment",
+        AVG(${advantage}) AS "averageRateAdvantage",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY ${advantage}) AS "medianRateAdvantage",
+        AVG(${benchmarkPayment} - m."monthlyPayment"::float8) AS "averageMonthlySavings",
+        COUNT(*) FILTER (WHERE m."maxDownPaymentThreshold" IS NOT NULL)::int AS "withDownPaymentThreshold",
+        COUNT(*) FILTER (WHERE m."downPayment" <= m."maxDownPaymentThreshold")::int AS "withinDownPaymentThreshold"
+      ${from}
+    `,
+    prisma.$queryRaw<Array<{ chart: 'rate' | 'advantage' | 'downPayment'; bucket: number; count: number }>>`
+      WITH scoped AS (
+        SELECT m."interestRate" AS rate, ${advantage} AS advantage, m."downPayment" AS "downPayment"
+        ${from}
+      )
+      SELECT 'rate' AS chart, ${bucketIndexSql(Prisma.sql`rate`, rateScheme)} AS bucket, COUNT(*)::int AS count
+      FROM scoped GROUP BY 2
+      UNION ALL
+      SELECT 'advantage', ${bucketIndexSql(Prisma.sql`advantage`, RATE_ADVANTAGE_SCHEME)}, COUNT(*)::int
+      FROM scoped GROUP BY 2
+      UNION ALL
+      SELECT 'downPayment', ${bucketIndexSql(Prisma.sql`"downPayment"`, downPaymentScheme)}, COUNT(*)::int
+      FROM scoped GROUP BY 2
+    `,
+    // Scores have no fixed scale, so bins span the observed range
+    prisma.$queryRaw<Array<{ bucket: number; count: number; lo: number; hi: number }>>`
+      WITH scores AS (
+        SELECT m."assumableDesirabilityScore"::float8 AS score
+        ${from} AND m."assumableDesirabilityScore" IS NOT NULL
+      ),
+      bounds AS (
+        SELECT MIN(score) AS lo, MAX(score) AS hi FROM scores
+      )
+      SELECT
+        CASE WHEN b.hi > b.lo
+          THEN LEAST(width_bucket(s.score, b.lo, b.hi, ${DESIRABILITY_BINS}), ${DESIRABILITY_BINS})
+          ELSE 1
+        END AS bucket,
+        COUNT(*)::int AS count,
+        b.lo,
+        b.hi
+      FROM scores s CROSS JOIN bounds b
+      GROUP BY 1, b.lo, b.hi
+      ORDER BY 1
+    `,
+    groupBy('l.state'),
+    groupBy('l."mlsInstanceId"'),
+    prisma.$queryRaw<Array<Omit<PaymentComposition, 'loanType'> & { loanType: string; isTotal: boolean }>>`
+      SELECT
+        lo."loanType"::text AS "loanType",
+        GROUPING(lo."loanType") = 1 AS "isTotal",
+        COUNT(*)::int AS mortgages,
+        COALESCE(AVG(m."monthlyPayment"), 0)::float AS "principalAndInterest",
+        COALESCE(AVG(m."monthlyPropertyTax"), 0)::float AS "propertyTax",
+        COALESCE(AVG(m."monthlyInsurance"), 0)::float AS insurance,
+        COALESCE(AVG(m."monthlyHoa"), 0)::float AS hoa,
+        COALESCE(AVG(m."monthlyPmi"), 0)::float AS pmi,
+        COALESCE(AVG(m."monthlyAllInPayment"), 0)::float AS "allIn"
+      ${from}
+      GROUP BY ROLLUP (lo."loanType")
+      ORDER BY "isTotal" DESC, mortgages DESC
+    `,
+    queryVintages(from, new Date(), rateScheme),
+  ]);
+
+  const summary = summaryRows[0];
+  const chart = (name: 'rate' | 'advantage' | 'downPayment', scheme: BucketScheme) =>
+    toChartData(scheme, distributionRows.filter(row => row.chart === name));
+  const withShare = (groups: DesirabilityGroup[]) =>
+    groups.map(group => ({ ...group, desirableShare: group.mortgages > 0 ? group.desirable / group.mortgages : 0 }));
+
+  return {
+    summary: {
+      ...summary,
+      desirableShare: summary.mortgages > 0 ? summary.desirable / summary.mortgages : 0,
+      benchmarkRate,
+    },
+    rateDistribution: chart('rate', rateScheme),
+    rateAdvantageDistribution: chart('advantage', RATE_ADVANTAGE_SCHEME),
+    downPaymentDistribution: chart('downPayment', downPaymentScheme),
+    desirabilityDistribution: scoreHistogram(scoreRows),
+    desirableByState: withShare(byState),
+    desirableByMls: withShare(byMls),
+    paymentComposition: compositionRows.map(({ isTotal, loanType, ...row }) => ({
+      ...row,
+      loanType: isTotal ? null : loanType,
+    })),
+    vintages,
+  };
+}
+
+type VintageRow = Omit<VintageCohort, 'year'> & { year: number | null; lowRate: boolean | null };
+
+/**
+ * Vintage cohorts by the year each loan was recorded, plus the low-rate
+ * vintage (LOW_RATE_VINTAGE) as a single cohort against everything else.
+ *
+ * Term elapsed uses the loan's payment count, then its term in years, then
+ * its maturity date, whichever is known first.
+ *
+ * @param {Prisma.Sql} from - Mortgage FROM/WHERE fragment
+ * @param {Date} asOf - Reference time for loan age
+ * @param {BucketScheme} rateScheme - Buckets for the low-rate vintage's rate distribution
+ * @returns {Promise<VintageAnalytics>} Cohorts, oldest first, and the low-rate vintage
+ */
+async function queryVintages(from: Prisma.Sql, asOf: Date, rateScheme: BucketScheme): Promise<VintageAnalytics> {
+  const { fromYear, toYear } = LOW_RATE_VINTAGE;
+
+  const [rows, rateRows] = await Promise.all([
+    prisma.$queryRaw<VintageRow[]>`
+      WITH loans AS (
+        SELECT
+          EXTRACT(YEAR FROM lo."recordingDate")::int AS year,
+          m."interestRate"::float8 AS rate,
+          m."isAssumableDesirable" AS desirable,
+          ${loanAgeSql(asOf)} AS age,
+          m."currentBalance"::float8 / NULLIF(lo."initialAmount"::float8, 0) AS "balanceShare",
+          COALESCE(
+            lo."totalPayments",
+            lo."termYears" * 12,
+            (EXTRACT(YEAR FROM age(lo."maturityDate", lo."recordingDate")) * 12
+              + EXTRACT(MONTH FROM age(lo."maturityDate", lo."recordingDate")))::int
+          ) AS "termMonths"
+        ${from}
+      ),
+      vintages AS (
+        SELECT *, year BETWEEN ${fromYear} AND ${toYear} AS "lowRate" FROM loans
+      )
+      SELECT
+        CASE WHEN GROUPING(year) = 0 THEN year END AS year,
+        CASE WHEN GROUPING("lowRate") = 0 THEN "lowRate" END AS "lowRate",
+        COUNT(*)::int AS mortgages,
+        COUNT(*) FILTER (WHERE desirable)::int AS desirable,
+        AVG(rate) AS "averageRate",
+        AVG(age) AS "averageAge",
+        AVG("balanceShare") AS "averageRemainingBalanceShare",
+        AVG(LEAST(age * 12 / NULLIF("termMonths", 0), 1)) AS "averageTermElapsed"
+      FROM vintages
+      GROUP BY GROUPING SETS ((year), ("lowRate"))
+      ORDER BY year
+    `,
+    prisma.$queryRaw<Array<{ bucket: number; count: number }>>`
+      SELECT ${bucketIndexSql(Prisma.sql`m."interestRate"`, rateScheme)} AS bucket, COUNT(*)::int AS count
+      ${from} AND EXTRACT(YEAR FROM lo."recordingDate") BETWEEN ${fromYear} AND ${toYear}
+      GROUP BY 1
+    `,
+  ]);
+
+  const cohort = (row: VintageRow | undefined): Omit<VintageCohort, 'year'> => ({
+    mortgages: row?.mortgages ?? 0,
+    desirable: row?.desirable ?? 0,
+    averageRate: row?.averageRate ?? null,
+    averageAge: row?.averageAge ?? null,
+    averageRemainingBalanceShare: row?.averageRemainingBalanceShare ?? null,
+    averageTermElapsed: row?.averageTermElapsed ?? null,
+  });
+  const lowRate = rows.find(row => row.year === null && row.lowRate === true);
+  const others = rows.find(row => row.year === null && row.lowRate === false);
+  const total = (lowRate?.mortgages ?? 0) + (others?.mortgages ?? 0);
+
+  return {
+    cohorts: rows.flatMap(row => (row.year === null ? [] : [{ year: row.year, ...cohort(row) }])),
+    lowRate: {
+      fromYear,
+      toYear,
+      ...cohort(lowRate),
+      share: total > 0 ? (lowRate?.mortgages ?? 0) / total : 0,
+      otherAverageRate: others?.averageRate ?? null,
+      rateDistribution: toChartData(rateScheme, rateRows),
+    },
+  };
+}
+
+/**
+ * Label equal-width score bins from the observed range
+ * @param {Array<{bucket: number, count: number, lo: number, hi: number}>} rows - Counts per 1-based bin
+ * @returns {ChartData} Score ranges and counts
+ */
+function scoreHistogram(rows: Array<{ bucket: number; count: number; lo: number; hi: number }>): ChartData {
+  if (rows.length === 0) return { labels: [], values: [] };
+
+  const { lo, hi } = rows[0];
+  if (hi <= lo) return { labels: [formatScore(lo)], values: [rows[0].count] };
+
+  const width = (hi - lo) / DESIRABILITY_BINS;
+  const values = Array.from({ length: DESIRABILITY_BINS }, () => 0);
+  rows.forEach(row => {
+    values[row.bucket - 1] += row.count;
+  });
+  return {
+    labels: values.map((_, i) => `${formatScore(lo + i * width)}-${formatScore(lo + (i + 1) * width)}`),
+    values,
+    edges: values.slice(1).map((_, i) => lo + (i + 1) * width),
+  };
+}
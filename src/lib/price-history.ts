@@ -0,0 +1,246 @@
+import { ListingStatus, LoanType, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { PRICE_CUT_RANGES } from '@/lib/buckets';
+import { buildListingSql } from '@/lib/filters';
+import { DashboardFilters } from '@/types/dashboard';
+import {
+  ListingTimeline,
+  PriceChangeMetrics,
+  PriceHistoryAnalytics,
+  PriceHistorySegment,
+} from '@/types/price-history';
+
+/** Statuses whose ListingHistory price is treated as the final sale price */
+export const SOLD_STATUSES: ListingStatus[] = [ListingStatus.SOLD, ListingStatus.CLOSED];
+
+interface SegmentRow {
+  segment: PriceHistorySegment | null;
+  listings: number;
+  reduced: number;
+  cuts: number;
+  medianDays: number | null;
+  averageDays: number | null;
+  sold: number;
+  medianRatio: number | null;
+  averageRatio: number | null;
+}
+
+interface CutRow {
+  segment: PriceHistorySegment | null;
+  medianCut: number | null;
+  counts: number[];
+}
+
+const toMetrics = (row: SegmentRow | undefined, cut: CutRow | undefined): PriceChangeMetrics => {
+  const listings = row?.listings ?? 0;
+  return {
+    listings,
+    reducedListings: row?.reduced ?? 0,
+    reductionFrequency: listings > 0 ? (row?.reduced ?? 0) / listings : 0,
+    averageReductionsPerListing: listings > 0 ? (row?.cuts ?? 0) / listings : 0,
+    medianCutPercent: cut?.medianCut ?? null,
+    medianDaysToFirstReduction: row?.medianDays ?? null,
+    averageDaysToFirstReduction: row?.averageDays ?? null,
+    soldListings: row?.sold ?? 0,
+    medianListToFinalRatio: row?.medianRatio ?? null,
+    averageListToFinalRatio: row?.averageRatio ?? null,
+  };
+};
+
+/**
+ * Compute price-change analytics from ListingHistory for listings matching
+ * the dashboard filters, overall and per assumable loan type.
+ *
+ * Price history is only meaningful across a listing's whole life, so unless
+ * the caller picks statuses explicitly every status is included rather than
+ * the dashboard's ACTIVE default. History rows are ordered by `effectiveDate`;
+ * a cut is any row priced below the row before it. Days to first reduction
+ * count from `listedAt`, falling back to the first history row. The
+ * list-to-final ratio compares the last SOLD/CLOSED history price (or the
+ * current price of a SOLD/CLOSED listing) with the first history price.
+ *
+ * @param {DashboardFilters} filters - Validated dashboard filters
+ * @returns {Promise<PriceHistoryAnalytics>} Price-change metrics and cut distribution
+ */
+export async function computePriceHistoryAnalytics(filters: DashboardFilters): Promise<PriceHistoryAnalytics> {
+  const listingConditions = buildListingSql(filters, { includeStatus: Boolean(filters.status?.length) });
+
+  const history = Prisma.sql`
+    WITH scoped AS (
+      SELECT
+        l.id,
+        COALESCE(l."denormalizedAssumableLoanType"::text, 'NONE') AS segment,
+        l.status::text AS status,
+        l.price,
+        l."listedAt"
+      FROM "Listing" l
+      WHERE ${listingConditions}
+    ),
+    history AS (
+      SELECT
+        h."listingId",
+        s.segment,
+        h.price,
+        h.status::text AS status,
+        h."effectiveDate",
+        ROW_NUMBER() OVER w AS rn,
+        LAG(h.price) OVER w AS "previousPrice"
+      FROM "ListingHistory" h
+      JOIN scoped s ON s.id = h."listingId"
+      WINDOW w AS (PARTITION BY h."listingId" ORDER BY h."effectiveDate", h."createdAt")
+    ),
+    cuts AS (
+      SELECT "listingId", segment, "effectiveDate", ("previousPrice" - price) / "previousPrice" * 100 AS "cutPercent"
+      FROM history
+      WHERE "previousPrice" > 0 AND price < "previousPrice"
+    )
+  `;
+
+  const cutBuckets = Prisma.join(PRICE_CUT_RANGES.map(range => range.max === null
+    ? Prisma.sql`COUNT(*) FILTER (WHERE "cutPercent" >= ${range.min})::int`
+    : Prisma.sql`COUNT(*) FILTER (WHERE "cutPercent" >= ${range.min} AND "cutPercent" < ${range.max})::int`
+  ));
+
+  const [segmentRows, cutRows] = await Promise.all([
+    prisma.$queryRaw<SegmentRow[]>`
+      ${history},
+      per_listing AS (
+        SELECT
+          s.id,
+          s.segment,
+          COALESCE(s."listedAt", MIN(h."effectiveDate")) AS "listedAt",
+          (ARRAY_AGG(h.price ORDER BY h.rn))[1] AS "originalPrice",
+          COALESCE(
+            (ARRAY_AGG(h.price ORDER BY h.rn DESC) FILTER (WHERE h.status IN (${Prisma.join(SOLD_STATUSES)})))[1],
+            CASE WHEN s.status IN (${Prisma.join(SOLD_STATUSES)}) THEN s.price END
+          ) AS "finalPrice",
+          COUNT(*) FILTER (WHERE h."previousPrice" > 0 AND h.price < h."previousPrice") AS cuts,
+          MIN(h."effectiveDate") FILTER (WHERE h."previousPrice" > 0 AND h.price < h."previousPrice") AS "firstCut"
+        FROM scoped s
+        JOIN history h ON h."listingId" = s.id
+        GROUP BY s.id, s.segment, s.status, s.price, s."listedAt"
+      ),
+      measured AS (
+        SELECT
+          segment,
+          cuts,
+          CASE WHEN "firstCut" IS NOT NULL
+            THEN GREATEST(0, EXTRACT(EPOCH FROM ("firstCut" - "listedAt")) / 86400)
+          END AS "daysToFirstCut",
+          CASE WHEN "finalPrice" IS NOT NULL AND "originalPrice" > 0
+            THEN "finalPrice" / "originalPrice"
+          END AS ratio
+        FROM per_listing
+      )
+      SELECT
+        segment,
+        COUNT(*)::int AS listings,
+        COUNT(*) FILTER (WHERE cuts > 0)::int AS reduced,
+        COALESCE(SUM(cuts), 0)::int AS cuts,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "daysToFirstCut") FILTER (WHERE "daysToFirstCut" IS NOT NULL)::float AS "medianDays",
+        AVG("daysToFirstCut")::float AS "averageDays",
+        COUNT(ratio)::int AS sold,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY ratio) FILTER (WHERE ratio IS NOT NULL)::float AS "medianRatio",
+        AVG(ratio)::float AS "averageRatio"
+      FROM measured
+      GROUP BY ROLLUP (segment)
+    `,
+    prisma.$queryRaw<CutRow[]>`
+      ${history}
+      SELECT
+        segment,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY "cutPercent")::float AS "medianCut",
+        ARRAY[${cutBuckets}] AS counts
+      FROM cuts
+      GROUP BY ROLLUP (segment)
+    `,
+  ]);
+
+  // ROLLUP adds the all-segments total as the row with a null segment
+  const cutsBySegment = new Map(cutRows.map(row => [row.segment, row]));
+  const overallRow = segmentRows.find(row => row.segment === null);
+  const overallCuts = cutsBySegment.get(null);
+
+  return {
+    overall: toMetrics(overallRow, overallCuts),
+    segments: segmentRows
+      .filter((row): row is SegmentRow & { segment: PriceHistorySegment } => row.segment !== null)
+      .map(row => ({ segment: row.segment, ...toMetrics(row, cutsBySegment.get(row.segment)) }))
+      .sort((a, b) => b.listings - a.listings),
+    cutDistribution: {
+      labels: PRICE_CUT_RANGES.map(range => range.label),
+      values: overallCuts?.counts ?? PRICE_CUT_RANGES.map(() => 0),
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Normalize `ListingHistory.changedFields`, stored either as a list of field
+ * names or as an object keyed by field
+ * @param {Prisma.JsonValue} value - Raw changedFields JSON
+ * @returns {string[]} Field names
+ */
+export const changedFieldNames = (value: Prisma.JsonValue): string[] => {
+  if (Array.isArray(value)) return value.filter((field): field is string => typeof field === 'string');
+  if (value && typeof value === 'object') return Object.keys(value);
+  return [];
+};
+
+/**
+ * Load the price/status timeline of one listing
+ * @param {string} listingId - Listing id
+ * @returns {Promise<ListingTimeline | null>} Timeline, or null if the listing does not exist
+ */
+export async function getListingTimeline(listingId: string): Promise<ListingTimeline | null> {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: {
+      id: true,
+      address: true,
+      city: true,
+      state: true,
+      status: true,
+      price: true,
+      listedAt: true,
+      denormalizedAssumableLoanType: true,
+      ListingHistory: {
+        select: { id: true, effectiveDate: true, price: true, status: true, changedFields: true },
+        orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+      },
+    },
+  });
+  if (!listing) return null;
+
+  let previousPrice: number | null = null;
+  const entries = listing.ListingHistory.map(row => {
+    const price = Number(row.price);
+    const priceChange: number | null = previousPrice === null ? null : price - previousPrice;
+    const priceChangePercent: number | null = previousPrice ? ((price - previousPrice) / previousPrice) * 100 : null;
+    previousPrice = price;
+
+    return {
+      id: row.id,
+      effectiveDate: row.effectiveDate.toISOString(),
+      price,
+      status: row.status,
+      changedFields: changedFieldNames(row.changedFields),
+      priceChange,
+      priceChangePercent,
+    };
+  });
+
+  return {
+    listing: {
+      id: listing.id,
+      address: listing.address,
+      city: listing.city,
+      state: listing.state,
+      status: listing.status,
+      price: Number(listing.price),
+      listedAt: listing.listedAt?.toISOString() ?? null,
+      loanType: listing.denormalizedAssumableLoanType as LoanType | null,
+    },
+    entries,
+  };
+}
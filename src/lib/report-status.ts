@@ -0,0 +1,47 @@
+import type { ListingReportReason } from '@prisma/client';
+import { isOwnKey } from '@/lib/filters';
+import { ReportStatus } from '@/types/reports';
+
+/** Statuses in queue order */
+export const REPORT_STATUSES: ReportStatus[] = ['PENDING', 'CONFIRMED', 'DISMISSED', 'RESOLVED'];
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  PENDING: 'Pending',
+  CONFIRMED: 'Confirmed',
+  DISMISSED: 'Dismissed',
+  RESOLVED: 'Resolved',
+};
+
+export const REPORT_REASON_LABELS: Record<ListingReportReason, string> = {
+  NO_LONGER_AVAILABLE: 'No longer available',
+  INCORRECT_INFORMATION: 'Incorrect information',
+  FRAUDULENT_OR_SPAM: 'Fraud or spam',
+};
+
+/**
+ * Allowed moves from each status. Confirmed reports still need a follow-up;
+ * dismissed and resolved reports can only be reopened.
+ */
+export const REPORT_STATUS_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  PENDING: ['CONFIRMED', 'DISMISSED', 'RESOLVED'],
+  CONFIRMED: ['RESOLVED', 'DISMISSED'],
+  DISMISSED: ['PENDING'],
+  RESOLVED: ['PENDING'],
+};
+
+/** Statuses that close a report, used for time-to-resolution */
+export const CLOSED_REPORT_STATUSES: ReportStatus[] = ['DISMISSED', 'RESOLVED'];
+
+export const isReportStatus = (value: unknown): value is ReportStatus => isOwnKey(value, REPORT_STATUS_LABELS);
+
+/**
+ * Read a stored `ListingReport.status`, which is free text
+ * @param {string} raw - Stored status
+ * @returns {ReportStatus} Known status, PENDING for anything else
+ */
+export const normalizeReportStatus = (raw: string): ReportStatus => {
+  const status = raw.trim().toUpperCase();
+  return isReportStatus(status) ? status : 'PENDING';
+};
+
+export const canTransition = (from: ReportStatus, to: ReportStatus) => REPORT_STATUS_TRANSITIONS[from].includes(to);
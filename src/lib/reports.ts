@@ -0,0 +1,472 @@
+import { randomUUID } from 'crypto';
+import { ListingReportReason, ListingStatus, Prisma, ReporterType } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildDateRange, FilterValidationError, isOwnKey, parseDateWindow } from '@/lib/filters';
+import { RESOLUTION_TIME_RANGES } from '@/lib/buckets';
+import { statusCategory } from '@/lib/listing-status';
+import { createCorrection, parseCorrectionInput, previewCorrection } from '@/lib/corrections';
+import {
+  canTransition,
+  CLOSED_REPORT_STATUSES,
+  isReportStatus,
+  normalizeReportStatus,
+  REPORT_STATUS_LABELS,
+  REPORT_STATUSES,
+} from '@/lib/report-status';
+import {
+  ModerationReport,
+  ReportAnalytics,
+  ReportFollowUp,
+  ReportFollowUpResult,
+  ReportPage,
+  ReportQuery,
+  ReportStatus,
+  ReportStatusChange,
+  ReportStatusChangeResult,
+} from '@/types/reports';
+
+export const DEFAULT_REPORT_PAGE_SIZE = 50;
+export const MAX_REPORT_PAGE_SIZE = 200;
+export const MAX_BULK_REPORTS = 200;
+export const DEFAULT_ANALYTICS_DAYS = 90;
+export const MAX_ANALYTICS_DAYS = 365;
+const TOP_MLS_COUNT = 15;
+
+const DAY_MS = 86400000;
+
+/** `ListingAudit.action` values written by report moderation */
+export const REPORT_AUDIT_ACTIONS = {
+  statusChanged: 'LISTING_REPORT_STATUS_CHANGED',
+  markedOffMarket: 'LISTING_MARKED_OFF_MARKET',
+} as const;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const optionalText = (field: string, value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new FilterValidationError(field, `${field} must be a string`);
+  return value.trim() || null;
+};
+
+const requiredText = (field: string, value: unknown): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new FilterValidationError(field, `${field} is required`);
+  return value.trim();
+};
+
+/**
+ * Parse the moderation queue filters
+ * @param {URLSearchParams} params - Query parameters (`status`, `reason`, `reporterType`, `listingId`, `cursor`, `limit`)
+ * @returns {ReportQuery} Validated query
+ * @throws {FilterValidationError} If a parameter is invalid
+ */
+export function parseReportQuery(params: URLSearchParams): ReportQuery {
+  const get = (key: string) => params.get(key)?.trim() || undefined;
+
+  const status = get('status');
+  if (status !== undefined && !isReportStatus(status)) {
+    throw new FilterValidationError('status', `status must be one of ${REPORT_STATUSES.join(', ')}`);
+  }
+
+  const reason = get('reason');
+  if (reason !== undefined && !isOwnKey(reason, ListingReportReason)) {
+    throw new FilterValidationError('reason', `reason must be one of ${Object.keys(ListingReportReason).join(', ')}`);
+  }
+
+  const reporterType = get('reporterType');
+  if (reporterType !== undefined && !isOwnKey(reporterType, ReporterType)) {
+    throw new FilterValidationError('reporterType', `reporterType must be one of ${Object.keys(ReporterType).join(', ')}`);
+  }
+
+  const limit = Number(get('limit') ?? DEFAULT_REPORT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPORT_PAGE_SIZE) {
+    throw new FilterValidationError('limit', `limit must be an integer between 1 and ${MAX_REPORT_PAGE_SIZE}`);
+  }
+
+  return {
+    status,
+    reason,
+    reporterType,
+    listingId: get('listingId'),
+    cursor: get('cursor'),
+    limit,
+  };
+}
+
+/**
+ * Condition on the free-text status column. PENDING also matches any value
+ * outside the known lifecycle, matching `normalizeReportStatus`.
+ * @param {ReportStatus} status - Status to match
+ * @returns {Prisma.StringFilter} Status filter
+ */
+const statusFilter = (status: ReportStatus): Prisma.StringFilter<'ListingReport'> =>
+  status === 'PENDING'
+    ? { notIn: REPORT_STATUSES.filter(other => other !== 'PENDING'), mode: 'insensitive' }
+    : { equals: status, mode: 'insensitive' };
+
+const reportInclude = {
+  Listing: {
+    select: { address: true, city: true, state: true, status: true, denormalizedMlsInstanceName: true, mlsInstanceId: true },
+  },
+} satisfies Prisma.ListingReportInclude;
+
+type ReportWithListing = Prisma.ListingReportGetPayload<{ include: typeof reportInclude }>;
+
+const toModerationReport = (report: ReportWithListing): ModerationReport => ({
+  id: report.id,
+  listingId: report.listingId,
+  userId: report.userId,
+  reporterType: report.reporterType,
+  reason: report.reason,
+  details: report.details,
+  status: normalizeReportStatus(report.status),
+  createdAt: report.createdAt.toISOString(),
+  updatedAt: report.updatedAt.toISOString(),
+  listing: {
+    address: report.Listing.address,
+    city: report.Listing.city,
+    state: report.Listing.state,
+    status: report.Listing.status,
+    mls: report.Listing.denormalizedMlsInstanceName || report.Listing.mlsInstanceId || 'Unknown',
+  },
+});
+
+/**
+ * One page of the moderation queue, oldest reports first so the longest
+ * waiting are triaged first
+ * @param {ReportQuery} query - Validated filters and paging
+ * @returns {Promise<ReportPage>} Reports, next cursor and (first page only) counts per status
+ */
+export async function listReports(query: ReportQuery): Promise<ReportPage> {
+  const where: Prisma.ListingReportWhereInput = {
+    reason: query.reason,
+    reporterType: query.reporterType,
+    listingId: query.listingId,
+  };
+
+  const [rows, grouped] = await Promise.all([
+    prisma.listingReport.findMany({
+      where: { ...where, status: query.status ? statusFilter(query.status) : undefined },
+      include: reportInclude,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      cursor: query.cursor ? { id: query.cursor } : undefined,
+      skip: query.cursor ? 1 : 0,
+      take: query.limit + 1,
+    }),
+    query.cursor
+      ? Promise.resolve(null)
+      : prisma.listingReport.groupBy({ by: ['status'], where, _count: { _all: true } }),
+  ]);
+
+  let statusCounts: ReportPage['statusCounts'] = null;
+  if (grouped) {
+    statusCounts = { PENDING: 0, CONFIRMED: 0, DISMISSED: 0, RESOLVED: 0 };
+    grouped.forEach(group => {
+      statusCounts![normalizeReportStatus(group.status)] += group._count._all;
+    });
+  }
+
+  const page = rows.slice(0, query.limit);
+  return {
+    reports: page.map(toModerationReport),
+    nextCursor: rows.length > query.limit ? page[page.length - 1].id : null,
+    statusCounts,
+  };
+}
+
+/**
+ * Validate a bulk status change body
+ * @param {unknown} body - Parsed JSON body with `ids`, `status`, optional `note` and `updatedBy`
+ * @returns {ReportStatusChange} Validated change with duplicate ids removed
+ * @throws {FilterValidationError} If a field is missing or invalid
+ */
+export function parseReportStatusChange(body: unknown): ReportStatusChange {
+  const { ids, status, note, updatedBy } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && id.trim())) {
+    throw new FilterValidationError('ids', 'ids must be a non-empty list of report ids');
+  }
+  const unique = Array.from(new Set(ids.map(id => id.trim())));
+  if (unique.length > MAX_BULK_REPORTS) {
+    throw new FilterValidationError('ids', `At most ${MAX_BULK_REPORTS} reports can be changed at once`);
+  }
+  if (!isReportStatus(status)) {
+    throw new FilterValidationError('status', `status must be one of ${REPORT_STATUSES.join(', ')}`);
+  }
+
+  return { ids: unique, status, note: optionalText('note', note), updatedBy: requiredText('updatedBy', updatedBy) };
+}
+
+/** Audit entry for a report moving from one status to another */
+const statusAudit = (
+  report: { id: string; listingId: string; reason: ListingReportReason },
+  from: ReportStatus,
+  to: ReportStatus,
+  updatedBy: string,
+  metadata: Record<string, Prisma.InputJsonValue | null>
+): Prisma.ListingAuditCreateManyInput => ({
+  id: randomUUID(),
+  listingId: report.listingId,
+  action: REPORT_AUDIT_ACTIONS.statusChanged,
+  source: 'ADMIN',
+  sourceId: updatedBy,
+  sourceName: updatedBy,
+  changes: { status: { from, to } },
+  metadata: { reportId: report.id, reason: report.reason, ...metadata },
+});
+
+/**
+ * Move reports to a new status and record each move in the listing's audit
+ * log. Reports that do not exist, already have the status or cannot make the
+ * move are skipped rather than failing the whole batch.
+ * @param {ReportStatusChange} change - Validated change
+ * @returns {Promise<ReportStatusChangeResult>} Updated and skipped report ids
+ */
+export async function setReportStatuses(change: ReportStatusChange): Promise<ReportStatusChangeResult> {
+  const now = new Date();
+
+  return prisma.$transaction(async tx => {
+    const reports = await tx.listingReport.findMany({
+      where: { id: { in: change.ids } },
+      select: { id: true, listingId: true, reason: true, status: true },
+    });
+    const byId = new Map(reports.map(report => [report.id, report]));
+
+    const skipped: ReportStatusChangeResult['skipped'] = [];
+    const audits: Prisma.ListingAuditCreateManyInput[] = [];
+    const updated: string[] = [];
+
+    change.ids.forEach(id => {
+      const report = byId.get(id);
+      if (!report) {
+        skipped.push({ id, reason: 'Report not found' });
+        return;
+      }
+      const from = normalizeReportStatus(report.status);
+      if (from === change.status) {
+        skipped.push({ id, reason: `Already ${REPORT_STATUS_LABELS[from].toLowerCase()}` });
+        return;
+      }
+      if (!canTransition(from, change.status)) {
+        skipped.push({ id, reason: `Cannot move from ${from} to ${change.status}` });
+        return;
+      }
+      updated.push(id);
+      audits.push(statusAudit(report, from, change.status, change.updatedBy, { note: change.note }));
+    });
+
+    if (updated.length > 0) {
+      await tx.listingReport.updateMany({ where: { id: { in: updated } }, data: { status: change.status, updatedAt: now } });
+      await tx.listingAudit.createMany({ data: audits });
+    }
+
+    return { updated, skipped };
+  });
+}
+
+/**
+ * Validate a follow-up body. A correction follow-up takes the same fields as
+ * the correction console; `createdBy` defaults to `updatedBy`.
+ * @param {unknown} body - Parsed JSON body with `action`, `updatedBy`, optional `note` and `correction`
+ * @returns {ReportFollowUp} Validated follow-up
+ * @throws {FilterValidationError} If a field is missing or invalid
+ */
+export function parseReportFollowUp(body: unknown): ReportFollowUp {
+  const { action, updatedBy, note, correction } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const actor = requiredText('updatedBy', updatedBy);
+  const text = optionalText('note', note);
+
+  if (action === 'MARK_OFF_MARKET') {
+    return { action, updatedBy: actor, note: text };
+  }
+  if (action === 'CREATE_CORRECTION') {
+    if (!correction || typeof correction !== 'object' || Array.isArray(correction)) {
+      throw new FilterValidationError('correction', 'correction is required for CREATE_CORRECTION');
+    }
+    return {
+      action,
+      updatedBy: actor,
+      note: text,
+      correction: parseCorrectionInput({ createdBy: actor, ...correction }),
+    };
+  }
+  throw new FilterValidationError('action', 'action must be MARK_OFF_MARKET or CREATE_CORRECTION');
+}
+
+/**
+ * Act on a report and resolve it in one step: either mark the listing
+ * OFF_MARKET (with a ListingHistory row linked to the audit entry) or create
+ * a DataCorrection against the listing or one of its related rows. A
+ * correction is written in its own transaction before the report is
+ * resolved, so a failure in between leaves the correction in place and the
+ * report open.
+ * @param {string} id - Report id
+ * @param {ReportFollowUp} followUp - Validated follow-up
+ * @returns {Promise<ReportFollowUpResult | null>} Resolved report, or null if it does not exist
+ * @throws {FilterValidationError} If the report is already closed or the correction targets another listing
+ */
+export async function applyReportFollowUp(id: string, followUp: ReportFollowUp): Promise<ReportFollowUpResult | null> {
+  const report = await prisma.listingReport.findUnique({ where: { id }, include: reportInclude });
+  if (!report) return null;
+
+  const from = normalizeReportStatus(report.status);
+  if (!canTransition(from, 'RESOLVED')) {
+    throw new FilterValidationError('id', `Report ${id} is already ${from}; reopen it before acting on it`);
+  }
+
+  let correction: ReportFollowUpResult['correction'];
+  if (followUp.action === 'CREATE_CORRECTION') {
+    const preview = await previewCorrection(followUp.correction);
+    if (preview.listingId !== report.listingId) {
+      throw new FilterValidationError('correction', `The corrected ${followUp.correction.entityType} does not belong to listing ${report.listingId}`);
+    }
+    correction = await createCorrection(followUp.correction);
+  }
+
+  const now = new Date();
+  const result = await prisma.$transaction(async tx => {
+    let listingStatus = report.Listing.status;
+
+    if (followUp.action === 'MARK_OFF_MARKET' && statusCategory(listingStatus) !== 'offMarket') {
+      const listing = await tx.listing.update({
+        where: { id: report.listingId },
+        data: { status: ListingStatus.OFF_MARKET, lastStatusChange: now, updatedAt: now },
+        select: { price: true, status: true },
+      });
+      const audit = await tx.listingAudit.create({
+        data: {
+          id: randomUUID(),
+          listingId: report.listingId,
+          action: REPORT_AUDIT_ACTIONS.markedOffMarket,
+          source: 'ADMIN',
+          sourceId: followUp.updatedBy,
+          sourceName: followUp.updatedBy,
+          changes: { status: { from: listingStatus, to: ListingStatus.OFF_MARKET } },
+          metadata: { reportId: report.id, reason: report.reason, note: followUp.note },
+        },
+      });
+      await tx.listingHistory.create({
+        data: {
+          id: randomUUID(),
+          listingId: report.listingId,
+          price: listing.price,
+          status: listing.status,
+          rawData: { source: 'LISTING_REPORT', reportId: report.id },
+          changedFields: ['status'],
+          effectiveDate: now,
+          auditId: audit.id,
+        },
+      });
+      listingStatus = listing.status;
+    }
+
+    const resolved = await tx.listingReport.update({
+      where: { id },
+      data: { status: 'RESOLVED', updatedAt: now },
+      include: reportInclude,
+    });
+    await tx.listingAudit.create({
+      data: statusAudit(report, from, 'RESOLVED', followUp.updatedBy, {
+        note: followUp.note,
+        followUp: followUp.action,
+        correctionId: correction?.id ?? null,
+      }),
+    });
+
+    return { report: toModerationReport({ ...resolved, Listing: { ...resolved.Listing, status: listingStatus } }), listingStatus };
+  });
+
+  return { ...result, correction };
+}
+
+/**
+ * Parse the analytics window, defaulting to the last 90 days
+ * @param {URLSearchParams} params - Query parameters (`from`, `to`)
+ * @returns {{from: string, to: string}} Validated window
+ * @throws {FilterValidationError} If a date is malformed or the window is too long
+ */
+export const parseReportAnalyticsWindow = (params: URLSearchParams) =>
+  parseDateWindow(params, { defaultDays: DEFAULT_ANALYTICS_DAYS, maxDays: MAX_ANALYTICS_DAYS });
+
+/**
+ * Report volume by reason, by day and by MLS, and time-to-resolution, for
+ * reports filed in the window. Reports carry no resolution timestamp, so
+ * resolution time is measured to `updatedAt` of reports that are currently
+ * RESOLVED or DISMISSED; moderation is the only writer of reports.
+ * @param {{from: string, to: string}} window - Inclusive day window
+ * @returns {Promise<ReportAnalytics>} Aggregated analytics
+ */
+export async function computeReportAnalytics(window: { from: string; to: string }): Promise<ReportAnalytics> {
+  const createdAt = buildDateRange(window.from, window.to)!;
+  const inWindow = Prisma.sql`r."createdAt" >= ${createdAt.gte} AND r."createdAt" < ${createdAt.lt}`;
+  const closed = CLOSED_REPORT_STATUSES;
+  const upperStatus = Prisma.sql`UPPER(TRIM(r.status))`;
+
+  const labels: string[] = [];
+  for (let t = Date.parse(window.from); t <= Date.parse(window.to); t += DAY_MS) {
+    labels.push(isoDay(new Date(t)));
+  }
+
+  const resolutionBuckets = Prisma.join(RESOLUTION_TIME_RANGES.map(range => range.max === null
+    ? Prisma.sql`COUNT(*) FILTER (WHERE hours >= ${range.min})::int`
+    : Prisma.sql`COUNT(*) FILTER (WHERE hours >= ${range.min} AND hours < ${range.max})::int`
+  ));
+
+  const [dailyRows, mlsRows, [resolution]] = await Promise.all([
+    prisma.$queryRaw<Array<{ day: string; reason: ListingReportReason; count: number }>>`
+      SELECT
+        to_char(date_trunc('day', r."createdAt"), 'YYYY-MM-DD') AS day,
+        r.reason::text AS reason,
+        COUNT(*)::int AS count
+      FROM "ListingReport" r
+      WHERE ${inWindow}
+      GROUP BY 1, 2
+    `,
+    prisma.$queryRaw<Array<{ mls: string; total: number; open: number }>>`
+      SELECT
+        COALESCE(NULLIF(l."denormalizedMlsInstanceName", ''), NULLIF(l."mlsInstanceId", ''), 'Unknown') AS mls,
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE ${upperStatus} NOT IN (${Prisma.join(closed)}))::int AS open
+      FROM "ListingReport" r
+      JOIN "Listing" l ON l.id = r."listingId"
+      WHERE ${inWindow}
+      GROUP BY 1
+      ORDER BY total DESC, mls
+      LIMIT ${TOP_MLS_COUNT}
+    `,
+    prisma.$queryRaw<Array<{ counts: number[]; median: number | null }>>`
+      WITH closed AS (
+        SELECT EXTRACT(EPOCH FROM (r."updatedAt" - r."createdAt")) / 3600 AS hours
+        FROM "ListingReport" r
+        WHERE ${inWindow} AND ${upperStatus} IN (${Prisma.join(closed)})
+      )
+      SELECT
+        ARRAY[${resolutionBuckets}] AS counts,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY hours)::float AS median
+      FROM closed
+    `,
+  ]);
+
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const series: ReportAnalytics['volume']['series'] = {};
+  const reasonTotals = new Map<ListingReportReason, number>();
+  dailyRows.forEach(({ day, reason, count }) => {
+    reasonTotals.set(reason, (reasonTotals.get(reason) ?? 0) + count);
+    const i = index.get(day);
+    if (i !== undefined) (series[reason] ??= labels.map(() => 0))[i] += count;
+  });
+
+  const reasons = Object.values(ListingReportReason);
+  return {
+    from: window.from,
+    to: window.to,
+    total: Array.from(reasonTotals.values()).reduce((sum, count) => sum + count, 0),
+    byReason: { labels: reasons, values: reasons.map(reason => reasonTotals.get(reason) ?? 0) },
+    volume: { labels, series },
+    byMls: mlsRows.map(row => ({ mls: row.mls, total: row.total, open: row.open })),
+    resolutionTime: {
+      labels: RESOLUTION_TIME_RANGES.map(range => range.label),
+      values: resolution?.counts ?? RESOLUTION_TIME_RANGES.map(() => 0),
+    },
+    medianResolutionHours: resolution?.median ?? null,
+  };
+}
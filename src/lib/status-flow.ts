@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildDateRange, buildListingSql, DateWindow } from '@/lib/filters';
+import { StatusCategory, statusCategorySql, STATUS_CATEGORY_ORDER } from '@/lib/listing-status';
+import { DashboardFilters } from '@/types/dashboard';
+import { StatusFlow } from '@/types/status-flow';
+
+export const DEFAULT_FLOW_WINDOW_DAYS = 365;
+export const MAX_FLOW_WINDOW_DAYS = 1095;
+
+/**
+ * Compute the status transition matrix and the Active -> Under Contract ->
+ * Closed funnel from consecutive ListingHistory rows.
+ *
+ * History rows with an `unknown` status are dropped and consecutive rows in
+ * the same category are treated as one, so the matrix only holds real
+ * category changes. Transitions count when the later row falls in the window.
+ * The funnel follows listings whose first active row is in the window through
+ * the rest of their history, so recent cohorts naturally show fewer closings.
+ * A listing that closed without a recorded contract status still counts as
+ * having gone under contract, since feeds sometimes skip the pending step.
+ *
+ * Unless statuses are picked explicitly, listings of every current status are included.
+ *
+ * @param {DashboardFilters} filters - Dashboard filters (loan type, location, ...)
+ * @param {DateWindow} window - Inclusive window on `effectiveDate`
+ * @returns {Promise<StatusFlow>} Transitions, matrix and funnel
+ */
+export async function computeStatusFlow(filters: DashboardFilters, window: DateWindow): Promise<StatusFlow> {
+  const range = buildDateRange(window.from, window.to)!;
+  const category = statusCategorySql('h.status');
+
+  const sequence = Prisma.sql`
+    WITH scoped AS (
+      SELECT l.id
+      FROM "Listing" l
+      WHERE ${buildListingSql(filters, { includeStatus: Boolean(filters.status?.length) })}
+    ),
+    categorized AS (
+      SELECT h."listingId", h."effectiveDate", h."createdAt", ${category} AS category
+      FROM "ListingHistory" h
+      JOIN scoped s ON s.id = h."listingId"
+    ),
+    sequence AS (
+      SELECT
+        "listingId",
+        "effectiveDate",
+        category,
+        LAG(category) OVER (PARTITION BY "listingId" ORDER BY "effectiveDate", "createdAt") AS previous
+      FROM categorized
+      WHERE category <> 'unknown'
+    )
+  `;
+
+  const [transitionRows, funnelRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ from: StatusCategory; to: StatusCategory; count: number }>>`
+      ${sequence}
+      SELECT previous AS "from", category AS "to", COUNT(*)::int AS count
+      FROM sequence
+      WHERE previous IS NOT NULL
+        AND previous <> category
+        AND "effectiveDate" >= ${range.gte}
+        AND "effectiveDate" < ${range.lt}
+      GROUP BY 1, 2
+      ORDER BY count DESC
+    `,
+    prisma.$queryRaw<Array<{
+      listed: number;
+      underContract: number;
+      closed: number;
+      fellThrough: number;
+      withdrawnBeforeContract: number;
+      stillOnMarket: number;
+    }>>`
+      ${sequence},
+      marked AS (
+        SELECT
+          *,
+          MIN("effectiveDate") FILTER (WHERE category = 'active') OVER (PARTITION BY "listingId") AS "firstActive"
+        FROM sequence
+      ),
+      per_listing AS (
+        SELECT
+          "listingId",
+          MIN("firstActive") AS "firstActive",
+          bool_or(category = 'underContract' AND "effectiveDate" >= "firstActive") AS contract,
+          bool_or(category = 'closed' AND "effectiveDate" >= "firstActive") AS closed,
+          bool_or(previous = 'underContract' AND category = 'active') AS "fellThrough",
+          (ARRAY_AGG(category ORDER BY "effectiveDate" DESC))[1] AS latest
+        FROM marked
+        GROUP BY "listingId"
+      )
+      SELECT
+        COUNT(*)::int AS listed,
+        COUNT(*) FILTER (WHERE contract OR closed)::int AS "underContract",
+        COUNT(*) FILTER (WHERE closed)::int AS closed,
+        COUNT(*) FILTER (WHERE contract AND "fellThrough")::int AS "fellThrough",
+        COUNT(*) FILTER (WHERE NOT contract AND NOT closed AND latest = 'offMarket')::int AS "withdrawnBeforeContract",
+        COUNT(*) FILTER (WHERE NOT contract AND NOT closed AND latest IN ('active', 'paused'))::int AS "stillOnMarket"
+      FROM per_listing
+      WHERE "firstActive" >= ${range.gte} AND "firstActive" < ${range.lt}
+    `,
+  ]);
+
+  const categories = STATUS_CATEGORY_ORDER.filter(c => c !== 'unknown');
+  const index = new Map<StatusCategory, number>(categories.map((c, i) => [c, i]));
+  const counts = categories.map(() => categories.map(() => 0));
+  transitionRows.forEach(row => {
+    const i = index.get(row.from);
+    const j = index.get(row.to);
+    if (i !== undefined && j !== undefined) counts[i][j] += row.count;
+  });
+
+  const funnel = funnelRows[0] ?? {
+    listed: 0, underContract: 0, closed: 0, fellThrough: 0, withdrawnBeforeContract: 0, stillOnMarket: 0,
+  };
+
+  return {
+    from: window.from,
+    to: window.to,
+    transitions: transitionRows,
+    matrix: { categories, counts },
+    funnel: {
+      ...funnel,
+      contractRate: funnel.listed > 0 ? funnel.underContract / funnel.listed : 0,
+      closeRate: funnel.underContract > 0 ? funnel.closed / funnel.underContract : 0,
+      fallThroughRate: funnel.underContract > 0 ? funnel.fellThrough / funnel.underContract : 0,
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
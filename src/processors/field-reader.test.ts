@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { FieldReader } from '@/processors/field-reader';
+import fixtures from './__fixtures__/field-reader.json';
+
+interface FieldReaderFixture {
+  name: string;
+  raw: Prisma.JsonValue;
+  overrides?: Record<string, unknown>;
+  read: {
+    method: 'string' | 'number' | 'boolean' | 'date' | 'stringArray';
+    field: string;
+    aliases: string[];
+    options?: { required?: boolean; integer?: boolean; min?: number; max?: number };
+  };
+  /** Value read; dates as ISO strings */
+  expected: unknown;
+  issues: Array<{ field: string; severity: 'warning' | 'error' }>;
+}
+
+/**
+ * Run one fixture's accessor
+ * @param {FieldReader} reader - Reader over the fixture payload
+ * @param {FieldReaderFixture['read']} read - Accessor and arguments
+ * @returns {unknown} Value read, dates as ISO strings
+ */
+const readValue = (reader: FieldReader, { method, field, aliases, options }: FieldReaderFixture['read']): unknown => {
+  switch (method) {
+    case 'string':
+      return reader.string(field, aliases, options);
+    case 'number':
+      return reader.number(field, aliases, options);
+    case 'boolean':
+      return reader.boolean(field, aliases);
+    case 'date':
+      return reader.date(field, aliases, options)?.toISOString() ?? null;
+    case 'stringArray':
+      return reader.stringArray(field, aliases);
+  }
+};
+
+describe('FieldReader', () => {
+  for (const fixture of fixtures as FieldReaderFixture[]) {
+    test(fixture.name, () => {
+      const reader = new FieldReader(fixture.raw, fixture.overrides);
+
+      assert.deepEqual(readValue(reader, fixture.read), fixture.expected);
+      assert.deepEqual(
+        reader.issues.map(({ field, severity }) => ({ field, severity })),
+        fixture.issues
+      );
+    });
+  }
+});
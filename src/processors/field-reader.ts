@@ -0,0 +1,257 @@
+import { Prisma } from '@prisma/client';
+import { ProcessingIssue } from '@/types/processor';
+
+interface NumberOptions {
+  required?: boolean;
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Lowercase and strip punctuation so `ListPrice`, `list_price` and `listPrice` all match
+ */
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Values that MLS feeds use to mean "no value"
+ */
+const isBlank = (value: unknown) =>
+  value === null || value === undefined ||
+  (typeof value === 'string' && ['', 'null', 'n/a', 'na', 'none', '-'].includes(value.trim().toLowerCase()));
+
+const NUMBER_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6 };
+
+/**
+ * FieldReader - typed, forgiving access to raw JSON payloads from external feeds.
+ *
+ * Raw MLS and loan payloads use inconsistent key casing, nest some fields and
+ * encode numbers/booleans/dates as strings. Each accessor takes the output
+ * field name plus the raw aliases to try, coerces the first value found and
+ * records a warning or error whenever it had to guess or give up.
+ */
+export class FieldReader {
+  readonly issues: ProcessingIssue[] = [];
+  private readonly lookup = new Map<string, unknown>();
+
+  /**
+   * @param {Prisma.JsonValue} raw - Raw JSON payload
+   * @param {Record<string, unknown>} [overrides] - Values already extracted into
+   *   table columns; they take precedence over the payload when not null
+   */
+  constructor(raw: Prisma.JsonValue, overrides: Record<string, unknown> = {}) {
+    if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+      this.error('rawData', 'Raw payload is not a JSON object', raw);
+    } else {
+      this.index(raw as Prisma.JsonObject, '');
+    }
+
+    Object.entries(overrides).forEach(([key, value]) => {
+      if (!isBlank(value)) this.lookup.set(normalizeKey(key), value);
+    });
+  }
+
+  /**
+   * Index keys by their normalized name. Nested objects are indexed both by
+   * full path (`address.city` -> `addresscity`) and by leaf name. Keys at a
+   * shallower level are indexed first, so they win any collision.
+   */
+  private index(obj: Prisma.JsonObject, prefix: string) {
+    const entries = Object.entries(obj);
+
+    entries.forEach(([key, value]) => {
+      const path = normalizeKey(prefix + key);
+      if (!this.lookup.has(path)) this.lookup.set(path, value);
+      if (prefix) {
+        const leaf = normalizeKey(key);
+        if (!this.lookup.has(leaf)) this.lookup.set(leaf, value);
+      }
+    });
+
+    entries.forEach(([key, value]) => {
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        this.index(value as Prisma.JsonObject, prefix + key);
+      }
+    });
+  }
+
+  warn(field: string, message: string, rawValue?: unknown) {
+    this.issues.push({ field, severity: 'warning', message, rawValue });
+  }
+
+  error(field: string, message: string, rawValue?: unknown) {
+    this.issues.push({ field, severity: 'error', message, rawValue });
+  }
+
+  get hasErrors(): boolean {
+    return this.issues.some(issue => issue.severity === 'error');
+  }
+
+  /**
+   * Return the first non-blank value among the aliases
+   * @param {string[]} aliases - Raw key names to try, in priority order
+   * @returns {unknown} The raw value, or undefined when none is present
+   */
+  raw(aliases: string[]): unknown {
+    for (const alias of aliases) {
+      const value = this.lookup.get(normalizeKey(alias));
+      if (!isBlank(value)) return value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read a trimmed string. Numbers are stringified; objects are rejected.
+   */
+  string(field: string, aliases: string[], { required = false } = {}): string | null {
+    const value = this.raw(aliases);
+
+    if (value === undefined) {
+      if (required) this.error(field, `Missing required field (tried ${aliases.join(', ')})`);
+      return null;
+    }
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      this.warn(field, `Expected a string, coerced ${typeof value}`, value);
+      return String(value);
+    }
+
+    if (required) this.error(field, 'Expected a string', value);
+    else this.warn(field, 'Expected a string', value);
+    return null;
+  }
+
+  /**
+   * Read a number, accepting strings such as "$1,250,000", "3.5" or "450k".
+   * Out-of-range values are dropped with a warning (or error if required).
+   */
+  number(field: string, aliases: string[], { required = false, integer = false, min, max }: NumberOptions = {}): number | null {
+    const value = this.raw(aliases);
+    const report = required ? this.error.bind(this) : this.warn.bind(this);
+
+    if (value === undefined) {
+      if (required) this.error(field, `Missing required field (tried ${aliases.join(', ')})`);
+      return null;
+    }
+
+    let parsed: number;
+    if (typeof value === 'number') {
+      parsed = value;
+    } else if (typeof value === 'string') {
+      const match = value.replace(/[$,\s]/g, '').toLowerCase().match(/^(-?\d*\.?\d+)([km])?$/);
+      if (!match) {
+        report(field, 'Could not parse number', value);
+        return null;
+      }
+      parsed = Number(match[1]) * (match[2] ? NUMBER_SUFFIXES[match[2]] : 1);
+      // Plain numeric strings are normal for MLS feeds; only flag values we had to clean up
+      if (!/^-?\d*\.?\d+$/.test(value.trim())) {
+        this.warn(field, 'Stripped formatting from numeric string', value);
+      }
+    } else {
+      report(field, 'Expected a number', value);
+      return null;
+    }
+
+    if (!Number.isFinite(parsed)) {
+      report(field, 'Number is not finite', value);
+      return null;
+    }
+    if ((min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+      report(field, `Value out of range [${min ?? '-inf'}, ${max ?? 'inf'}]`, value);
+      return null;
+    }
+    if (integer && !Number.isInteger(parsed)) {
+      this.warn(field, 'Rounded to an integer', value);
+      return Math.round(parsed);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Read a boolean, accepting Y/N, Yes/No, true/false, 1/0
+   */
+  boolean(field: string, aliases: string[]): boolean | null {
+    const value = this.raw(aliases);
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value;
+
+    const text = String(value).trim().toLowerCase();
+    if (['y', 'yes', 'true', '1', 't'].includes(text)) return true;
+    if (['n', 'no', 'false', '0', 'f'].includes(text)) return false;
+
+    this.warn(field, 'Could not parse boolean', value);
+    return null;
+  }
+
+  /**
+   * Read a date from a Date, an ISO string, a YYYY-MM-DD string, or epoch milliseconds/seconds
+   */
+  date(field: string, aliases: string[], { required = false } = {}): Date | null {
+    const value = this.raw(aliases);
+    const report = required ? this.error.bind(this) : this.warn.bind(this);
+
+    if (value === undefined) {
+      if (required) this.error(field, `Missing required field (tried ${aliases.join(', ')})`);
+      return null;
+    }
+
+    let parsed: Date;
+    if (value instanceof Date) {
+      parsed = value;
+    } else if (typeof value === 'number') {
+      // Values below 1e11 are epoch seconds (before year 5138), otherwise milliseconds
+      parsed = new Date(value < 1e11 ? value * 1000 : value);
+    } else if (typeof value === 'string') {
+      parsed = new Date(value.trim());
+    } else {
+      report(field, 'Expected a date', value);
+      return null;
+    }
+
+    if (Number.isNaN(parsed.getTime())) {
+      report(field, 'Could not parse date', value);
+      return null;
+    }
+    return parsed;
+  }
+
+  /**
+   * Read a list of strings from an array, a JSON array string or a comma separated string
+   */
+  stringArray(field: string, aliases: string[]): string[] {
+    const value = this.raw(aliases);
+    if (value === undefined) return [];
+
+    if (Array.isArray(value)) {
+      return value
+        .map(item => {
+          if (typeof item === 'string') return item.trim();
+          // Media arrays often hold objects like { MediaURL, Order }
+          if (item && typeof item === 'object') {
+            const url = Object.entries(item).find(([key]) => /url$/i.test(key))?.[1];
+            return typeof url === 'string' ? url.trim() : '';
+          }
+          return '';
+        })
+        .filter(Boolean);
+    }
+
+    if (typeof value === 'string') {
+      const text = value.trim();
+      if (text.startsWith('[')) {
+        try {
+          const parsed = JSON.parse(text);
+          if (Array.isArray(parsed)) return parsed.filter((item): item is string => typeof item === 'string');
+        } catch {
+          // Fall through to comma splitting
+        }
+      }
+      return text.split(',').map(item => item.trim()).filter(Boolean);
+    }
+
+    this.warn(field, 'Expected a list', value);
+    return [];
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma, RawListingData } from '@prisma/client';
+import { mapListingStatus, mapPropertyType, normalizeUnitNumber, RawListingProcessor } from '@/processors/listing.processor';
+import { NormalizedListing } from '@/types/processor';
+import fixtures from './__fixtures__/raw-listings.json';
+
+interface RawListingFixture {
+  name: string;
+  /** RawListingData columns; everything else takes the defaults below */
+  record: Partial<Omit<RawListingData, 'rawData'>> & { rawData: Prisma.JsonValue };
+  /** Fields the normalized listing must have, or null when the record is rejected */
+  expected: Partial<NormalizedListing> | null;
+  issues: Array<{ field: string; severity: 'warning' | 'error' }>;
+}
+
+const processor = new RawListingProcessor();
+
+/**
+ * Build a RawListingData row as the puller stores it
+ * @param {RawListingFixture['record']} columns - Columns set by the fixture
+ * @returns {RawListingData} Row with unset columns defaulted
+ */
+const rawListing = (columns: RawListingFixture['record']): RawListingData => ({
+  id: 'raw-1',
+  mlsProviderId: 'fixture',
+  rawDataHash: 'hash',
+  status: 'PENDING',
+  errorMessage: null,
+  createdAt: new Date('2024-03-02T00:00:00Z'),
+  updatedAt: new Date('2024-03-02T00:00:00Z'),
+  processedAt: null,
+  parcelNumber: null,
+  zipCode: null,
+  mlsStatus: null,
+  modificationTimestamp: null,
+  mlsInstanceId: 'fixture',
+  propertyType: null,
+  statusChangeTimestamp: null,
+  unitNumber: '',
+  unparsedAddress: null,
+  loanDataError: null,
+  loanDataPullStatus: 'PENDING',
+  photosPullError: null,
+  photosPullStatus: 'PENDING',
+  rawLoanDataId: null,
+  rawPhotoDataId: null,
+  processingVersion: null,
+  lastPhotosPullAt: null,
+  photosCount: null,
+  photosPullAttempts: 0,
+  pullerVersion: null,
+  ...columns,
+});
+
+describe('RawListingProcessor', () => {
+  for (const fixture of fixtures as RawListingFixture[]) {
+    test(fixture.name, () => {
+      const result = processor.process(rawListing(fixture.record));
+
+      assert.equal(result.sourceId, 'raw-1');
+      assert.deepEqual(
+        result.issues.map(({ field, severity }) => ({ field, severity })),
+        fixture.issues
+      );
+      if (fixture.expected === null) {
+        assert.equal(result.record, null);
+        return;
+      }
+      assert.ok(result.record, 'record was rejected');
+      const actual = Object.fromEntries(Object.keys(fixture.expected).map(key => [key, result.record?.[key as keyof NormalizedListing]]));
+      assert.deepEqual(actual, fixture.expected);
+    });
+  }
+});
+
+describe('mapListingStatus', () => {
+  test('matches enum names, aliases and keywords', () => {
+    assert.deepEqual(mapListingStatus('Back on Market'), { status: 'BACK_ON_MARKET', exact: true });
+    assert.deepEqual(mapListingStatus('Canceled'), { status: 'CANCELLED', exact: true });
+    assert.deepEqual(mapListingStatus('Closed - Leased'), { status: 'CLOSED', exact: false });
+    assert.deepEqual(mapListingStatus('???'), { status: 'UNKNOWN', exact: false });
+  });
+});
+
+describe('mapPropertyType', () => {
+  test('checks the subtype before the type', () => {
+    assert.equal(mapPropertyType('Residential', 'Condominium Townhouse'), 'TOWNHOUSE');
+    assert.equal(mapPropertyType('Residential Income', null), 'MULTI_FAMILY');
+    assert.equal(mapPropertyType('Boat Slip', null), null);
+  });
+});
+
+describe('normalizeUnitNumber', () => {
+  test('strips designators and uppercases', () => {
+    assert.equal(normalizeUnitNumber('#4b'), '4B');
+    assert.equal(normalizeUnitNumber('apt. 12c'), '12C');
+    assert.equal(normalizeUnitNumber(null), '');
+  });
+});
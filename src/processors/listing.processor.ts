@@ -0,0 +1,330 @@
+import { ListingStatus, PropertyType, RawListingData } from '@prisma/client';
+import { FieldReader } from './field-reader';
+import { isOwnKey } from '@/lib/filters';
+import { NormalizedListing, ProcessingResult } from '@/types/processor';
+
+/**
+ * Free-text MLS statuses that do not match a ListingStatus name once normalized.
+ * Keys are uppercased with non-alphanumerics collapsed to underscores.
+ */
+const STATUS_ALIASES: Record<string, ListingStatus> = {
+  A: ListingStatus.ACTIVE,
+  ACT: ListingStatus.ACTIVE,
+  FOR_SALE: ListingStatus.ACTIVE,
+  NEW_LISTING: ListingStatus.NEW,
+  U_C: ListingStatus.UNDER_CONTRACT,
+  UC: ListingStatus.UNDER_CONTRACT,
+  P: ListingStatus.PENDING,
+  PEND: ListingStatus.PENDING,
+  PENDING_SALE: ListingStatus.PENDING,
+  PENDING_SHOWING_FOR_BACKUPS: ListingStatus.PENDING_TAKING_BACKUPS,
+  PENDING_BACKUPS: ListingStatus.PENDING_TAKING_BACKUPS,
+  S: ListingStatus.SOLD,
+  CLSD: ListingStatus.CLOSED,
+  CLOSED_SALE: ListingStatus.CLOSED,
+  X: ListingStatus.EXPIRED,
+  EXP: ListingStatus.EXPIRED,
+  WTHD: ListingStatus.WITHDRAWN,
+  WITHDRAWN_SUBLISTING: ListingStatus.WITHDRAWN,
+  CANCELED: ListingStatus.CANCELLED,
+  CANC: ListingStatus.CANCELLED,
+  TEMP_OFF_MARKET: ListingStatus.TEMPORARILY_OFF_MARKET,
+  TOM: ListingStatus.TEMPORARILY_OFF_MARKET,
+  BACK_ON_MKT: ListingStatus.BACK_ON_MARKET,
+  BOM: ListingStatus.BACK_ON_MARKET,
+  ACTIVE_UNDER_CONTINGENCY: ListingStatus.ACTIVE_CONTINGENT,
+  CONTINGENT_SHOW: ListingStatus.CONTINGENT_CONTINUE_TO_SHOW,
+  CONTINGENT_NO_SHOWINGS: ListingStatus.CONTINGENT_NO_SHOW,
+  OFF_MKT: ListingStatus.OFF_MARKET,
+  TERM: ListingStatus.TERMINATED,
+};
+
+/**
+ * Keyword fallbacks for statuses we have never seen before, checked in order
+ */
+const STATUS_KEYWORDS: Array<[RegExp, ListingStatus]> = [
+  [/COMING/, ListingStatus.COMING_SOON],
+  [/CONTINGEN/, ListingStatus.CONTINGENT],
+  [/PEND/, ListingStatus.PENDING],
+  [/CONTRACT/, ListingStatus.UNDER_CONTRACT],
+  [/SOLD/, ListingStatus.SOLD],
+  [/CLOS/, ListingStatus.CLOSED],
+  [/EXPIR/, ListingStatus.EXPIRED],
+  [/WITHDR/, ListingStatus.WITHDRAWN],
+  [/CANCEL/, ListingStatus.CANCELLED],
+  [/LEASE|RENT/, ListingStatus.LEASED],
+  [/ACTIVE/, ListingStatus.ACTIVE],
+];
+
+/**
+ * Property type keywords checked against the subtype first, then the type.
+ * Order matters: "Condominium Townhouse" should be a townhouse, "Residential Income" multi-family.
+ */
+const PROPERTY_TYPE_KEYWORDS: Array<[RegExp, PropertyType]> = [
+  [/TOWN ?HO|ROW ?HO/, PropertyType.TOWNHOUSE],
+  [/CONDO|CO-?OP|STOCK COOP/, PropertyType.CONDO],
+  [/DUPLEX|TRIPLEX|QUAD|MULTI|RESIDENTIAL INCOME|2-4 UNIT/, PropertyType.MULTI_FAMILY],
+  [/APARTMENT/, PropertyType.APARTMENT_BUILDING],
+  [/MANUFACTURED|MOBILE|MODULAR/, PropertyType.MANUFACTURED],
+  [/FARM|RANCH|AGRICULT/, PropertyType.AGRICULTURAL],
+  [/LAND|LOT/, PropertyType.LAND],
+  [/MIXED/, PropertyType.MIXED_USE],
+  [/RETAIL/, PropertyType.RETAIL],
+  [/OFFICE/, PropertyType.OFFICE],
+  [/INDUSTRIAL|WAREHOUSE/, PropertyType.INDUSTRIAL],
+  [/COMMERCIAL|BUSINESS/, PropertyType.COMMERCIAL],
+  [/VACATION|TIMESHARE/, PropertyType.VACATION],
+  [/DEVELOPMENT/, PropertyType.DEVELOPMENT],
+  [/SINGLE|SFR|DETACHED|RESIDENTIAL|HOUSE/, PropertyType.SINGLE_FAMILY],
+];
+
+const HOA_FREQUENCY_DIVISORS: Record<string, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMI_ANNUALLY: 6,
+  SEMIANNUALLY: 6,
+  ANNUALLY: 12,
+  ANNUAL: 12,
+  YEARLY: 12,
+};
+
+const UNIT_PATTERN = /\s+(?:#|APT\.?|UNIT|STE\.?|SUITE)\s*([A-Z0-9-]+)\s*$/i;
+
+const toEnumKey = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Map a free-text MLS status to a ListingStatus.
+ * Tries an exact enum match, then known aliases, then keyword heuristics.
+ *
+ * @param {string} raw - Status as sent by the MLS (e.g. "Active Under Contract", "U/C", "Canceled")
+ * @returns {{ status: ListingStatus, exact: boolean }} Mapped status and whether it matched without guessing
+ */
+export function mapListingStatus(raw: string): { status: ListingStatus; exact: boolean } {
+  const key = toEnumKey(raw);
+
+  if (isOwnKey(key, ListingStatus)) return { status: key, exact: true };
+  if (STATUS_ALIASES[key]) return { status: STATUS_ALIASES[key], exact: true };
+
+  const keywordMatch = STATUS_KEYWORDS.find(([pattern]) => pattern.test(key.replace(/_/g, ' ')));
+  return { status: keywordMatch?.[1] ?? ListingStatus.UNKNOWN, exact: false };
+}
+
+/**
+ * Map MLS property type/subtype strings to a PropertyType
+ * @param {string | null} type - MLS PropertyType (e.g. "Residential")
+ * @param {string | null} subType - MLS PropertySubType (e.g. "Condominium")
+ * @returns {PropertyType | null} Mapped type, or null when nothing matched
+ */
+export function mapPropertyType(type: string | null, subType: string | null): PropertyType | null {
+  for (const candidate of [subType, type]) {
+    if (!candidate) continue;
+    const key = toEnumKey(candidate);
+    if (isOwnKey(key, PropertyType)) return key;
+
+    const text = candidate.toUpperCase();
+    const match = PROPERTY_TYPE_KEYWORDS.find(([pattern]) => pattern.test(text));
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Normalize a unit designator: "#4b" / "Unit 4B" / "apt. 4B" -> "4B"
+ */
+export const normalizeUnitNumber = (unit: string | null | undefined): string =>
+  (unit ?? '').replace(/^(?:#|APT\.?|UNIT|STE\.?|SUITE)\s*/i, '').trim().toUpperCase();
+
+/**
+ * RawListingProcessor - maps RawListingData records to Listing-shaped objects.
+ *
+ * Processing is pure: nothing is written to the database, so the same code
+ * backs the dry-run endpoint and the benchmark harness. Column values already
+ * extracted onto RawListingData (zip, parcel, status, ...) take precedence over
+ * the raw payload because the puller has validated them.
+ */
+export class RawListingProcessor {
+  /**
+   * Normalize one raw listing record
+   * @param {RawListingData} record - Raw listing row
+   * @returns {ProcessingResult<NormalizedListing>} Normalized listing (null on error) and issues
+   */
+  process(record: RawListingData): ProcessingResult<NormalizedListing> {
+    const reader = new FieldReader(record.rawData, {
+      PostalCode: record.zipCode,
+      ParcelNumber: record.parcelNumber,
+      MlsStatus: record.mlsStatus,
+      PropertyType: record.propertyType,
+      UnitNumber: record.unitNumber,
+      UnparsedAddress: record.unparsedAddress,
+      StatusChangeTimestamp: record.statusChangeTimestamp,
+      ModificationTimestamp: record.modificationTimestamp,
+    });
+
+    const price = reader.number('price', ['ListPrice', 'listPrice', 'price', 'CurrentPrice', 'OriginalListPrice'], { required: true, min: 1 });
+    const status = this.readStatus(reader);
+    const { propertyType, propertySubType } = this.readPropertyType(reader);
+    const { address, streetAddress, unitNumber } = this.readAddress(reader);
+
+    const zipCode = reader.string('zipCode', ['PostalCode', 'zipCode', 'zip', 'ZipCode'], { required: true });
+    const normalizedZip = zipCode?.match(/^\d{5}/)?.[0] ?? null;
+    if (zipCode && !normalizedZip) reader.error('zipCode', 'Could not find a 5-digit ZIP code', zipCode);
+    else if (zipCode && normalizedZip !== zipCode) reader.warn('zipCode', 'Trimmed ZIP+4 to 5 digits', zipCode);
+
+    const parcelNumber = reader.string('parcelNumber', ['ParcelNumber', 'parcelNumber', 'APN', 'TaxParcelId'], { required: true });
+    const mlsListingId = reader.string('mlsListingId', ['ListingId', 'ListingKey', 'mlsListingId', 'MLSNumber', 'MlsId'], { required: true });
+    const latitude = reader.number('latitude', ['Latitude', 'lat', 'Coordinates.latitude'], { required: true, min: -90, max: 90 });
+    const longitude = reader.number('longitude', ['Longitude', 'lng', 'lon', 'Coordinates.longitude'], { required: true, min: -180, max: 180 });
+
+    const state = reader.string('state', ['StateOrProvince', 'state', 'State']);
+    const normalizedState = state && /^[A-Za-z]{2}$/.test(state) ? state.toUpperCase() : null;
+    if (state && !normalizedState) reader.warn('state', 'Expected a two-letter state code', state);
+
+    const listing: NormalizedListing = {
+      rawDataId: record.id,
+      rawDataHash: record.rawDataHash,
+      mlsProviderId: record.mlsProviderId,
+      mlsInstanceId: record.mlsInstanceId ?? '',
+      mlsListingId: mlsListingId ?? '',
+      parcelNumber: parcelNumber ?? '',
+      status,
+      price: price !== null ? Math.round(price * 100) / 100 : 0,
+      propertyType: propertyType ?? PropertyType.OTHER,
+      propertySubType,
+      bedrooms: reader.number('bedrooms', ['BedroomsTotal', 'bedrooms', 'Beds', 'BedsTotal'], { integer: true, min: 0, max: 100 }),
+      bathrooms: this.readBathrooms(reader),
+      squareFeet: reader.number('squareFeet', ['LivingArea', 'squareFeet', 'BuildingAreaTotal', 'Sqft'], { integer: true, min: 1 }),
+      yearBuilt: reader.number('yearBuilt', ['YearBuilt', 'yearBuilt'], { integer: true, min: 1600, max: new Date().getFullYear() + 2 }),
+      lotSizeSquareFeet: reader.number('lotSizeSquareFeet', ['LotSizeSquareFeet', 'lotSizeSquareFeet'], { integer: true, min: 0 }),
+      lotSizeAcres: reader.number('lotSizeAcres', ['LotSizeAcres', 'lotSizeAcres'], { min: 0 }),
+      stories: reader.number('stories', ['StoriesTotal', 'Stories', 'stories', 'Levels'], { integer: true, min: 0, max: 200 }),
+      address: address ?? '',
+      streetAddress,
+      unitNumber,
+      city: reader.string('city', ['City', 'city', 'PostalCity']),
+      state: normalizedState,
+      zipCode: normalizedZip ?? '',
+      latitude: latitude ?? 0,
+      longitude: longitude ?? 0,
+      monthlyHoa: this.readMonthlyHoa(reader),
+      hasPool: reader.boolean('hasPool', ['PoolPrivateYN', 'hasPool', 'Pool']),
+      listedAt: reader.date('listedAt', ['ListingContractDate', 'OnMarketDate', 'listedAt', 'ListDate'])?.toISOString() ?? null,
+      lastStatusChange: reader.date('lastStatusChange', ['StatusChangeTimestamp', 'lastStatusChange'])?.toISOString() ?? null,
+      lastMlsUpdate: reader.date('lastMlsUpdate', ['ModificationTimestamp', 'lastModified', 'updatedAt'])?.toISOString() ?? null,
+      photoUrls: reader.stringArray('photoUrls', ['Media', 'photoUrls', 'Photos']),
+      agentName: reader.string('agentName', ['ListAgentFullName', 'agentName', 'ListAgentName']),
+      agentEmail: reader.string('agentEmail', ['ListAgentEmail', 'agentEmail']),
+      agentPhone: reader.string('agentPhone', ['ListAgentDirectPhone', 'ListAgentPreferredPhone', 'agentPhone']),
+      agentOfficeName: reader.string('agentOfficeName', ['ListOfficeName', 'agentOfficeName']),
+    };
+
+    return {
+      sourceId: record.id,
+      record: reader.hasErrors ? null : listing,
+      issues: reader.issues,
+    };
+  }
+
+  /**
+   * Normalize a batch of records
+   * @param {RawListingData[]} records - Raw listing rows
+   * @returns {ProcessingResult<NormalizedListing>[]} One result per record, in input order
+   */
+  processBatch(records: RawListingData[]): ProcessingResult<NormalizedListing>[] {
+    return records.map(record => this.process(record));
+  }
+
+  private readStatus(reader: FieldReader): ListingStatus {
+    const raw = reader.string('status', ['MlsStatus', 'StandardStatus', 'status', 'ListingStatus']);
+    if (!raw) {
+      reader.warn('status', 'Missing status, defaulted to UNKNOWN');
+      return ListingStatus.UNKNOWN;
+    }
+
+    const { status, exact } = mapListingStatus(raw);
+    if (!exact) {
+      reader.warn('status', `Unrecognized status, inferred ${status}`, raw);
+    }
+    return status;
+  }
+
+  private readPropertyType(reader: FieldReader): { propertyType: PropertyType | null; propertySubType: string | null } {
+    const type = reader.string('propertyType', ['PropertyType', 'propertyType']);
+    const subType = reader.string('propertySubType', ['PropertySubType', 'propertySubType', 'SubType']);
+    const mapped = mapPropertyType(type, subType);
+
+    if (!mapped) {
+      reader.warn('propertyType', 'Unrecognized property type, defaulted to OTHER', subType ?? type);
+    }
+    return { propertyType: mapped, propertySubType: subType };
+  }
+
+  /**
+   * Prefer the total bathroom count; otherwise count half baths as 0.5
+   */
+  private readBathrooms(reader: FieldReader): number | null {
+    const total = reader.number('bathrooms', ['BathroomsTotalDecimal', 'BathroomsTotal', 'bathrooms', 'Baths'], { min: 0, max: 100 });
+    if (total !== null) return total;
+
+    const full = reader.number('bathrooms', ['BathroomsFull', 'BathroomsTotalInteger'], { integer: true, min: 0 });
+    const half = reader.number('bathrooms', ['BathroomsHalf'], { integer: true, min: 0 }) ?? 0;
+    if (full === null) return null;
+    return full + half * 0.5;
+  }
+
+  /**
+   * Build the display address and pull the unit number out of it.
+   * Falls back to assembling the street line from its components.
+   */
+  private readAddress(reader: FieldReader): { address: string | null; streetAddress: string | null; unitNumber: string } {
+    let street = reader.string('address', ['UnparsedAddress', 'address', 'FullAddress', 'StreetAddress']);
+
+    if (!street) {
+      const parts = ['StreetNumber', 'StreetDirPrefix', 'StreetName', 'StreetSuffix', 'StreetDirSuffix']
+        .map(key => reader.string('address', [key]))
+        .filter(Boolean);
+      street = parts.length >= 2 ? parts.join(' ') : null;
+      if (street) reader.warn('address', 'Assembled address from street components');
+    }
+
+    if (!street) {
+      reader.error('address', 'Missing address');
+      return { address: null, streetAddress: null, unitNumber: '' };
+    }
+
+    // Some feeds put ", City, ST 12345" on the unparsed address; keep only the street line
+    const streetLine = street.split(',')[0].replace(/\s+/g, ' ').trim();
+
+    let unitNumber = normalizeUnitNumber(reader.string('unitNumber', ['UnitNumber', 'unitNumber', 'Unit']));
+    const embeddedUnit = streetLine.match(UNIT_PATTERN);
+    const streetAddress = embeddedUnit ? streetLine.slice(0, embeddedUnit.index).trim() : streetLine;
+
+    if (!unitNumber && embeddedUnit) {
+      unitNumber = normalizeUnitNumber(embeddedUnit[1]);
+      reader.warn('unitNumber', 'Extracted unit number from address', streetLine);
+    }
+
+    return {
+      address: unitNumber ? `${streetAddress} Unit ${unitNumber}` : streetAddress,
+      streetAddress,
+      unitNumber,
+    };
+  }
+
+  /**
+   * Convert the association fee to a monthly amount using its stated frequency
+   */
+  private readMonthlyHoa(reader: FieldReader): number | null {
+    const fee = reader.number('monthlyHoa', ['AssociationFee', 'monthlyHoa', 'HOAFee', 'HoaFee'], { min: 0 });
+    if (fee === null) return null;
+
+    const frequency = reader.string('monthlyHoa', ['AssociationFeeFrequency', 'HOAFeeFrequency']);
+    if (!frequency) return fee;
+
+    const divisor = HOA_FREQUENCY_DIVISORS[toEnumKey(frequency)];
+    if (!divisor) {
+      reader.warn('monthlyHoa', 'Unknown HOA fee frequency, assumed monthly', frequency);
+      return fee;
+    }
+    return Math.round((fee / divisor) * 100) / 100;
+  }
+}
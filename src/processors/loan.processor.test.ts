@@ -0,0 +1,81 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { Prisma, RawLoanData } from '@prisma/client';
+import { LoanProcessingContext, mapLoanType, RawLoanProcessor } from '@/processors/loan.processor';
+import { summarizeResults } from '@/processors/preview';
+import fixtures from './__fixtures__/raw-loans.json';
+
+interface RawLoanFixture {
+  name: string;
+  /** RawLoanData columns; everything else takes the defaults below */
+  record: Partial<Omit<RawLoanData, 'rawData'>> & { id: string; rawData: Prisma.JsonValue };
+  context: Omit<LoanProcessingContext, 'asOf'>;
+}
+
+/**
+ * Golden output of the loan preview (GET /api/processor/loans) for the
+ * fixtures. Run with UPDATE_GOLDEN=1 to rewrite it after an intended change,
+ * then review the diff.
+ */
+const GOLDEN_FILE = path.join(__dirname, '__fixtures__', 'raw-loans.golden.json');
+
+/** Balances are amortized to this date so the golden file stays stable */
+const AS_OF = new Date('2025-06-01T00:00:00.000Z');
+
+const processor = new RawLoanProcessor();
+
+/**
+ * Build a RawLoanData row as the puller stores it
+ * @param {RawLoanFixture['record']} columns - Columns set by the fixture
+ * @returns {RawLoanData} Row with unset columns defaulted
+ */
+const rawLoan = (columns: RawLoanFixture['record']): RawLoanData => ({
+  mlsProviderId: 'fixture',
+  mlsInstanceId: 'fixture',
+  parcelNumber: null,
+  zipCode: null,
+  unitNumber: '',
+  rawDataHash: 'hash',
+  status: 'PENDING',
+  errorMessage: null,
+  processedAt: null,
+  createdAt: new Date('2025-05-30T00:00:00.000Z'),
+  apiCriteria: null,
+  rawListingDataId: null,
+  ...columns,
+});
+
+describe('RawLoanProcessor', () => {
+  test('matches the golden loan preview', () => {
+    const results = (fixtures as RawLoanFixture[]).map(fixture =>
+      processor.process(rawLoan(fixture.record), { ...fixture.context, asOf: AS_OF })
+    );
+    // Round-trip through JSON so the comparison sees what the route returns
+    const actual = JSON.parse(JSON.stringify({ summary: summarizeResults(results), results }));
+    if (process.env.UPDATE_GOLDEN) writeFileSync(GOLDEN_FILE, `${JSON.stringify(actual, null, 2)}\n`);
+    assert.deepEqual(actual, JSON.parse(readFileSync(GOLDEN_FILE, 'utf8')));
+  });
+
+  test('derives assumable mortgages for FHA and VA loans only', () => {
+    const [fha, va, conventional] = (fixtures as RawLoanFixture[]).map(fixture =>
+      processor.process(rawLoan(fixture.record), { ...fixture.context, asOf: AS_OF }).record
+    );
+    assert.ok(fha?.loans[0].assumableMortgage);
+    assert.equal(fha.loans[0].assumableMortgage.monthlyPmi > 0, true);
+    assert.deepEqual(va?.loans.map(loan => [loan.loanType, loan.assumableMortgage !== null]), [['VA', true], ['CONVENTIONAL', false]]);
+    assert.equal(va?.loans[0].assumableMortgage?.monthlyPmi, 0);
+    assert.equal(conventional?.loans[0].assumableMortgage, null);
+  });
+});
+
+describe('mapLoanType', () => {
+  test('maps provider descriptions', () => {
+    assert.equal(mapLoanType('va'), 'VA');
+    assert.equal(mapLoanType('HUD 203(b)'), 'FHA');
+    assert.equal(mapLoanType('Non-Conforming'), 'NON_CONFORMING_JUMBO');
+    assert.equal(mapLoanType('Conv'), 'CONVENTIONAL');
+    assert.equal(mapLoanType('Balloon'), null);
+  });
+});
@@ -0,0 +1,311 @@
+import { LoanType, Prisma, RawLoanData } from '@prisma/client';
+import { FieldReader } from './field-reader';
+import { addMonths, monthlyPayment, monthsBetween, remainingBalance } from '@/lib/amortization';
+import { isOwnKey } from '@/lib/filters';
+import {
+  DerivedAssumableMortgage,
+  NormalizedLoan,
+  NormalizedLoanBundle,
+  ProcessingIssue,
+  ProcessingResult,
+} from '@/types/processor';
+
+/**
+ * Listing data used to derive AssumableMortgage fields
+ */
+export interface LoanProcessingContext {
+  listingPrice?: number | null;
+  monthlyHoa?: number | null;
+  monthlyPropertyTax?: number | null;
+  monthlyInsurance?: number | null;
+  /** Date to amortize to; defaults to now. Fixed in tests so balances are stable. */
+  asOf?: Date;
+}
+
+/**
+ * Approximate annual average 30-year fixed rates (Freddie Mac PMMS), used to
+ * impute a rate when the loan record does not carry one.
+ */
+const HISTORICAL_AVERAGE_RATES: Record<number, number> = {
+  2000: 8.05, 2001: 6.97, 2002: 6.54, 2003: 5.83, 2004: 5.84, 2005: 5.87,
+  2006: 6.41, 2007: 6.34, 2008: 6.03, 2009: 5.04, 2010: 4.69, 2011: 4.45,
+  2012: 3.66, 2013: 3.98, 2014: 4.17, 2015: 3.85, 2016: 3.65, 2017: 3.99,
+  2018: 4.54, 2019: 3.94, 2020: 3.11, 2021: 2.96, 2022: 5.34, 2023: 6.81,
+  2024: 6.72, 2025: 6.6,
+};
+
+/** Government-backed loans price slightly below the conventional average */
+const GOVERNMENT_RATE_DISCOUNT = 0.25;
+
+const DEFAULT_TERM_YEARS = 30;
+
+// Annual cost rates used when the listing does not provide the monthly amount
+const ESTIMATED_PROPERTY_TAX_RATE = 0.011;
+const ESTIMATED_INSURANCE_RATE = 0.0035;
+const FHA_ANNUAL_MIP_RATE = 0.0055;
+
+const ASSUMABLE_LOAN_TYPES: LoanType[] = [LoanType.FHA, LoanType.VA];
+
+const LOAN_TYPE_KEYWORDS: Array<[RegExp, LoanType]> = [
+  [/FHA|HUD/, LoanType.FHA],
+  [/\bVA\b|VETERAN/, LoanType.VA],
+  [/JUMBO|NON.?CONFORMING/, LoanType.NON_CONFORMING_JUMBO],
+  [/CONFORMING/, LoanType.CONFORMING],
+  [/CONV/, LoanType.CONVENTIONAL],
+  [/PRIVATE|SELLER|HARD MONEY/, LoanType.PRIVATE],
+];
+
+const LOAN_LIST_KEYS = ['loans', 'Loans', 'results', 'data', 'records', 'mortgages'];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Map free-text loan type descriptions to a LoanType
+ * @param {string} raw - Loan type from the provider (e.g. "Conv", "FHA Insured", "VA Guaranteed")
+ * @returns {LoanType | null} Mapped type, or null when nothing matched
+ */
+export function mapLoanType(raw: string): LoanType | null {
+  const text = raw.trim().toUpperCase();
+  if (isOwnKey(text, LoanType)) return text;
+  return LOAN_TYPE_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Estimate the note rate for a loan from its recording year
+ * @param {Date} recordingDate - Loan recording date
+ * @param {LoanType} loanType - Loan type, FHA/VA get a small discount
+ * @returns {number | null} Estimated annual rate in percent, or null outside the table
+ */
+export function estimateInterestRate(recordingDate: Date, loanType: LoanType): number | null {
+  const average = HISTORICAL_AVERAGE_RATES[recordingDate.getUTCFullYear()];
+  if (average === undefined) return null;
+  return ASSUMABLE_LOAN_TYPES.includes(loanType) ? roundCents(average - GOVERNMENT_RATE_DISCOUNT) : average;
+}
+
+/**
+ * Derive the AssumableMortgage fields for an assumable loan against a listing price.
+ *
+ * The buyer assumes the amortized balance and pays the rest of the price as the
+ * down payment. Taxes and insurance are estimated from the price when the
+ * listing does not provide them; FHA loans carry annual MIP on the balance.
+ *
+ * @param {Object} loan - Loan terms
+ * @param {number} loan.balance - Current balance
+ * @param {number} loan.interestRate - Annual rate in percent
+ * @param {number} loan.monthlyPayment - Scheduled P&I payment
+ * @param {number} loan.remainingTerm - Remaining payments in months
+ * @param {LoanType} loan.loanType - Loan type
+ * @param {LoanProcessingContext & { listingPrice: number }} context - Listing costs
+ * @returns {DerivedAssumableMortgage} Derived mortgage fields, rounded to cents
+ */
+export function deriveAssumableMortgage(
+  loan: { balance: number; interestRate: number; monthlyPayment: number; remainingTerm: number; loanType: LoanType },
+  context: LoanProcessingContext & { listingPrice: number }
+): DerivedAssumableMortgage {
+  const estimatedFields: string[] = [];
+  const { listingPrice } = context;
+
+  let monthlyPropertyTax = context.monthlyPropertyTax;
+  if (monthlyPropertyTax == null) {
+    monthlyPropertyTax = listingPrice * ESTIMATED_PROPERTY_TAX_RATE / 12;
+    estimatedFields.push('monthlyPropertyTax');
+  }
+
+  let monthlyInsurance = context.monthlyInsurance;
+  if (monthlyInsurance == null) {
+    monthlyInsurance = listingPrice * ESTIMATED_INSURANCE_RATE / 12;
+    estimatedFields.push('monthlyInsurance');
+  }
+
+  const monthlyHoa = context.monthlyHoa ?? 0;
+  const monthlyPmi = loan.loanType === LoanType.FHA ? loan.balance * FHA_ANNUAL_MIP_RATE / 12 : 0;
+  const downPayment = Math.max(0, listingPrice - loan.balance);
+
+  return {
+    currentBalance: roundCents(loan.balance),
+    interestRate: loan.interestRate,
+    monthlyPayment: roundCents(loan.monthlyPayment),
+    remainingTerm: loan.remainingTerm,
+    downPayment: roundCents(downPayment),
+    percentDown: listingPrice > 0 ? roundCents((downPayment / listingPrice) * 100) : 0,
+    monthlyPropertyTax: roundCents(monthlyPropertyTax),
+    monthlyInsurance: roundCents(monthlyInsurance),
+    monthlyHoa: roundCents(monthlyHoa),
+    monthlyPmi: roundCents(monthlyPmi),
+    monthlyAllInPayment: roundCents(loan.monthlyPayment + monthlyPropertyTax + monthlyInsurance + monthlyHoa + monthlyPmi),
+    estimatedFields,
+  };
+}
+
+/**
+ * RawLoanProcessor - parses RawLoanData payloads into Loan objects and derives
+ * AssumableMortgage fields for FHA/VA loans.
+ *
+ * Like the listing processor it is pure and never touches the database; the
+ * caller supplies listing price and costs through the context.
+ */
+export class RawLoanProcessor {
+  /**
+   * Normalize every loan in one raw loan payload
+   * @param {RawLoanData} record - Raw loan row
+   * @param {LoanProcessingContext} [context] - Listing price/costs and as-of date
+   * @returns {ProcessingResult<NormalizedLoanBundle>} Normalized loans (null on error) and issues
+   */
+  process(record: RawLoanData, context: LoanProcessingContext = {}): ProcessingResult<NormalizedLoanBundle> {
+    const issues: ProcessingIssue[] = [];
+    const items = this.extractLoanItems(record.rawData);
+
+    if (items.length === 0) {
+      issues.push({ field: 'rawData', severity: 'error', message: 'No loan entries found in payload', rawValue: record.rawData });
+    }
+
+    const loans: NormalizedLoan[] = [];
+    items.forEach((item, index) => {
+      const reader = new FieldReader(item);
+      const loan = this.processLoan(reader, index, context);
+      // Prefix issues so they point at the loan they came from
+      issues.push(...reader.issues.map(issue => ({ ...issue, field: `loans[${index}].${issue.field}` })));
+      if (loan) loans.push(loan);
+    });
+
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+
+    return {
+      sourceId: record.id,
+      record: hasErrors ? null : {
+        rawLoanDataId: record.id,
+        parcelNumber: record.parcelNumber,
+        zipCode: record.zipCode,
+        unitNumber: record.unitNumber,
+        listingPrice: context.listingPrice ?? null,
+        loans: loans.sort((a, b) => a.loanPosition - b.loanPosition),
+      },
+      issues,
+    };
+  }
+
+  /**
+   * Find the list of loan objects in the payload. Providers return either a bare
+   * array, an object wrapping the array, or a single loan object.
+   */
+  private extractLoanItems(rawData: Prisma.JsonValue): Prisma.JsonValue[] {
+    if (Array.isArray(rawData)) return rawData;
+    if (rawData && typeof rawData === 'object') {
+      const wrapperKey = LOAN_LIST_KEYS.find(key => Array.isArray((rawData as Prisma.JsonObject)[key]));
+      if (wrapperKey) return (rawData as Prisma.JsonObject)[wrapperKey] as Prisma.JsonArray;
+      return [rawData];
+    }
+    return [];
+  }
+
+  private processLoan(reader: FieldReader, index: number, context: LoanProcessingContext): NormalizedLoan | null {
+    const asOf = context.asOf ?? new Date();
+
+    const recordingDate = reader.date('recordingDate', ['RecordingDate', 'recordingDate', 'RecordedDate', 'OriginationDate'], { required: true });
+    const initialAmount = reader.number('initialAmount', ['Amount', 'LoanAmount', 'initialAmount', 'OriginalAmount'], { required: true, min: 1 });
+    const lenderName = reader.string('lenderName', ['LenderName', 'Lender', 'lenderName']) ?? 'Unknown';
+    const loanPosition = reader.number('loanPosition', ['Position', 'LoanPosition', 'loanPosition', 'LienPosition'], { integer: true, min: 1, max: 10 }) ?? index + 1;
+
+    const rawType = reader.string('loanType', ['LoanType', 'loanType', 'Type', 'FinancingType']);
+    let loanType = rawType ? mapLoanType(rawType) : null;
+    if (!loanType) {
+      reader.warn('loanType', 'Unrecognized loan type, defaulted to OTHER', rawType);
+      loanType = LoanType.OTHER;
+    }
+
+    if (!recordingDate || initialAmount === null) return null;
+
+    const termYears = this.readTermYears(reader);
+    const totalPayments = termYears * 12;
+
+    let interestRate = this.readInterestRate(reader);
+    let interestRateEstimated = false;
+    if (interestRate === null) {
+      interestRate = estimateInterestRate(recordingDate, loanType);
+      interestRateEstimated = interestRate !== null;
+      if (interestRate !== null) {
+        reader.warn('interestRate', `Missing rate, estimated ${interestRate}% from recording year`);
+      } else {
+        reader.warn('interestRate', 'Missing rate and no historical average for the recording year');
+      }
+    }
+
+    // First payment is due the month after recording
+    const currentPeriod = Math.min(totalPayments, monthsBetween(recordingDate, asOf));
+    const payment = interestRate !== null ? monthlyPayment(initialAmount, interestRate, totalPayments) : null;
+    const balance = interestRate !== null ? remainingBalance(initialAmount, interestRate, totalPayments, currentPeriod) : null;
+    const maturityDate = reader.date('maturityDate', ['MaturityDate', 'maturityDate', 'DueDate']) ?? addMonths(recordingDate, totalPayments);
+
+    const isAssumable = ASSUMABLE_LOAN_TYPES.includes(loanType);
+    let assumableMortgage: DerivedAssumableMortgage | null = null;
+
+    if (isAssumable && interestRate !== null && payment !== null && balance !== null) {
+      if (context.listingPrice) {
+        assumableMortgage = deriveAssumableMortgage(
+          { balance, interestRate, monthlyPayment: payment, remainingTerm: totalPayments - currentPeriod, loanType },
+          { ...context, listingPrice: context.listingPrice }
+        );
+      } else {
+        reader.warn('assumableMortgage', 'No listing price available, skipped AssumableMortgage derivation');
+      }
+    }
+
+    return {
+      loanPosition,
+      loanType,
+      purpose: reader.string('purpose', ['Purpose', 'LoanPurpose', 'purpose']),
+      recordingDate: recordingDate.toISOString(),
+      concurrent: reader.boolean('concurrent', ['Concurrent', 'concurrent', 'IsConcurrent']) ?? false,
+      initialAmount: roundCents(initialAmount),
+      remainingBalance: balance !== null ? roundCents(balance) : null,
+      termYears,
+      totalPayments,
+      currentPeriod,
+      maturityDate: maturityDate.toISOString(),
+      lenderName,
+      rateType: reader.string('rateType', ['RateType', 'rateType', 'InterestRateType']),
+      interestRate,
+      interestRateEstimated,
+      monthlyPayment: payment !== null ? roundCents(payment) : null,
+      isAssumable,
+      assumableMortgage,
+    };
+  }
+
+  /**
+   * Read the note rate in percent. Fractions such as 0.0325 are converted to 3.25.
+   */
+  private readInterestRate(reader: FieldReader): number | null {
+    const rate = reader.number('interestRate', ['InterestRate', 'Rate', 'interestRate', 'NoteRate'], { min: 0 });
+    if (rate === null || rate === 0) return null;
+
+    if (rate < 0.3) {
+      reader.warn('interestRate', 'Rate looked like a fraction, converted to percent', rate);
+      return roundCents(rate * 100);
+    }
+    if (rate > 20) {
+      reader.warn('interestRate', 'Rate above 20% ignored', rate);
+      return null;
+    }
+    return rate;
+  }
+
+  /**
+   * Read the loan term in years. Values above 50 are treated as months.
+   */
+  private readTermYears(reader: FieldReader): number {
+    const months = reader.number('termYears', ['TermMonths', 'termMonths'], { integer: true, min: 1 });
+    if (months !== null) return Math.max(1, Math.round(months / 12));
+
+    const term = reader.number('termYears', ['Term', 'TermYears', 'termYears', 'LoanTerm'], { integer: true, min: 1 });
+    if (term === null) {
+      reader.warn('termYears', `Missing term, assumed ${DEFAULT_TERM_YEARS} years`);
+      return DEFAULT_TERM_YEARS;
+    }
+    if (term > 50) {
+      reader.warn('termYears', 'Term looked like months, converted to years', term);
+      return Math.max(1, Math.round(term / 12));
+    }
+    return term;
+  }
+}
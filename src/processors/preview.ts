@@ -0,0 +1,68 @@
+import { Prisma } from '@prisma/client';
+import { buildDateRange, FilterValidationError, parseDate } from '@/lib/filters';
+import { ProcessingResult, ProcessingSummary } from '@/types/processor';
+
+export const DEFAULT_PREVIEW_LIMIT = 500;
+export const MAX_PREVIEW_LIMIT = 5000;
+
+export interface PreviewParams {
+  createdAt: Prisma.DateTimeFilter;
+  limit: number;
+}
+
+/**
+ * Parse the `from`/`to` createdAt window and `limit` shared by the processor preview endpoints
+ * @param {URLSearchParams} params - Query parameters
+ * @returns {PreviewParams} Date filter for `createdAt` and the row limit
+ * @throws {FilterValidationError} If the dates are missing/malformed or the limit is out of range
+ */
+export function parsePreviewParams(params: URLSearchParams): PreviewParams {
+  const from = params.get('from');
+  const to = params.get('to');
+  if (!from || !to) {
+    throw new FilterValidationError('from', 'from and to (YYYY-MM-DD) are required');
+  }
+
+  const fromDate = parseDate('from', from);
+  const toDate = parseDate('to', to);
+  if (fromDate > toDate) {
+    throw new FilterValidationError('from', 'from must be on or before to');
+  }
+
+  const rawLimit = params.get('limit');
+  const limit = rawLimit === null ? DEFAULT_PREVIEW_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PREVIEW_LIMIT) {
+    throw new FilterValidationError('limit', `limit must be an integer between 1 and ${MAX_PREVIEW_LIMIT}`);
+  }
+
+  return { createdAt: buildDateRange(fromDate, toDate)!, limit };
+}
+
+/**
+ * Roll per-record processing results up into batch-level counts
+ * @param {ProcessingResult<T>[]} results - Results from a processor batch
+ * @returns {ProcessingSummary} Success/failure totals and issue counts by field
+ */
+export function summarizeResults<T>(results: ProcessingResult<T>[]): ProcessingSummary {
+  const summary: ProcessingSummary = {
+    total: results.length,
+    succeeded: 0,
+    failed: 0,
+    warningCount: 0,
+    errorCount: 0,
+    issuesByField: {}
+  };
+
+  results.forEach(result => {
+    if (result.record) summary.succeeded++;
+    else summary.failed++;
+
+    result.issues.forEach(issue => {
+      if (issue.severity === 'error') summary.errorCount++;
+      else summary.warningCount++;
+      summary.issuesByField[issue.field] = (summary.issuesByField[issue.field] ?? 0) + 1;
+    });
+  });
+
+  return summary;
+}
@@ -0,0 +1,15 @@
+import { AreaAnalyticsRequest, AreaAnalyticsResponse } from '@/types/area';
+
+export class AreaService {
+  async fetchAreaAnalytics(request: AreaAnalyticsRequest): Promise<AreaAnalyticsResponse> {
+    const response = await fetch('/api/area-analytics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch area analytics');
+    }
+    return response.json();
+  }
+}
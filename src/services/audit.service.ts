@@ -0,0 +1,32 @@
+import { AuditFeedQuery, AuditFeedResponse, AuditVolumeResponse } from '@/types/audits';
+
+export class AuditService {
+  async fetchFeed(query: Partial<AuditFeedQuery> = {}): Promise<AuditFeedResponse> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        if (value.length > 0) params.set(key, value.join(','));
+      } else if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    });
+
+    const response = await fetch(`/api/audits?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch listing audits');
+    }
+    return response.json();
+  }
+
+  async fetchVolume(window: { from?: string; to?: string } = {}): Promise<AuditVolumeResponse> {
+    const params = new URLSearchParams();
+    if (window.from) params.set('from', window.from);
+    if (window.to) params.set('to', window.to);
+
+    const response = await fetch(`/api/audits/volume?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch listing audit volume');
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,80 @@
+import { CorrectionStatus } from '@prisma/client';
+import {
+  CorrectableEntityType,
+  CorrectionColumnsResponse,
+  CorrectionInput,
+  CorrectionListResponse,
+  CorrectionPreviewResponse,
+  CorrectionQuery,
+  CorrectionResponse,
+} from '@/types/corrections';
+
+/**
+ * Read the validation message of a rejected write so the console can show it
+ * @param {Response} response - Failed response
+ * @param {string} fallback - Message when the body has none
+ * @returns {Promise<Error>} Error to throw
+ */
+const writeError = async (response: Response, fallback: string) => {
+  const body = response.status === 400 || response.status === 404 ? await response.json().catch(() => null) : null;
+  return new Error(body?.details ?? fallback);
+};
+
+export class CorrectionService {
+  async fetchCorrections(query: Partial<CorrectionQuery> = {}): Promise<CorrectionListResponse> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/corrections?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch data corrections');
+    }
+    return response.json();
+  }
+
+  async fetchColumns(entityType: CorrectableEntityType): Promise<CorrectionColumnsResponse> {
+    const response = await fetch(`/api/corrections/columns?entityType=${entityType}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch correctable columns');
+    }
+    return response.json();
+  }
+
+  async previewCorrection(input: CorrectionInput): Promise<CorrectionPreviewResponse> {
+    const response = await fetch('/api/corrections/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw await writeError(response, 'Failed to preview data correction');
+    }
+    return response.json();
+  }
+
+  async createCorrection(input: CorrectionInput): Promise<CorrectionResponse> {
+    const response = await fetch('/api/corrections', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw await writeError(response, 'Failed to create data correction');
+    }
+    return response.json();
+  }
+
+  async setStatus(id: string, status: CorrectionStatus, updatedBy: string): Promise<CorrectionResponse> {
+    const response = await fetch(`/api/corrections/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status, updatedBy }),
+    });
+    if (!response.ok) {
+      throw await writeError(response, 'Failed to update data correction');
+    }
+    return response.json();
+  }
+}
@@ -1,11 +1,43 @@
-import { DashboardData, DashboardResponse } from '@/types/dashboard';
+import { DashboardFilters, DashboardResponse, SnapshotComparisonResponse } from '@/types/dashboard';
+import { BucketSpecs } from '@/types/buckets';
+import { filtersToSearchParams } from '@/lib/filters';
+import { bucketSpecsToSearchParams } from '@/lib/bucket-specs';
+
+const dashboardParams = (filters: DashboardFilters, buckets: BucketSpecs) => {
+  const params = filtersToSearchParams(filters);
+  bucketSpecsToSearchParams(buckets).forEach((value, key) => params.set(key, value));
+  return params;
+};
 
 export class DashboardService {
-  async fetchDashboardData(): Promise<DashboardResponse> {
-    const response = await fetch('/api/dashboard');
+  async fetchDashboardData(
+    filters: DashboardFilters = {},
+    { refresh = false, buckets = {}, corrected = false }: { refresh?: boolean; buckets?: BucketSpecs; corrected?: boolean } = {}
+  ): Promise<DashboardResponse> {
+    const params = dashboardParams(filters, buckets);
+    if (refresh) params.set('refresh', 'true');
+    if (corrected) params.set('corrected', 'true');
+    const query = params.toString();
+    const response = await fetch(query ? `/api/dashboard?${query}` : '/api/dashboard');
     if (!response.ok) {
       throw new Error('Failed to fetch dashboard data');
     }
     return response.json();
   }
-} 
\ No newline at end of file
+
+  async fetchSnapshotComparison(
+    filters: DashboardFilters = {},
+    buckets: BucketSpecs = {},
+    { corrected = false, against = 'previous' }: { corrected?: boolean; against?: 'previous' | 'raw' } = {}
+  ): Promise<SnapshotComparisonResponse> {
+    const params = dashboardParams(filters, buckets);
+    if (corrected) params.set('corrected', 'true');
+    if (against === 'raw') params.set('against', 'raw');
+    const query = params.toString();
+    const response = await fetch(query ? `/api/dashboard/compare?${query}` : '/api/dashboard/compare');
+    if (!response.ok) {
+      throw new Error('Failed to fetch snapshot comparison');
+    }
+    return response.json();
+  }
+}
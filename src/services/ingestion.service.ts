@@ -0,0 +1,16 @@
+import { IngestionFilters, IngestionHealthResponse } from '@/types/ingestion';
+
+export class IngestionService {
+  async fetchIngestionHealth(filters: Partial<IngestionFilters> = {}): Promise<IngestionHealthResponse> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/ingestion?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch ingestion health');
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,44 @@
+import { BuyerInputs, ListingAffordabilityResponse } from '@/types/affordability';
+import { DashboardFilters } from '@/types/dashboard';
+import { ListingDetailResponse } from '@/types/listing-detail';
+import { ListingPageResponse, ListingQuery } from '@/types/listings';
+import { filtersToSearchParams } from '@/lib/filters';
+
+export class ListingService {
+  async searchListings(filters: DashboardFilters, query: Partial<ListingQuery> = {}): Promise<ListingPageResponse> {
+    const params = filtersToSearchParams(filters);
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/listings?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch listings');
+    }
+    return response.json();
+  }
+
+  async fetchAffordability(listingId: string, inputs: Partial<BuyerInputs> = {}): Promise<ListingAffordabilityResponse> {
+    const params = new URLSearchParams();
+    Object.entries(inputs).forEach(([key, value]) => {
+      if (value !== null && value !== undefined) params.set(key, String(value));
+    });
+    const query = params.toString();
+    const path = `/api/listings/${encodeURIComponent(listingId)}/affordability`;
+
+    const response = await fetch(query ? `${path}?${query}` : path);
+    if (!response.ok) {
+      const body = response.status === 404 ? await response.json().catch(() => null) : null;
+      throw new Error(body?.error ?? 'Failed to fetch listing affordability');
+    }
+    return response.json();
+  }
+
+  async fetchListingDetail(listingId: string): Promise<ListingDetailResponse> {
+    const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}`);
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Listing not found' : 'Failed to fetch listing detail');
+    }
+    return response.json();
+  }
+}
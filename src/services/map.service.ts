@@ -0,0 +1,20 @@
+import { DashboardFilters } from '@/types/dashboard';
+import { MapBounds, MapResponse } from '@/types/map';
+import { filtersToSearchParams } from '@/lib/filters';
+
+export class MapService {
+  async fetchMapData(bounds: MapBounds, zoom: number, filters: DashboardFilters = {}): Promise<MapResponse> {
+    const params = filtersToSearchParams(filters);
+    params.set('west', String(bounds.west));
+    params.set('south', String(bounds.south));
+    params.set('east', String(bounds.east));
+    params.set('north', String(bounds.north));
+    params.set('zoom', String(zoom));
+
+    const response = await fetch(`/api/map?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch map data');
+    }
+    return response.json();
+  }
+}
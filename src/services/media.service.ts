@@ -0,0 +1,27 @@
+import { filtersToSearchParams } from '@/lib/filters';
+import { DashboardFilters } from '@/types/dashboard';
+import { MediaAnalyticsResponse, PhotoRepullQuery, PhotoRepullResponse } from '@/types/media';
+
+export class MediaService {
+  async fetchMediaAnalytics(filters: DashboardFilters = {}): Promise<MediaAnalyticsResponse> {
+    const query = filtersToSearchParams(filters).toString();
+    const response = await fetch(`/api/media-analytics${query ? `?${query}` : ''}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch media analytics');
+    }
+    return response.json();
+  }
+
+  async fetchRepulls(filters: DashboardFilters, query: Partial<PhotoRepullQuery> = {}): Promise<PhotoRepullResponse> {
+    const params = filtersToSearchParams(filters);
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/media-analytics/repull?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch listings needing a photo re-pull');
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,27 @@
+import { filtersToSearchParams } from '@/lib/filters';
+import { DashboardFilters } from '@/types/dashboard';
+import { MlsScorecardResponse, MlsVisibilityChange, MlsVisibilityResponse } from '@/types/mls';
+
+export class MlsService {
+  async fetchScorecards(filters: DashboardFilters = {}): Promise<MlsScorecardResponse> {
+    const query = filtersToSearchParams(filters).toString();
+    const response = await fetch(`/api/mls-instances${query ? `?${query}` : ''}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch MLS scorecards');
+    }
+    return response.json();
+  }
+
+  async setVisibility(mlsInstanceId: string, change: MlsVisibilityChange): Promise<MlsVisibilityResponse> {
+    const response = await fetch(`/api/mls-instances/${encodeURIComponent(mlsInstanceId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(change),
+    });
+    if (!response.ok) {
+      const body = response.status === 400 || response.status === 404 ? await response.json().catch(() => null) : null;
+      throw new Error(body?.details ?? 'Failed to update MLS visibility');
+    }
+    return response.json();
+  }
+}
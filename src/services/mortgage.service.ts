@@ -0,0 +1,22 @@
+import { DashboardFilters } from '@/types/dashboard';
+import { BucketSpecs } from '@/types/buckets';
+import { MortgageAnalyticsResponse } from '@/types/mortgage';
+import { filtersToSearchParams } from '@/lib/filters';
+import { bucketSpecsToSearchParams } from '@/lib/bucket-specs';
+
+export class MortgageService {
+  async fetchMortgageAnalytics(
+    filters: DashboardFilters,
+    { benchmarkRate, buckets = {} }: { benchmarkRate?: number; buckets?: BucketSpecs } = {}
+  ): Promise<MortgageAnalyticsResponse> {
+    const params = filtersToSearchParams(filters);
+    bucketSpecsToSearchParams(buckets).forEach((value, key) => params.set(key, value));
+    if (benchmarkRate !== undefined) params.set('benchmarkRate', String(benchmarkRate));
+
+    const response = await fetch(`/api/mortgage-analytics?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch mortgage analytics');
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,22 @@
+import { DashboardFilters } from '@/types/dashboard';
+import { ListingTimelineResponse, PriceHistoryResponse } from '@/types/price-history';
+import { filtersToSearchParams } from '@/lib/filters';
+
+export class PriceHistoryService {
+  async fetchPriceHistory(filters: DashboardFilters = {}): Promise<PriceHistoryResponse> {
+    const query = filtersToSearchParams(filters).toString();
+    const response = await fetch(query ? `/api/price-history?${query}` : '/api/price-history');
+    if (!response.ok) {
+      throw new Error('Failed to fetch price history analytics');
+    }
+    return response.json();
+  }
+
+  async fetchListingTimeline(listingId: string): Promise<ListingTimelineResponse> {
+    const response = await fetch(`/api/listings/${encodeURIComponent(listingId)}/history`);
+    if (!response.ok) {
+      throw new Error(response.status === 404 ? 'Listing not found' : 'Failed to fetch listing timeline');
+    }
+    return response.json();
+  }
+}
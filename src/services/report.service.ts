@@ -0,0 +1,71 @@
+import {
+  ReportAnalyticsResponse,
+  ReportFollowUp,
+  ReportFollowUpResponse,
+  ReportPageResponse,
+  ReportQuery,
+  ReportStatus,
+  ReportStatusChangeResponse,
+} from '@/types/reports';
+
+/**
+ * Read the validation message of a rejected write so the moderation screen can show it
+ * @param {Response} response - Failed response
+ * @param {string} fallback - Message when the body has none
+ * @returns {Promise<Error>} Error to throw
+ */
+const writeError = async (response: Response, fallback: string) => {
+  const body = response.status === 400 || response.status === 404 ? await response.json().catch(() => null) : null;
+  return new Error(body?.details ?? fallback);
+};
+
+export class ReportService {
+  async fetchReports(query: Partial<ReportQuery> = {}): Promise<ReportPageResponse> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/reports?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch listing reports');
+    }
+    return response.json();
+  }
+
+  async setStatus(ids: string[], status: ReportStatus, updatedBy: string, note?: string): Promise<ReportStatusChangeResponse> {
+    const response = await fetch('/api/reports/bulk', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, status, updatedBy, note }),
+    });
+    if (!response.ok) {
+      throw await writeError(response, 'Failed to update listing reports');
+    }
+    return response.json();
+  }
+
+  async followUp(id: string, followUp: ReportFollowUp): Promise<ReportFollowUpResponse> {
+    const response = await fetch(`/api/reports/${encodeURIComponent(id)}/follow-up`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(followUp),
+    });
+    if (!response.ok) {
+      throw await writeError(response, 'Failed to apply report follow-up');
+    }
+    return response.json();
+  }
+
+  async fetchAnalytics(window: { from?: string; to?: string } = {}): Promise<ReportAnalyticsResponse> {
+    const params = new URLSearchParams();
+    if (window.from) params.set('from', window.from);
+    if (window.to) params.set('to', window.to);
+
+    const response = await fetch(`/api/reports/analytics?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch listing report analytics');
+    }
+    return response.json();
+  }
+}
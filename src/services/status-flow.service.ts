@@ -0,0 +1,17 @@
+import { DashboardFilters } from '@/types/dashboard';
+import { StatusFlowResponse } from '@/types/status-flow';
+import { DateWindow, filtersToSearchParams } from '@/lib/filters';
+
+export class StatusFlowService {
+  async fetchStatusFlow(filters: DashboardFilters, window: DateWindow): Promise<StatusFlowResponse> {
+    const params = filtersToSearchParams(filters);
+    params.set('from', window.from);
+    params.set('to', window.to);
+
+    const response = await fetch(`/api/status-flow?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch status flow');
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,89 @@
+import type { LoanType } from '@prisma/client';
+
+/** Listing and assumable mortgage figures the calculator starts from */
+export interface AffordabilitySeed {
+  listingId: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  price: number;
+  loanType: LoanType;
+  currentBalance: number;
+  /** Annual rate in percent */
+  interestRate: number;
+  /** Scheduled P&I payment of the assumed loan */
+  monthlyPayment: number;
+  /** Remaining payments in months */
+  remainingTerm: number;
+  monthlyPropertyTax: number;
+  monthlyInsurance: number;
+  monthlyHoa: number;
+  monthlyPmi: number;
+  /** Highest DTI the servicer accepts for the assumption, in percent */
+  qualifyingDti: number | null;
+}
+
+export interface BuyerInputs {
+  /** Cash the buyer brings to closing */
+  cash: number;
+  /** Gross annual income; DTI is not computed when null */
+  annualIncome: number | null;
+  /** Other monthly debt payments counted in DTI */
+  monthlyDebts: number;
+  /** Annual rate of the second lien that covers the equity gap the cash does not, in percent */
+  secondLienRate: number;
+  secondLienTermYears: number;
+  /** Annual rate of a new conventional loan, in percent */
+  marketRate: number;
+}
+
+export interface MonthlyPaymentBreakdown {
+  principalAndInterest: number;
+  secondLien: number;
+  propertyTax: number;
+  insurance: number;
+  hoa: number;
+  pmi: number;
+  total: number;
+}
+
+/** Buying the same home with the same cash and a new 30-year conventional loan */
+export interface ConventionalComparison {
+  rate: number;
+  downPayment: number;
+  loanAmount: number;
+  monthly: MonthlyPaymentBreakdown;
+  /** Conventional minus assumption all-in payment; positive means the assumption is cheaper */
+  monthlySavings: number;
+  dti: number | null;
+}
+
+export interface AffordabilityResult {
+  /** Price minus the assumed balance */
+  equityGap: number;
+  /** Cash that goes toward the equity gap */
+  cashApplied: number;
+  /** Cash left over after covering the equity gap */
+  cashRemaining: number;
+  secondLienAmount: number;
+  /** Balance-weighted rate across the assumed loan and the second lien, in percent */
+  blendedRate: number;
+  monthly: MonthlyPaymentBreakdown;
+  /** All-in housing payment plus other debts over gross monthly income, in percent */
+  dti: number | null;
+  qualifyingDti: number | null;
+  /** Null when income or the servicer's limit is unknown */
+  meetsQualifyingDti: boolean | null;
+  conventional: ConventionalComparison;
+}
+
+export interface ListingAffordability {
+  seed: AffordabilitySeed;
+  inputs: BuyerInputs;
+  result: AffordabilityResult;
+}
+
+export interface ListingAffordabilityResponse {
+  data: ListingAffordability;
+  error?: string;
+}
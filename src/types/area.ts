@@ -0,0 +1,55 @@
+import { ChartData } from './dashboard';
+
+/** A [longitude, latitude] pair, matching GeoJSON coordinate order */
+export type LngLat = [number, number];
+
+export interface PolygonArea {
+  type: 'polygon';
+  /** Outer ring; the closing vertex is optional */
+  coordinates: LngLat[];
+}
+
+export interface RadiusArea {
+  type: 'radius';
+  center: LngLat;
+  radiusMeters: number;
+}
+
+export type SearchArea = PolygonArea | RadiusArea;
+
+export interface AreaAnalyticsRequest {
+  area: SearchArea;
+  /** Listing statuses to include, defaults to ACTIVE */
+  status?: string[];
+}
+
+export interface AreaAnalytics {
+  totalListings: number;
+  averagePrice: number;
+  medianPrice: number;
+  assumableShare: number;
+  priceDistribution: ChartData;
+  assumableListings: ChartData;
+  daysOnMarket: ChartData;
+  generatedAt: string;
+}
+
+export interface AreaAnalyticsResponse {
+  data: AreaAnalytics;
+  error?: string;
+}
+
+/** A drawn area saved in the browser so it can be re-run later */
+export interface SavedArea {
+  id: string;
+  name: string;
+  area: SearchArea;
+  createdAt: string;
+  /** One entry per run, oldest first, for tracking the area over time */
+  history: Array<{
+    runAt: string;
+    totalListings: number;
+    averagePrice: number;
+    medianPrice: number;
+  }>;
+}
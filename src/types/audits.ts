@@ -0,0 +1,76 @@
+import type { AuditSource, Prisma } from '@prisma/client';
+
+export interface AuditFeedQuery {
+  source?: AuditSource[];
+  action?: string[];
+  listingId?: string;
+  /** Substring of `sourceName`, case-insensitive */
+  sourceName?: string;
+  /** Only entries whose `changes` touch this top-level field */
+  field?: string;
+  from?: string;
+  to?: string;
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * One field of an audit's `changes` JSON.
+ * - `changed`: both values were recorded
+ * - `set`: only the new value was recorded
+ * - `touched`: only the field name was recorded
+ */
+export interface AuditFieldChange {
+  field: string;
+  kind: 'changed' | 'set' | 'touched';
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+}
+
+export interface AuditFeedEntry {
+  id: string;
+  listingId: string;
+  listing: { address: string; city: string | null; state: string | null };
+  action: string;
+  source: AuditSource;
+  sourceId: string;
+  sourceName: string;
+  createdAt: string;
+  changes: AuditFieldChange[];
+  /** `changes` as stored, for shapes the field list cannot represent */
+  rawChanges: Prisma.JsonValue;
+  metadata: Prisma.JsonValue;
+}
+
+export interface AuditFeedPage {
+  entries: AuditFeedEntry[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface AuditVolume {
+  from: string;
+  to: string;
+  /** Hourly for windows of up to two days, daily otherwise */
+  interval: 'hour' | 'day';
+  /** Bucket labels (`YYYY-MM-DD` or `YYYY-MM-DDTHH:00`, UTC) shared by every source series */
+  labels: string[];
+  /** Audit counts per source; sources with no entries in the window are omitted */
+  series: Partial<Record<AuditSource, number[]>>;
+  totals: Partial<Record<AuditSource, number>>;
+  /** Latest entry per source regardless of the window, to spot sources that stopped */
+  lastSeen: Partial<Record<AuditSource, string>>;
+  /** Most frequent actions in the window */
+  actions: Array<{ action: string; count: number }>;
+}
+
+export interface AuditFeedResponse {
+  data: AuditFeedPage;
+  error?: string;
+}
+
+export interface AuditVolumeResponse {
+  data: AuditVolume;
+  error?: string;
+}
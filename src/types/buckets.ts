@@ -0,0 +1,41 @@
+/** Distribution charts whose buckets can be configured per request */
+export type BucketChart = 'price' | 'balance' | 'interestRate' | 'mortgageAge' | 'daysOnMarket' | 'downPayment';
+
+/**
+ * Automatic edge selection: `quantile` splits the values into equally sized
+ * groups, `fd` uses the Freedman–Diaconis bin width (2 * IQR / n^(1/3)).
+ */
+export type AutoBucketMethod = 'quantile' | 'fd';
+
+/**
+ * How to bucket one chart:
+ * - `preset`: a named bucket set from lib/bucket-specs
+ * - `edges`: explicit ascending boundaries
+ * - `auto`: edges computed from the data
+ */
+export type BucketSpec =
+  | { kind: 'preset'; preset: string }
+  | { kind: 'edges'; edges: number[] }
+  | { kind: 'auto'; method: AutoBucketMethod; buckets: number };
+
+export type BucketSpecs = Partial<Record<BucketChart, BucketSpec>>;
+
+/**
+ * Resolved buckets: `boundaries.length + 1` buckets starting at zero, the last
+ * one open-ended. With `closed: 'left'` a value equal to a boundary falls in
+ * the bucket above it, with `closed: 'right'` in the bucket below.
+ */
+export interface BucketScheme {
+  boundaries: number[];
+  labels: string[];
+  closed: 'left' | 'right';
+}
+
+/** Inputs for automatic edges, gathered in SQL or JavaScript */
+export interface BucketValueStats {
+  count: number;
+  min: number;
+  max: number;
+  /** Values at the fractions requested by `autoFractions` */
+  quantiles: number[];
+}
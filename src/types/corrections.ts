@@ -0,0 +1,98 @@
+import type { AuditSource, CorrectionStatus, Prisma } from '@prisma/client';
+import type { DataCorrectionEntry } from '@/types/listing-detail';
+
+/** Entity types corrections can be created against from the console */
+export type CorrectableEntityType =
+  | 'LISTING_OVERRIDE'
+  | 'LISTING_PERMANENT'
+  | 'LOAN_OVERRIDE'
+  | 'LOAN_PERMANENT'
+  | 'PROPERTY_RADAR_OVERRIDE'
+  | 'PROPERTY_RADAR_PERMANENT'
+  | 'ASSUMABLE_MORTGAGE_OVERRIDE'
+  | 'ASSUMABLE_MORTGAGE_PERMANENT';
+
+/** Table a correctable entity type points at */
+export type CorrectionModel = 'Listing' | 'Loan' | 'PropertyRadar' | 'AssumableMortgage';
+
+export interface CorrectionColumn {
+  name: string;
+  /** Prisma scalar type (String, Int, Decimal, Json, ...) or enum name */
+  type: string;
+  isList: boolean;
+  isJson: boolean;
+  isRequired: boolean;
+  /** Allowed values when the column is an enum */
+  enumValues?: string[];
+}
+
+export interface CorrectionInput {
+  entityType: CorrectableEntityType;
+  entityId: string;
+  /** Column followed by nested JSON keys or array indexes, e.g. ["remarks", "public"] */
+  fieldPath: string[];
+  correctedValue: Prisma.JsonValue;
+  reason: string | null;
+  createdBy: string;
+}
+
+export interface CorrectionPreview {
+  entityType: CorrectableEntityType;
+  entityId: string;
+  /** Listing the correction is audited against; null when the entity has none */
+  listingId: string | null;
+  /** Raw feed row the entity was built from, stored on the correction */
+  rawDataId: string | null;
+  column: string;
+  fieldPath: string[];
+  /** Dotted form of `fieldPath`, stored as `DataCorrection.field` */
+  field: string;
+  isJsonField: boolean;
+  isArrayField: boolean;
+  /** Current value at the path; null when the path does not exist yet */
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+  /** Whole column before and after, for nested JSON and array paths */
+  columnBefore: Prisma.JsonValue;
+  columnAfter: Prisma.JsonValue;
+  /** Active corrections on the same field that creating this one deactivates */
+  supersedes: string[];
+}
+
+export interface DataCorrectionRecord extends DataCorrectionEntry {
+  column: string;
+  fieldPath: string[];
+  isArrayField: boolean;
+  isJsonField: boolean;
+  rawDataId: string | null;
+  createdByAuditSource: AuditSource;
+  updatedAt: string;
+}
+
+export interface CorrectionQuery {
+  entityType?: CorrectableEntityType;
+  entityId?: string;
+  createdBy?: string;
+  status?: CorrectionStatus;
+  limit: number;
+}
+
+export interface CorrectionListResponse {
+  data: DataCorrectionRecord[];
+  error?: string;
+}
+
+export interface CorrectionPreviewResponse {
+  data: CorrectionPreview;
+  error?: string;
+}
+
+export interface CorrectionResponse {
+  data: DataCorrectionRecord;
+  error?: string;
+}
+
+export interface CorrectionColumnsResponse {
+  data: CorrectionColumn[];
+  error?: string;
+}
@@ -1,6 +1,10 @@
+import type { ListingStatus, LoanType, PropertyType } from '@prisma/client';
+
 export interface ChartData {
   labels: string[];
   values: number[];
+  /** Bucket boundaries for histograms with configurable buckets */
+  edges?: number[];
 }
 
 export interface TimeSeriesData {
@@ -59,10 +63,49 @@ export interface RecentListing {
 export interface Metrics {
   averagePrice: number;
   averageDaysOnMarket: number;
-  averageUpdateFrequency: number; // in days
+  medianDaysOnMarket: number;
+  p90DaysOnMarket: number;
   totalNewListingsLast30Days: number;
 }
 
+/**
+ * Update cadence of a set of listings. An update is a ListingAudit entry, a
+ * ListingHistory row not linked to an audit, or the listing's `lastMlsUpdate`;
+ * updates of one listing within the same minute count once.
+ */
+export interface UpdateCadenceStats {
+  listingCount: number;
+  /** Updates in the window per listing per week it existed in the window */
+  updatesPerListingPerWeek: number;
+  /** Median days between consecutive updates of a listing within the window; null without any */
+  medianGapDays: number | null;
+  /** Share of listings neither created nor updated in the last `untouchedAfterDays` days */
+  untouchedShare: number;
+}
+
+export interface MlsUpdateCadence extends UpdateCadenceStats {
+  mlsInstanceId: string;
+  name: string;
+}
+
+export interface UpdateCadence extends UpdateCadenceStats {
+  windowDays: number;
+  untouchedAfterDays: number;
+  /** Days between consecutive updates of a listing within the window */
+  gapDistribution: ChartData;
+  /** Largest instances first */
+  byMls: MlsUpdateCadence[];
+}
+
+/**
+ * Entities whose override corrections were applied, per corrected column
+ */
+export interface CorrectionOverlaySummary {
+  listingPrices: number;
+  mortgageBalances: number;
+  mortgageRates: number;
+}
+
 export interface DashboardData {
   totalListings: number;
   metrics: Metrics;
@@ -70,7 +113,6 @@ export interface DashboardData {
   priceDistribution: ChartData;
   // New metrics
   listingTrends: {
-    daily: TimeSeriesData;
     weekly: TimeSeriesData;
     monthly: TimeSeriesData;
   };
@@ -83,11 +125,85 @@ export interface DashboardData {
   listingLifecycle: {
     statusDistribution: ChartData;
     daysOnMarketByType: ChartData;
-    updateFrequency: ChartData;
+    updateCadence: UpdateCadence;
   };
+  /** Present when the payload was computed with override corrections applied */
+  corrections?: CorrectionOverlaySummary;
+}
+
+/**
+ * Filters that scope every section of the dashboard payload.
+ * Dates are ISO `YYYY-MM-DD` strings so the object round-trips through the URL.
+ */
+export interface DashboardFilters {
+  state?: string;
+  city?: string;
+  zipCode?: string;
+  mlsInstanceId?: string;
+  propertyType?: PropertyType[];
+  isAssumable?: boolean;
+  loanType?: LoanType[];
+  status?: ListingStatus[];
+  createdFrom?: string;
+  createdTo?: string;
+  listedFrom?: string;
+  listedTo?: string;
+  /** Count listings from MLS instances hidden in MlsInstanceVisibility (excluded by default) */
+  includeHidden?: boolean;
+}
+
+/**
+ * Metadata of the precomputed snapshot a dashboard payload was served from
+ */
+export interface SnapshotInfo {
+  /** Canonical filter key the snapshot is stored under */
+  key: string;
+  generatedAt: string;
+  /** Seconds between `generatedAt` and the response */
+  ageSeconds: number;
+  /** Snapshots older than this are recomputed on the next request */
+  maxAgeSeconds: number;
+  /** Time spent computing the snapshot */
+  computeMs: number;
+  /** Generation time of the previous snapshot for the same filters, if kept */
+  previousGeneratedAt: string | null;
 }
 
 export interface DashboardResponse {
   data: DashboardData;
+  snapshot?: SnapshotInfo;
+  error?: string;
+}
+
+export interface MetricChange {
+  metric: string;
+  current: number;
+  previous: number;
+  change: number;
+  /** Relative change, null when the previous value is zero */
+  percentChange: number | null;
+}
+
+export interface ChartChange {
+  chart: string;
+  labels: string[];
+  current: number[];
+  previous: number[];
+}
+
+/**
+ * Differences between the current snapshot and an older one for the same filters
+ */
+export interface SnapshotComparison {
+  key: string;
+  currentGeneratedAt: string;
+  previousGeneratedAt: string;
+  metrics: MetricChange[];
+  /** Distribution charts whose bucket counts changed */
+  charts: ChartChange[];
+}
+
+export interface SnapshotComparisonResponse {
+  data: SnapshotComparison | null;
   error?: string;
 } 
\ No newline at end of file
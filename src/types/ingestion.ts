@@ -0,0 +1,72 @@
+import type { DataPullStatus, PhotoProcessingStatus } from '@prisma/client';
+
+/** Which part of the ingestion pipeline an error or stuck record belongs to */
+export type IngestionStage = 'listing' | 'loan' | 'photos' | 'photoData';
+
+export interface IngestionFilters {
+  /** Inclusive ISO dates (`YYYY-MM-DD`) bounding `RawListingData.createdAt` */
+  from: string;
+  to: string;
+  mlsInstanceId?: string;
+  /** Photo pulls retried at least this many times are reported as stuck */
+  minAttempts: number;
+}
+
+export interface PullStatusSeries {
+  /** Day labels (`YYYY-MM-DD`) shared by every status series */
+  labels: string[];
+  /** Daily record counts per status; statuses that never occur are omitted */
+  series: Partial<Record<DataPullStatus, number[]>>;
+  totals: Partial<Record<DataPullStatus, number>>;
+}
+
+export interface IngestionErrorGroup {
+  stage: IngestionStage;
+  /** Message with ids, numbers and URLs replaced by placeholders */
+  message: string;
+  count: number;
+  /** One original message from the group */
+  example: string;
+  lastSeen: string;
+}
+
+export interface StuckRecord {
+  id: string;
+  mlsProviderId: string;
+  mlsInstanceId: string | null;
+  parcelNumber: string | null;
+  zipCode: string | null;
+  photosPullAttempts: number;
+  photosPullError: string | null;
+  lastPhotosPullAt: string | null;
+  createdAt: string;
+}
+
+export interface LatencySeries {
+  labels: string[];
+  /** Raw-to-processed latency percentiles in minutes, per day of `processedAt` */
+  p50: number[];
+  p90: number[];
+  p99: number[];
+  processed: number[];
+}
+
+export interface IngestionHealth {
+  filters: IngestionFilters;
+  totalRecords: number;
+  unprocessedRecords: number;
+  loanPullStatus: PullStatusSeries;
+  photosPullStatus: PullStatusSeries;
+  photoDataStatus: Partial<Record<PhotoProcessingStatus, number>>;
+  topErrors: IngestionErrorGroup[];
+  stuckRecords: StuckRecord[];
+  /** Total stuck records, `stuckRecords` is capped */
+  stuckTotal: number;
+  latency: LatencySeries;
+  generatedAt: string;
+}
+
+export interface IngestionHealthResponse {
+  data: IngestionHealth;
+  error?: string;
+}
@@ -0,0 +1,166 @@
+import type {
+  AuditSource,
+  CorrectionStatus,
+  EntityType,
+  ListingReportReason,
+  ListingStatus,
+  LoanType,
+  PropertyType,
+  ReporterType,
+} from '@prisma/client';
+
+export interface ListingDetailListing {
+  id: string;
+  address: string;
+  unitNumber: string;
+  city: string | null;
+  state: string | null;
+  zipCode: string;
+  status: ListingStatus;
+  price: number;
+  propertyType: PropertyType;
+  propertySubType: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  squareFeet: number | null;
+  yearBuilt: number | null;
+  listedAt: string | null;
+  lastStatusChange: string | null;
+  lastMlsUpdate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+  mlsListingId: string;
+  mlsInstanceId: string;
+  mlsName: string | null;
+  isAssumable: boolean;
+  loanType: LoanType | null;
+  assumableInterestRate: number | null;
+  assumableMonthlyPayment: number | null;
+  desirabilityScore: number | null;
+  processingState: string | null;
+  processingVersion: string | null;
+  agentName: string | null;
+  agentPhone: string | null;
+  agentEmail: string | null;
+  agentOfficeName: string | null;
+}
+
+export interface ListingDetailPhoto {
+  id: string;
+  /** `s3Url` when the photo has been mirrored, otherwise the MLS URL */
+  url: string;
+  mirrored: boolean;
+  order: number;
+  lastChecked: string;
+}
+
+export interface PropertyRadarSummary {
+  id: string;
+  county: string;
+  parcelNumber: string;
+  avm: number | null;
+  availableEquity: number | null;
+  equityPercent: number | null;
+  cltv: number | null;
+  annualTaxes: number | null;
+  owners: string[];
+  ownerMailingAddress: string | null;
+  lastTransferDate: string | null;
+  lastTransferValue: number | null;
+  lastTransferType: string | null;
+  lastTransferDownPayment: number | null;
+  lastTransferDownPaymentPercent: number | null;
+  loanDataFetchedAt: string | null;
+  needsReview: boolean;
+  reviewReason: string | null;
+}
+
+export interface AssumableMortgageDetail {
+  id: string;
+  currentBalance: number;
+  interestRate: number;
+  monthlyPayment: number;
+  remainingTerm: number;
+  assumabilityStatus: string;
+  lastVerifiedDate: string | null;
+  downPayment: number;
+  percentDown: number;
+  monthlyAllInPayment: number;
+  desirabilityScore: number | null;
+  isDesirable: boolean;
+}
+
+export interface LoanDetail {
+  id: string;
+  loanPosition: number;
+  loanType: LoanType;
+  purpose: string | null;
+  lenderName: string;
+  recordingDate: string;
+  maturityDate: string | null;
+  initialAmount: number;
+  remainingBalance: number | null;
+  interestRate: number | null;
+  interestRateEstimated: boolean | null;
+  termYears: number | null;
+  monthlyPayment: number | null;
+  isAssumable: boolean | null;
+  deletedAt: string | null;
+  assumableMortgage: AssumableMortgageDetail | null;
+}
+
+export interface ListingAuditEntry {
+  id: string;
+  action: string;
+  source: AuditSource;
+  sourceName: string;
+  createdAt: string;
+  changedFields: string[];
+}
+
+export interface DataCorrectionEntry {
+  id: string;
+  entityType: EntityType;
+  entityId: string;
+  field: string;
+  originalValue: unknown;
+  correctedValue: unknown;
+  reason: string | null;
+  status: CorrectionStatus;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface ListingReportEntry {
+  id: string;
+  reason: ListingReportReason;
+  reporterType: ReporterType;
+  details: string | null;
+  status: string;
+  createdAt: string;
+}
+
+export type ListingDetailSection = 'photos' | 'propertyRadar' | 'loans' | 'audits' | 'corrections' | 'reports';
+
+export interface ListingDetail {
+  listing: ListingDetailListing;
+  /** Active photos in display order */
+  photos: ListingDetailPhoto[];
+  /** Null when the listing is not linked to a PropertyRadar record */
+  propertyRadar: PropertyRadarSummary | null;
+  /** Every loan on the property by position, including deleted ones */
+  loans: LoanDetail[];
+  /** Most recent audit entries, newest first */
+  audits: ListingAuditEntry[];
+  /** Active corrections on the listing or any of its related rows */
+  corrections: DataCorrectionEntry[];
+  reports: ListingReportEntry[];
+  /** Sections that failed to load and are shown empty */
+  unavailable: ListingDetailSection[];
+}
+
+export interface ListingDetailResponse {
+  data: ListingDetail;
+  error?: string;
+}
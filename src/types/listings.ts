@@ -0,0 +1,60 @@
+import type { ListingStatus, LoanType } from '@prisma/client';
+
+export type ListingSortField = 'price' | 'listedAt' | 'assumableDesirabilityScore' | 'denormalizedAssumableInterestRate';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Bucket ranges a chart drill-down adds on top of the dashboard filters.
+ * Bounds are the bucket edges and follow the chart's closed side: price
+ * buckets include their lower edge, days-on-market buckets their upper edge.
+ */
+export interface ListingRanges {
+  priceMin?: number;
+  priceMax?: number;
+  daysOnMarketMin?: number;
+  daysOnMarketMax?: number;
+}
+
+export interface ListingQuery extends ListingRanges {
+  sort: ListingSortField;
+  order: SortOrder;
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+  limit: number;
+}
+
+/** Chart segment the listing table was opened from */
+export interface ListingSegment extends ListingRanges {
+  /** Chart and bucket label, e.g. "Price: 100k-200k" */
+  label: string;
+  loanType?: LoanType;
+}
+
+export interface ListingRow {
+  id: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  zipCode: string;
+  status: ListingStatus;
+  price: number;
+  listedAt: string | null;
+  loanType: LoanType | null;
+  interestRate: number | null;
+  monthlyPayment: number | null;
+  desirabilityScore: number | null;
+}
+
+export interface ListingPage {
+  listings: ListingRow[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  /** Matching listings across all pages; only computed for the first page */
+  total: number | null;
+}
+
+export interface ListingPageResponse {
+  data: ListingPage;
+  error?: string;
+}
@@ -0,0 +1,36 @@
+import { GeoDistribution, LocationData } from './dashboard';
+
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Aggregated listings for one map tile.
+ * `loanType` is the most common assumable loan type in the tile.
+ */
+export interface MapCluster extends GeoDistribution {
+  id: string;
+  loanTypeCounts: Record<string, number>;
+}
+
+export interface MapListing extends LocationData {
+  id: string;
+}
+
+export interface MapData {
+  mode: 'clusters' | 'listings';
+  /** Tile zoom level used for aggregation (only set in cluster mode) */
+  tileZoom: number | null;
+  clusters: MapCluster[];
+  listings: MapListing[];
+  /** True when the listing result was capped and more listings exist in view */
+  truncated: boolean;
+}
+
+export interface MapResponse {
+  data: MapData;
+  error?: string;
+}
@@ -0,0 +1,95 @@
+import type { DataPullStatus, ListingStatus } from '@prisma/client';
+import { ChartData } from '@/types/dashboard';
+
+/**
+ * Photo and media coverage of listings matching the dashboard filters.
+ * Stored photos are active ListingPhoto rows; the MLS-reported count is
+ * `photosCount` of the listing's RawListingData.
+ */
+export interface MediaSummary {
+  listingCount: number;
+  /** Listings without a stored photo, and their share (0-1) */
+  withoutPhotos: number;
+  withoutPhotosShare: number;
+  /** Listings with photo, video and document URLs on the listing itself */
+  withPhotoUrls: number;
+  withVideos: number;
+  withDocuments: number;
+  /** Listings whose raw data carries an MLS photo count */
+  withReportedCount: number;
+  /** Photo totals over listings with a reported count */
+  reportedPhotos: number;
+  storedOfReported: number;
+  /** Listings storing fewer photos than the MLS reports */
+  missingPhotos: number;
+  storedPhotos: number;
+  /** Stored photos without an S3 copy, and their share of stored photos */
+  unmirroredPhotos: number;
+  unmirroredShare: number;
+  listingsUnmirrored: number;
+  /** Listings with a photo not checked in `staleAfterDays` days */
+  staleListings: number;
+  medianCheckAgeDays: number | null;
+  staleAfterDays: number;
+}
+
+export interface MediaAnalytics {
+  summary: MediaSummary;
+  /** Listings by photos missing against the MLS count */
+  photoGap: ChartData;
+  /** Stored photos by days since `lastChecked` */
+  checkAge: ChartData;
+  generatedAt: string;
+}
+
+export interface MediaAnalyticsResponse {
+  data: MediaAnalytics;
+  error?: string;
+}
+
+/**
+ * Why a listing needs its photos pulled again
+ * - `NO_PHOTOS`: no stored photo
+ * - `MISSING_PHOTOS`: fewer stored photos than the MLS reports
+ * - `NOT_MIRRORED`: a stored photo has no S3 copy
+ * - `STALE_CHECK`: a stored photo was not checked recently
+ */
+export type PhotoRepullReason = 'NO_PHOTOS' | 'MISSING_PHOTOS' | 'NOT_MIRRORED' | 'STALE_CHECK';
+
+export interface PhotoRepullQuery {
+  /** Only listings flagged for this reason; any reason when omitted */
+  reason?: PhotoRepullReason;
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+  limit: number;
+}
+
+export interface PhotoRepullRow {
+  id: string;
+  address: string;
+  city: string | null;
+  state: string | null;
+  status: ListingStatus;
+  mlsName: string | null;
+  reportedPhotos: number | null;
+  storedPhotos: number;
+  unmirroredPhotos: number;
+  oldestCheck: string | null;
+  lastPhotosPullAt: string | null;
+  photosPullStatus: DataPullStatus | null;
+  reasons: PhotoRepullReason[];
+}
+
+export interface PhotoRepullPage {
+  /** Listings pulled longest ago (or never) first */
+  listings: PhotoRepullRow[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  /** Matching listings across all pages; only computed for the first page */
+  total: number | null;
+}
+
+export interface PhotoRepullResponse {
+  data: PhotoRepullPage;
+  error?: string;
+}
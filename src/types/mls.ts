@@ -0,0 +1,56 @@
+export interface MlsVisibilityChange {
+  isHidden: boolean;
+  /** Required when hiding; kept as the latest explanation when unhiding */
+  reason: string | null;
+}
+
+export interface MlsVisibility {
+  mlsInstanceId: string;
+  isHidden: boolean;
+  reason: string | null;
+  hiddenAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface MlsScorecard extends MlsVisibility {
+  /** MlsInstanceDetails name, falling back to the name denormalized on listings */
+  name: string;
+  acronym: string | null;
+  logoUrl: string | null;
+  region: string | null;
+  state: string | null;
+  /** False when the instance only appears on listings or visibility rows */
+  hasDetails: boolean;
+  listingCount: number;
+  assumableCount: number;
+  /** Assumable listings / listings, 0-1 */
+  assumableShare: number;
+  averagePrice: number | null;
+  /** Most recent `lastMlsUpdate` across the instance's listings */
+  lastUpdate: string | null;
+  medianUpdateAgeHours: number | null;
+  /** Share of listings not updated within `STALE_UPDATE_DAYS`, 0-1 */
+  staleShare: number;
+  /** Share of listings with at least one active photo, 0-1 */
+  photoCoverage: number;
+  reportCount: number;
+  /** Reports per 100 listings */
+  reportRate: number;
+}
+
+export interface MlsScorecardData {
+  scorecards: MlsScorecard[];
+  /** Days without an MLS update after which a listing counts as stale */
+  staleAfterDays: number;
+  generatedAt: string;
+}
+
+export interface MlsScorecardResponse {
+  data: MlsScorecardData;
+  error?: string;
+}
+
+export interface MlsVisibilityResponse {
+  data: MlsVisibility;
+  error?: string;
+}
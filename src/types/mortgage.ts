@@ -0,0 +1,93 @@
+import { ChartData } from '@/types/dashboard';
+
+export interface MortgageSummary {
+  mortgages: number;
+  desirable: number;
+  /** Share of mortgages flagged `isAssumableDesirable` (0-1) */
+  desirableShare: number;
+  averageRate: number | null;
+  medianRate: number | null;
+  medianDownPayment: number | null;
+  /** Median down payment as a percent of the listing price */
+  medianPercentDown: number | null;
+  averageAllInPayment: number | null;
+  /** Market rate the spread is measured against, in percent */
+  benchmarkRate: number;
+  /** Benchmark minus the mortgage rate, in percentage points */
+  averageRateAdvantage: number | null;
+  medianRateAdvantage: number | null;
+  /** P&I at the benchmark rate on the same balance and remaining term, minus the current P&I */
+  averageMonthlySavings: number | null;
+  /** Mortgages with a down-payment threshold, and how many are within it */
+  withDownPaymentThreshold: number;
+  withinDownPaymentThreshold: number;
+}
+
+/** Desirability and rate advantage of mortgages grouped by a listing attribute */
+export interface DesirabilityGroup {
+  key: string;
+  mortgages: number;
+  desirable: number;
+  desirableShare: number;
+  averageRateAdvantage: number | null;
+}
+
+/** Average monthly cost components; `loanType` is null for the all-loans row */
+export interface PaymentComposition {
+  loanType: string | null;
+  mortgages: number;
+  principalAndInterest: number;
+  propertyTax: number;
+  insurance: number;
+  hoa: number;
+  pmi: number;
+  allIn: number;
+}
+
+/** Mortgages grouped by the year their loan was recorded */
+export interface VintageCohort {
+  year: number;
+  mortgages: number;
+  desirable: number;
+  averageRate: number | null;
+  /** Average years since the recording date */
+  averageAge: number | null;
+  /** Average current balance as a share of the loan's initial amount (0-1) */
+  averageRemainingBalanceShare: number | null;
+  /** Average share of the loan term already elapsed (0-1) */
+  averageTermElapsed: number | null;
+}
+
+/** The low-rate origination years as one cohort, compared with all other vintages */
+export interface LowRateVintage extends Omit<VintageCohort, 'year'> {
+  fromYear: number;
+  toYear: number;
+  /** Share of all mortgages that belong to this vintage (0-1) */
+  share: number;
+  /** Average rate of every mortgage outside the vintage */
+  otherAverageRate: number | null;
+  rateDistribution: ChartData;
+}
+
+export interface VintageAnalytics {
+  cohorts: VintageCohort[];
+  lowRate: LowRateVintage;
+}
+
+export interface MortgageAnalytics {
+  summary: MortgageSummary;
+  rateDistribution: ChartData;
+  rateAdvantageDistribution: ChartData;
+  downPaymentDistribution: ChartData;
+  /** Ten equal-width bins between the lowest and highest score */
+  desirabilityDistribution: ChartData;
+  desirableByState: DesirabilityGroup[];
+  desirableByMls: DesirabilityGroup[];
+  paymentComposition: PaymentComposition[];
+  vintages: VintageAnalytics;
+}
+
+export interface MortgageAnalyticsResponse {
+  data: MortgageAnalytics;
+  error?: string;
+}
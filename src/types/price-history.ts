@@ -0,0 +1,71 @@
+import type { ListingStatus, LoanType } from '@prisma/client';
+import { ChartData } from './dashboard';
+
+/** Loan type of the listing's assumable loan, or NONE when it has none */
+export type PriceHistorySegment = LoanType | 'NONE';
+
+export interface PriceChangeMetrics {
+  /** Listings with at least one ListingHistory row */
+  listings: number;
+  reducedListings: number;
+  /** Share of listings with at least one price cut (0-1) */
+  reductionFrequency: number;
+  averageReductionsPerListing: number;
+  /** Median size of a single price cut, in percent of the previous price */
+  medianCutPercent: number | null;
+  medianDaysToFirstReduction: number | null;
+  averageDaysToFirstReduction: number | null;
+  /** SOLD/CLOSED listings with a known original list price */
+  soldListings: number;
+  /** Final sold price divided by original list price */
+  medianListToFinalRatio: number | null;
+  averageListToFinalRatio: number | null;
+}
+
+export interface PriceHistorySegmentMetrics extends PriceChangeMetrics {
+  segment: PriceHistorySegment;
+}
+
+export interface PriceHistoryAnalytics {
+  overall: PriceChangeMetrics;
+  /** One row per assumable loan type plus NONE, largest first */
+  segments: PriceHistorySegmentMetrics[];
+  /** Size of individual price cuts */
+  cutDistribution: ChartData;
+  generatedAt: string;
+}
+
+export interface PriceHistoryResponse {
+  data: PriceHistoryAnalytics;
+  error?: string;
+}
+
+export interface ListingTimelineEntry {
+  id: string;
+  effectiveDate: string;
+  price: number;
+  status: ListingStatus;
+  changedFields: string[];
+  /** Change from the previous entry, null for the first one */
+  priceChange: number | null;
+  priceChangePercent: number | null;
+}
+
+export interface ListingTimeline {
+  listing: {
+    id: string;
+    address: string;
+    city: string | null;
+    state: string | null;
+    status: ListingStatus;
+    price: number;
+    listedAt: string | null;
+    loanType: LoanType | null;
+  };
+  entries: ListingTimelineEntry[];
+}
+
+export interface ListingTimelineResponse {
+  data: ListingTimeline;
+  error?: string;
+}
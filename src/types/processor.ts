@@ -0,0 +1,140 @@
+import type { ListingStatus, LoanType, PropertyType } from '@prisma/client';
+
+export type IssueSeverity = 'warning' | 'error';
+
+/**
+ * A problem found while normalizing one field of a raw record.
+ * Warnings are recoverable (a value was coerced or defaulted); errors mean the
+ * record could not be normalized.
+ */
+export interface ProcessingIssue {
+  field: string;
+  severity: IssueSeverity;
+  message: string;
+  rawValue?: unknown;
+}
+
+export interface ProcessingResult<T> {
+  sourceId: string;
+  /** Null when the record has at least one error */
+  record: T | null;
+  issues: ProcessingIssue[];
+}
+
+export interface ProcessingSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  warningCount: number;
+  errorCount: number;
+  /** Issue counts keyed by field, useful for spotting a broken feed mapping */
+  issuesByField: Record<string, number>;
+}
+
+export interface ProcessorPreview<T> {
+  summary: ProcessingSummary;
+  results: ProcessingResult<T>[];
+  /** True when more raw records matched than the requested limit */
+  truncated: boolean;
+}
+
+export interface ProcessorPreviewResponse<T> {
+  data: ProcessorPreview<T>;
+  error?: string;
+}
+
+/**
+ * A `Listing`-shaped object produced from a RawListingData record.
+ * Decimal columns are plain numbers so the result serializes to JSON.
+ */
+export interface NormalizedListing {
+  rawDataId: string;
+  rawDataHash: string;
+  mlsProviderId: string;
+  mlsInstanceId: string;
+  mlsListingId: string;
+  parcelNumber: string;
+  status: ListingStatus;
+  price: number;
+  propertyType: PropertyType;
+  propertySubType: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  squareFeet: number | null;
+  yearBuilt: number | null;
+  lotSizeSquareFeet: number | null;
+  lotSizeAcres: number | null;
+  stories: number | null;
+  address: string;
+  streetAddress: string | null;
+  unitNumber: string;
+  city: string | null;
+  state: string | null;
+  zipCode: string;
+  latitude: number;
+  longitude: number;
+  monthlyHoa: number | null;
+  hasPool: boolean | null;
+  listedAt: string | null;
+  lastStatusChange: string | null;
+  lastMlsUpdate: string | null;
+  photoUrls: string[];
+  agentName: string | null;
+  agentEmail: string | null;
+  agentPhone: string | null;
+  agentOfficeName: string | null;
+}
+
+/**
+ * `AssumableMortgage` fields derived by amortizing a loan to today and
+ * comparing the balance with the listing price.
+ */
+export interface DerivedAssumableMortgage {
+  currentBalance: number;
+  interestRate: number;
+  monthlyPayment: number;
+  remainingTerm: number;
+  downPayment: number;
+  percentDown: number;
+  monthlyPropertyTax: number;
+  monthlyInsurance: number;
+  monthlyHoa: number;
+  monthlyPmi: number;
+  monthlyAllInPayment: number;
+  /** Names of the cost fields that were estimated rather than taken from listing data */
+  estimatedFields: string[];
+}
+
+/**
+ * A `Loan`-shaped object produced from a RawLoanData payload
+ */
+export interface NormalizedLoan {
+  loanPosition: number;
+  loanType: LoanType;
+  purpose: string | null;
+  recordingDate: string;
+  concurrent: boolean;
+  initialAmount: number;
+  remainingBalance: number | null;
+  termYears: number | null;
+  totalPayments: number | null;
+  currentPeriod: number | null;
+  maturityDate: string | null;
+  lenderName: string;
+  rateType: string | null;
+  interestRate: number | null;
+  interestRateEstimated: boolean;
+  monthlyPayment: number | null;
+  isAssumable: boolean;
+  /** Present for assumable loans when a listing price was available */
+  assumableMortgage: DerivedAssumableMortgage | null;
+}
+
+export interface NormalizedLoanBundle {
+  rawLoanDataId: string;
+  parcelNumber: string | null;
+  zipCode: string | null;
+  unitNumber: string;
+  listingPrice: number | null;
+  loans: NormalizedLoan[];
+}
@@ -0,0 +1,117 @@
+import type { ListingReportReason, ListingStatus, ReporterType } from '@prisma/client';
+import type { ChartData } from '@/types/dashboard';
+import type { CorrectionInput, DataCorrectionRecord } from '@/types/corrections';
+
+/**
+ * Moderation status of a listing report. `ListingReport.status` is free text;
+ * values outside this set (older or hand-edited rows) are treated as PENDING.
+ */
+export type ReportStatus = 'PENDING' | 'CONFIRMED' | 'DISMISSED' | 'RESOLVED';
+
+export interface ReportQuery {
+  status?: ReportStatus;
+  reason?: ListingReportReason;
+  reporterType?: ReporterType;
+  listingId?: string;
+  /** Opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+  limit: number;
+}
+
+export interface ModerationReport {
+  id: string;
+  listingId: string;
+  userId: string;
+  reporterType: ReporterType;
+  reason: ListingReportReason;
+  details: string | null;
+  status: ReportStatus;
+  createdAt: string;
+  updatedAt: string;
+  listing: {
+    address: string;
+    city: string | null;
+    state: string | null;
+    status: ListingStatus;
+    /** MLS display name, falling back to the instance id */
+    mls: string;
+  };
+}
+
+export interface ReportPage {
+  reports: ModerationReport[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  /** Reports per status for the other filters; only computed for the first page */
+  statusCounts: Record<ReportStatus, number> | null;
+}
+
+export interface ReportStatusChange {
+  ids: string[];
+  status: ReportStatus;
+  /** Optional moderator note stored on the audit entries */
+  note: string | null;
+  updatedBy: string;
+}
+
+export interface ReportStatusChangeResult {
+  updated: string[];
+  /** Reports left untouched, with the reason */
+  skipped: Array<{ id: string; reason: string }>;
+}
+
+export type ReportFollowUp =
+  | { action: 'MARK_OFF_MARKET'; updatedBy: string; note: string | null }
+  | { action: 'CREATE_CORRECTION'; updatedBy: string; note: string | null; correction: CorrectionInput };
+
+export interface ReportFollowUpResult {
+  report: ModerationReport;
+  /** Listing status after the follow-up */
+  listingStatus: ListingStatus;
+  correction?: DataCorrectionRecord;
+}
+
+export interface ReportVolumeSeries {
+  /** Day labels (`YYYY-MM-DD`) shared by every reason series */
+  labels: string[];
+  /** Daily report counts per reason; reasons with no reports are omitted */
+  series: Partial<Record<ListingReportReason, number[]>>;
+}
+
+export interface ReportMlsCount {
+  mls: string;
+  total: number;
+  open: number;
+}
+
+export interface ReportAnalytics {
+  from: string;
+  to: string;
+  total: number;
+  byReason: ChartData;
+  volume: ReportVolumeSeries;
+  byMls: ReportMlsCount[];
+  /** Hours from filing to RESOLVED or DISMISSED, for reports closed so far */
+  resolutionTime: ChartData;
+  medianResolutionHours: number | null;
+}
+
+export interface ReportPageResponse {
+  data: ReportPage;
+  error?: string;
+}
+
+export interface ReportStatusChangeResponse {
+  data: ReportStatusChangeResult;
+  error?: string;
+}
+
+export interface ReportFollowUpResponse {
+  data: ReportFollowUpResult;
+  error?: string;
+}
+
+export interface ReportAnalyticsResponse {
+  data: ReportAnalytics;
+  error?: string;
+}
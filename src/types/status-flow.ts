@@ -0,0 +1,46 @@
+import type { StatusCategory } from '@/lib/listing-status';
+
+export interface StatusTransition {
+  from: StatusCategory;
+  to: StatusCategory;
+  count: number;
+}
+
+/**
+ * Listings that first became active inside the window, followed through the
+ * rest of their history
+ */
+export interface StatusFunnel {
+  listed: number;
+  underContract: number;
+  closed: number;
+  /** Went under contract and later returned to active */
+  fellThrough: number;
+  /** Ended off market without ever going under contract */
+  withdrawnBeforeContract: number;
+  /** Not under contract or closed yet */
+  stillOnMarket: number;
+  contractRate: number;
+  /** Closed as a share of listings that went under contract */
+  closeRate: number;
+  fallThroughRate: number;
+}
+
+export interface StatusFlow {
+  from: string;
+  to: string;
+  /** Category changes between consecutive ListingHistory rows dated in the window */
+  transitions: StatusTransition[];
+  matrix: {
+    categories: StatusCategory[];
+    /** counts[i][j] = transitions from categories[i] to categories[j] */
+    counts: number[][];
+  };
+  funnel: StatusFunnel;
+  generatedAt: string;
+}
+
+export interface StatusFlowResponse {
+  data: StatusFlow;
+  error?: string;
+}